@@ -0,0 +1,23 @@
+// Files of a static site archive (`claude-run-plus export-site`), relative to
+// its index.html. Shared with the web client, which reads them in place of
+// the API when the page sets ARCHIVE_FLAG.
+
+export const ARCHIVE_FLAG = "__CLAUDE_RUN_ARCHIVE__";
+
+export const ARCHIVE_FILES = {
+  sessions: "data/sessions.json",
+  projects: "data/projects.json",
+  sources: "data/sources.json",
+  searchIndex: "data/search-index.json",
+};
+
+/** Escapes anything but `[\w.-]` as `~` and four hex digits, so ids stay distinct and URL-safe. */
+function fileName(name: string): string {
+  return name.replace(/[^\w.-]/g, (char) => `~${char.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+/** One session's messages (`getConversation`), under its source and machine. */
+export function archiveConversationPath(sessionId: string, source: string, machine?: string): string {
+  const dirs = machine ? [source, machine] : [source];
+  return ["data", "conversations", ...dirs.map(fileName), `${fileName(sessionId)}.json`].join("/");
+}
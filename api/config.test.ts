@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "os";
+import { delimiter, join } from "path";
+import { readConfigFile, resolveConfig } from "./config";
+
+describe("config", () => {
+  test("CLI flags override config file values", () => {
+    const resolved = resolveConfig(
+      {
+        port: 13000,
+        searchDb: "~/cache/search.db",
+        maxLineBytes: 1048576,
+        sources: {
+          codex: { dir: "/data/codex" },
+          pi: { dir: "/data/pi" },
+          aider: { repos: ["/src/app", "/src/lib"] },
+          cursor: { enabled: false },
+          goose: { enabled: false },
+          claude: { machines: { laptop: "/sync/laptop/.claude" } },
+        },
+      },
+      {
+        port: "14000",
+        maxLineBytes: "2097152",
+        codexDir: "/other/codex",
+        enableSource: ["goose"],
+        disableSource: ["gemini"],
+        machine: ["claude:ci-runner-3=/sync/ci3/.claude"],
+      },
+    );
+
+    expect(resolved.port).toBe(14000);
+    expect(resolved.searchDbPath).toBe(join(homedir(), "cache", "search.db"));
+    expect(resolved.storage.sourceDirs).toEqual({
+      codex: "/other/codex",
+      pi: "/data/pi",
+      aider: ["/src/app", "/src/lib"].join(delimiter),
+    });
+    expect(resolved.storage.machineDirs).toEqual({
+      claude: { laptop: "/sync/laptop/.claude", "ci-runner-3": "/sync/ci3/.claude" },
+    });
+    expect(resolved.storage.disabledSources?.sort()).toEqual(["cursor", "gemini"]);
+    expect(resolved.storage.maxLineBytes).toBe(2097152);
+  });
+
+  test("rejects unknown sources and bad ports", () => {
+    expect(() => resolveConfig({ sources: { nope: { enabled: false } } })).toThrow("Unknown source nope");
+    expect(() => resolveConfig({}, { disableSource: ["nope"] })).toThrow("Unknown source nope");
+    expect(() => resolveConfig({ port: 0 })).toThrow("Invalid port");
+    expect(() => resolveConfig({}, { maxLineBytes: "lots" })).toThrow("Invalid max line size");
+    expect(() => resolveConfig({}, { machine: ["claude:local=/x"] })).toThrow("Invalid machine label");
+    expect(() => resolveConfig({}, { machine: ["claude=/x"] })).toThrow("Invalid --machine");
+    expect(() => resolveConfig({ prices: { "gpt-5": { input: 1 } as never } })).toThrow("Invalid price for gpt-5");
+  });
+
+  test("only an explicitly requested config file has to exist", () => {
+    expect(() => readConfigFile("/nonexistent/claude-run-plus.json")).toThrow("Config file not found");
+  });
+});
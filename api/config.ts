@@ -0,0 +1,234 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { delimiter, join, resolve } from "path";
+import type { SessionSource, StorageInitOptions } from "./storage";
+import { getRegisteredSources } from "./sources";
+import { getDefaultSearchDbPath, LOCAL_MACHINE } from "./search";
+import { DEFAULT_MAX_LINE_BYTES } from "./sources/jsonl";
+import type { ModelPrice } from "./usage";
+
+// Settings come from ~/.claude-run-plus/config.json (or --config), then CLI
+// flags on top. Example:
+//
+//   {
+//     "port": 12001,
+//     "searchDb": "~/.cache/claude-run-plus/search.db",
+//     "maxLineBytes": 16777216,
+//     "prices": { "claude-sonnet-4-5": { "input": 3, "output": 15, "cacheWrite": 3.75, "cacheRead": 0.3 } },
+//     "sources": {
+//       "claude": { "machines": { "laptop": "/sync/laptop/.claude", "ci-runner-3": "/sync/ci3/.claude" } },
+//       "codex": { "dir": "~/work/.codex" },
+//       "aider": { "repos": ["~/src/app", "~/src/lib"] },
+//       "cursor": { "enabled": false }
+//     }
+//   }
+
+export const DEFAULT_PORT = 12001;
+
+export interface SourceConfig {
+  enabled?: boolean;
+  dir?: string;
+  /** Aider only: repo roots to scan for chat history. */
+  repos?: string[];
+  /** Extra roots synced from other machines, keyed by machine label. */
+  machines?: Record<string, string>;
+}
+
+export interface ConfigFile {
+  port?: number;
+  searchDb?: string;
+  /** JSONL lines over this many bytes have their long strings truncated. */
+  maxLineBytes?: number;
+  sources?: Record<SessionSource, SourceConfig>;
+  /** USD per million tokens by model id (or id prefix), on top of the built-in table. */
+  prices?: Record<string, ModelPrice>;
+}
+
+/** The CLI flags that override config file values. */
+export interface ConfigOverrides {
+  port?: string;
+  maxLineBytes?: string;
+  dir?: string;
+  factoryDir?: string;
+  codexDir?: string;
+  piDir?: string;
+  aiderRepo?: string[];
+  clineDir?: string;
+  cursorDir?: string;
+  enableSource?: string[];
+  disableSource?: string[];
+  /** `source:label=path` specs. */
+  machine?: string[];
+}
+
+export interface ResolvedConfig {
+  /** Config file that was read, or null when none exists. */
+  configPath: string | null;
+  port: number;
+  searchDbPath: string;
+  storage: StorageInitOptions;
+  prices: Record<string, ModelPrice>;
+}
+
+export function getDefaultConfigPath(): string {
+  return join(homedir(), ".claude-run-plus", "config.json");
+}
+
+export function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return resolve(path);
+}
+
+/**
+ * Read a config file. A missing default file is fine; a missing file that was
+ * asked for explicitly is an error.
+ */
+export function readConfigFile(path?: string): { path: string | null; config: ConfigFile } {
+  const configPath = path ? expandHome(path) : getDefaultConfigPath();
+  if (!existsSync(configPath)) {
+    if (path) throw new Error(`Config file not found: ${configPath}`);
+    return { path: null, config: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid config file ${configPath}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid config file ${configPath}: expected a JSON object`);
+  }
+  return { path: configPath, config: parsed as ConfigFile };
+}
+
+function checkSourceIds(ids: string[], where: string): void {
+  const known = getRegisteredSources().map((adapter) => adapter.id);
+  const unknown = ids.filter((id) => !known.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown source ${unknown.join(", ")} in ${where} (expected one of: ${known.join(", ")})`);
+  }
+}
+
+const MACHINE_LABEL = /^[A-Za-z0-9._-]+$/;
+
+function checkMachineLabel(label: string): void {
+  if (!MACHINE_LABEL.test(label) || label === LOCAL_MACHINE) {
+    throw new Error(`Invalid machine label "${label}" (letters, digits, ".", "_" and "-"; "${LOCAL_MACHINE}" is reserved)`);
+  }
+}
+
+function parseMachineSpec(spec: string): { source: SessionSource; machine: string; dir: string } {
+  const match = spec.match(/^([^:=]+):([^=]+)=(.+)$/);
+  if (!match) throw new Error(`Invalid --machine "${spec}" (expected source:label=path)`);
+  return { source: match[1], machine: match[2], dir: match[3] };
+}
+
+function parseMaxLineBytes(value: unknown): number {
+  const bytes = typeof value === "number" ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(bytes) || bytes < 1024) {
+    throw new Error(`Invalid max line size: ${value} (at least 1024 bytes)`);
+  }
+  return bytes;
+}
+
+function parsePrices(value: unknown): Record<string, ModelPrice> {
+  if (value === undefined) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid prices: expected an object keyed by model id");
+  }
+  const checkRate = (model: string, field: string, rate: unknown, optional: boolean) => {
+    if (optional && rate === undefined) return;
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0) {
+      throw new Error(`Invalid price for ${model}: ${field} must be a non-negative number (USD per million tokens)`);
+    }
+  };
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(value as Record<string, Partial<ModelPrice> | null>)) {
+    checkRate(model, "input", price?.input, false);
+    checkRate(model, "output", price?.output, false);
+    checkRate(model, "cacheWrite", price?.cacheWrite, true);
+    checkRate(model, "cacheRead", price?.cacheRead, true);
+    prices[model.toLowerCase()] = price as ModelPrice;
+  }
+  return prices;
+}
+
+function parsePort(value: unknown): number {
+  const port = typeof value === "number" ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
+  }
+  return port;
+}
+
+export function resolveConfig(
+  file: ConfigFile,
+  overrides: ConfigOverrides = {},
+  configPath: string | null = null,
+): ResolvedConfig {
+  const fileSources = file.sources ?? {};
+  checkSourceIds(Object.keys(fileSources), "config file");
+  checkSourceIds([...(overrides.enableSource ?? []), ...(overrides.disableSource ?? [])], "--enable-source/--disable-source");
+
+  const sourceDirs: Record<SessionSource, string> = {};
+  for (const [source, settings] of Object.entries(fileSources)) {
+    if (settings.repos?.length) {
+      sourceDirs[source] = settings.repos.map(expandHome).join(delimiter);
+    } else if (settings.dir) {
+      sourceDirs[source] = expandHome(settings.dir);
+    }
+  }
+
+  const flagDirs: Record<SessionSource, string | undefined> = {
+    claude: overrides.dir,
+    factory: overrides.factoryDir,
+    codex: overrides.codexDir,
+    pi: overrides.piDir,
+    cline: overrides.clineDir,
+    cursor: overrides.cursorDir,
+    aider: overrides.aiderRepo?.length ? overrides.aiderRepo.map(expandHome).join(delimiter) : undefined,
+  };
+  for (const [source, dir] of Object.entries(flagDirs)) {
+    if (dir) sourceDirs[source] = source === "aider" ? dir : expandHome(dir);
+  }
+
+  const machineDirs: Record<SessionSource, Record<string, string>> = {};
+  const addMachine = (source: SessionSource, machine: string, dir: string) => {
+    checkMachineLabel(machine);
+    machineDirs[source] = { ...machineDirs[source], [machine]: expandHome(dir) };
+  };
+  for (const [source, settings] of Object.entries(fileSources)) {
+    for (const [machine, dir] of Object.entries(settings.machines ?? {})) addMachine(source, machine, dir);
+  }
+  const machineSpecs = (overrides.machine ?? []).map(parseMachineSpec);
+  checkSourceIds(machineSpecs.map((spec) => spec.source), "--machine");
+  for (const spec of machineSpecs) addMachine(spec.source, spec.machine, spec.dir);
+
+  const disabled = new Set(
+    Object.entries(fileSources)
+      .filter(([, settings]) => settings.enabled === false)
+      .map(([source]) => source),
+  );
+  for (const source of overrides.enableSource ?? []) disabled.delete(source);
+  for (const source of overrides.disableSource ?? []) disabled.add(source);
+
+  return {
+    configPath,
+    port: parsePort(overrides.port ?? file.port ?? DEFAULT_PORT),
+    searchDbPath: file.searchDb ? expandHome(file.searchDb) : getDefaultSearchDbPath(),
+    storage: {
+      sourceDirs,
+      machineDirs,
+      disabledSources: [...disabled],
+      maxLineBytes: parseMaxLineBytes(overrides.maxLineBytes ?? file.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES),
+    },
+    prices: parsePrices(file.prices),
+  };
+}
+
+export function loadConfig(overrides: ConfigOverrides & { config?: string } = {}): ResolvedConfig {
+  const { path, config } = readConfigFile(overrides.config);
+  return resolveConfig(config, overrides, path);
+}
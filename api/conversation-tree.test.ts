@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import type { ConversationMessage } from "./storage";
+import { resolveConversationPath } from "./conversation-tree";
+
+const msg = (uuid: string, parentUuid: string | null | undefined, type: "user" | "assistant" = "user"): ConversationMessage => ({
+  type,
+  uuid,
+  parentUuid,
+  message: { role: type, content: uuid },
+});
+
+const uuids = (messages: ConversationMessage[]) => messages.map((m) => m.uuid);
+
+describe("resolveConversationPath", () => {
+  // u1 → a1 → u2 → a2, then the user rewound to a1 and asked again: u2b → a2b → u3b
+  const messages = [
+    msg("u1", null),
+    msg("a1", "u1", "assistant"),
+    msg("u2", "a1"),
+    msg("a2", "u2", "assistant"),
+    msg("u2b", "a1"),
+    msg("a2b", "u2b", "assistant"),
+    msg("u3b", "a2b"),
+  ];
+
+  test("follows the most recent branch by default", () => {
+    const { messages: path, branchPoints } = resolveConversationPath(messages);
+    expect(uuids(path)).toEqual(["u1", "a1", "u2b", "a2b", "u3b"]);
+    expect(branchPoints).toEqual([
+      {
+        parentUuid: "a1",
+        branches: [
+          { uuid: "u2", leafUuid: "a2", messageCount: 2, timestamp: undefined },
+          { uuid: "u2b", leafUuid: "u3b", messageCount: 3, timestamp: undefined },
+        ],
+        activeIndex: 1,
+      },
+    ]);
+  });
+
+  test("switches to a sibling branch down to its latest leaf", () => {
+    const { messages: path, branchPoints } = resolveConversationPath(messages, "u2");
+    expect(uuids(path)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(branchPoints[0].activeIndex).toBe(0);
+  });
+
+  test("keeps unlinked messages in file order", () => {
+    const linear = [msg("c0", undefined), msg("c1", undefined, "assistant"), msg("c2", "missing")];
+    const summary: ConversationMessage = { type: "summary", summary: "Title" };
+    const { messages: path, branchPoints } = resolveConversationPath([summary, ...linear]);
+    expect(path).toEqual([summary, ...linear]);
+    expect(branchPoints).toEqual([]);
+  });
+
+  test("keeps parallel tool calls and their results on one branch", () => {
+    const toolUse = (uuid: string, parentUuid: string, id: string): ConversationMessage => ({
+      type: "assistant",
+      uuid,
+      parentUuid,
+      message: { role: "assistant", content: [{ type: "tool_use", id, name: "Read", input: {} }] },
+    });
+    const toolResult = (uuid: string, parentUuid: string, id: string, source?: string): ConversationMessage => ({
+      type: "user",
+      uuid,
+      parentUuid,
+      sourceToolAssistantUUID: source,
+      message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content: "ok" }] },
+    });
+    // As Claude Code writes them: calls chained, each result under its call,
+    // the reply after the last result; then a rewind to u1's reply asks again
+    const parallel = [
+      msg("u1", null),
+      toolUse("t1", "u1", "call1"),
+      toolUse("t2", "t1", "call2"),
+      toolResult("r1", "t1", "call1", "t1"),
+      toolResult("r2", "t2", "call2"),
+      msg("a1", "r2", "assistant"),
+      msg("u2", "a1"),
+      msg("a2", "u2", "assistant"),
+      msg("u2b", "a1"),
+    ];
+
+    const { messages: path, branchPoints } = resolveConversationPath(parallel);
+    expect(uuids(path)).toEqual(["u1", "t1", "t2", "r1", "r2", "a1", "u2b"]);
+    expect(branchPoints.map((point) => [point.parentUuid, point.branches.map((b) => b.uuid), point.activeIndex])).toEqual([
+      ["a1", ["u2", "u2b"], 1],
+    ]);
+
+    expect(uuids(resolveConversationPath(parallel, "u2").messages)).toEqual(["u1", "t1", "t2", "r1", "r2", "a1", "u2", "a2"]);
+  });
+});
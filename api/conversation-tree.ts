@@ -0,0 +1,174 @@
+import type { ConversationMessage } from "./storage";
+
+// Claude links messages by uuid/parentUuid and Pi by id/parentId, so a rewind
+// or an edited prompt leaves several branches in one file. This rebuilds the
+// tree and picks one root-to-leaf path. It has no runtime imports so the web
+// client can use it on streamed messages too.
+//
+// A message whose parent is unknown (or that has no links at all, as in the
+// line-based sources) continues from the message before it; only an explicit
+// null parent starts a new root.
+
+export interface ConversationBranch {
+  /** First message of the branch. */
+  uuid: string;
+  /** Most recent message under it, where the branch is shown up to. */
+  leafUuid: string;
+  /** Messages from the branch's first message to its leaf. */
+  messageCount: number;
+  timestamp?: string;
+}
+
+export interface BranchPoint {
+  /** Message the branches fork from, or null when they are separate starts. */
+  parentUuid: string | null;
+  /** In file order, so the last one is the most recently started. */
+  branches: ConversationBranch[];
+  /** Index in `branches` of the branch on the returned path. */
+  activeIndex: number;
+}
+
+export interface ConversationPath {
+  /** Messages outside the tree (summaries, ...) followed by the path. */
+  messages: ConversationMessage[];
+  branchPoints: BranchPoint[];
+}
+
+interface TreeNode {
+  message: ConversationMessage;
+  /** Position among the tree messages, in file order. */
+  index: number;
+  parent: TreeNode | null;
+  children: TreeNode[];
+  /** File index of the most recent message in this subtree, always a leaf. */
+  latest: number;
+}
+
+function isTreeMessage(message: ConversationMessage): boolean {
+  return message.type === "user" || message.type === "assistant" || message.type === "compaction";
+}
+
+/**
+ * Whether the message starts a new turn: a prompt or a reply. Claude writes
+ * parallel tool calls as a chain of `tool_use` lines with each result hanging
+ * off its call, so calls and results are siblings without being branches.
+ */
+function isRestart(message: ConversationMessage): boolean {
+  const content = message.message?.content;
+  if (!Array.isArray(content) || content.length === 0) return true;
+  if (message.type === "assistant") return !content.some((block) => block.type === "tool_use");
+  if (message.type === "user") return !content.every((block) => block.type === "tool_result");
+  return true;
+}
+
+/** Ids of the tool calls a `tool_result` line answers. */
+function toolResultIds(message: ConversationMessage): string[] {
+  const content = message.message?.content;
+  if (message.type !== "user" || !Array.isArray(content)) return [];
+  return content.flatMap((block) => (block.type === "tool_result" && block.tool_use_id ? [block.tool_use_id] : []));
+}
+
+/**
+ * The path through `messages` (in file order) ending at the most recent
+ * message, or at the latest leaf under message `branch` when given. Tool
+ * calls and results under a message on the path stay on it; only sibling
+ * prompts or replies are alternatives, of which the path takes one.
+ */
+export function resolveConversationPath(messages: ConversationMessage[], branch?: string): ConversationPath {
+  const others: ConversationMessage[] = [];
+  const nodes: TreeNode[] = [];
+  const roots: TreeNode[] = [];
+  const byUuid = new Map<string, TreeNode>();
+  const byToolUseId = new Map<string, TreeNode>();
+
+  for (const message of messages) {
+    if (!isTreeMessage(message)) {
+      others.push(message);
+      continue;
+    }
+
+    // A result belongs under the line holding its call, wherever it was written
+    const resultIds = toolResultIds(message);
+    const toolCall =
+      (message.sourceToolAssistantUUID && byUuid.get(message.sourceToolAssistantUUID)) ||
+      resultIds.map((id) => byToolUseId.get(id)).find((node) => node);
+    const previous = nodes.length > 0 ? nodes[nodes.length - 1] : null;
+    const parent =
+      message.parentUuid === null
+        ? null
+        : toolCall || (message.parentUuid && byUuid.get(message.parentUuid)) || previous;
+    const node: TreeNode = { message, index: nodes.length, parent, children: [], latest: nodes.length };
+    (parent ? parent.children : roots).push(node);
+    nodes.push(node);
+    if (message.uuid && !byUuid.has(message.uuid)) byUuid.set(message.uuid, node);
+
+    const content = message.message?.content;
+    if (message.type === "assistant" && Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type === "tool_use" && block.id && !byToolUseId.has(block.id)) byToolUseId.set(block.id, node);
+      }
+    }
+  }
+
+  if (nodes.length === 0) return { messages, branchPoints: [] };
+
+  // Children always come after their parent, so one backwards pass is enough
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const { parent, latest } = nodes[i];
+    if (parent && parent.latest < latest) parent.latest = latest;
+  }
+
+  const start = (branch && byUuid.get(branch)) || nodes[nodes.length - 1];
+  const target = new Set<TreeNode>();
+  for (let node: TreeNode | null = nodes[start.latest]; node; node = node.parent) target.add(node);
+
+  // Alternatives leading to the target win, else the most recent one
+  const choose = (alternatives: TreeNode[]): TreeNode =>
+    alternatives.find((node) => target.has(node)) ??
+    alternatives.reduce((best, node) => (node.latest > best.latest ? node : best));
+
+  /** Every message shown under `top`, taking one alternative at each fork. */
+  const collect = (top: TreeNode[], onFork?: (parent: TreeNode | null, alternatives: TreeNode[], active: TreeNode) => void) => {
+    const shown: TreeNode[] = [];
+    const pending: Array<{ parent: TreeNode | null; children: TreeNode[] }> = [{ parent: top[0]?.parent ?? null, children: top }];
+    while (pending.length > 0) {
+      const { parent, children } = pending.pop()!;
+      const alternatives = children.filter((node) => isRestart(node.message));
+      let kept = children;
+      if (alternatives.length > 1) {
+        const active = choose(alternatives);
+        kept = children.filter((node) => node === active || !alternatives.includes(node));
+        onFork?.(parent, alternatives, active);
+      }
+      for (const child of kept) {
+        shown.push(child);
+        pending.push({ parent: child, children: child.children });
+      }
+    }
+    return shown.sort((a, b) => a.index - b.index);
+  };
+
+  const toBranch = (node: TreeNode): ConversationBranch => ({
+    uuid: node.message.uuid ?? "",
+    leafUuid: nodes[node.latest].message.uuid ?? "",
+    messageCount: collect([node]).length,
+    timestamp: node.message.timestamp,
+  });
+
+  const forks: Array<{ order: number; point: BranchPoint }> = [];
+  const path = collect(roots, (parent, alternatives, active) => {
+    // Branches are only addressable by uuid
+    if (alternatives.some((node) => !node.message.uuid)) return;
+    forks.push({
+      order: parent ? parent.index : -1,
+      point: {
+        parentUuid: parent?.message.uuid ?? null,
+        branches: alternatives.map(toBranch),
+        activeIndex: alternatives.indexOf(active),
+      },
+    });
+  });
+  const branchPoints = forks.sort((a, b) => a.order - b.order).map((fork) => fork.point);
+
+  return { messages: [...others, ...path.map((n) => n.message)], branchPoints };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ConversationMessage, Session } from "./storage";
+import { findCommitSessions, getSessionCommits, matchSessionCommits, parseGitLog, sessionWindow } from "./git-commits";
+
+const record = (hash: string, date: string, subject: string, files: string[]) =>
+  `\x1e${hash}\x1f${hash.slice(0, 7)}\x1fDev\x1f${date}\x1f${subject}\n\n${files.join("\n")}\n`;
+
+describe("git commit correlation", () => {
+  const log =
+    record("a".repeat(40), "2026-03-01T10:20:00+00:00", "Fix parser", ["src/parser.ts", "README.md"]) +
+    record("b".repeat(40), "2026-03-01T12:00:00+00:00", "Follow-up", ["src/parser.ts"]) +
+    record("c".repeat(40), "2026-03-01T12:00:00+00:00", "Unrelated", ["docs/x.md"]) +
+    record("d".repeat(40), "2026-03-01T10:05:00+00:00", "Merge", []);
+
+  test("parses name-only log output", () => {
+    const commits = parseGitLog(log);
+    expect(commits.map((c) => [c.shortHash, c.subject, c.files])).toEqual([
+      ["aaaaaaa", "Fix parser", ["src/parser.ts", "README.md"]],
+      ["bbbbbbb", "Follow-up", ["src/parser.ts"]],
+      ["ccccccc", "Unrelated", ["docs/x.md"]],
+      ["ddddddd", "Merge", []],
+    ]);
+  });
+
+  test("matches commits by time window and changed files", () => {
+    const messages: ConversationMessage[] = [
+      { type: "summary", summary: "no timestamp" },
+      { type: "user", timestamp: "2026-03-01T10:00:00Z", message: { role: "user", content: "fix it" } },
+      { type: "assistant", timestamp: "2026-03-01T10:10:00Z", message: { role: "assistant", content: "done" } },
+    ];
+    const window = sessionWindow(messages, 0);
+    expect(window).toEqual({ start: Date.parse("2026-03-01T10:00:00Z"), end: Date.parse("2026-03-01T10:10:00Z") });
+
+    const matches = matchSessionCommits(parseGitLog(log), window, "/repo", new Set(["/repo/src/parser.ts"]));
+    expect(matches.map((c) => [c.subject, c.matchedBy, c.matchedFiles])).toEqual([
+      ["Fix parser", ["time", "files"], ["src/parser.ts"]],
+      ["Follow-up", ["files"], ["src/parser.ts"]],
+      ["Merge", ["time"], []],
+    ]);
+  });
+
+  test("skips sessions synced from another machine", async () => {
+    // This checkout is a git repo, but the path belongs to the other host
+    const session = {
+      id: "s1",
+      display: "Fix parser",
+      timestamp: Date.now(),
+      project: process.cwd(),
+      projectName: "tree",
+      source: "claude" as const,
+      machine: "laptop",
+    };
+    expect(await getSessionCommits(session, [])).toEqual({ repo: null, commits: [] });
+  });
+
+  test("finds the sessions behind a commit", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "claude-run-plus-commits-"));
+    try {
+      const date = "2026-03-01T10:20:00Z";
+      const env = { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date };
+      const run = (...args: string[]) => Bun.spawnSync(["git", "-c", "user.name=Dev", "-c", "user.email=dev@example.com", ...args], { cwd: repo, env });
+      run("init", "-q");
+      await writeFile(join(repo, "parser.ts"), "export {};\n");
+      run("add", ".");
+      run("commit", "-q", "-m", "Fix parser");
+      const hash = new TextDecoder().decode(run("rev-parse", "HEAD").stdout).trim();
+
+      const session = (id: string, timestamp: string, machine?: string): Session => ({
+        id,
+        display: id,
+        timestamp: Date.parse(timestamp),
+        project: repo,
+        projectName: "repo",
+        source: "claude",
+        machine,
+      });
+      const messages: Record<string, ConversationMessage[]> = {
+        writer: [
+          { type: "user", timestamp: "2026-03-01T10:00:00Z", message: { role: "user", content: "fix it" } },
+          {
+            type: "assistant",
+            timestamp: "2026-03-01T10:10:00Z",
+            message: { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Write", input: { file_path: join(repo, "parser.ts"), content: "export {};\n" } }] },
+          },
+        ],
+        later: [{ type: "user", timestamp: "2026-03-02T09:00:00Z", message: { role: "user", content: "next" } }],
+      };
+      const loaded: string[] = [];
+      const result = await findCommitSessions(
+        hash.slice(0, 7),
+        [
+          session("writer", "2026-03-01T10:10:00Z"),
+          session("later", "2026-03-02T09:00:00Z"),
+          session("earlier", "2026-02-20T10:00:00Z"),
+          session("synced", "2026-03-01T10:10:00Z", "laptop"),
+        ],
+        async (s) => {
+          loaded.push(s.id);
+          return messages[s.id] ?? [];
+        },
+      );
+
+      expect(result.commit).toMatchObject({ hash, subject: "Fix parser", files: ["parser.ts"] });
+      expect(result.sessions.map((s) => [s.session.id, s.matchedBy, s.matchedFiles])).toEqual([
+        ["writer", ["time", "files"], ["parser.ts"]],
+      ]);
+      // Sessions that ended a day before the commit are never parsed
+      expect(loaded).toEqual(["writer", "later"]);
+
+      expect((await findCommitSessions("--all", [session("writer", date)], async () => [])).commit).toBeNull();
+    } finally {
+      await rm(repo, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import type { ConversationMessage, Session } from "./storage";
+import { extractSessionFiles } from "./session-files";
+
+// Commits that probably came out of a session: made in the session's project
+// repo while it ran or shortly after, or touching files the session changed.
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  /** Committer date, ISO 8601. */
+  date: string;
+  subject: string;
+  /** Changed paths, relative to the repo root. */
+  files: string[];
+}
+
+export type CommitMatch = "time" | "files";
+
+export interface SessionCommit extends GitCommit {
+  matchedBy: CommitMatch[];
+  /** Changed paths the session also wrote, edited or deleted. */
+  matchedFiles: string[];
+}
+
+export interface SessionCommits {
+  /** Repo root, or null when the project is not a git repo. */
+  repo: string | null;
+  commits: SessionCommit[];
+}
+
+export interface CommitSession {
+  session: Session;
+  matchedBy: CommitMatch[];
+  matchedFiles: string[];
+}
+
+export interface CommitSessions {
+  /** Null when no local session's repo has the commit. */
+  commit: GitCommit | null;
+  repo: string | null;
+  sessions: CommitSession[];
+}
+
+/** Commits within this long after the session's last message match on time alone. */
+const TIME_SLACK_MS = 30 * 60 * 1000;
+/** Commits sharing changed files match up to this long after the session. */
+const FILE_SLACK_MS = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 60 * 1000;
+const COMMIT_HASH = /^[0-9a-f]{4,40}$/i;
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+const LOG_FORMAT = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%h${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%s`;
+
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const proc = Bun.spawn(["git", ...args], { cwd, stdout: "pipe", stderr: "ignore", timeout: 10_000 });
+    const [output, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+    return exitCode === 0 ? output : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Output of `git log --name-only` with `LOG_FORMAT`. */
+export function parseGitLog(output: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [header, ...files] = record.split("\n");
+    const [hash, shortHash, author, date, subject] = header.split(FIELD_SEPARATOR);
+    if (!hash || !date) continue;
+    commits.push({ hash, shortHash, author, date, subject: subject ?? "", files: files.filter(Boolean) });
+  }
+  return commits;
+}
+
+export interface SessionWindow {
+  start: number;
+  end: number;
+}
+
+/** First and last message times, or the session's own timestamp when messages have none. */
+export function sessionWindow(messages: ConversationMessage[], fallbackTimestamp: number): SessionWindow {
+  let start = Infinity;
+  let end = -Infinity;
+  for (const message of messages) {
+    const time = message.timestamp ? new Date(message.timestamp).getTime() : NaN;
+    if (Number.isNaN(time)) continue;
+    start = Math.min(start, time);
+    end = Math.max(end, time);
+  }
+  return Number.isFinite(start) ? { start, end } : { start: fallbackTimestamp, end: fallbackTimestamp };
+}
+
+/**
+ * Commits in the window (plus `TIME_SLACK_MS`) or sharing changed files with
+ * `changedFiles` (absolute paths), file matches first, then oldest first.
+ */
+export function matchSessionCommits(
+  commits: GitCommit[],
+  window: SessionWindow,
+  repoRoot: string,
+  changedFiles: Set<string>,
+): SessionCommit[] {
+  const matches: SessionCommit[] = [];
+  for (const commit of commits) {
+    const time = new Date(commit.date).getTime();
+    if (Number.isNaN(time) || time < window.start || time > window.end + FILE_SLACK_MS) continue;
+
+    const matchedFiles = commit.files.filter((file) => changedFiles.has(join(repoRoot, file)));
+    const matchedBy: CommitMatch[] = [];
+    if (time <= window.end + TIME_SLACK_MS) matchedBy.push("time");
+    if (matchedFiles.length > 0) matchedBy.push("files");
+    if (matchedBy.length > 0) matches.push({ ...commit, matchedBy, matchedFiles });
+  }
+  return matches.sort(
+    (a, b) =>
+      Number(b.matchedBy.includes("files")) - Number(a.matchedBy.includes("files")) ||
+      new Date(a.date).getTime() - new Date(b.date).getTime(),
+  );
+}
+
+const cache = new Map<string, { at: number; result: SessionCommits }>();
+
+/** Reads the git log of the session's project; cached briefly since new commits can still land. */
+export async function getSessionCommits(session: Session, messages: ConversationMessage[]): Promise<SessionCommits> {
+  const key = `${session.source}@${session.machine ?? ""}:${session.id}:${session.timestamp}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.result;
+
+  const result = await readSessionCommits(session, messages);
+  for (const [cachedKey, entry] of cache) {
+    if (Date.now() - entry.at >= CACHE_TTL_MS) cache.delete(cachedKey);
+  }
+  cache.set(key, { at: Date.now(), result });
+  return result;
+}
+
+async function readSessionCommits(session: Session, messages: ConversationMessage[]): Promise<SessionCommits> {
+  // A synced session's project path names a directory on its own host, not this one
+  if (session.machine) return { repo: null, commits: [] };
+  if (!session.project || !existsSync(session.project)) return { repo: null, commits: [] };
+  const repo = (await git(session.project, ["rev-parse", "--show-toplevel"]))?.trim();
+  if (!repo) return { repo: null, commits: [] };
+
+  const window = sessionWindow(messages, session.timestamp);
+  const log = await git(repo, [
+    "log",
+    "--all",
+    "--name-only",
+    `--format=${LOG_FORMAT}`,
+    `--since=${new Date(window.start).toISOString()}`,
+    `--until=${new Date(window.end + FILE_SLACK_MS).toISOString()}`,
+  ]);
+  if (!log) return { repo, commits: [] };
+
+  return { repo, commits: matchSessionCommits(parseGitLog(log), window, repo, changedFiles(messages, session.project)) };
+}
+
+function changedFiles(messages: ConversationMessage[], project: string): Set<string> {
+  return new Set(
+    extractSessionFiles(messages, project)
+      .filter((touch) => touch.operation !== "read" && touch.operation !== "search")
+      .map((touch) => touch.path),
+  );
+}
+
+/**
+ * The reverse of `getSessionCommits`: local sessions whose project repo has
+ * commit `ref` and that it matches by time or changed files, file matches
+ * first, then newest first.
+ */
+export async function findCommitSessions(
+  ref: string,
+  sessions: Session[],
+  loadMessages: (session: Session) => Promise<ConversationMessage[]>,
+): Promise<CommitSessions> {
+  // Only hashes, so the ref can never be read as an option
+  if (!COMMIT_HASH.test(ref)) return { commit: null, repo: null, sessions: [] };
+  const repos = new Map<string, string | null>();
+  const commits = new Map<string, GitCommit | null>();
+  let found: { repo: string; commit: GitCommit } | null = null;
+  const matches: CommitSession[] = [];
+
+  for (const session of sessions) {
+    if (session.machine || !session.project || !existsSync(session.project)) continue;
+    if (!repos.has(session.project)) {
+      repos.set(session.project, (await git(session.project, ["rev-parse", "--show-toplevel"]))?.trim() || null);
+    }
+    const repo = repos.get(session.project);
+    if (!repo) continue;
+    if (!commits.has(repo)) {
+      const log = await git(repo, ["log", "-1", "--name-only", `--format=${LOG_FORMAT}`, ref, "--"]);
+      commits.set(repo, log ? parseGitLog(log)[0] ?? null : null);
+    }
+    const commit = commits.get(repo);
+    if (!commit) continue;
+    found ??= { repo, commit };
+
+    // A session whose last message is over FILE_SLACK_MS before the commit cannot match
+    if (session.timestamp < new Date(commit.date).getTime() - FILE_SLACK_MS) continue;
+    const messages = await loadMessages(session);
+    const [match] = matchSessionCommits(
+      [commit],
+      sessionWindow(messages, session.timestamp),
+      repo,
+      changedFiles(messages, session.project),
+    );
+    if (match) matches.push({ session, matchedBy: match.matchedBy, matchedFiles: match.matchedFiles });
+  }
+
+  matches.sort(
+    (a, b) =>
+      Number(b.matchedBy.includes("files")) - Number(a.matchedBy.includes("files")) ||
+      b.session.timestamp - a.session.timestamp,
+  );
+  return { commit: found?.commit ?? null, repo: found?.repo ?? null, sessions: matches };
+}
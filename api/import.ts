@@ -0,0 +1,89 @@
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import type { SessionSource } from "./storage";
+import { getSourceRoot } from "./sources";
+import { IMPORT_MARKER } from "./sources/imported";
+import { isClaudeWebConversation } from "./sources/claude-web";
+import { isChatGptConversation } from "./sources/chatgpt";
+
+export interface ImportResult {
+  imported: Record<string, number>;
+  unchanged: number;
+  skipped: number;
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+function classifyConversation(value: unknown): { source: SessionSource; id?: string } | null {
+  if (isClaudeWebConversation(value)) {
+    return { source: "claude-web", id: value.uuid };
+  }
+  if (isChatGptConversation(value)) {
+    return { source: "chatgpt", id: value.conversation_id || value.id };
+  }
+  return null;
+}
+
+async function isUnchanged(filePath: string, serialized: string): Promise<boolean> {
+  try {
+    const existing = await stat(filePath);
+    if (existing.size !== Buffer.byteLength(serialized)) return false;
+    return (await readFile(filePath, "utf-8")) === serialized;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store each conversation of a claude.ai or ChatGPT `conversations.json`
+ * export under its source's import root. Re-importing a newer export
+ * overwrites conversations that changed and leaves the rest alone.
+ */
+export async function importConversations(data: unknown): Promise<ImportResult> {
+  if (!Array.isArray(data)) {
+    throw new Error("Expected the conversations.json array from a claude.ai or ChatGPT export");
+  }
+
+  const result: ImportResult = { imported: {}, unchanged: 0, skipped: 0 };
+  const touchedRoots = new Set<string>();
+
+  for (const conversation of data) {
+    const classified = classifyConversation(conversation);
+    if (!classified?.id || !SAFE_ID.test(classified.id)) {
+      result.skipped++;
+      continue;
+    }
+
+    const root = getSourceRoot(classified.source);
+    const filePath = join(root, `${classified.id}.json`);
+    const serialized = JSON.stringify(conversation);
+
+    if (await isUnchanged(filePath, serialized)) {
+      result.unchanged++;
+      continue;
+    }
+
+    await mkdir(root, { recursive: true });
+    await writeFile(filePath, serialized);
+    touchedRoots.add(root);
+    result.imported[classified.source] = (result.imported[classified.source] ?? 0) + 1;
+  }
+
+  for (const root of touchedRoots) {
+    await writeFile(join(root, IMPORT_MARKER), new Date().toISOString());
+  }
+
+  return result;
+}
+
+/** Accepts a `conversations.json` file or an unzipped export directory containing one. */
+export async function importConversationsFile(path: string): Promise<ImportResult> {
+  let filePath = path;
+  if ((await stat(path)).isDirectory()) {
+    filePath = join(path, "conversations.json");
+  } else if (path.endsWith(".zip")) {
+    throw new Error("Unzip the export first and pass its conversations.json (or the unzipped folder)");
+  }
+
+  return importConversations(JSON.parse(await readFile(filePath, "utf-8")));
+}
@@ -1,7 +1,10 @@
 #!/usr/bin/env bun
 import { program } from "commander";
-import { createServer } from "./server";
-import { homedir } from "os";
+import { createServer, getWebDistPath } from "./server";
+import { importConversationsFile } from "./import";
+import { exportSite } from "./site-export";
+import { initStorage } from "./storage";
+import { loadConfig, type ConfigOverrides, type ResolvedConfig } from "./config";
 import { join } from "path";
 import { readFileSync } from "fs";
 
@@ -15,48 +18,147 @@ function getVersion(): string {
   }
 }
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function collectList(value: string, previous: string[]): string[] {
+  return [...previous, ...value.split(",").map((v) => v.trim()).filter(Boolean)];
+}
+
+function loadConfigOrExit(opts: ConfigOverrides & { config?: string }): ResolvedConfig {
+  try {
+    return loadConfig(opts);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
 program
   .name("claude-run-plus")
   .description(
     "A beautiful web UI for browsing Claude Code conversation history"
   )
   .version(getVersion())
-  .option("-p, --port <number>", "Port to listen on", "12001")
+  .option("-c, --config <path>", "Config file (default: ~/.claude-run-plus/config.json)")
+  .option("-p, --port <number>", "Port to listen on (default: 12001)")
+  .option("-d, --dir <path>", "Claude directory path (default: ~/.claude)")
+  .option("--factory-dir <path>", "Factory directory path (default: ~/.factory)")
+  .option("--codex-dir <path>", "Codex directory path (default: ~/.codex)")
+  .option("--pi-dir <path>", "Pi agent directory path (default: ~/.pi/agent)")
+  .option(
+    "--aider-repo <path>",
+    "Repo root to scan for Aider chat history (repeatable)",
+    collect,
+    [] as string[]
+  )
+  .option(
+    "--cline-dir <path>",
+    "VS Code globalStorage directory with Cline / Roo Code tasks"
+  )
+  .option("--cursor-dir <path>", "Cursor user data directory (contains globalStorage)")
+  .option(
+    "--machine <source:label=path>",
+    "Extra root synced from another machine, e.g. claude:laptop=/sync/laptop/.claude (repeatable)",
+    collect,
+    [] as string[]
+  )
+  .option(
+    "--enable-source <ids>",
+    "Enable sources turned off in the config file (comma-separated, repeatable)",
+    collectList,
+    [] as string[]
+  )
   .option(
-    "-d, --dir <path>",
-    "Claude directory path",
-    join(homedir(), ".claude")
+    "--disable-source <ids>",
+    "Do not load these sources (comma-separated, repeatable)",
+    collectList,
+    [] as string[]
+  )
+  .option(
+    "--max-line-bytes <bytes>",
+    "Truncate long strings in session lines bigger than this (default: 16 MiB)"
   )
   .option("--dev", "Enable CORS for development")
   .option("--no-open", "Do not open browser automatically")
-  .parse();
-
-const opts = program.opts<{
-  port: string;
-  dir: string;
-  dev: boolean;
-  open: boolean;
-}>();
-
-const server = createServer({
-  port: parseInt(opts.port, 10),
-  claudeDir: opts.dir,
-  dev: opts.dev,
-  open: opts.open,
-});
-
-process.on("SIGINT", () => {
-  console.log("\nShutting down...");
-  server.stop();
-  process.exit(0);
-});
-
-process.on("SIGTERM", () => {
-  server.stop();
-  process.exit(0);
-});
-
-server.start().catch((err) => {
-  console.error("Failed to start server:", err);
-  process.exit(1);
-});
+  .action(startServer);
+
+program
+  .command("import <path>")
+  .description(
+    "Import a claude.ai or ChatGPT export (conversations.json or its unzipped folder)"
+  )
+  .option("-c, --config <path>", "Config file (default: ~/.claude-run-plus/config.json)")
+  .action(async (path: string, opts: { config?: string }) => {
+    initStorage(loadConfigOrExit(opts).storage);
+    try {
+      const result = await importConversationsFile(path);
+      const counts = Object.entries(result.imported).map(([source, count]) => `${count} ${source}`);
+      console.log(`Imported ${counts.join(", ") || "0"} conversations (${result.unchanged} unchanged, ${result.skipped} skipped)`);
+    } catch (err) {
+      console.error("Import failed:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("export-site")
+  .description(
+    "Write a static copy of the UI with pre-rendered sessions, browsable without the server"
+  )
+  .requiredOption("-o, --out <dir>", "Directory to write the archive to")
+  .option("--project <project>", "Only sessions of this project (path or name)")
+  .option("--since <date>", "Only sessions active on or after this date (e.g. 2026-01-31)")
+  .option("-c, --config <path>", "Config file (default: ~/.claude-run-plus/config.json)")
+  .action(async (opts: { out: string; project?: string; since?: string; config?: string }) => {
+    const since = opts.since === undefined ? undefined : Date.parse(opts.since);
+    if (since !== undefined && Number.isNaN(since)) {
+      console.error(`Invalid --since date: ${opts.since}`);
+      process.exit(1);
+    }
+    initStorage(loadConfigOrExit(opts).storage);
+    try {
+      const result = await exportSite({
+        outDir: opts.out,
+        webDistPath: getWebDistPath(),
+        project: opts.project,
+        since,
+      });
+      console.log(`Exported ${result.sessions} sessions to ${result.outDir}`);
+    } catch (err) {
+      console.error("Export failed:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+  });
+
+program.parse();
+
+function startServer(opts: ConfigOverrides & { config?: string; dev: boolean; open: boolean }): void {
+  const config = loadConfigOrExit(opts);
+  const server = createServer({
+    port: config.port,
+    storage: config.storage,
+    searchDbPath: config.searchDbPath,
+    configPath: config.configPath,
+    prices: config.prices,
+    dev: opts.dev,
+    open: opts.open,
+  });
+
+  process.on("SIGINT", () => {
+    console.log("\nShutting down...");
+    server.stop();
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", () => {
+    server.stop();
+    process.exit(0);
+  });
+
+  server.start().catch((err) => {
+    console.error("Failed to start server:", err);
+    process.exit(1);
+  });
+}
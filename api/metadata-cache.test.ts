@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cachedFileMetadata, closeMetadataCache, initMetadataCache } from "./metadata-cache";
+
+describe("metadata cache", () => {
+  const dirPromise = mkdtemp(join(tmpdir(), "claude-run-plus-meta-"));
+
+  afterAll(async () => {
+    closeMetadataCache();
+    await rm(await dirPromise, { recursive: true, force: true });
+  });
+
+  test("reuses derived metadata until the file changes, across restarts", async () => {
+    const dir = await dirPromise;
+    const dbPath = join(dir, "metadata.db");
+    const filePath = join(dir, "session.jsonl");
+    await writeFile(filePath, '{"type":"session"}\n');
+
+    let computed = 0;
+    const compute = async () => ({ title: "t", run: ++computed });
+
+    initMetadataCache(dbPath);
+    expect(await cachedFileMetadata(filePath, compute)).toEqual({ title: "t", run: 1 });
+    closeMetadataCache();
+
+    initMetadataCache(dbPath);
+    expect(await cachedFileMetadata(filePath, compute)).toEqual({ title: "t", run: 1 });
+
+    await appendFile(filePath, '{"type":"message"}\n');
+    expect(await cachedFileMetadata(filePath, compute)).toEqual({ title: "t", run: 2 });
+    expect(computed).toBe(2);
+  });
+
+  test("recomputes when a dependency file appears or changes", async () => {
+    const dir = await dirPromise;
+    const filePath = join(dir, "parent.jsonl");
+    const agentPath = join(dir, "agent-a1.jsonl");
+    await writeFile(filePath, '{"type":"user"}\n');
+
+    let computed = 0;
+    const compute = async () => ++computed;
+    const cached = () => cachedFileMetadata(filePath, compute, `usage:${filePath}`, [agentPath]);
+
+    initMetadataCache(join(dir, "metadata.db"));
+    expect(await cached()).toBe(1);
+    expect(await cached()).toBe(1);
+
+    await writeFile(agentPath, '{"type":"assistant"}\n');
+    expect(await cached()).toBe(2);
+
+    await appendFile(agentPath, '{"type":"assistant"}\n');
+    expect(await cached()).toBe(3);
+    expect(await cached()).toBe(3);
+  });
+});
@@ -0,0 +1,113 @@
+import { Database } from "bun:sqlite";
+import { dirname, join } from "path";
+import { existsSync, mkdirSync } from "fs";
+import { stat } from "fs/promises";
+
+// Per-file metadata derived by source adapters (history entries, Codex
+// enrichment, ...), keyed by path and invalidated by mtime/size, so startup
+// only re-parses files that changed since the last run.
+
+/** Bump when adapters change what they derive, to drop stale rows. */
+const CACHE_VERSION = 4;
+
+let db: Database | null = null;
+
+export function getMetadataDbPath(searchDbPath: string): string {
+  return join(dirname(searchDbPath), "metadata.db");
+}
+
+export function initMetadataCache(dbPath: string): void {
+  const dbDir = dirname(dbPath);
+  if (!existsSync(dbDir)) {
+    mkdirSync(dbDir, { recursive: true });
+  }
+
+  db = new Database(dbPath);
+  db.run("PRAGMA journal_mode=WAL");
+  db.run("PRAGMA synchronous=NORMAL");
+
+  const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number };
+  if (user_version !== CACHE_VERSION) {
+    db.run("DROP TABLE IF EXISTS file_metadata");
+    db.run(`PRAGMA user_version = ${CACHE_VERSION}`);
+  }
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS file_metadata (
+      key TEXT PRIMARY KEY,
+      path TEXT NOT NULL,
+      mtime_ms REAL NOT NULL,
+      size INTEGER NOT NULL,
+      deps TEXT NOT NULL,
+      data TEXT NOT NULL
+    )
+  `);
+
+  // Forget files that were deleted since the last run
+  const paths = db.query("SELECT DISTINCT path FROM file_metadata").all() as Array<{ path: string }>;
+  const remove = db.prepare("DELETE FROM file_metadata WHERE path = ?");
+  db.transaction(() => {
+    for (const { path } of paths) {
+      if (!existsSync(path)) remove.run(path);
+    }
+  })();
+}
+
+export function closeMetadataCache(): void {
+  if (db) {
+    db.close();
+    db = null;
+  }
+}
+
+/**
+ * Return the metadata `compute` derived from `filePath`, reusing the stored
+ * value while the file's mtime and size are unchanged. `key` tells apart
+ * several kinds of data derived from one file; `dependencies` are other files
+ * the value also reads, and adding, removing or changing one recomputes it.
+ * Without an open cache (tests, the import command) this just calls `compute`.
+ */
+export async function cachedFileMetadata<T>(
+  filePath: string,
+  compute: () => Promise<T>,
+  key: string = filePath,
+  dependencies: string[] = [],
+): Promise<T> {
+  if (!db) return compute();
+
+  let mtimeMs: number;
+  let size: number;
+  try {
+    ({ mtimeMs, size } = await stat(filePath));
+  } catch {
+    return compute();
+  }
+  const deps = await dependencySignature(dependencies);
+
+  const row = db
+    .query("SELECT mtime_ms, size, deps, data FROM file_metadata WHERE key = ?")
+    .get(key) as { mtime_ms: number; size: number; deps: string; data: string } | null;
+  if (row && row.mtime_ms === mtimeMs && row.size === size && row.deps === deps) {
+    try {
+      return JSON.parse(row.data) as T;
+    } catch { /* recompute */ }
+  }
+
+  const value = await compute();
+  // The db may have been closed while computing
+  db?.query(
+    "INSERT OR REPLACE INTO file_metadata (key, path, mtime_ms, size, deps, data) VALUES (?, ?, ?, ?, ?, ?)",
+  ).run(key, filePath, mtimeMs, size, deps, JSON.stringify(value ?? null));
+  return value;
+}
+
+async function dependencySignature(paths: string[]): Promise<string> {
+  const parts: string[] = [];
+  for (const path of [...paths].sort()) {
+    try {
+      const { mtimeMs, size } = await stat(path);
+      parts.push(`${path}:${mtimeMs}:${size}`);
+    } catch { /* gone */ }
+  }
+  return parts.join("\n");
+}
@@ -0,0 +1,21 @@
+// Markup the agents inject into transcript text (slash command echoes, system
+// reminders, ...), stripped before it is shown, indexed or exported.
+
+const SANITIZE_PATTERNS = [
+  /<command-name>[^<]*<\/command-name>/g,
+  /<command-message>[^<]*<\/command-message>/g,
+  /<command-args>[^<]*<\/command-args>/g,
+  /<local-command-stdout>[^<]*<\/local-command-stdout>/g,
+  /<local-command-caveat>[\s\S]*?<\/local-command-caveat>/g,
+  /<system-reminder>[\s\S]*?<\/system-reminder>/g,
+  /<system-notification>[\s\S]*?<\/system-notification>/g,
+  /^\s*Caveat:.*?unless the user explicitly asks you to\./s,
+];
+
+export function sanitizeText(text: string): string {
+  let result = text;
+  for (const pattern of SANITIZE_PATTERNS) {
+    result = result.replace(pattern, "");
+  }
+  return result.trim();
+}
@@ -1,5 +1,5 @@
 import { Database } from "bun:sqlite";
-import { join } from "path";
+import { dirname, join } from "path";
 import { mkdirSync, existsSync } from "fs";
 import { homedir } from "os";
 import FlexSearch from "flexsearch";
@@ -14,6 +14,7 @@ export interface SearchSignals {
 export interface HybridSearchResult {
   sessionId: string;
   source: string;
+  machine?: string;
   display: string;
   project: string;
   snippet: string;
@@ -41,11 +42,14 @@ export interface SearchResponse {
 interface SearchOptions {
   fuzzy?: boolean;
   limit?: number;
+  /** Machine label to restrict results to; LOCAL_MACHINE matches the local roots. */
+  machine?: string;
 }
 
 interface FuzzyDoc {
   sessionId: string;
   source: string;
+  machine: string;
   display: string;
   project: string;
   content: string;
@@ -66,8 +70,18 @@ let expectedBySource = new Map<string, Set<string>>();
 const indexedIds = new Set<string>();
 const indexedBySource = new Map<string, Set<string>>();
 
-function makeSessionKey(source: string, sessionId: string): string {
-  return `${source}:${sessionId}`;
+/** Bump when the stats passes record something new (1: subagent runs count). */
+const STATS_VERSION = 1;
+
+/** Filter value for sessions from the local (unlabeled) roots. */
+export const LOCAL_MACHINE = "local";
+
+function makeSessionKey(source: string, sessionId: string, machine?: string): string {
+  return machine ? `${source}@${machine}:${sessionId}` : `${source}:${sessionId}`;
+}
+
+function machineFilter(machine: string): string {
+  return machine === LOCAL_MACHINE ? "" : machine;
 }
 
 function ensureSourceSet(map: Map<string, Set<string>>, source: string): Set<string> {
@@ -297,50 +311,67 @@ function rebuildInMemoryStateFromDb(): void {
   indexedBySource.clear();
   resetFuzzyIndex();
 
-  const indexedRows = db.query("SELECT session_id as sessionId, source FROM session_index_meta").all() as Array<{ sessionId: string; source: string }>;
+  const indexedRows = db.query("SELECT session_id as sessionId, source, machine FROM session_index_meta").all() as Array<{ sessionId: string; source: string; machine: string }>;
   for (const row of indexedRows) {
-    const key = makeSessionKey(row.source, row.sessionId);
+    const key = makeSessionKey(row.source, row.sessionId, row.machine);
     indexedIds.add(key);
-    ensureSourceSet(indexedBySource, row.source).add(row.sessionId);
+    ensureSourceSet(indexedBySource, row.source).add(key);
   }
 
   const fuzzyRows = db.query(
     `SELECT
       f.session_id as sessionId,
       f.source,
+      f.machine,
       f.display,
       f.project,
       f.content,
       COALESCE(m.session_timestamp, 0) as timestamp
     FROM sessions_fts f
-    LEFT JOIN session_index_meta m ON f.session_id = m.session_id AND f.source = m.source`
-  ).all() as Array<{ sessionId: string; source: string; display: string; project: string; content: string; timestamp: number }>;
+    LEFT JOIN session_index_meta m ON f.session_id = m.session_id AND f.source = m.source AND f.machine = m.machine`
+  ).all() as Array<{ sessionId: string; source: string; machine: string; display: string; project: string; content: string; timestamp: number }>;
 
   for (const row of fuzzyRows) {
     const doc: FuzzyDoc = {
       sessionId: row.sessionId,
       source: row.source,
+      machine: row.machine || "",
       display: row.display,
       project: row.project,
       content: row.content || "",
       timestamp: row.timestamp || 0,
     };
-    const key = makeSessionKey(doc.source, doc.sessionId);
+    const key = makeSessionKey(doc.source, doc.sessionId, doc.machine);
     fuzzyDocs.set(key, doc);
     fuzzyIndex.add(key, toFuzzyText(doc.display, doc.project, doc.content));
   }
 }
 
-export function initSearchDb(): void {
-  const dbDir = join(homedir(), ".claude-run-plus");
+export function getDefaultSearchDbPath(): string {
+  return join(homedir(), ".claude-run-plus", "search.db");
+}
+
+export function initSearchDb(dbPath: string = getDefaultSearchDbPath()): void {
+  const dbDir = dirname(dbPath);
   if (!existsSync(dbDir)) {
     mkdirSync(dbDir, { recursive: true });
   }
 
-  db = new Database(join(dbDir, "search.db"));
+  db = new Database(dbPath);
   db.run("PRAGMA journal_mode=WAL");
   db.run("PRAGMA synchronous=NORMAL");
 
+  // Machine became part of session identity; older indexes are dropped and
+  // rebuilt by the background indexer
+  const hasMachineColumn = (table: string) => {
+    const cols = db!.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return cols.length === 0 || cols.some((c) => c.name === "machine");
+  };
+  if (!hasMachineColumn("sessions_fts") || !hasMachineColumn("session_index_meta")) {
+    db.run("DROP TABLE IF EXISTS sessions_fts");
+    db.run("DROP TABLE IF EXISTS session_index_meta");
+  }
+
   db.run(`
     CREATE VIRTUAL TABLE IF NOT EXISTS sessions_fts USING fts5(
       session_id UNINDEXED,
@@ -348,6 +379,7 @@ export function initSearchDb(): void {
       display,
       project,
       content,
+      machine UNINDEXED,
       tokenize='unicode61'
     )
   `);
@@ -356,60 +388,97 @@ export function initSearchDb(): void {
     CREATE TABLE IF NOT EXISTS session_index_meta (
       session_id TEXT NOT NULL,
       source TEXT NOT NULL,
+      machine TEXT NOT NULL DEFAULT '',
       content_hash TEXT,
       session_timestamp INTEGER DEFAULT 0,
       last_indexed_at INTEGER,
-      PRIMARY KEY (source, session_id)
+      PRIMARY KEY (source, machine, session_id)
     )
   `);
 
-  const cols = db.query("PRAGMA table_info(session_index_meta)").all() as Array<{ name: string; pk: number }>;
-  const hasCompositePk = cols.some((c) => c.name === "source" && c.pk > 0) && cols.some((c) => c.name === "session_id" && c.pk > 0);
-
-  if (!hasCompositePk) {
-    const hasContentHashCol = cols.some((c) => c.name === "content_hash");
-    const hasSessionTimestampCol = cols.some((c) => c.name === "session_timestamp");
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS session_index_meta_v2 (
-        session_id TEXT NOT NULL,
-        source TEXT NOT NULL,
-        content_hash TEXT,
-        session_timestamp INTEGER DEFAULT 0,
-        last_indexed_at INTEGER,
-        PRIMARY KEY (source, session_id)
-      )
-    `);
-
-    const contentHashSelect = hasContentHashCol ? "content_hash" : "NULL";
-    const sessionTimestampSelect = hasSessionTimestampCol ? "COALESCE(session_timestamp, 0)" : "0";
-
-    db.run(`
-      INSERT OR REPLACE INTO session_index_meta_v2 (session_id, source, content_hash, session_timestamp, last_indexed_at)
-      SELECT session_id, COALESCE(source, 'unknown'), ${contentHashSelect}, ${sessionTimestampSelect}, last_indexed_at
-      FROM session_index_meta
-    `);
-
-    db.run("DROP TABLE session_index_meta");
-    db.run("ALTER TABLE session_index_meta_v2 RENAME TO session_index_meta");
+  // Per-session dashboard numbers (see api/stats.ts) and touched files (see
+  // api/session-files.ts), refreshed with the index. Dropping `session_stats`
+  // makes the indexer recompute both, so that happens when a table is added
+  // or STATS_VERSION changes
+  const hasTable = (name: string) => !!db!.query("SELECT 1 FROM sqlite_master WHERE name = ?").get(name);
+  const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number };
+  if (!hasTable("session_tool_calls") || !hasTable("session_files") || user_version !== STATS_VERSION) {
+    db.run("DROP TABLE IF EXISTS session_stats");
+    db.run(`PRAGMA user_version = ${STATS_VERSION}`);
   }
 
-  const refreshedCols = db.query("PRAGMA table_info(session_index_meta)").all() as Array<{ name: string }>;
-  if (!refreshedCols.some((c) => c.name === "session_timestamp")) {
-    db.run("ALTER TABLE session_index_meta ADD COLUMN session_timestamp INTEGER DEFAULT 0");
-  }
-  if (!refreshedCols.some((c) => c.name === "content_hash")) {
-    db.run("ALTER TABLE session_index_meta ADD COLUMN content_hash TEXT");
-  }
+  db.run(`
+    CREATE TABLE IF NOT EXISTS session_stats (
+      session_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      machine TEXT NOT NULL DEFAULT '',
+      project TEXT NOT NULL DEFAULT '',
+      session_timestamp INTEGER DEFAULT 0,
+      PRIMARY KEY (source, machine, session_id)
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS session_activity (
+      session_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      machine TEXT NOT NULL DEFAULT '',
+      day TEXT NOT NULL,
+      hour INTEGER NOT NULL,
+      model TEXT NOT NULL DEFAULT '',
+      messages INTEGER NOT NULL DEFAULT 0,
+      prompts INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS session_activity_session ON session_activity (source, machine, session_id)");
+  db.run("CREATE INDEX IF NOT EXISTS session_activity_day ON session_activity (day)");
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS session_tool_calls (
+      session_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      machine TEXT NOT NULL DEFAULT '',
+      day TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      model TEXT NOT NULL DEFAULT '',
+      calls INTEGER NOT NULL DEFAULT 0,
+      errors INTEGER NOT NULL DEFAULT 0,
+      output_chars INTEGER NOT NULL DEFAULT 0,
+      result_ms INTEGER NOT NULL DEFAULT 0,
+      timed_results INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS session_tool_calls_session ON session_tool_calls (source, machine, session_id)");
+  db.run("CREATE INDEX IF NOT EXISTS session_tool_calls_tool ON session_tool_calls (tool)");
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS session_files (
+      session_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      machine TEXT NOT NULL DEFAULT '',
+      path TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      message_uuid TEXT,
+      timestamp TEXT
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS session_files_session ON session_files (source, machine, session_id)");
+  db.run("CREATE INDEX IF NOT EXISTS session_files_path ON session_files (path)");
 
   rebuildInMemoryStateFromDb();
 }
 
-export function setExpectedSessions(sessions: Array<{ id: string; source: string }>): void {
+/** The open search database, shared with the stats tables; null before `initSearchDb`. */
+export function getSearchDb(): Database | null {
+  return db;
+}
+
+export function setExpectedSessions(sessions: Array<{ id: string; source: string; machine?: string }>): void {
   const next = new Map<string, Set<string>>();
 
   for (const session of sessions) {
-    ensureSourceSet(next, session.source).add(session.id);
+    ensureSourceSet(next, session.source).add(makeSessionKey(session.source, session.id, session.machine));
   }
 
   expectedBySource = next;
@@ -422,25 +491,26 @@ export function indexSession(
   project: string,
   content: string,
   timestamp: number = 0,
+  machine: string = "",
 ): void {
   if (!db) return;
 
-  db.run("DELETE FROM sessions_fts WHERE session_id = ? AND source = ?", [sessionId, source]);
+  db.run("DELETE FROM sessions_fts WHERE session_id = ? AND source = ? AND machine = ?", [sessionId, source, machine]);
   db.run(
-    "INSERT INTO sessions_fts (session_id, source, display, project, content) VALUES (?, ?, ?, ?, ?)",
-    [sessionId, source, display, project, content],
+    "INSERT INTO sessions_fts (session_id, source, machine, display, project, content) VALUES (?, ?, ?, ?, ?, ?)",
+    [sessionId, source, machine, display, project, content],
   );
 
   const contentHash = String(Bun.hash(content));
 
   db.run(
-    "INSERT OR REPLACE INTO session_index_meta (session_id, source, content_hash, session_timestamp, last_indexed_at) VALUES (?, ?, ?, ?, ?)",
-    [sessionId, source, contentHash, timestamp, Date.now()],
+    "INSERT OR REPLACE INTO session_index_meta (session_id, source, machine, content_hash, session_timestamp, last_indexed_at) VALUES (?, ?, ?, ?, ?, ?)",
+    [sessionId, source, machine, contentHash, timestamp, Date.now()],
   );
 
-  const key = makeSessionKey(source, sessionId);
+  const key = makeSessionKey(source, sessionId, machine);
   indexedIds.add(key);
-  ensureSourceSet(indexedBySource, source).add(sessionId);
+  ensureSourceSet(indexedBySource, source).add(key);
 
   if (fuzzyDocs.has(key)) {
     fuzzyIndex.remove(key);
@@ -449,6 +519,7 @@ export function indexSession(
   const fuzzyDoc: FuzzyDoc = {
     sessionId,
     source,
+    machine,
     display,
     project,
     content,
@@ -461,27 +532,28 @@ export function indexSession(
   dirtySessionIds.delete(sessionId);
 }
 
-export function removeIndexedSession(sessionId: string, source?: string): void {
+export function removeIndexedSession(sessionId: string, source?: string, machine: string = ""): void {
   if (!db) return;
 
   const rows = source
-    ? db.query("SELECT source FROM session_index_meta WHERE session_id = ? AND source = ?").all(sessionId, source) as Array<{ source: string }>
-    : db.query("SELECT source FROM session_index_meta WHERE session_id = ?").all(sessionId) as Array<{ source: string }>;
-
-  if (source) {
-    db.run("DELETE FROM sessions_fts WHERE session_id = ? AND source = ?", [sessionId, source]);
-    db.run("DELETE FROM session_index_meta WHERE session_id = ? AND source = ?", [sessionId, source]);
-  } else {
-    db.run("DELETE FROM sessions_fts WHERE session_id = ?", [sessionId]);
-    db.run("DELETE FROM session_index_meta WHERE session_id = ?", [sessionId]);
+    ? db.query("SELECT source, machine FROM session_index_meta WHERE session_id = ? AND source = ? AND machine = ?").all(sessionId, source, machine) as Array<{ source: string; machine: string }>
+    : db.query("SELECT source, machine FROM session_index_meta WHERE session_id = ?").all(sessionId) as Array<{ source: string; machine: string }>;
+
+  const tables = ["sessions_fts", "session_index_meta", "session_stats", "session_activity", "session_tool_calls", "session_files"];
+  for (const table of tables) {
+    if (source) {
+      db.run(`DELETE FROM ${table} WHERE session_id = ? AND source = ? AND machine = ?`, [sessionId, source, machine]);
+    } else {
+      db.run(`DELETE FROM ${table} WHERE session_id = ?`, [sessionId]);
+    }
   }
 
   for (const row of rows) {
-    const key = makeSessionKey(row.source, sessionId);
+    const key = makeSessionKey(row.source, sessionId, row.machine);
     indexedIds.delete(key);
 
     const bySource = indexedBySource.get(row.source);
-    bySource?.delete(sessionId);
+    bySource?.delete(key);
     if (bySource && bySource.size === 0) {
       indexedBySource.delete(row.source);
     }
@@ -490,24 +562,18 @@ export function removeIndexedSession(sessionId: string, source?: string): void {
       fuzzyIndex.remove(key);
       fuzzyDocs.delete(key);
     }
-  }
 
-  if (source) {
-    expectedBySource.get(source)?.delete(sessionId);
-  } else {
-    for (const ids of expectedBySource.values()) {
-      ids.delete(sessionId);
-    }
+    expectedBySource.get(row.source)?.delete(key);
   }
 
   dirtySessionIds.delete(sessionId);
 }
 
-export function isSessionIndexed(sessionId: string, source?: string): boolean {
+export function isSessionIndexed(sessionId: string, source?: string, machine: string = ""): boolean {
   if (!db) return false;
 
   if (source) {
-    const result = db.query("SELECT 1 FROM session_index_meta WHERE session_id = ? AND source = ?").get(sessionId, source);
+    const result = db.query("SELECT 1 FROM session_index_meta WHERE session_id = ? AND source = ? AND machine = ?").get(sessionId, source, machine);
     return !!result;
   }
 
@@ -558,14 +624,15 @@ export function searchSessions(query: string, source?: string, options: SearchOp
     SELECT
       f.session_id as sessionId,
       f.source,
+      f.machine,
       f.display,
       f.project,
       f.content,
       snippet(sessions_fts, -1, '<mark class="search-highlight">', '</mark>', '...', 24) as snippet,
-      bm25(sessions_fts, 0, 0, 5.0, 3.0, 10.0) as rank,
+      bm25(sessions_fts, 0, 0, 5.0, 3.0, 10.0, 0) as rank,
       COALESCE(m.session_timestamp, 0) as timestamp
     FROM sessions_fts f
-    LEFT JOIN session_index_meta m ON f.session_id = m.session_id AND f.source = m.source
+    LEFT JOIN session_index_meta m ON f.session_id = m.session_id AND f.source = m.source AND f.machine = m.machine
     WHERE sessions_fts MATCH ?
   `;
 
@@ -576,6 +643,11 @@ export function searchSessions(query: string, source?: string, options: SearchOp
     params.push(source);
   }
 
+  if (options.machine) {
+    sql += " AND f.machine = ?";
+    params.push(machineFilter(options.machine));
+  }
+
   sql += ` ORDER BY rank LIMIT ${exactCandidateLimit}`;
 
   const merged = new Map<string, HybridSearchResult>();
@@ -584,6 +656,7 @@ export function searchSessions(query: string, source?: string, options: SearchOp
     const exactRows = db.query(sql).all(...params) as Array<{
       sessionId: string;
       source: string;
+      machine: string;
       display: string;
       project: string;
       content: string;
@@ -595,11 +668,12 @@ export function searchSessions(query: string, source?: string, options: SearchOp
     for (const row of exactRows) {
       const exact = determineExactSignals(normalizedQuery, `${row.display}\n${row.project}\n${row.content}`);
       const tier: 1 | 2 = exact.exactLiteral || exact.exactPhrase ? 1 : 2;
-      const key = makeSessionKey(row.source, row.sessionId);
+      const key = makeSessionKey(row.source, row.sessionId, row.machine);
 
       merged.set(key, {
         sessionId: row.sessionId,
         source: row.source,
+        ...(row.machine && { machine: row.machine }),
         display: row.display,
         project: row.project,
         snippet: row.snippet,
@@ -625,6 +699,7 @@ export function searchSessions(query: string, source?: string, options: SearchOp
         const doc = fuzzyDocs.get(fuzzyId);
         if (!doc) continue;
         if (source && doc.source !== source) continue;
+        if (options.machine && doc.machine !== machineFilter(options.machine)) continue;
 
         const existing = merged.get(fuzzyId);
         if (existing) {
@@ -638,6 +713,7 @@ export function searchSessions(query: string, source?: string, options: SearchOp
         merged.set(fuzzyId, {
           sessionId: doc.sessionId,
           source: doc.source,
+          ...(doc.machine && { machine: doc.machine }),
           display: doc.display,
           project: doc.project,
           snippet,
@@ -1,27 +1,28 @@
 import { Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
 import { cors } from "hono/cors";
 import { streamSSE } from "hono/streaming";
 import {
   initStorage,
   loadStorage,
-  getClaudeDir,
-  getFactoryDir,
-  getCodexDir,
-  getPiDir,
   getSessions,
   getProjects,
   getConversation,
+  getSubagentConversation,
   getConversationStream,
   invalidateHistoryCache,
   addToFileIndex,
   getAllSessionContent,
+  getSearchIndexEntries,
   getSessionLatestModel,
   invalidateModelCache,
   deleteSession,
+  getSessionUsage,
+  getMessageUsage,
+  getConversationWithSubagents,
 } from "./storage";
-import type { SessionSource } from "./storage";
+import type { Session, SessionSource, StorageInitOptions } from "./storage";
 import {
-  initWatcher,
   startWatcher,
   stopWatcher,
   onHistoryChange,
@@ -29,8 +30,19 @@ import {
   onSessionChange,
   offSessionChange,
 } from "./watcher";
+import {
+  getRegisteredSources,
+  getSourceAdapter,
+  getSourceInfo,
+  getSourceRoot,
+  getSourceRoots,
+  isSessionSource,
+  isSourceEnabled,
+} from "./sources";
+import { DEFAULT_MAX_LINE_BYTES } from "./sources/jsonl";
 import {
   initSearchDb,
+  getDefaultSearchDbPath,
   searchSessions,
   indexSession,
   isSessionIndexed,
@@ -39,13 +51,45 @@ import {
   getDirtySessions,
   setExpectedSessions,
   removeIndexedSession,
+  LOCAL_MACHINE,
 } from "./search";
+import { initMetadataCache, getMetadataDbPath, closeMetadataCache } from "./metadata-cache";
+import { importConversations } from "./import";
+import {
+  buildUsageReport,
+  getModelPrices,
+  setModelPrices,
+  USAGE_GROUPS,
+  usageDay,
+  type ModelPrice,
+  type UsageGroup,
+  type UsageReportRow,
+} from "./usage";
+import {
+  computeSessionActivity,
+  computeToolCalls,
+  getDailyActivity,
+  getHourlyActivity,
+  getProjectActivity,
+  getStatsBreakdown,
+  getStatsOverview,
+  getToolFailureSessions,
+  getToolStats,
+  getTurnStats,
+  hasCurrentSessionStats,
+  recordSessionStats,
+  type StatsFilter,
+} from "./stats";
+import { extractSessionFiles, getFileSessions, getSessionFiles, recordSessionFiles } from "./session-files";
+import { findCommitSessions, getSessionCommits } from "./git-commits";
+import { buildSessionPatch } from "./session-patch";
+import { EXPORT_FORMATS, exportSession, isExportFormat } from "./session-export";
 import { join } from "path";
 import { existsSync } from "fs";
 import { homedir } from "os";
 import open from "open";
 
-function getWebDistPath(): string {
+export function getWebDistPath(): string {
   const prodPath = join(import.meta.dir, "web");
   if (existsSync(prodPath)) {
     return prodPath;
@@ -55,28 +99,104 @@ function getWebDistPath(): string {
 
 export interface ServerOptions {
   port: number;
-  claudeDir?: string;
+  storage?: StorageInitOptions;
+  searchDbPath?: string;
+  /** Config file the options came from, reported by /api/config. */
+  configPath?: string | null;
+  /** Model price overrides from the config file. */
+  prices?: Record<string, ModelPrice>;
   dev?: boolean;
   open?: boolean;
 }
 
 function parseSourceParam(sourceQuery?: string): SessionSource | undefined {
   if (!sourceQuery) return undefined;
-  if (sourceQuery === "claude" || sourceQuery === "factory" || sourceQuery === "codex" || sourceQuery === "pi") {
-    return sourceQuery;
+  return isSessionSource(sourceQuery) ? sourceQuery : undefined;
+}
+
+function parseMachineParam(machineQuery?: string): string | undefined {
+  return machineQuery || undefined;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDayRange(from: string, to: string): boolean {
+  return [from, to].every((day) => !day || DAY_PATTERN.test(day));
+}
+
+const STATS_QUERIES: Record<string, (filter: StatsFilter) => unknown> = {
+  overview: getStatsOverview,
+  heatmap: getDailyActivity,
+  projects: getProjectActivity,
+  breakdown: getStatsBreakdown,
+  turns: getTurnStats,
+  hours: getHourlyActivity,
+  tools: getToolStats,
+};
+
+/** Stats filter from `project`, `source`, `from` and `to` query params, or an error message. */
+function parseStatsFilter(query: (name: string) => string | undefined): StatsFilter | string {
+  const from = query("from") || "";
+  const to = query("to") || "";
+  if (!isDayRange(from, to)) return "Invalid date range (expected YYYY-MM-DD)";
+  const sourceQuery = query("source");
+  const source = parseSourceParam(sourceQuery);
+  if (sourceQuery && !source) return "Invalid source";
+  return { project: query("project") || undefined, source, from, to };
+}
+
+function sessionIdentityKey(sessionId: string, source: SessionSource, machine?: string): string {
+  return machine ? `${source}@${machine}:${sessionId}` : `${source}:${sessionId}`;
+}
+
+/** The Vite dev server, which calls the API from another port. */
+const DEV_ORIGIN = "http://localhost:12000";
+
+/** ChatGPT exports of long-lived accounts run to a few hundred MB. */
+const MAX_IMPORT_BYTES = 256 * 1024 * 1024;
+
+/** Pages on other sites send their Origin; tools like curl send none. */
+function isOwnOrigin(origin: string | undefined, host: string, dev: boolean): boolean {
+  if (!origin) return true;
+  if (dev && origin === DEV_ORIGIN) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
   }
-  return undefined;
 }
 
-function sessionIdentityKey(sessionId: string, source: SessionSource): string {
-  return `${source}:${sessionId}`;
+async function findSession(sessionId: string, source?: SessionSource, machine?: string): Promise<Session | undefined> {
+  return (await getSessions()).find(
+    (s) => s.id === sessionId && (!source || s.source === source) && s.machine === machine,
+  );
+}
+
+/** Adds each session's title to rows from the stats tables. */
+async function withSessionDisplay<T extends { sessionId: string; source: string; machine?: string }>(
+  rows: T[],
+): Promise<Array<T & { display?: string }>> {
+  if (rows.length === 0) return rows;
+  const sessions = await getSessions();
+  return rows.map((row) => ({
+    ...row,
+    display: sessions.find((s) => s.id === row.sessionId && s.source === row.source && s.machine === row.machine)?.display,
+  }));
 }
 
 export function createServer(options: ServerOptions) {
-  const { port, claudeDir, dev = false, open: shouldOpen = true } = options;
+  const {
+    port,
+    storage,
+    searchDbPath = getDefaultSearchDbPath(),
+    configPath = null,
+    prices,
+    dev = false,
+    open: shouldOpen = true,
+  } = options;
 
-  initStorage(claudeDir);
-  initWatcher(getClaudeDir(), getFactoryDir(), getCodexDir(), getPiDir());
+  initStorage(storage);
+  setModelPrices(prices);
 
   const app = new Hono();
 
@@ -84,7 +204,7 @@ export function createServer(options: ServerOptions) {
     app.use(
       "*",
       cors({
-        origin: ["http://localhost:12000"],
+        origin: [DEV_ORIGIN],
         allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
         allowHeaders: ["Content-Type"],
       }),
@@ -104,12 +224,17 @@ export function createServer(options: ServerOptions) {
       return c.json({ ok: false, error: "Invalid source" }, 400);
     }
 
-    const deleted = await deleteSession(sessionId, source);
+    if (source && getSourceAdapter(source)?.readOnly) {
+      return c.json({ ok: false, error: "Sessions from this source cannot be deleted" }, 400);
+    }
+
+    const machine = parseMachineParam(c.req.query("machine"));
+    const deleted = await deleteSession(sessionId, source, machine);
     if (!deleted) {
       return c.json({ ok: false, error: "Session not found" }, 404);
     }
 
-    removeIndexedSession(sessionId, source);
+    removeIndexedSession(sessionId, source, machine);
     invalidateHistoryCache();
 
     try {
@@ -122,6 +247,65 @@ export function createServer(options: ServerOptions) {
     return c.json({ ok: true, id: sessionId });
   });
 
+  // Writes to disk, so only JSON from this server's own pages: a cross-site
+  // text/plain POST needs no CORS preflight
+  app.post(
+    "/api/import",
+    bodyLimit({
+      maxSize: MAX_IMPORT_BYTES,
+      onError: (c) => c.json({ ok: false, error: "Import body too large" }, 413),
+    }),
+    async (c) => {
+      if (!isOwnOrigin(c.req.header("origin"), new URL(c.req.url).host, dev)) {
+        return c.json({ ok: false, error: "Cross-origin imports are not allowed" }, 403);
+      }
+      if (!c.req.header("content-type")?.toLowerCase().startsWith("application/json")) {
+        return c.json({ ok: false, error: "Content-Type must be application/json" }, 415);
+      }
+
+      let data: unknown;
+      try {
+        data = await c.req.json();
+      } catch {
+        return c.json({ ok: false, error: "Expected a conversations.json body" }, 400);
+      }
+
+      try {
+        const result = await importConversations(data);
+        invalidateHistoryCache();
+        await indexUnindexedSessions();
+        return c.json({ ok: true, ...result });
+      } catch (err) {
+        return c.json({ ok: false, error: err instanceof Error ? err.message : String(err) }, 400);
+      }
+    },
+  );
+
+  app.get("/api/sources", (c) => {
+    return c.json(getSourceInfo());
+  });
+
+  app.get("/api/config", (c) => {
+    return c.json({
+      configPath,
+      port,
+      searchDb: searchDbPath,
+      metadataDb: getMetadataDbPath(searchDbPath),
+      maxLineBytes: storage?.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES,
+      sources: getRegisteredSources().map((adapter) => ({
+        id: adapter.id,
+        label: adapter.display.label,
+        enabled: isSourceEnabled(adapter.id),
+        root: getSourceRoot(adapter.id),
+        machines: Object.fromEntries(
+          getSourceRoots(adapter.id)
+            .filter((root) => root.machine)
+            .map((root) => [root.machine, root.path]),
+        ),
+      })),
+    });
+  });
+
   app.get("/api/projects", async (c) => {
     const projects = await getProjects();
     return c.json(projects);
@@ -146,13 +330,13 @@ export function createServer(options: ServerOptions) {
           const sessions = await getSessions();
           setExpectedSessions(sessions);
           const newOrUpdated = sessions.filter((s) => {
-            const key = sessionIdentityKey(s.id, s.source);
+            const key = sessionIdentityKey(s.id, s.source, s.machine);
             const known = knownSessions.get(key);
             return known === undefined || known !== s.timestamp;
           });
 
           for (const s of sessions) {
-            knownSessions.set(sessionIdentityKey(s.id, s.source), s.timestamp);
+            knownSessions.set(sessionIdentityKey(s.id, s.source, s.machine), s.timestamp);
           }
 
           if (newOrUpdated.length > 0) {
@@ -166,19 +350,25 @@ export function createServer(options: ServerOptions) {
         }
       };
 
-      const handleContentChange = async (sessionId: string, _filePath: string, source: SessionSource) => {
+      const handleContentChange = async (
+        sessionId: string,
+        _filePath: string,
+        source: SessionSource,
+        machine: string | undefined,
+      ) => {
         if (!isConnected) return;
+        const isSame = (s: Session) => s.id === sessionId && s.source === source && s.machine === machine;
         try {
-          const content = await getAllSessionContent(sessionId, source);
+          const content = await getAllSessionContent(sessionId, source, machine);
           const sessions = await getSessions();
-          let session = sessions.find((s) => s.id === sessionId && s.source === source);
+          let session = sessions.find(isSame);
 
-          // For new sessions not yet in history.jsonl, build a minimal session object
+          // For new sessions not yet in the cached session list, build a minimal session object
           if (!session) {
-            // Invalidate cache and retry — history.jsonl may have just been written
+            // Invalidate cache and retry — the session file may have just been created
             invalidateHistoryCache();
             const retried = await getSessions();
-            session = retried.find((s) => s.id === sessionId && s.source === source);
+            session = retried.find(isSame);
           }
 
           if (!session) {
@@ -194,6 +384,7 @@ export function createServer(options: ServerOptions) {
               data: JSON.stringify({
                 id: sessionId,
                 source,
+                machine,
                 display,
                 project,
                 content,
@@ -211,6 +402,7 @@ export function createServer(options: ServerOptions) {
                 project,
                 projectName: project.split("/").pop() || project,
                 source,
+                machine,
               }]),
             });
             return;
@@ -221,6 +413,7 @@ export function createServer(options: ServerOptions) {
             data: JSON.stringify({
               id: sessionId,
               source,
+              machine,
               display: session.display,
               project: session.project,
               content,
@@ -237,7 +430,7 @@ export function createServer(options: ServerOptions) {
       try {
         const sessions = await getSessions();
         for (const s of sessions) {
-          knownSessions.set(sessionIdentityKey(s.id, s.source), s.timestamp);
+          knownSessions.set(sessionIdentityKey(s.id, s.source, s.machine), s.timestamp);
         }
 
         await stream.writeSSE({
@@ -267,10 +460,224 @@ export function createServer(options: ServerOptions) {
     if (sourceQuery && !source) {
       return c.json({ ok: false, error: "Invalid source" }, 400);
     }
-    const messages = await getConversation(sessionId, source);
+    const messages = await getConversation(
+      sessionId,
+      source,
+      parseMachineParam(c.req.query("machine")),
+      c.req.query("branch") || undefined,
+    );
     return c.json(messages);
   });
 
+  app.get("/api/conversation/:id/subagents/:toolUseId", async (c) => {
+    const sessionId = c.req.param("id");
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const messages = await getSubagentConversation(
+      sessionId,
+      c.req.param("toolUseId"),
+      source,
+      parseMachineParam(c.req.query("machine")),
+    );
+    if (!messages) {
+      return c.json({ ok: false, error: "Subagent transcript not found" }, 404);
+    }
+    return c.json(messages);
+  });
+
+  app.get("/api/usage/prices", (c) => {
+    return c.json(getModelPrices());
+  });
+
+  // Token usage and cost, grouped by day, model, project, session or source
+  // (or by message within one session), optionally limited to a date range
+  app.get("/api/usage", async (c) => {
+    const group = c.req.query("group") || "day";
+    const sessionId = c.req.query("session");
+    if (!USAGE_GROUPS.includes(group as UsageGroup) && !(group === "message" && sessionId)) {
+      return c.json({ ok: false, error: `Invalid group (expected one of: ${USAGE_GROUPS.join(", ")}, or message with session)` }, 400);
+    }
+    const from = c.req.query("from") || "";
+    const to = c.req.query("to") || "";
+    if (!isDayRange(from, to)) {
+      return c.json({ ok: false, error: "Invalid date range (expected YYYY-MM-DD)" }, 400);
+    }
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const machine = parseMachineParam(c.req.query("machine"));
+    const project = c.req.query("project");
+    const inRange = (day: string) => (!from || day >= from) && (!to || day <= to);
+
+    if (group === "message" && sessionId) {
+      const rows = (await getMessageUsage(sessionId, source, machine === LOCAL_MACHINE ? undefined : machine))
+        .filter((row) => inRange(usageDay(row.timestamp)))
+        .map((row, index): UsageReportRow => ({ ...row, key: row.uuid ?? String(index), label: row.timestamp, messages: 1 }));
+      return c.json(buildUsageReport("message", rows));
+    }
+
+    const sessions = (await getSessions()).filter(
+      (s) =>
+        (!sessionId || s.id === sessionId) &&
+        (!source || s.source === source) &&
+        (!machine || (s.machine ?? LOCAL_MACHINE) === machine) &&
+        (!project || s.project === project),
+    );
+
+    const rows: UsageReportRow[] = [];
+    for (const session of sessions) {
+      try {
+        for (const record of await getSessionUsage(session.id, session.source, session.machine)) {
+          if (!inRange(record.day)) continue;
+          const keys: Record<UsageGroup, string> = {
+            day: record.day,
+            model: record.model,
+            project: session.project,
+            session: sessionIdentityKey(session.id, session.source, session.machine),
+            source: session.source,
+          };
+          rows.push({
+            ...record,
+            key: keys[group as UsageGroup],
+            label: group === "session" ? session.display : undefined,
+          });
+        }
+      } catch { /* skip unreadable sessions */ }
+    }
+    return c.json(buildUsageReport(group as UsageGroup, rows));
+  });
+
+  // Dashboard aggregates from the stats cached in the search DB, filtered by
+  // project, source and date range
+  app.get("/api/stats/:name", (c) => {
+    const query = STATS_QUERIES[c.req.param("name")];
+    if (!query) {
+      return c.json({ ok: false, error: `Unknown stats (expected one of: ${Object.keys(STATS_QUERIES).join(", ")})` }, 404);
+    }
+    const filter = parseStatsFilter((name) => c.req.query(name));
+    if (typeof filter === "string") {
+      return c.json({ ok: false, error: filter }, 400);
+    }
+    return c.json(query(filter));
+  });
+
+  // Sessions with the most failed calls to one tool
+  app.get("/api/stats/tools/:tool/sessions", async (c) => {
+    const filter = parseStatsFilter((name) => c.req.query(name));
+    if (typeof filter === "string") {
+      return c.json({ ok: false, error: filter }, 400);
+    }
+    return c.json(await withSessionDisplay(getToolFailureSessions(c.req.param("tool"), filter)));
+  });
+
+  // Sessions that read, wrote, edited or searched a file (or anything under a directory)
+  app.get("/api/files", async (c) => {
+    const path = c.req.query("path");
+    if (!path) {
+      return c.json({ ok: false, error: "Missing path" }, 400);
+    }
+    return c.json(await withSessionDisplay(getFileSessions(path)));
+  });
+
+  app.get("/api/session/:id/files", (c) => {
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const machine = parseMachineParam(c.req.query("machine"));
+    return c.json(getSessionFiles(c.req.param("id"), source, machine === LOCAL_MACHINE ? undefined : machine));
+  });
+
+  // Commits in the session's project repo matched by time and changed files
+  app.get("/api/session/:id/commits", async (c) => {
+    const sessionId = c.req.param("id");
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const machine = parseMachineParam(c.req.query("machine"));
+    const session = await findSession(sessionId, source, machine);
+    if (!session) {
+      return c.json({ ok: false, error: "Session not found" }, 404);
+    }
+    const messages = await getConversationWithSubagents(session.id, session.source, session.machine);
+    return c.json(await getSessionCommits(session, messages));
+  });
+
+  // The sessions a commit probably came out of, the reverse of the route above
+  app.get("/api/commits/:hash/sessions", async (c) => {
+    const result = await findCommitSessions(c.req.param("hash"), await getSessions(), (session) =>
+      getConversationWithSubagents(session.id, session.source, session.machine),
+    );
+    if (!result.commit) {
+      return c.json({ ok: false, error: "Commit not found" }, 404);
+    }
+    return c.json(result);
+  });
+
+  // Net file changes of the session as a unified diff: JSON per file, or the
+  // whole patch as a download with format=patch
+  app.get("/api/session/:id/patch", async (c) => {
+    const sessionId = c.req.param("id");
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const machine = parseMachineParam(c.req.query("machine"));
+    const session = await findSession(sessionId, source, machine);
+    if (!session) {
+      return c.json({ ok: false, error: "Session not found" }, 404);
+    }
+    const messages = await getConversationWithSubagents(session.id, session.source, session.machine);
+    const patch = buildSessionPatch(messages, session.project);
+    if (c.req.query("format") === "patch") {
+      return c.body(patch.patch, 200, {
+        "Content-Type": "text/x-diff; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${session.id.replace(/[^\w.-]/g, "_")}.patch"`,
+      });
+    }
+    return c.json(patch);
+  });
+
+  // Transcript as a download: format=md|html|json; thinking, toolInputs and
+  // toolResults are included unless set to 0
+  app.get("/api/session/:id/export", async (c) => {
+    const sessionId = c.req.param("id");
+    const sourceQuery = c.req.query("source");
+    const source = parseSourceParam(sourceQuery);
+    if (sourceQuery && !source) {
+      return c.json({ ok: false, error: "Invalid source" }, 400);
+    }
+    const format = c.req.query("format") ?? "md";
+    if (!isExportFormat(format)) {
+      return c.json({ ok: false, error: "format must be md, html or json" }, 400);
+    }
+    const machine = parseMachineParam(c.req.query("machine"));
+    const session = await findSession(sessionId, source, machine);
+    if (!session) {
+      return c.json({ ok: false, error: "Session not found" }, 404);
+    }
+    const messages = await getConversation(session.id, session.source, session.machine, c.req.query("branch") || undefined);
+    const body = exportSession(session, messages, format, {
+      thinking: c.req.query("thinking") !== "0",
+      toolInputs: c.req.query("toolInputs") !== "0",
+      toolResults: c.req.query("toolResults") !== "0",
+    });
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    return c.body(body, 200, {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${session.id.replace(/[^\w.-]/g, "_")}.${extension}"`,
+    });
+  });
+
   app.get("/api/session/:id/model", async (c) => {
     const sessionId = c.req.param("id");
     const sourceQuery = c.req.query("source");
@@ -278,7 +685,7 @@ export function createServer(options: ServerOptions) {
     if (sourceQuery && !source) {
       return c.json({ ok: false, error: "Invalid source" }, 400);
     }
-    const model = await getSessionLatestModel(sessionId, source);
+    const model = await getSessionLatestModel(sessionId, source, parseMachineParam(c.req.query("machine")));
     return c.json(model);
   });
 
@@ -290,6 +697,7 @@ export function createServer(options: ServerOptions) {
       return c.json({ ok: false, error: "Invalid source" }, 400);
     }
 
+    const machine = parseMachineParam(c.req.query("machine"));
     const offsetParam = c.req.query("offset");
     let offset = offsetParam ? parseInt(offsetParam, 10) : 0;
 
@@ -301,8 +709,13 @@ export function createServer(options: ServerOptions) {
         offSessionChange(handleSessionChange);
       };
 
-      const handleSessionChange = async (changedSessionId: string, _filePath: string, changedSource: SessionSource) => {
-        if (changedSessionId !== sessionId || !isConnected) {
+      const handleSessionChange = async (
+        changedSessionId: string,
+        _filePath: string,
+        changedSource: SessionSource,
+        changedMachine: string | undefined,
+      ) => {
+        if (changedSessionId !== sessionId || changedMachine !== machine || !isConnected) {
           return;
         }
         if (source && changedSource !== source) {
@@ -310,13 +723,14 @@ export function createServer(options: ServerOptions) {
         }
 
         const { messages: newMessages, nextOffset: newOffset } =
-          await getConversationStream(sessionId, offset, source ?? changedSource);
+          await getConversationStream(sessionId, offset, source ?? changedSource, machine);
         offset = newOffset;
 
         if (newMessages.length > 0) {
           try {
             await stream.writeSSE({
               event: "messages",
+              id: String(offset),
               data: JSON.stringify(newMessages),
             });
           } catch {
@@ -333,11 +747,13 @@ export function createServer(options: ServerOptions) {
           sessionId,
           offset,
           source,
+          machine,
         );
         offset = nextOffset;
 
         await stream.writeSSE({
           event: "messages",
+          id: String(offset),
           data: JSON.stringify(messages),
         });
 
@@ -362,8 +778,9 @@ export function createServer(options: ServerOptions) {
     const limit = Math.max(1, Math.min(100, parseInt(c.req.query("limit") || "50", 10) || 50));
     const fuzzy = c.req.query("fuzzy") !== "0";
     const requireComplete = c.req.query("requireComplete") === "1";
+    const machine = parseMachineParam(c.req.query("machine"));
 
-    const response = searchSessions(query, source, { limit, fuzzy });
+    const response = searchSessions(query, source, { limit, fuzzy, machine });
 
     if (requireComplete && response.partial) {
       return c.json(response, 409);
@@ -373,18 +790,7 @@ export function createServer(options: ServerOptions) {
   });
 
   app.get("/api/search-index", async (c) => {
-    const sessions = await getSessions();
-    const entries = await Promise.all(
-      sessions.map(async (s) => {
-        try {
-          const content = await getAllSessionContent(s.id, s.source);
-          return { id: s.id, source: s.source, display: s.display, project: s.project, content, timestamp: s.timestamp };
-        } catch {
-          return { id: s.id, source: s.source, display: s.display, project: s.project, content: "", timestamp: s.timestamp };
-        }
-      })
-    );
-    return c.json(entries);
+    return c.json(await getSearchIndexEntries(await getSessions()));
   });
 
   const webDistPath = getWebDistPath();
@@ -405,26 +811,28 @@ export function createServer(options: ServerOptions) {
 
   onHistoryChange(() => {
     invalidateHistoryCache();
-    (async () => {
-      try {
-        const sessions = await getSessions();
-        setExpectedSessions(sessions);
-      } catch {
-        // ignore
-      }
-    })();
+    if (!httpServer) return;
+    // Also picks up sessions that appear without a transcript change, e.g. a CLI import
+    indexUnindexedSessions().catch(() => {});
   });
 
-  onSessionChange(async (sessionId: string, filePath: string, source: SessionSource) => {
-    addToFileIndex(sessionId, filePath, source);
+  onSessionChange(async (
+    sessionId: string,
+    filePath: string,
+    source: SessionSource,
+    machine: string | undefined,
+    auxiliary: boolean,
+  ) => {
+    if (!auxiliary) addToFileIndex(sessionId, filePath, source, machine);
     markSessionDirty(sessionId);
-    invalidateModelCache(sessionId, source);
+    invalidateModelCache(sessionId, source, machine);
     try {
-      const content = await getAllSessionContent(sessionId, source);
+      const content = await getAllSessionContent(sessionId, source, machine);
       const sessions = await getSessions();
-      const session = sessions.find((s) => s.id === sessionId && s.source === source);
+      const session = sessions.find((s) => s.id === sessionId && s.source === source && s.machine === machine);
       if (session) {
-        indexSession(sessionId, source, session.display, session.project, content, session.timestamp);
+        indexSession(sessionId, source, session.display, session.project, content, session.timestamp, machine);
+        await refreshSessionStats(session);
       }
     } catch { /* ignore indexing errors */ }
   });
@@ -433,6 +841,48 @@ export function createServer(options: ServerOptions) {
 
   let httpServer: ReturnType<typeof Bun.serve> | null = null;
   let reindexInterval: ReturnType<typeof setInterval> | null = null;
+  let indexingRun: Promise<number> | null = null;
+
+  // Stats and touched files, subagent runs included; files go first since
+  // current stats mean both are done
+  async function refreshSessionStats(session: Session): Promise<void> {
+    const messages = await getConversationWithSubagents(session.id, session.source, session.machine);
+    recordSessionFiles(session, extractSessionFiles(messages, session.project));
+    recordSessionStats(
+      session,
+      computeSessionActivity(messages, session.timestamp),
+      computeToolCalls(messages, session.timestamp),
+    );
+  }
+
+  function indexUnindexedSessions(): Promise<number> {
+    indexingRun ??= (async () => {
+      const sessions = await getSessions();
+      setExpectedSessions(sessions);
+      let indexed = 0;
+      for (const session of sessions) {
+        // Stats also catch up for sessions indexed before they existed
+        const needsStats = !hasCurrentSessionStats(session);
+        if (isSessionIndexed(session.id, session.source, session.machine)) {
+          if (needsStats) await refreshSessionStats(session).catch(() => {});
+          continue;
+        }
+        try {
+          const content = await getAllSessionContent(session.id, session.source, session.machine);
+          indexSession(session.id, session.source, session.display, session.project, content, session.timestamp, session.machine);
+          if (needsStats) await refreshSessionStats(session);
+          indexed++;
+          if (indexed % 50 === 0) {
+            console.log(`  Indexed ${indexed}/${sessions.length} sessions...`);
+          }
+        } catch { /* skip individual errors */ }
+      }
+      return indexed;
+    })().finally(() => {
+      indexingRun = null;
+    });
+    return indexingRun;
+  }
 
   async function reindexDirtySessions(): Promise<void> {
     const dirtyIds = getDirtySessions();
@@ -444,8 +894,9 @@ export function createServer(options: ServerOptions) {
       const matchingSessions = sessions.filter((s) => s.id === id);
       for (const session of matchingSessions) {
         try {
-          const content = await getAllSessionContent(id, session.source);
-          indexSession(id, session.source, session.display, session.project, content, session.timestamp);
+          const content = await getAllSessionContent(id, session.source, session.machine);
+          indexSession(id, session.source, session.display, session.project, content, session.timestamp, session.machine);
+          await refreshSessionStats(session);
         } catch { /* skip */ }
       }
     }
@@ -455,8 +906,9 @@ export function createServer(options: ServerOptions) {
     app,
     port,
     start: async () => {
+      initMetadataCache(getMetadataDbPath(searchDbPath));
       await loadStorage();
-      initSearchDb();
+      initSearchDb(searchDbPath);
 
       const initialSessions = await getSessions();
       setExpectedSessions(initialSessions);
@@ -480,29 +932,15 @@ export function createServer(options: ServerOptions) {
       });
 
       // Background indexing
-      (async () => {
-        try {
-          const sessions = await getSessions();
-          setExpectedSessions(sessions);
-          let indexed = 0;
-          for (const session of sessions) {
-            if (isSessionIndexed(session.id, session.source)) continue;
-            try {
-              const content = await getAllSessionContent(session.id, session.source);
-              indexSession(session.id, session.source, session.display, session.project, content, session.timestamp);
-              indexed++;
-              if (indexed % 50 === 0) {
-                console.log(`  Indexed ${indexed}/${sessions.length} sessions...`);
-              }
-            } catch { /* skip individual errors */ }
-          }
+      indexUnindexedSessions()
+        .then((indexed) => {
           if (indexed > 0) {
             console.log(`  Search index: ${indexed} new sessions indexed\n`);
           }
-        } catch (err) {
+        })
+        .catch((err) => {
           console.error("Search indexing error:", err);
-        }
-      })();
+        });
 
       reindexInterval = setInterval(() => {
         reindexDirtySessions().catch(() => {});
@@ -517,6 +955,7 @@ export function createServer(options: ServerOptions) {
       }
       stopWatcher();
       closeSearchDb();
+      closeMetadataCache();
       if (httpServer) {
         httpServer.stop();
       }
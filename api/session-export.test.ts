@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import type { ContentBlock, ConversationMessage, Session } from "./storage";
+import { resolveConversationPath } from "./conversation-tree";
+import { exportSession, filterExportMessages } from "./session-export";
+
+const session: Session = {
+  id: "s1",
+  display: "Fix <the> build",
+  timestamp: Date.parse("2026-03-01T10:00:00Z"),
+  project: "/repo",
+  projectName: "repo",
+  source: "claude",
+};
+
+const assistant = (...content: ContentBlock[]): ConversationMessage => ({
+  type: "assistant",
+  message: { role: "assistant", content },
+});
+
+const messages: ConversationMessage[] = [
+  { type: "summary", summary: "ignored" },
+  { type: "user", message: { role: "user", content: "<command-name>/clear</command-name>" } },
+  { type: "user", message: { role: "user", content: "Why does the build fail?" } },
+  assistant(
+    { type: "thinking", thinking: "Check the logs" },
+    { type: "text", text: "Running ```the``` tests." },
+    { type: "tool_use", id: "t1", name: "Bash", input: { command: "bun test" } },
+  ),
+  {
+    type: "user",
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "1 fail", is_error: true }] },
+  },
+  { type: "compaction", compaction: { tokensBefore: 1200 } },
+  { type: "user", isCompactSummary: true, message: { role: "user", content: "Summary of the run" } },
+  assistant({ type: "text", text: "Fixed." }),
+];
+
+const all = { thinking: true, toolInputs: true, toolResults: true };
+
+describe("session export", () => {
+  test("drops excluded blocks and messages left empty", () => {
+    const filtered = filterExportMessages(messages, { thinking: false, toolInputs: false, toolResults: false });
+    expect(filtered.map((m) => m.type)).toEqual(["user", "assistant", "compaction", "assistant"]);
+    expect(filtered[1].message?.content).toEqual([
+      { type: "text", text: "Running ```the``` tests." },
+      { type: "tool_use", id: "t1", name: "Bash", input: undefined },
+    ]);
+  });
+
+  test("renders Markdown with tool calls in fenced blocks", () => {
+    const markdown = exportSession(session, messages, "md", all);
+    expect(markdown).toStartWith("# Fix <the> build\n\n- **Project:** `/repo`");
+    expect(markdown).toContain(
+      [
+        "## User",
+        "Why does the build fail?",
+        "## Assistant",
+        "<details>\n<summary>Thinking</summary>\n\n```\nCheck the logs\n```\n\n</details>",
+        "Running ```the``` tests.",
+        "**Tool: Bash**\n\n```bash\nbun test\n```",
+        "**Error (Bash)**\n\n```\n1 fail\n```",
+        "---\n\n*Context compacted here, 1,200 tokens before*",
+        "<details>\n<summary>Summary</summary>\n\nSummary of the run\n\n</details>",
+        "## Assistant",
+        "Fixed.",
+      ].join("\n\n"),
+    );
+    expect(markdown).not.toContain("/clear");
+  });
+
+  test("renders a self-contained HTML page", () => {
+    const html = exportSession(session, messages, "html", all);
+    expect(html).toStartWith("<!doctype html>");
+    expect(html).toContain("<title>Fix &lt;the&gt; build</title>");
+    expect(html).toContain('<div class="row user"><div class="column"><div class="bubble">Why does the build fail?</div>');
+    expect(html).toContain("<p>Running <code>the</code> tests.</p>");
+    expect(html).toContain('<details class="error"><summary><b>error</b> <span>Bash: 1 fail</span></summary>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+  });
+
+  test("exports the filtered messages as JSON", () => {
+    const json = JSON.parse(exportSession(session, messages, "json", { ...all, toolResults: false }));
+    expect(json.session.id).toBe("s1");
+    expect(json.messages.map((m: ConversationMessage) => m.type)).toEqual(["user", "assistant", "compaction", "assistant"]);
+    expect(json.messages[2].compaction.summary).toBe("Summary of the run");
+  });
+
+  test("keeps every parallel tool call and result of the exported branch", () => {
+    // Claude Code's layout: calls chained, each result under its own call
+    const linked = (uuid: string, parentUuid: string | null, message: ConversationMessage): ConversationMessage => ({
+      ...message,
+      uuid,
+      parentUuid,
+    });
+    const result = (id: string, content: string): ConversationMessage => ({
+      type: "user",
+      message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content }] },
+    });
+    const transcript = [
+      linked("u1", null, { type: "user", message: { role: "user", content: "Check both files" } }),
+      linked("t1", "u1", assistant({ type: "tool_use", id: "c1", name: "Bash", input: { command: "cat a" } })),
+      linked("t2", "t1", assistant({ type: "tool_use", id: "c2", name: "Bash", input: { command: "cat b" } })),
+      linked("r1", "t1", result("c1", "alpha")),
+      linked("r2", "t2", result("c2", "beta")),
+      linked("a1", "r2", assistant({ type: "text", text: "Both read." })),
+    ];
+
+    // What getConversation hands the export route
+    const markdown = exportSession(session, resolveConversationPath(transcript).messages, "md", all);
+    for (const part of ["cat a", "cat b", "alpha", "beta", "Both read."]) expect(markdown).toContain(part);
+  });
+});
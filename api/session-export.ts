@@ -0,0 +1,338 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { ContentBlock, ConversationMessage, Session } from "./storage";
+import { sanitizeText } from "./sanitize";
+import { toolResultText } from "./stats";
+
+// A session transcript as a standalone document: Markdown for pasting into
+// PRs and postmortems, a self-contained HTML page styled like the web view,
+// or the filtered messages as JSON.
+
+export type ExportFormat = "md" | "html" | "json";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  md: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+};
+
+export interface ExportOptions {
+  thinking: boolean;
+  toolInputs: boolean;
+  toolResults: boolean;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+function keepBlock(block: ContentBlock, options: ExportOptions): boolean {
+  if (block.type === "thinking") return options.thinking && !!block.thinking?.trim();
+  if (block.type === "tool_result") return options.toolResults;
+  if (block.type === "text") return !!block.text && sanitizeText(block.text).length > 0;
+  return true;
+}
+
+/**
+ * The messages shown in the conversation view, minus the excluded block
+ * types. Tool calls stay when their inputs are excluded, so the transcript
+ * still says which tools ran.
+ */
+export function filterExportMessages(messages: ConversationMessage[], options: ExportOptions): ConversationMessage[] {
+  const result: ConversationMessage[] = [];
+  for (const message of messages) {
+    if (message.type === "compaction") {
+      result.push({ ...message });
+      continue;
+    }
+    if (message.type !== "user" && message.type !== "assistant") continue;
+    // Folded into the compaction marker before it, as the view shows it
+    const previous = result[result.length - 1];
+    if (message.isCompactSummary && previous?.type === "compaction") {
+      previous.compaction = { ...previous.compaction, summary: previous.compaction?.summary ?? messageText(message) };
+      continue;
+    }
+
+    const content = message.message?.content;
+    if (!message.message || content === undefined) continue;
+    if (typeof content === "string") {
+      if (sanitizeText(content)) result.push(message);
+      continue;
+    }
+    const blocks = content
+      .filter((block) => keepBlock(block, options))
+      .map((block) => (block.type === "tool_use" && !options.toolInputs ? { ...block, input: undefined } : block));
+    if (blocks.length > 0) result.push({ ...message, message: { ...message.message, content: blocks } });
+  }
+  return result;
+}
+
+function messageText(message: ConversationMessage): string {
+  const content = message.message?.content;
+  if (typeof content === "string") return sanitizeText(content);
+  return (content ?? [])
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => sanitizeText(block.text ?? ""))
+    .join("\n\n");
+}
+
+/** User messages carrying only tool results read as part of the assistant's turn. */
+function speaker(message: ConversationMessage): "user" | "assistant" {
+  const content = message.message?.content;
+  if (message.type !== "user") return "assistant";
+  if (Array.isArray(content) && content.every((block) => block.type === "tool_result")) return "assistant";
+  return "user";
+}
+
+function toolResultContent(block: ContentBlock): string {
+  return sanitizeText(toolResultText(block.content));
+}
+
+function compactionLabel(message: ConversationMessage): string {
+  const tokensBefore = message.compaction?.tokensBefore;
+  const trigger = message.compaction?.trigger === "manual" ? "compacted manually" : "compacted";
+  return `Context ${trigger} here${tokensBefore !== undefined ? `, ${tokensBefore.toLocaleString("en-US")} tokens before` : ""}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
+
+function sessionDetails(session: Session): Array<[string, string]> {
+  return [
+    ["Project", session.project],
+    ["Source", session.machine ? `${session.source} (${session.machine})` : session.source],
+    ["Updated", formatDate(session.timestamp)],
+    ["Session", session.id],
+  ];
+}
+
+// Markdown
+
+/** A code fence longer than any backtick run in `text`. */
+function fence(text: string, language = ""): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marks = "`".repeat(Math.max(3, longest + 1));
+  return `${marks}${language}\n${text}\n${marks}`;
+}
+
+function toolInputMarkdown(block: ContentBlock): string | null {
+  const input = block.input as Record<string, unknown> | undefined;
+  if (!input || Object.keys(input).length === 0) return null;
+  if (block.name?.toLowerCase() === "bash" && typeof input.command === "string") return fence(input.command, "bash");
+  return fence(JSON.stringify(input, null, 2), "json");
+}
+
+function blockMarkdown(block: ContentBlock, toolNames: Map<string, string>): string | null {
+  if (block.type === "text") return sanitizeText(block.text ?? "");
+  if (block.type === "thinking") {
+    return `<details>\n<summary>Thinking</summary>\n\n${fence(block.thinking ?? "")}\n\n</details>`;
+  }
+  if (block.type === "tool_use") {
+    const input = toolInputMarkdown(block);
+    return `**Tool: ${block.name ?? "unknown"}**${input ? `\n\n${input}` : ""}`;
+  }
+  if (block.type === "tool_result") {
+    const name = block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined;
+    const label = `${block.is_error ? "Error" : "Result"}${name ? ` (${name})` : ""}`;
+    const text = toolResultContent(block);
+    return text ? `**${label}**\n\n${fence(text)}` : `**${label}:** (empty)`;
+  }
+  return null;
+}
+
+export function sessionToMarkdown(session: Session, messages: ConversationMessage[]): string {
+  const toolNames = collectToolNames(messages);
+  const sections = [
+    `# ${session.display || session.id}`,
+    sessionDetails(session)
+      .map(([label, value]) => `- **${label}:** \`${value}\``)
+      .join("\n"),
+  ];
+  let current: "user" | "assistant" | null = null;
+
+  for (const message of messages) {
+    if (message.type === "compaction") {
+      const summary = message.compaction?.summary;
+      sections.push(`---\n\n*${compactionLabel(message)}*`);
+      if (summary) sections.push(`<details>\n<summary>Summary</summary>\n\n${summary}\n\n</details>`);
+      current = null;
+      continue;
+    }
+    const role = speaker(message);
+    if (role !== current) {
+      sections.push(`## ${role === "user" ? "User" : "Assistant"}`);
+      current = role;
+    }
+    const content = message.message?.content;
+    if (typeof content === "string") {
+      sections.push(sanitizeText(content));
+      continue;
+    }
+    for (const block of content ?? []) {
+      const text = blockMarkdown(block, toolNames);
+      if (text) sections.push(text);
+    }
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+function collectToolNames(messages: ConversationMessage[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const message of messages) {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) continue;
+    for (const block of content) {
+      if (block.type === "tool_use" && block.id && block.name) names.set(block.id, block.name);
+    }
+  }
+  return names;
+}
+
+// HTML
+
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
+function renderMarkdown(text: string): string {
+  return renderToStaticMarkup(createElement(Markdown, { remarkPlugins: [remarkGfm] }, text));
+}
+
+// Mirrors the Tailwind classes of MessageBlock and its chips, in light and dark
+const HTML_STYLE = `
+:root { color-scheme: light dark; --bg: #fff; --fg: #18181b; --muted: #71717a; --border: #e4e4e7;
+  --user: #6366f1; --user-fg: #fff; --assistant: #cffafe; --assistant-fg: #18181b;
+  --chip: #f1f5f9; --chip-fg: #475569; --chip-border: #e2e8f0;
+  --ok: #f0fdfa; --ok-fg: #0f766e; --ok-border: #99f6e4;
+  --err: #fff1f2; --err-fg: #be123c; --err-border: #fecdd3;
+  --think: #fef3c7; --think-fg: #b45309; --think-border: #fde68a; --code: #f4f4f5; }
+@media (prefers-color-scheme: dark) {
+  :root { --bg: #09090b; --fg: #f4f4f5; --muted: #a1a1aa; --border: #27272a;
+    --user: rgba(79, 70, 229, 0.8); --user-fg: #eef2ff; --assistant: rgba(14, 116, 144, 0.5); --assistant-fg: #f4f4f5;
+    --chip: rgba(100, 116, 139, 0.1); --chip-fg: #cbd5e1; --chip-border: rgba(100, 116, 139, 0.2);
+    --ok: rgba(20, 184, 166, 0.1); --ok-fg: #5eead4; --ok-border: rgba(20, 184, 166, 0.2);
+    --err: rgba(244, 63, 94, 0.1); --err-fg: #fb7185; --err-border: rgba(244, 63, 94, 0.2);
+    --think: rgba(245, 158, 11, 0.1); --think-fg: #fbbf24; --think-border: rgba(245, 158, 11, 0.2); --code: #18181b; }
+}
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 13px/1.6 ui-sans-serif, system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; display: flex; flex-direction: column; gap: 0.5rem; }
+header { border-bottom: 1px solid var(--border); padding-bottom: 1rem; margin-bottom: 1rem; }
+header h1 { font-size: 1rem; margin: 0 0 0.5rem; }
+header dl { display: grid; grid-template-columns: auto 1fr; gap: 0.125rem 1rem; margin: 0; color: var(--muted); font-size: 11px; }
+header dd { margin: 0; font-family: ui-monospace, monospace; overflow-wrap: anywhere; }
+.row { display: flex; min-width: 0; }
+.row.user { justify-content: flex-end; }
+.column { max-width: 85%; min-width: 0; display: flex; flex-direction: column; gap: 0.25rem; }
+.bubble { padding: 0.625rem 0.875rem; border-radius: 1rem; overflow: hidden; overflow-wrap: anywhere; }
+.user .bubble { background: var(--user); color: var(--user-fg); border-bottom-right-radius: 0.375rem; white-space: pre-wrap; }
+.assistant .bubble { background: var(--assistant); color: var(--assistant-fg); border-bottom-left-radius: 0.375rem; }
+.bubble > :first-child { margin-top: 0; } .bubble > :last-child { margin-bottom: 0; }
+.bubble pre, .bubble code { background: var(--code); color: var(--fg); border-radius: 0.375rem; font-size: 12px; }
+.bubble pre { padding: 0.75rem; overflow-x: auto; } .bubble code { padding: 0 0.25rem; } .bubble pre code { padding: 0; }
+.bubble table { border-collapse: collapse; } .bubble th, .bubble td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; }
+details { max-width: 100%; }
+summary { display: inline-flex; align-items: center; gap: 0.375rem; padding: 0.25rem 0.625rem; border-radius: 0.5rem;
+  border: 1px solid var(--chip-border); background: var(--chip); color: var(--chip-fg); font-size: 11px; cursor: pointer; list-style: none; }
+summary::-webkit-details-marker { display: none; }
+summary b { font-weight: 500; }
+summary span { opacity: 0.6; max-width: 200px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+details pre { margin: 0.5rem 0 0; padding: 0.75rem; border-radius: 0.5rem; border: 1px solid var(--chip-border); background: var(--chip);
+  color: var(--chip-fg); font-size: 12px; white-space: pre-wrap; overflow-wrap: anywhere; max-height: 20rem; overflow-y: auto; }
+.chip { display: inline-flex; padding: 0.25rem 0.625rem; border-radius: 0.5rem; border: 1px solid var(--chip-border);
+  background: var(--chip); color: var(--chip-fg); font-size: 11px; width: fit-content; }
+.thinking summary, .thinking pre { background: var(--think); color: var(--think-fg); border-color: var(--think-border); }
+.result summary, .result pre { background: var(--ok); color: var(--ok-fg); border-color: var(--ok-border); }
+.error summary, .error pre { background: var(--err); color: var(--err-fg); border-color: var(--err-border); }
+.compaction { display: flex; align-items: center; gap: 0.5rem; margin: 0.5rem 0; color: var(--think-fg); font-size: 11px; }
+.compaction::before, .compaction::after { content: ""; flex: 1; height: 1px; background: var(--think-border); }
+.compaction-summary { border: 1px solid var(--think-border); background: var(--think); border-radius: 0.75rem; padding: 0.75rem 1rem; }
+`;
+
+function toolPreview(block: ContentBlock): string {
+  const input = block.input as Record<string, unknown> | undefined;
+  const value = input?.file_path ?? input?.command ?? input?.pattern ?? input?.description ?? input?.url;
+  if (typeof value !== "string") return "";
+  return value.length > 50 ? `${value.slice(0, 50)}...` : value;
+}
+
+function collapsible(className: string, label: string, preview: string, body: string): string {
+  const summary = `<summary><b>${escapeHtml(label)}</b>${preview ? ` <span>${escapeHtml(preview)}</span>` : ""}</summary>`;
+  return body ? `<details class="${className}">${summary}<pre>${escapeHtml(body)}</pre></details>` : `<div class="chip ${className}"><b>${escapeHtml(label)}</b></div>`;
+}
+
+function blockHtml(block: ContentBlock, toolNames: Map<string, string>): string {
+  if (block.type === "thinking") return collapsible("thinking", "thinking", "", block.thinking ?? "");
+  if (block.type === "tool_use") {
+    const input = block.input as Record<string, unknown> | undefined;
+    const body = input && Object.keys(input).length > 0 ? JSON.stringify(input, null, 2) : "";
+    return collapsible("tool", block.name ?? "tool", toolPreview(block), body);
+  }
+  if (block.type === "tool_result") {
+    const name = block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined;
+    const text = toolResultContent(block);
+    const preview = name ? `${name}: ${text.slice(0, 60)}` : text.slice(0, 60);
+    return collapsible(block.is_error ? "error" : "result", block.is_error ? "error" : "result", preview, text);
+  }
+  return "";
+}
+
+function messageHtml(message: ConversationMessage, toolNames: Map<string, string>): string {
+  const isUser = message.type === "user";
+  const content = message.message?.content;
+  const text = messageText(message);
+  const bubble = text ? `<div class="bubble">${isUser ? escapeHtml(text) : renderMarkdown(text)}</div>` : "";
+  const tools = Array.isArray(content)
+    ? content.filter((block) => block.type !== "text").map((block) => blockHtml(block, toolNames)).join("")
+    : "";
+  return `<div class="row ${isUser && text ? "user" : "assistant"}"><div class="column">${bubble}${tools}</div></div>`;
+}
+
+export function sessionToHtml(session: Session, messages: ConversationMessage[]): string {
+  const toolNames = collectToolNames(messages);
+  const title = session.display || session.id;
+  const details = sessionDetails(session)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const body = messages.map((message, index) => {
+    if (message.type !== "compaction") return messageHtml(message, toolNames);
+    const summary = message.compaction?.summary;
+    return `<div class="compaction">${escapeHtml(compactionLabel(message))}</div>` +
+      (summary ? `<details><summary><b>compaction summary</b></summary><div class="compaction-summary">${renderMarkdown(summary)}</div></details>` : "");
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<header><h1>${escapeHtml(title)}</h1><dl>${details}</dl></header>
+${body.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+/** The export document for `messages` (the conversation's chosen branch) in `format`. */
+export function exportSession(
+  session: Session,
+  messages: ConversationMessage[],
+  format: ExportFormat,
+  options: ExportOptions,
+): string {
+  const filtered = filterExportMessages(messages, options);
+  if (format === "md") return sessionToMarkdown(session, filtered);
+  if (format === "html") return sessionToHtml(session, filtered);
+  return JSON.stringify({ session, options, messages: filtered }, null, 2);
+}
@@ -0,0 +1,81 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ContentBlock, ConversationMessage, Session } from "./storage";
+import { closeSearchDb, initSearchDb } from "./search";
+import { extractSessionFiles, getFileSessions, getSessionFiles, recordSessionFiles } from "./session-files";
+
+const toolCall = (uuid: string, name: string, input: unknown): ConversationMessage => ({
+  type: "assistant",
+  uuid,
+  timestamp: `2026-03-01T10:00:0${uuid.slice(-1)}`,
+  message: { role: "assistant", content: [{ type: "tool_use", id: `t-${uuid}`, name, input } as ContentBlock] },
+});
+
+const patch = `*** Begin Patch
+*** Update File: src/app.ts
+@@
+-old
++new
+*** Add File: src/new.ts
++export {};
+*** Delete File: src/old.ts
+*** End Patch`;
+
+describe("session files", () => {
+  const dirPromise = mkdtemp(join(tmpdir(), "claude-run-plus-files-"));
+
+  afterAll(async () => {
+    closeSearchDb();
+    await rm(await dirPromise, { recursive: true, force: true });
+  });
+
+  test("extracts paths from file tools and apply_patch", () => {
+    const touches = extractSessionFiles(
+      [
+        toolCall("m1", "Read", { file_path: "/work/app/src/app.ts" }),
+        toolCall("m2", "Grep", { pattern: "TODO", path: "src" }),
+        toolCall("m3", "Bash", { command: "ls" }),
+        toolCall("m4", "shell", { command: ["apply_patch", patch] }),
+        toolCall("m5", "edit", { path: "README.md", oldText: "a", newText: "b" }),
+      ],
+      "/work/app",
+    );
+
+    expect(touches.map((t) => [t.messageUuid, t.operation, t.path])).toEqual([
+      ["m1", "read", "/work/app/src/app.ts"],
+      ["m2", "search", "/work/app/src"],
+      ["m4", "edit", "/work/app/src/app.ts"],
+      ["m4", "write", "/work/app/src/new.ts"],
+      ["m4", "delete", "/work/app/src/old.ts"],
+      ["m5", "edit", "/work/app/README.md"],
+    ]);
+  });
+
+  test("finds sessions by file or directory", async () => {
+    initSearchDb(join(await dirPromise, "search.db"));
+    const session = (id: string): Session => ({ id, source: "claude", display: id, timestamp: 1, project: "/work/app", projectName: "app" });
+
+    recordSessionFiles(session("s1"), [
+      { path: "/work/app/src/app.ts", operation: "read", tool: "Read", messageUuid: "m1", timestamp: "2026-03-01T10:00:00" },
+      { path: "/work/app/src/app.ts", operation: "edit", tool: "Edit", messageUuid: "m2", timestamp: "2026-03-01T10:00:05" },
+    ]);
+    recordSessionFiles(session("s2"), [
+      { path: "/work/app/src-old/x.ts", operation: "write", tool: "Write", timestamp: "2026-03-02T09:00:00" },
+    ]);
+
+    expect(getFileSessions("/work/app/src/").map((s) => [s.sessionId, s.touches.length])).toEqual([["s1", 2]]);
+    expect(getFileSessions("/work/app").map((s) => s.sessionId)).toEqual(["s2", "s1"]);
+    expect(getSessionFiles("s1", "claude")).toEqual([
+      {
+        path: "/work/app/src/app.ts",
+        operations: ["read", "edit"],
+        touches: [
+          { operation: "read", tool: "Read", messageUuid: "m1", timestamp: "2026-03-01T10:00:00" },
+          { operation: "edit", tool: "Edit", messageUuid: "m2", timestamp: "2026-03-01T10:00:05" },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+import { isAbsolute, resolve } from "path";
+import type { ConversationMessage, Session } from "./storage";
+import { getSearchDb } from "./search";
+
+// Which files each session touched, pulled from file tool inputs and Codex
+// patches when the session is indexed and kept in the search DB's
+// `session_files` table.
+
+export type FileOperation = "read" | "write" | "edit" | "delete" | "search";
+
+export interface FileTouch {
+  path: string;
+  operation: FileOperation;
+  tool: string;
+  messageUuid?: string;
+  timestamp?: string;
+}
+
+// Lowercased tool name → operation; Pi and OpenCode use lowercase names
+const FILE_TOOLS: Record<string, FileOperation> = {
+  read: "read",
+  write: "write",
+  edit: "edit",
+  multiedit: "edit",
+  notebookedit: "edit",
+  grep: "search",
+  glob: "search",
+};
+
+const PATCH_HEADERS: Array<[string, FileOperation]> = [
+  ["*** Add File: ", "write"],
+  ["*** Update File: ", "edit"],
+  ["*** Delete File: ", "delete"],
+  ["*** Move to: ", "write"],
+];
+
+/** Files named in an `apply_patch` body (`*** Update File: path`, ...). */
+export function parsePatchFiles(patch: string): Array<{ path: string; operation: FileOperation }> {
+  const files: Array<{ path: string; operation: FileOperation }> = [];
+  for (const line of patch.split("\n")) {
+    const header = PATCH_HEADERS.find(([prefix]) => line.startsWith(prefix));
+    const path = header && line.slice(header[0].length).trim();
+    if (header && path) files.push({ path, operation: header[1] });
+  }
+  return files;
+}
+
+/** The patch in an `apply_patch` call, which Codex sends bare, as `input`, or as a shell command argument. */
+export function findPatch(input: unknown): string | null {
+  const candidates: unknown[] = [input];
+  if (input && typeof input === "object") {
+    const { input: inner, patch, command } = input as Record<string, unknown>;
+    candidates.push(inner, patch, ...(Array.isArray(command) ? command : [command]));
+  }
+  for (const candidate of candidates) {
+    if (typeof candidate !== "string") continue;
+    const start = candidate.indexOf("*** Begin Patch");
+    if (start !== -1) return candidate.slice(start);
+  }
+  return null;
+}
+
+function inputPath(input: unknown): string | null {
+  if (!input || typeof input !== "object") return null;
+  const { file_path, notebook_path, path } = input as Record<string, unknown>;
+  const value = file_path ?? notebook_path ?? path;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Every file read, written, edited, deleted or searched, in message order; relative paths resolve against `cwd`. */
+export function extractSessionFiles(messages: ConversationMessage[], cwd?: string): FileTouch[] {
+  const touches: FileTouch[] = [];
+  const absolute = (path: string) => (!isAbsolute(path) && cwd && isAbsolute(cwd) ? resolve(cwd, path) : path);
+
+  for (const message of messages) {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type !== "tool_use" || !block.name) continue;
+      const touch = { tool: block.name, messageUuid: message.uuid, timestamp: message.timestamp };
+
+      const patch = findPatch(block.input);
+      if (patch) {
+        for (const file of parsePatchFiles(patch)) {
+          touches.push({ ...touch, path: absolute(file.path), operation: file.operation });
+        }
+        continue;
+      }
+
+      const operation = FILE_TOOLS[block.name.toLowerCase()];
+      const path = operation && inputPath(block.input);
+      if (path) touches.push({ ...touch, path: absolute(path), operation });
+    }
+  }
+  return touches;
+}
+
+export function recordSessionFiles(session: Session, touches: FileTouch[]): void {
+  const db = getSearchDb();
+  if (!db) return;
+  const identity = [session.id, session.source, session.machine ?? ""];
+
+  const insert = db.prepare(
+    `INSERT INTO session_files (session_id, source, machine, path, operation, tool, message_uuid, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    db.run("DELETE FROM session_files WHERE session_id = ? AND source = ? AND machine = ?", identity);
+    for (const touch of touches) {
+      insert.run(...identity, touch.path, touch.operation, touch.tool, touch.messageUuid ?? null, touch.timestamp ?? null);
+    }
+  })();
+}
+
+interface FileRow {
+  sessionId: string;
+  source: string;
+  machine: string;
+  project: string | null;
+  path: string;
+  operation: FileOperation;
+  tool: string;
+  messageUuid: string | null;
+  timestamp: string | null;
+}
+
+function toTouch(row: FileRow): FileTouch {
+  return {
+    path: row.path,
+    operation: row.operation,
+    tool: row.tool,
+    ...(row.messageUuid ? { messageUuid: row.messageUuid } : {}),
+    ...(row.timestamp ? { timestamp: row.timestamp } : {}),
+  };
+}
+
+const FILE_ROW_COLUMNS = `
+  f.session_id AS sessionId, f.source AS source, f.machine AS machine, s.project AS project,
+  f.path AS path, f.operation AS operation, f.tool AS tool, f.message_uuid AS messageUuid, f.timestamp AS timestamp
+  FROM session_files f
+  LEFT JOIN session_stats s ON f.source = s.source AND f.machine = s.machine AND f.session_id = s.session_id`;
+
+export interface FileSession {
+  sessionId: string;
+  source: string;
+  /** Unset for local sessions. */
+  machine?: string;
+  project: string;
+  /** Touches in message order. */
+  touches: FileTouch[];
+}
+
+/** Sessions that touched `path` or, for a directory, anything under it; most recently touched first. */
+export function getFileSessions(path: string): FileSession[] {
+  const db = getSearchDb();
+  if (!db) return [];
+  const target = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  const rows = db
+    .query(`SELECT ${FILE_ROW_COLUMNS} WHERE f.path = ? OR substr(f.path, 1, length(?) + 1) = ? || '/' ORDER BY f.rowid`)
+    .all(target, target, target) as FileRow[];
+
+  const sessions = new Map<string, FileSession & { lastTouched: string }>();
+  for (const row of rows) {
+    const key = `${row.source}@${row.machine}:${row.sessionId}`;
+    let session = sessions.get(key);
+    if (!session) {
+      session = {
+        sessionId: row.sessionId,
+        source: row.source,
+        ...(row.machine ? { machine: row.machine } : {}),
+        project: row.project ?? "",
+        touches: [],
+        lastTouched: "",
+      };
+      sessions.set(key, session);
+    }
+    session.touches.push(toTouch(row));
+    if (row.timestamp && row.timestamp > session.lastTouched) session.lastTouched = row.timestamp;
+  }
+  return [...sessions.values()]
+    .sort((a, b) => b.lastTouched.localeCompare(a.lastTouched))
+    .map(({ lastTouched: _, ...session }) => session);
+}
+
+export interface SessionFile {
+  path: string;
+  /** Distinct operations, in the order they first happened. */
+  operations: FileOperation[];
+  touches: Array<Omit<FileTouch, "path">>;
+}
+
+/** Everything one session touched, by path. */
+export function getSessionFiles(sessionId: string, source?: string, machine: string = ""): SessionFile[] {
+  const db = getSearchDb();
+  if (!db) return [];
+  const rows = (
+    source
+      ? db.query(`SELECT ${FILE_ROW_COLUMNS} WHERE f.session_id = ? AND f.source = ? AND f.machine = ? ORDER BY f.rowid`).all(sessionId, source, machine)
+      : db.query(`SELECT ${FILE_ROW_COLUMNS} WHERE f.session_id = ? AND f.machine = ? ORDER BY f.rowid`).all(sessionId, machine)
+  ) as FileRow[];
+
+  const files = new Map<string, SessionFile>();
+  for (const row of rows) {
+    let file = files.get(row.path);
+    if (!file) {
+      file = { path: row.path, operations: [], touches: [] };
+      files.set(row.path, file);
+    }
+    if (!file.operations.includes(row.operation)) file.operations.push(row.operation);
+    const { path: _, ...touch } = toTouch(row);
+    file.touches.push(touch);
+  }
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import type { ContentBlock, ConversationMessage } from "./storage";
+import { buildSessionPatch, parseReadResult } from "./session-patch";
+
+const call = (id: string, name: string, input: Record<string, unknown>): ConversationMessage => ({
+  type: "assistant",
+  message: { role: "assistant", content: [{ type: "tool_use", id, name, input }] },
+});
+
+const result = (id: string, content: string, isError = false): ConversationMessage => ({
+  type: "user",
+  message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content, is_error: isError } as ContentBlock] },
+});
+
+describe("buildSessionPatch", () => {
+  test("diffs against a file read before it was edited", () => {
+    const { files, patch } = buildSessionPatch(
+      [
+        call("r1", "Read", { file_path: "/repo/src/a.ts" }),
+        result("r1", "     1→one\n     2→two\n     3→three\n\n<system-reminder>x</system-reminder>"),
+        call("e1", "Edit", { file_path: "/repo/src/a.ts", old_string: "two", new_string: "TWO" }),
+        result("e1", "ok"),
+        call("e2", "Edit", { file_path: "/repo/src/a.ts", old_string: "missing", new_string: "x" }),
+        result("e2", "String to replace not found", true),
+        call("e3", "MultiEdit", { file_path: "/repo/src/a.ts", edits: [{ old_string: "three", new_string: "3" }] }),
+      ],
+      "/repo",
+    );
+
+    expect(files.map((f) => [f.displayPath, f.status, f.partial, f.additions, f.deletions])).toEqual([
+      ["src/a.ts", "modified", false, 2, 2],
+    ]);
+    expect(patch).toBe(
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1,3 +1,3 @@",
+        " one",
+        "-two",
+        "-three",
+        "+TWO",
+        "+3",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps edited regions of files it never saw whole", () => {
+    const { files } = buildSessionPatch([
+      call("w1", "Write", { file_path: "/repo/new.txt", content: "hello\n" }),
+      result("w1", "File created successfully at: /repo/new.txt"),
+      call("w2", "Write", { file_path: "/repo/config.json", content: "{}\n" }),
+      result("w2", "The file /repo/config.json has been updated. Here's the result of running `cat -n`..."),
+      call("e1", "Edit", { file_path: "/repo/b.ts", old_string: "let x = 1;", new_string: "let x = 2;" }),
+      call("e2", "Edit", { file_path: "/repo/b.ts", old_string: "x = 2", new_string: "y = 2" }),
+    ], "/repo");
+
+    expect(files.map((f) => [f.displayPath, f.status, f.partial])).toEqual([
+      ["b.ts", "modified", true],
+      ["config.json", "modified", true],
+      ["new.txt", "added", false],
+    ]);
+    expect(files[0].diff).toContain("-let x = 1;\n+let y = 2;");
+    expect(files[1].diff).toContain("--- a/config.json\n+++ b/config.json\n@@ -0,0 +1,1 @@\n+{}");
+    expect(files[2].diff).toContain("new file mode 100644\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hello");
+  });
+
+  test("falls back to fragments when an edit misses the content read", () => {
+    const { files } = buildSessionPatch([
+      // Read stopped at its line limit, but still numbers from line 1
+      call("r1", "Read", { file_path: "/repo/big.ts" }),
+      result("r1", "     1→one\n     2→two"),
+      call("e1", "Edit", { file_path: "/repo/big.ts", old_string: "two", new_string: "TWO" }),
+      call("e2", "Edit", { file_path: "/repo/big.ts", old_string: "line 5000", new_string: "line five thousand" }),
+    ], "/repo");
+
+    expect(files.map((f) => [f.displayPath, f.status, f.partial, f.additions, f.deletions])).toEqual([
+      ["big.ts", "modified", true, 2, 2],
+    ]);
+    expect(files[0].diff).toContain(" one\n-two\n+TWO");
+    expect(files[0].diff).toContain("-line 5000\n+line five thousand");
+  });
+
+  test("replays apply_patch adds, updates, moves and deletes", () => {
+    const patch = [
+      "*** Begin Patch",
+      "*** Add File: docs/notes.md",
+      "+# Notes",
+      "*** Update File: src/app.ts",
+      "*** Move to: src/main.ts",
+      "@@ function main()",
+      " const a = 1;",
+      "-run(a);",
+      "+start(a);",
+      "*** Delete File: old.txt",
+      "*** End Patch",
+    ].join("\n");
+    const { files } = buildSessionPatch([call("p1", "shell", { command: ["apply_patch", patch] })], "/repo");
+
+    expect(files.map((f) => [f.displayPath, f.status])).toEqual([
+      ["docs/notes.md", "added"],
+      ["old.txt", "deleted"],
+      ["src/main.ts", "modified"],
+    ]);
+    expect(files[2].diff).toContain("rename from src/app.ts\nrename to src/main.ts");
+    expect(files[2].diff).toContain(" const a = 1;\n-run(a);\n+start(a);");
+  });
+
+  test("parses numbered Read output only when it starts at line 1", () => {
+    expect(parseReadResult("     1\tfirst\n     2\t")).toBe("first\n\n");
+    expect(parseReadResult("    10→partial")).toBeNull();
+    expect(parseReadResult("plain text")).toBeNull();
+  });
+});
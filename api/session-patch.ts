@@ -0,0 +1,341 @@
+import { structuredPatch } from "diff";
+import { isAbsolute, relative, resolve } from "path";
+import type { ConversationMessage } from "./storage";
+import { findPatch } from "./session-files";
+import { toolResultText } from "./stats";
+
+// The net change a session made, from replaying its file edits in order.
+// A file's original content is known when the session created it or read it
+// whole before the first change; otherwise only the edited regions are known
+// and they become standalone hunks with approximate line numbers.
+
+export interface PatchFile {
+  path: string;
+  /** Path in the diff headers: relative to the project when inside it. */
+  displayPath: string;
+  status: "added" | "modified" | "deleted";
+  /** The original file was never seen, so hunks cover only the edited regions. */
+  partial: boolean;
+  additions: number;
+  deletions: number;
+  /** This file's part of the patch. */
+  diff: string;
+}
+
+export interface SessionPatch {
+  files: PatchFile[];
+  patch: string;
+}
+
+interface Fragment {
+  before: string;
+  after: string;
+}
+
+interface FileState {
+  /** Content before the session ("" when created), or null when unknown. */
+  original: string | null;
+  /** Current content, tracked when the original is known; null once deleted. */
+  content: string | null;
+  /** Edited regions, when the original is unknown. */
+  fragments: Fragment[];
+  created: boolean;
+  deleted: boolean;
+  /** Earlier path, when an `apply_patch` moved the file. */
+  renamedFrom?: string;
+}
+
+interface Edit {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+const READ_LINE = /^\s*(\d+)(?:→|\t)(.*)$/;
+/** Write results that say the file did not exist before (Claude, Gemini). */
+const CREATED_RESULT = /File created successfully|Successfully created and wrote to new file/i;
+
+/**
+ * File content from a Claude `Read` result (`cat -n` style, `     1→line`),
+ * or null when the lines do not run from 1 without gaps. The numbering hides
+ * whether the file ends in a newline; it is assumed to.
+ */
+export function parseReadResult(text: string): string | null {
+  const lines: string[] = [];
+  for (const line of text.split("\n")) {
+    const match = READ_LINE.exec(line);
+    if (!match) break;
+    if (Number(match[1]) !== lines.length + 1) return null;
+    lines.push(match[2]);
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : null;
+}
+
+function replaceText(text: string, search: string, replacement: string, all: boolean): string | null {
+  if (!search || !text.includes(search)) return null;
+  return all ? text.split(search).join(replacement) : text.replace(search, () => replacement);
+}
+
+function applyEdit(state: FileState, edit: Edit): void {
+  const oldString = typeof edit.old_string === "string" ? edit.old_string : "";
+  const newString = typeof edit.new_string === "string" ? edit.new_string : "";
+  const all = edit.replace_all === true;
+
+  if (state.content !== null && state.original !== null) {
+    const content = replaceText(state.content, oldString, newString, all);
+    if (content !== null) {
+      state.content = content;
+      return;
+    }
+    // The edit succeeded, so the known content was incomplete (a truncated
+    // Read, say): keep what is known as one region and go on with fragments
+    state.fragments = [{ before: state.original.replace(/\n$/, ""), after: state.content.replace(/\n$/, "") }];
+    state.original = null;
+    state.content = null;
+  }
+  for (const fragment of state.fragments) {
+    const after = replaceText(fragment.after, oldString, newString, all);
+    if (after !== null) {
+      fragment.after = after;
+      return;
+    }
+  }
+  if (oldString !== newString) state.fragments.push({ before: oldString, after: newString });
+}
+
+function writeFile(state: FileState, content: string): void {
+  state.deleted = false;
+  if (state.original !== null) {
+    state.content = content;
+  } else {
+    // Everything the session knew of the old file gives way to the new content;
+    // fragments hold lines without the final newline
+    state.fragments = [{ before: state.fragments.map((f) => f.before).join("\n"), after: content.replace(/\n$/, "") }];
+  }
+}
+
+function deleteFile(state: FileState): void {
+  state.deleted = true;
+  state.content = null;
+  for (const fragment of state.fragments) fragment.after = "";
+}
+
+/** `*** Update File` chunks of an `apply_patch` body as before/after text. */
+function patchChunks(lines: string[]): Fragment[] {
+  const chunks: Fragment[] = [];
+  let before: string[] = [];
+  let after: string[] = [];
+  const flush = () => {
+    if (before.length > 0 || after.length > 0) chunks.push({ before: before.join("\n"), after: after.join("\n") });
+    before = [];
+    after = [];
+  };
+  for (const line of lines) {
+    if (line.startsWith("@@")) {
+      flush();
+    } else if (line.startsWith("-")) {
+      before.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      after.push(line.slice(1));
+    } else if (line.startsWith(" ") || line === "") {
+      before.push(line.slice(1));
+      after.push(line.slice(1));
+    }
+  }
+  flush();
+  return chunks;
+}
+
+function countLines(text: string): number {
+  return text ? text.split("\n").length - (text.endsWith("\n") ? 1 : 0) : 0;
+}
+
+type Hunk = ReturnType<typeof structuredPatch>["hunks"][number];
+
+function fileHunks(state: FileState): Hunk[] {
+  if (state.original !== null) {
+    return structuredPatch("", "", state.original, state.content ?? "", "", "", { context: 3 }).hunks;
+  }
+  // Regions are laid out one after another, so their line numbers are only indicative
+  const hunks: Hunk[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const fragment of state.fragments) {
+    const before = fragment.before ? `${fragment.before}\n` : "";
+    const after = fragment.after ? `${fragment.after}\n` : "";
+    for (const hunk of structuredPatch("", "", before, after, "", "", { context: 3 }).hunks) {
+      hunks.push({ ...hunk, oldStart: hunk.oldStart + oldLine, newStart: hunk.newStart + newLine });
+    }
+    oldLine += countLines(before);
+    newLine += countLines(after);
+  }
+  return hunks;
+}
+
+function diffPath(path: string, cwd?: string): string {
+  const inProject = cwd && isAbsolute(cwd) ? relative(cwd, path) : "";
+  return inProject && !inProject.startsWith("..") ? inProject : path.replace(/^\/+/, "");
+}
+
+function formatFileDiff(displayPath: string, oldPath: string, status: PatchFile["status"], hunks: Hunk[]): string {
+  const lines = [`diff --git a/${oldPath} b/${displayPath}`];
+  if (status === "added") lines.push("new file mode 100644");
+  if (status === "deleted") lines.push("deleted file mode 100644");
+  if (oldPath !== displayPath) lines.push(`rename from ${oldPath}`, `rename to ${displayPath}`);
+  lines.push(status === "added" ? "--- /dev/null" : `--- a/${oldPath}`);
+  lines.push(status === "deleted" ? "+++ /dev/null" : `+++ b/${displayPath}`);
+  for (const hunk of hunks) {
+    // An empty side starts at line 0, as in git
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    lines.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`, ...hunk.lines);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Replays `Write`, `Edit`, `MultiEdit` and `apply_patch` calls in message
+ * order, skipping calls whose result was an error. Relative paths resolve
+ * against `cwd`.
+ */
+export function buildSessionPatch(messages: ConversationMessage[], cwd?: string): SessionPatch {
+  const failed = new Set<string>();
+  const results = new Map<string, string>();
+  for (const message of messages) {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) continue;
+    for (const block of content) {
+      if (block.type !== "tool_result" || !block.tool_use_id) continue;
+      if (block.is_error) failed.add(block.tool_use_id);
+      else results.set(block.tool_use_id, toolResultText(block.content));
+    }
+  }
+
+  const absolute = (path: string) => (!isAbsolute(path) && cwd && isAbsolute(cwd) ? resolve(cwd, path) : path);
+  const files = new Map<string, FileState>();
+  const fileState = (path: string, created = false): FileState => {
+    let state = files.get(path);
+    if (!state) {
+      state = { original: created ? "" : null, content: created ? "" : null, fragments: [], created, deleted: false };
+      files.set(path, state);
+    }
+    return state;
+  };
+
+  for (const message of messages) {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type !== "tool_use" || !block.name || (block.id && failed.has(block.id))) continue;
+      const input = (block.input ?? {}) as Record<string, unknown>;
+      const name = block.name.toLowerCase();
+
+      const patch = findPatch(block.input);
+      if (patch) {
+        applyPatch(patch, absolute, fileState, files);
+        continue;
+      }
+
+      const rawPath = input.file_path ?? input.path;
+      if (typeof rawPath !== "string" || !rawPath) continue;
+      const path = absolute(rawPath);
+
+      if (name === "read") {
+        // A whole-file read before any change gives the original content
+        const text = block.id ? results.get(block.id) : undefined;
+        const original = !files.has(path) && input.offset === undefined && input.limit === undefined && text !== undefined
+          ? parseReadResult(text)
+          : null;
+        if (original !== null) files.set(path, { original, content: original, fragments: [], created: false, deleted: false });
+      } else if (name === "write" && typeof input.content === "string") {
+        // Overwriting a file the session never read leaves its old content unknown
+        const text = block.id ? results.get(block.id) : undefined;
+        writeFile(fileState(path, text !== undefined && CREATED_RESULT.test(text)), input.content);
+      } else if (name === "edit") {
+        // Pi names the strings oldText / newText
+        applyEdit(fileState(path), {
+          old_string: input.old_string ?? input.oldText,
+          new_string: input.new_string ?? input.newText,
+          replace_all: input.replace_all,
+        });
+      } else if (name === "multiedit" && Array.isArray(input.edits)) {
+        const state = fileState(path);
+        for (const edit of input.edits) applyEdit(state, edit as Edit);
+      }
+    }
+  }
+
+  const result: PatchFile[] = [];
+  for (const [path, state] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+    // Files that were only read
+    if (state.original !== null && !state.created && !state.deleted && !state.renamedFrom && state.content === state.original) continue;
+    if (state.created && state.deleted) continue;
+
+    const hunks = fileHunks(state);
+    const status = state.created ? "added" : state.deleted ? "deleted" : "modified";
+    if (hunks.length === 0 && status === "modified" && !state.renamedFrom) continue;
+
+    const displayPath = diffPath(path, cwd);
+    const lines = hunks.flatMap((hunk) => hunk.lines);
+    result.push({
+      path,
+      displayPath,
+      status,
+      partial: state.original === null,
+      additions: lines.filter((line) => line.startsWith("+")).length,
+      deletions: lines.filter((line) => line.startsWith("-")).length,
+      diff: formatFileDiff(displayPath, state.renamedFrom ? diffPath(state.renamedFrom, cwd) : displayPath, status, hunks),
+    });
+  }
+  return { files: result, patch: result.map((file) => file.diff).join("") };
+}
+
+function applyPatch(
+  patch: string,
+  absolute: (path: string) => string,
+  fileState: (path: string, created?: boolean) => FileState,
+  files: Map<string, FileState>,
+): void {
+  let current: FileState | null = null;
+  let adding = false;
+  let body: string[] = [];
+  const finish = () => {
+    if (current && adding) {
+      writeFile(current, body.filter((line) => line.startsWith("+")).map((line) => line.slice(1)).join("\n") + "\n");
+    } else if (current) {
+      for (const chunk of patchChunks(body)) applyEdit(current, { old_string: chunk.before, new_string: chunk.after });
+    }
+    current = null;
+    body = [];
+  };
+
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("*** Add File: ")) {
+      finish();
+      current = fileState(absolute(line.slice("*** Add File: ".length).trim()), true);
+      adding = true;
+    } else if (line.startsWith("*** Update File: ")) {
+      finish();
+      current = fileState(absolute(line.slice("*** Update File: ".length).trim()));
+      adding = false;
+    } else if (line.startsWith("*** Delete File: ")) {
+      finish();
+      deleteFile(fileState(absolute(line.slice("*** Delete File: ".length).trim())));
+    } else if (line.startsWith("*** Move to: ") && current) {
+      const target = absolute(line.slice("*** Move to: ".length).trim());
+      for (const [path, state] of files) {
+        if (state !== current) continue;
+        files.delete(path);
+        current.renamedFrom ??= path;
+      }
+      files.set(target, current);
+    } else if (line.startsWith("*** ")) {
+      // Begin Patch, End Patch, End of File
+      continue;
+    } else if (current) {
+      body.push(line);
+    }
+  }
+  finish();
+}
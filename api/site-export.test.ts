@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { initStorage } from "./storage";
+import { getRegisteredSources, resetSourceSettings } from "./sources";
+import { archiveConversationPath } from "./archive-layout";
+import { exportSite } from "./site-export";
+
+const lines = (...values: unknown[]) => values.map((v) => `${JSON.stringify(v)}\n`).join("");
+
+describe("exportSite", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-site-"));
+
+  afterAll(async () => {
+    resetSourceSettings();
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("writes the web UI with pre-rendered sessions", async () => {
+    const root = await rootPromise;
+    const web = join(root, "web");
+    await mkdir(join(web, "assets"), { recursive: true });
+    await writeFile(join(web, "index.html"), "<html><head><title>UI</title></head><body></body></html>");
+    await writeFile(join(web, "assets", "index.js"), "console.log(1)");
+    await writeFile(join(web, "assets", "wa-sqlite-abc123.wasm"), "wasm");
+
+    const projectDir = join(root, "claude", "projects", "-work-app");
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(
+      join(projectDir, "old.jsonl"),
+      lines({ type: "user", sessionId: "old", cwd: "/work/app", timestamp: "2026-01-01T10:00:00Z", message: { role: "user", content: "Old work" } }),
+    );
+    await writeFile(
+      join(projectDir, "new.jsonl"),
+      lines(
+        { type: "user", uuid: "u1", sessionId: "new", cwd: "/work/app", timestamp: "2026-02-01T10:00:00Z", message: { role: "user", content: "Fix the build" } },
+        { type: "assistant", uuid: "a1", parentUuid: "u1", sessionId: "new", timestamp: "2026-02-01T10:01:00Z", message: { role: "assistant", model: "claude-sonnet-4-5", content: "Done" } },
+      ),
+    );
+
+    initStorage({
+      sourceDirs: { claude: join(root, "claude") },
+      disabledSources: getRegisteredSources().map((s) => s.id).filter((id) => id !== "claude"),
+    });
+    const out = join(root, "archive");
+    const result = await exportSite({ outDir: out, webDistPath: web, project: "/work/app", since: Date.parse("2026-01-15") });
+    expect(result.sessions).toBe(1);
+
+    const read = async (path: string) => JSON.parse(await readFile(join(out, path), "utf-8"));
+    expect(await readFile(join(out, "index.html"), "utf-8")).toContain("<script>window.__CLAUDE_RUN_ARCHIVE__ = true;</script>\n</head>");
+    expect(await readFile(join(out, "assets", "index.js"), "utf-8")).toBe("console.log(1)");
+    // Search loads this copy instead of the CDN one
+    expect(await readFile(join(out, "assets", "wa-sqlite-abc123.wasm"), "utf-8")).toBe("wasm");
+
+    const sessions = await read("data/sessions.json");
+    expect(sessions.map((s: { id: string; latestModel?: { model: string } }) => [s.id, s.latestModel?.model])).toEqual([
+      ["new", "claude-sonnet-4-5"],
+    ]);
+    expect(await read("data/projects.json")).toEqual(["/work/app"]);
+    expect((await read("data/sources.json")).every((s: { readOnly?: boolean }) => s.readOnly)).toBe(true);
+    expect((await read("data/search-index.json"))[0]).toMatchObject({ id: "new", content: "Fix the build\nDone" });
+    expect((await read(archiveConversationPath("new", "claude"))).map((m: { uuid: string }) => m.uuid)).toEqual(["u1", "a1"]);
+  });
+
+  test("keeps escaped session ids distinct", () => {
+    expect(archiveConversationPath("a/b c", "claude", "lap top")).toBe("data/conversations/claude/lap~0020top/a~002fb~0020c.json");
+    expect(archiveConversationPath("a~002fb", "claude")).toBe("data/conversations/claude/a~007e002fb.json");
+  });
+});
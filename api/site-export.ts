@@ -0,0 +1,92 @@
+import { cpSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import {
+  getConversation,
+  getSearchIndexEntries,
+  getSessionLatestModel,
+  getSessions,
+  loadStorage,
+  type Session,
+} from "./storage";
+import { getSourceInfo } from "./sources";
+import { ARCHIVE_FILES, ARCHIVE_FLAG, archiveConversationPath } from "./archive-layout";
+
+// `claude-run-plus export-site`: the built web UI plus pre-rendered JSON for
+// the sessions, projects, sources and search index, browsable from any static
+// file server without the Bun server.
+
+export interface SiteExportOptions {
+  outDir: string;
+  /** Built web UI (dist/web) to copy. */
+  webDistPath: string;
+  /** Project path or name. */
+  project?: string;
+  /** Only sessions active at or after this time (ms). */
+  since?: number;
+}
+
+export interface SiteExportResult {
+  outDir: string;
+  sessions: number;
+}
+
+function writeJson(outDir: string, path: string, data: unknown): void {
+  const file = join(outDir, path);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(data));
+}
+
+/** Projects of `sessions`, most recently active first, as `/api/projects` orders them. */
+function sessionProjects(sessions: Session[]): string[] {
+  const latest = new Map<string, number>();
+  for (const session of sessions) {
+    if (!session.project) continue;
+    latest.set(session.project, Math.max(latest.get(session.project) ?? 0, session.timestamp));
+  }
+  return [...latest].sort((a, b) => b[1] - a[1]).map(([project]) => project);
+}
+
+/** Expects storage to be initialized; loads it, then writes the archive to `outDir`. */
+export async function exportSite(options: SiteExportOptions): Promise<SiteExportResult> {
+  const indexHtml = join(options.webDistPath, "index.html");
+  if (!existsSync(indexHtml)) {
+    throw new Error(`Web UI not found in ${options.webDistPath}. Run 'bun run build' first.`);
+  }
+  // Search in the archive runs on the SQLite wasm the build emits, not the CDN copy
+  const assetsDir = join(options.webDistPath, "assets");
+  if (!existsSync(assetsDir) || !readdirSync(assetsDir).some((file) => /^wa-sqlite.*\.wasm$/.test(file))) {
+    throw new Error(`SQLite wasm not found in ${assetsDir}. Run 'bun run build' first.`);
+  }
+  const outDir = resolve(options.outDir);
+
+  await loadStorage();
+  const sessions = (await getSessions()).filter(
+    (s) =>
+      (!options.project || s.project === options.project || s.projectName === options.project) &&
+      (options.since === undefined || s.timestamp >= options.since),
+  );
+
+  mkdirSync(outDir, { recursive: true });
+  // Sessions from an earlier export into the same directory would linger
+  rmSync(join(outDir, "data"), { recursive: true, force: true });
+  cpSync(options.webDistPath, outDir, { recursive: true });
+  const html = readFileSync(indexHtml, "utf-8");
+  writeFileSync(join(outDir, "index.html"), html.replace("</head>", `<script>window.${ARCHIVE_FLAG} = true;</script>\n</head>`));
+
+  // The list shows each session's model, which the server would look up per row
+  const listed: Session[] = [];
+  for (const session of sessions) {
+    const latestModel = await getSessionLatestModel(session.id, session.source, session.machine);
+    listed.push(latestModel ? { ...session, latestModel } : session);
+    const messages = await getConversation(session.id, session.source, session.machine);
+    writeJson(outDir, archiveConversationPath(session.id, session.source, session.machine), messages);
+  }
+
+  writeJson(outDir, ARCHIVE_FILES.sessions, listed);
+  writeJson(outDir, ARCHIVE_FILES.projects, sessionProjects(sessions));
+  // Nothing can be deleted from a static copy
+  writeJson(outDir, ARCHIVE_FILES.sources, getSourceInfo().map((source) => ({ ...source, readOnly: true })));
+  writeJson(outDir, ARCHIVE_FILES.searchIndex, await getSearchIndexEntries(sessions));
+
+  return { outDir, sessions: sessions.length };
+}
@@ -0,0 +1,76 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { aiderSource, parseAiderSession, splitAiderSessions } from "./aider";
+
+const HISTORY = `
+# aider chat started at 2026-01-05 09:15:02
+
+> /usr/local/bin/aider --model sonnet
+> Aider v0.80.0
+> Main model: claude-3-7-sonnet-20250219 with diff edit format
+> Git repo: .git with 42 files
+
+#### add a --verbose flag
+#### to the cli
+
+I'll add the flag to \`cli.py\`.
+
+> Applied edit to cli.py
+> Commit 1a2b3c4 feat: Add --verbose flag
+
+#### thanks
+
+You're welcome!
+
+# aider chat started at 2026-01-05 09:15:02
+
+> Aider v0.80.0
+`;
+
+describe("aider source", () => {
+  const repoPromise = mkdtemp(join(tmpdir(), "claude-run-plus-aider-"));
+
+  afterAll(async () => {
+    await rm(await repoPromise, { recursive: true, force: true });
+  });
+
+  test("splits chat history into sessions with stable, unique ids", () => {
+    const sessions = splitAiderSessions("/repos/app", HISTORY);
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].id).toMatch(/^[0-9a-f]{8}-20260105091502$/);
+    expect(sessions[1].id).toBe(`${sessions[0].id}-2`);
+    expect(splitAiderSessions("/repos/app", HISTORY)[0].id).toBe(sessions[0].id);
+  });
+
+  test("maps prompts and replies onto conversation messages", () => {
+    const [session, empty] = splitAiderSessions("/repos/app", HISTORY);
+    const messages = parseAiderSession(session);
+
+    expect(messages.map((m) => m.type)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(messages[0].message?.content).toBe("add a --verbose flag\nto the cli");
+    const reply = messages[1].message?.content;
+    expect(Array.isArray(reply) && reply[0].text).toContain("> Commit 1a2b3c4");
+    expect(messages[1].message?.model).toBe("claude-3-7-sonnet-20250219");
+    expect(messages[1].message?.provider).toBe("anthropic");
+    expect(parseAiderSession(empty)).toEqual([]);
+  });
+
+  test("maps history changes to the newest session as the file grows", async () => {
+    const repo = await repoPromise;
+    const filePath = join(repo, ".aider.chat.history.md");
+    await writeFile(filePath, "# aider chat started at 2026-01-05 09:15:02\n\n#### hi\n");
+
+    const [first] = splitAiderSessions(repo, HISTORY);
+    expect(aiderSource.classifyChange(repo, filePath)).toEqual({ kind: "session", sessionId: first.id, historyChanged: true });
+
+    await appendFile(filePath, "\n# aider chat started at 2026-01-06 10:00:00\n");
+    expect(aiderSource.classifyChange(repo, filePath)).toEqual({
+      kind: "session",
+      sessionId: first.id.replace(/-\d+$/, "-20260106100000"),
+      historyChanged: true,
+    });
+    expect(aiderSource.classifyChange(repo, join(repo, "README.md"))).toBeNull();
+  });
+});
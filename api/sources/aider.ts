@@ -0,0 +1,298 @@
+import { readFile, stat } from "fs/promises";
+import { readFileSync, statSync } from "fs";
+import { join, basename, delimiter, resolve } from "path";
+import { createHash } from "crypto";
+import type { ConversationMessage, HistoryEntry, SessionModelInfo } from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, inferProviderFromModel, parseTimestampValue } from "./shared";
+
+// Aider writes its history into each repo instead of a central directory, so
+// the source root is a PATH-style list of repo roots (joined with `path.delimiter`).
+
+const CHAT_HISTORY_FILE = ".aider.chat.history.md";
+const INPUT_HISTORY_FILE = ".aider.input.history";
+const SESSION_HEADER = /^# aider chat started at (.+)$/;
+const MODEL_LINE = /^> (?:Main model|Model): (\S+)/;
+
+interface AiderSession {
+  id: string;
+  startedAt: number;
+  lines: string[];
+}
+
+export function splitAiderRepoRoots(root: string): string[] {
+  return root
+    .split(delimiter)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => resolve(entry));
+}
+
+function repoKey(repoPath: string): string {
+  return createHash("sha1").update(repoPath).digest("hex").slice(0, 8);
+}
+
+function formatStamp(startedAt: string): string {
+  return startedAt.replace(/\D/g, "").slice(0, 14) || "0";
+}
+
+export function splitAiderSessions(repoPath: string, content: string): AiderSession[] {
+  const sessions: AiderSession[] = [];
+  const seenIds = new Map<string, number>();
+  const key = repoKey(repoPath);
+  let current: AiderSession | null = null;
+
+  for (const line of content.split("\n")) {
+    const header = line.match(SESSION_HEADER);
+    if (header) {
+      const startedAtRaw = header[1].trim();
+      let id = `${key}-${formatStamp(startedAtRaw)}`;
+      // Two aider processes started in the same second share a header timestamp
+      const seen = seenIds.get(id) ?? 0;
+      seenIds.set(id, seen + 1);
+      if (seen > 0) id = `${id}-${seen + 1}`;
+
+      current = { id, startedAt: parseTimestampValue(startedAtRaw) ?? 0, lines: [] };
+      sessions.push(current);
+      continue;
+    }
+    current?.lines.push(line);
+  }
+
+  return sessions;
+}
+
+// The watcher classifies every change (twice: once to pick a debounce delay),
+// so the last session id is only re-read when the history file's size or mtime moves
+const latestSessionIds = new Map<string, { mtimeMs: number; size: number; sessionId: string | null }>();
+
+function latestSessionIdSync(filePath: string): string | null {
+  const repoPath = resolve(filePath, "..");
+  try {
+    const { mtimeMs, size } = statSync(filePath);
+    const cached = latestSessionIds.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.sessionId;
+
+    const sessions = splitAiderSessions(repoPath, readFileSync(filePath, "utf-8"));
+    const sessionId = sessions[sessions.length - 1]?.id ?? null;
+    latestSessionIds.set(filePath, { mtimeMs, size, sessionId });
+    return sessionId;
+  } catch {
+    latestSessionIds.delete(filePath);
+    return null;
+  }
+}
+
+function assistantMessage(
+  text: string,
+  session: AiderSession,
+  index: number,
+  model: string | undefined,
+): ConversationMessage {
+  return {
+    type: "assistant",
+    uuid: `${session.id}-${index}`,
+    timestamp: new Date(session.startedAt).toISOString(),
+    message: {
+      role: "assistant",
+      content: [{ type: "text", text }],
+      model,
+      provider: inferProviderFromModel(model),
+      modelConfidence: model ? "derived" : "unknown",
+    },
+  };
+}
+
+function latestSessionModel(session: AiderSession): string | undefined {
+  let model: string | undefined;
+  for (const line of session.lines) {
+    const match = line.match(MODEL_LINE);
+    if (match) model = match[1];
+  }
+  return model;
+}
+
+export function parseAiderSession(session: AiderSession): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  const timestamp = new Date(session.startedAt).toISOString();
+  let model: string | undefined;
+  let userLines: string[] = [];
+  let assistantLines: string[] = [];
+  let seenUser = false;
+
+  const flushUser = () => {
+    const text = userLines.join("\n").trim();
+    userLines = [];
+    if (!text) return;
+    messages.push({
+      type: "user",
+      uuid: `${session.id}-${messages.length}`,
+      timestamp,
+      message: { role: "user", content: text },
+    });
+  };
+
+  const flushAssistant = () => {
+    const text = assistantLines.join("\n").trim();
+    assistantLines = [];
+    if (!text) return;
+    messages.push(assistantMessage(text, session, messages.length, model));
+  };
+
+  for (const line of session.lines) {
+    const modelMatch = line.match(MODEL_LINE);
+    if (modelMatch) model = modelMatch[1];
+
+    // User prompts are written as "#### " lines; everything else is the reply or tool output
+    if (line === "####" || line.startsWith("#### ")) {
+      flushAssistant();
+      userLines.push(line.slice(5));
+      seenUser = true;
+      continue;
+    }
+
+    if (userLines.length > 0) {
+      if (!line.trim()) continue;
+      flushUser();
+    }
+
+    // The startup banner before the first prompt only carries version/model info
+    if (!seenUser) continue;
+    assistantLines.push(line);
+  }
+
+  flushUser();
+  flushAssistant();
+  return messages;
+}
+
+async function readInputTimestamps(repoPath: string): Promise<number[]> {
+  try {
+    const content = await readFile(join(repoPath, INPUT_HISTORY_FILE), "utf-8");
+    const timestamps: number[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.startsWith("# ")) continue;
+      const ts = parseTimestampValue(line.slice(2).trim());
+      if (ts !== null) timestamps.push(ts);
+    }
+    return timestamps.sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+async function loadRepoSessions(repoPath: string): Promise<{ filePath: string; sessions: AiderSession[] } | null> {
+  const filePath = join(repoPath, CHAT_HISTORY_FILE);
+  try {
+    const content = await readFile(filePath, "utf-8");
+    return { filePath, sessions: splitAiderSessions(repoPath, content) };
+  } catch {
+    return null;
+  }
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  for (const repoPath of splitAiderRepoRoots(ctx.root)) {
+    const loaded = await loadRepoSessions(repoPath);
+    if (!loaded) continue;
+    for (const session of loaded.sessions) {
+      ctx.indexFile(session.id, loaded.filePath);
+    }
+  }
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+
+  for (const repoPath of splitAiderRepoRoots(ctx.root)) {
+    const loaded = await loadRepoSessions(repoPath);
+    if (!loaded) continue;
+
+    const inputTimestamps = await readInputTimestamps(repoPath);
+    let fileMtime = 0;
+    try {
+      fileMtime = (await stat(loaded.filePath)).mtimeMs;
+    } catch { /* ignore */ }
+
+    loaded.sessions.forEach((session, index) => {
+      ctx.indexFile(session.id, loaded.filePath);
+
+      const messages = parseAiderSession(session);
+      const firstUser = messages.find((m) => m.type === "user");
+      if (!firstUser) return;
+
+      // Messages carry no timestamps; use the last prompt typed before the next session started
+      const nextStart = loaded.sessions[index + 1]?.startedAt ?? Infinity;
+      const lastInput = inputTimestamps.filter((ts) => ts >= session.startedAt && ts < nextStart).pop();
+      const isLatest = index === loaded.sessions.length - 1;
+      const timestamp = lastInput ?? (isLatest ? Math.max(fileMtime, session.startedAt) : session.startedAt);
+
+      const modelId = latestSessionModel(session);
+      entries.push({
+        display: cleanTitle(typeof firstUser.message?.content === "string" ? firstUser.message.content : "", "Aider Session"),
+        timestamp,
+        project: repoPath,
+        sessionId: session.id,
+        source: "aider",
+        modelId,
+        modelProvider: inferProviderFromModel(modelId),
+        modelConfidence: modelId ? "explicit" : "unknown",
+      });
+    });
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  for (const repoPath of splitAiderRepoRoots(ctx.root)) {
+    const loaded = await loadRepoSessions(repoPath);
+    if (loaded?.sessions.some((s) => s.id === sessionId)) {
+      ctx.indexFile(sessionId, loaded.filePath);
+      return loaded.filePath;
+    }
+  }
+  return null;
+}
+
+async function findSession(filePath: string, sessionId: string): Promise<AiderSession | undefined> {
+  const loaded = await loadRepoSessions(resolve(filePath, ".."));
+  return loaded?.sessions.find((s) => s.id === sessionId);
+}
+
+async function parse(filePath: string, sessionId: string): Promise<ConversationMessage[]> {
+  const session = await findSession(filePath, sessionId);
+  return session ? parseAiderSession(session) : [];
+}
+
+async function latestModel(filePath: string, sessionId: string): Promise<SessionModelInfo | null> {
+  const session = await findSession(filePath, sessionId);
+  const model = session ? latestSessionModel(session) : undefined;
+  return model ? { model, provider: inferProviderFromModel(model) ?? "" } : null;
+}
+
+export const aiderSource: SourceAdapter = {
+  id: "aider",
+  display: {
+    label: "Aider",
+    color: "bg-teal-500",
+  },
+  defaultRoot: () => "",
+  readOnly: true,
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  latestModel,
+  watchPaths: (root) => splitAiderRepoRoots(root).map((repoPath) => join(repoPath, CHAT_HISTORY_FILE)),
+  classifyChange(root, filePath) {
+    if (basename(filePath) !== CHAT_HISTORY_FILE) return null;
+    if (!splitAiderRepoRoots(root).some((repoPath) => filePath === join(repoPath, CHAT_HISTORY_FILE))) return null;
+    // Aider appends to the newest session; a new header also adds a session to the list
+    const sessionId = latestSessionIdSync(filePath);
+    return sessionId ? { kind: "session", sessionId, historyChanged: true } : { kind: "history" };
+  },
+};
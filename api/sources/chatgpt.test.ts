@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { chatgptSource, flattenActiveBranch, type ChatGptConversation } from "./chatgpt";
+
+const conversation: ChatGptConversation = {
+  conversation_id: "6790abcd-1111-2222-3333-444455556666",
+  title: "Edited prompt",
+  current_node: "reply-b",
+  mapping: {
+    root: { id: "root", parent: null, children: ["prompt-a", "prompt-b"], message: null },
+    "prompt-a": {
+      id: "prompt-a",
+      parent: "root",
+      children: ["reply-a"],
+      message: { id: "prompt-a", author: { role: "user" }, content: { content_type: "text", parts: ["first try"] } },
+    },
+    "reply-a": {
+      id: "reply-a",
+      parent: "prompt-a",
+      children: [],
+      message: { id: "reply-a", author: { role: "assistant" }, content: { content_type: "text", parts: ["old answer"] } },
+    },
+    "prompt-b": {
+      id: "prompt-b",
+      parent: "root",
+      children: ["reply-b"],
+      message: { id: "prompt-b", author: { role: "user" }, content: { content_type: "text", parts: ["edited"] } },
+    },
+    "reply-b": {
+      id: "reply-b",
+      parent: "prompt-b",
+      children: [],
+      message: {
+        id: "reply-b",
+        author: { role: "assistant" },
+        content: { content_type: "text", parts: ["new answer"] },
+        metadata: { model_slug: "gpt-4o" },
+      },
+    },
+  },
+};
+
+describe("chatgpt import source", () => {
+  test("flattens the mapping tree along the current node's branch", () => {
+    expect(flattenActiveBranch(conversation).map((m) => m.id)).toEqual(["prompt-b", "reply-b"]);
+  });
+
+  test("falls back to the newest branch when current_node is missing", () => {
+    const ids = flattenActiveBranch({ ...conversation, current_node: undefined }).map((m) => m.id);
+    expect(ids).toEqual(["prompt-b", "reply-b"]);
+  });
+
+  test("parses the active branch into conversation messages", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "chatgpt-import-"));
+    try {
+      const filePath = join(dir, `${conversation.conversation_id}.json`);
+      await writeFile(filePath, JSON.stringify(conversation));
+
+      const messages = await chatgptSource.parse(filePath, conversation.conversation_id!);
+      expect(messages.map((m) => m.type)).toEqual(["user", "assistant"]);
+      expect(messages[1].message?.model).toBe("gpt-4o");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
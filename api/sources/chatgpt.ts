@@ -0,0 +1,173 @@
+import type { ContentBlock, ConversationMessage } from "../storage";
+import { createImportedSource } from "./imported";
+import { parseTimestampValue } from "./shared";
+
+// One conversation from a ChatGPT data export (conversations.json). Messages
+// form a tree in `mapping`; edits and regenerations are sibling branches and
+// `current_node` is the leaf of the branch the user last looked at.
+
+export interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  default_model_slug?: string;
+  mapping?: Record<string, ChatGptNode>;
+}
+
+interface ChatGptNode {
+  id?: string;
+  parent?: string | null;
+  children?: string[];
+  message?: ChatGptMessage | null;
+}
+
+interface ChatGptMessage {
+  id?: string;
+  author?: { role?: string; name?: string | null };
+  create_time?: number | null;
+  recipient?: string;
+  content?: {
+    content_type?: string;
+    parts?: unknown[];
+    text?: string;
+    thoughts?: Array<{ summary?: string; content?: string }>;
+  };
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+}
+
+export function isChatGptConversation(value: unknown): value is ChatGptConversation {
+  return !!value && typeof value === "object" && typeof (value as ChatGptConversation).mapping === "object";
+}
+
+export function flattenActiveBranch(conversation: ChatGptConversation): ChatGptMessage[] {
+  const mapping = conversation.mapping ?? {};
+  let leafId = conversation.current_node;
+
+  if (!leafId || !mapping[leafId]) {
+    // Without a current node, follow the newest child from the root
+    leafId = Object.keys(mapping).find((id) => !mapping[id]?.parent);
+    while (leafId && mapping[leafId]?.children?.length) {
+      const children = mapping[leafId].children ?? [];
+      leafId = children[children.length - 1];
+    }
+  }
+
+  const path: ChatGptMessage[] = [];
+  const seen = new Set<string>();
+  let nodeId = leafId;
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    const message = mapping[nodeId].message;
+    if (message) path.push(message);
+    nodeId = mapping[nodeId].parent ?? undefined;
+  }
+  return path.reverse();
+}
+
+function partsText(parts: unknown[] | undefined): string {
+  return (parts ?? [])
+    .map((part) => {
+      if (typeof part === "string") return part;
+      if (part && typeof part === "object" && "asset_pointer" in part) return "[image]";
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function contentText(message: ChatGptMessage): string {
+  const content = message.content;
+  if (!content) return "";
+  if (typeof content.text === "string") return content.text;
+  return partsText(content.parts);
+}
+
+function toMessages(conversation: ChatGptConversation): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  const pendingCalls: Array<{ id: string; name: string }> = [];
+  let currentModel = conversation.default_model_slug;
+
+  for (const message of flattenActiveBranch(conversation)) {
+    const role = message.author?.role;
+    if (!role || role === "system" || message.metadata?.is_visually_hidden_from_conversation) continue;
+
+    const timestamp = message.create_time ? new Date(message.create_time * 1000).toISOString() : undefined;
+    const uuid = message.id;
+    const contentType = message.content?.content_type;
+
+    if (role === "user") {
+      const text = contentText(message);
+      if (text) messages.push({ type: "user", uuid, timestamp, message: { role: "user", content: text } });
+      continue;
+    }
+
+    if (message.metadata?.model_slug) currentModel = message.metadata.model_slug;
+    const blocks: ContentBlock[] = [];
+
+    if (role === "tool") {
+      // Tool output answers the most recent call to the same tool (code interpreter, browsing, ...)
+      const index = pendingCalls.map((c) => c.name).lastIndexOf(message.author?.name || "");
+      const call = index >= 0 ? pendingCalls.splice(index, 1)[0] : undefined;
+      const text = contentText(message);
+      if (!call || !text) continue;
+      blocks.push({ type: "tool_result", tool_use_id: call.id, content: text });
+    } else if (contentType === "thoughts") {
+      for (const thought of message.content?.thoughts ?? []) {
+        const thinking = [thought.summary, thought.content].filter(Boolean).join("\n\n");
+        if (thinking) blocks.push({ type: "thinking", thinking });
+      }
+    } else if (message.recipient && message.recipient !== "all") {
+      const id = uuid || `chatgpt-call-${messages.length}`;
+      pendingCalls.push({ id, name: message.recipient });
+      blocks.push({ type: "tool_use", id, name: message.recipient, input: { code: contentText(message) } });
+    } else if (contentType === "text" || contentType === "multimodal_text" || contentType === "code") {
+      const text = contentText(message);
+      if (text) blocks.push({ type: "text", text: contentType === "code" ? `\`\`\`\n${text}\n\`\`\`` : text });
+    }
+
+    if (blocks.length === 0) continue;
+    messages.push({
+      type: "assistant",
+      uuid,
+      timestamp,
+      message: {
+        role: "assistant",
+        content: blocks,
+        model: currentModel,
+        provider: "openai",
+        modelConfidence: message.metadata?.model_slug ? "explicit" : currentModel ? "derived" : "unknown",
+      },
+    });
+  }
+
+  return messages;
+}
+
+function latestModelSlug(conversation: ChatGptConversation): string | undefined {
+  const branch = flattenActiveBranch(conversation);
+  for (let i = branch.length - 1; i >= 0; i--) {
+    const slug = branch[i]?.metadata?.model_slug;
+    if (slug) return slug;
+  }
+  return conversation.default_model_slug;
+}
+
+export const chatgptSource = createImportedSource<ChatGptConversation>({
+  id: "chatgpt",
+  display: {
+    label: "ChatGPT",
+    color: "bg-green-600",
+  },
+  describe: (conversation) => ({
+    title: conversation.title || "",
+    project: "chatgpt.com",
+    createdAt: parseTimestampValue(conversation.create_time) ?? 0,
+    updatedAt: parseTimestampValue(conversation.update_time) ?? 0,
+    modelId: latestModelSlug(conversation),
+    modelProvider: "openai",
+  }),
+  toMessages,
+});
@@ -0,0 +1,103 @@
+import type { ContentBlock, ConversationMessage } from "../storage";
+import { createImportedSource } from "./imported";
+import { parseTimestampValue, toText } from "./shared";
+
+// One conversation from a claude.ai data export (conversations.json).
+
+export interface ClaudeWebConversation {
+  uuid?: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages?: ClaudeWebMessage[];
+}
+
+interface ClaudeWebMessage {
+  uuid?: string;
+  sender?: string;
+  text?: string;
+  created_at?: string;
+  content?: Array<{
+    type?: string;
+    text?: string;
+    thinking?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    content?: unknown;
+    is_error?: boolean;
+  }>;
+  attachments?: Array<{ file_name?: string }>;
+  files?: Array<{ file_name?: string }>;
+}
+
+export function isClaudeWebConversation(value: unknown): value is ClaudeWebConversation {
+  return !!value && typeof value === "object" && Array.isArray((value as ClaudeWebConversation).chat_messages);
+}
+
+function mapContent(message: ClaudeWebMessage): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  // Older exports only have the flattened `text`; newer ones add typed content
+  const items = message.content?.length ? message.content : [{ type: "text", text: message.text }];
+  let lastToolUseId: string | undefined;
+
+  items.forEach((item, index) => {
+    if (item.type === "text" && item.text) {
+      blocks.push({ type: "text", text: item.text });
+    } else if (item.type === "thinking" && item.thinking) {
+      blocks.push({ type: "thinking", thinking: item.thinking });
+    } else if (item.type === "tool_use") {
+      lastToolUseId = item.id || `${message.uuid}-tool-${index}`;
+      blocks.push({ type: "tool_use", id: lastToolUseId, name: item.name || "tool", input: item.input ?? {} });
+    } else if (item.type === "tool_result") {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: item.id || lastToolUseId,
+        content: toText(item.content),
+        is_error: item.is_error,
+      });
+    }
+  });
+
+  for (const file of [...(message.attachments ?? []), ...(message.files ?? [])]) {
+    if (file.file_name) blocks.push({ type: "text", text: `[Attachment: ${file.file_name}]` });
+  }
+
+  return blocks;
+}
+
+function toMessages(conversation: ClaudeWebConversation): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  for (const message of conversation.chat_messages ?? []) {
+    const content = mapContent(message);
+    if (content.length === 0) continue;
+
+    const role = message.sender === "human" ? "user" : "assistant";
+    messages.push({
+      type: role,
+      uuid: message.uuid,
+      timestamp: message.created_at,
+      message:
+        role === "assistant"
+          ? { role, content, provider: "anthropic", modelConfidence: "unknown" }
+          : { role, content },
+    });
+  }
+  return messages;
+}
+
+export const claudeWebSource = createImportedSource<ClaudeWebConversation>({
+  id: "claude-web",
+  display: {
+    label: "claude.ai",
+    color: "bg-sky-500",
+  },
+  describe: (conversation) => ({
+    title: conversation.name || conversation.chat_messages?.find((m) => m.sender === "human")?.text || "",
+    project: "claude.ai",
+    createdAt: parseTimestampValue(conversation.created_at) ?? 0,
+    updatedAt: parseTimestampValue(conversation.updated_at) ?? 0,
+    modelProvider: "anthropic",
+  }),
+  toMessages,
+});
@@ -0,0 +1,151 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { claudeSource } from "./claude";
+import type { SourceContext } from "./types";
+
+const lines = (...values: unknown[]) => values.map((v) => `${JSON.stringify(v)}\n`).join("");
+
+describe("claude source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-claude-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("lists sessions from transcripts and enriches them from history.jsonl", async () => {
+    const root = await rootPromise;
+    const projectDir = join(root, "projects", "-work-app");
+    await mkdir(projectDir, { recursive: true });
+
+    // An SDK run with no history line
+    await writeFile(
+      join(projectDir, "sdk-run.jsonl"),
+      lines(
+        { type: "user", sessionId: "sdk-run", cwd: "/work/app", isMeta: true, timestamp: "2026-01-06T10:00:00Z", message: { role: "user", content: "Caveat: ..." } },
+        { type: "user", sessionId: "sdk-run", cwd: "/work/app", timestamp: "2026-01-06T10:00:01Z", message: { role: "user", content: [{ type: "text", text: "Fix the build" }] } },
+        { type: "assistant", sessionId: "sdk-run", timestamp: "2026-01-06T10:02:00Z", message: { role: "assistant", model: "claude-sonnet-4-5", content: "Done" } },
+      ),
+    );
+    // A resumed session: its lines still carry the id it was resumed from
+    await writeFile(
+      join(projectDir, "resumed.jsonl"),
+      lines({ type: "user", sessionId: "sdk-run", cwd: "/work/app", timestamp: "2026-01-06T12:00:00Z", message: { role: "user", content: "Carry on" } }),
+    );
+    // A transcript whose only prompt is a slash command; history supplies the title
+    await writeFile(
+      join(projectDir, "chat.jsonl"),
+      lines({ type: "user", sessionId: "chat", timestamp: "2026-01-06T09:00:00Z", message: { role: "user", content: "<command-name>/review</command-name>" } }),
+    );
+    // Subagent transcripts are nested under their Task call, not listed
+    await writeFile(
+      join(projectDir, "agent-1a2b.jsonl"),
+      lines({ type: "user", sessionId: "sdk-run", isSidechain: true, timestamp: "2026-01-06T10:01:00Z", message: { role: "user", content: "Find the config" } }),
+    );
+    await writeFile(
+      join(root, "history.jsonl"),
+      lines(
+        { display: "/review", project: "/work/app", timestamp: Date.parse("2026-01-06T11:00:00Z"), sessionId: "chat" },
+        { display: "older prompt without id", project: "/work/app", timestamp: 1 },
+      ),
+    );
+
+    const indexed = new Map<string, string>();
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, filePath) => indexed.set(sessionId, filePath),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (_filePath, compute) => compute(),
+    };
+
+    const entries = await claudeSource.listHistory(ctx);
+    const byId = Object.fromEntries(entries.map((e) => [e.sessionId, e]));
+
+    expect(Object.keys(byId).sort()).toEqual(["chat", "resumed", "sdk-run"]);
+    expect(indexed.get("resumed")).toBe(join(projectDir, "resumed.jsonl"));
+    expect(byId["sdk-run"]).toMatchObject({
+      display: "Fix the build",
+      project: "/work/app",
+      timestamp: Date.parse("2026-01-06T10:02:00Z"),
+      modelId: "claude-sonnet-4-5",
+      modelConfidence: "explicit",
+    });
+    expect(byId.chat).toMatchObject({
+      display: "/review",
+      project: "/work/app",
+      timestamp: Date.parse("2026-01-06T11:00:00Z"),
+    });
+  });
+
+  test("links Task calls to their subagent runs", async () => {
+    const root = await rootPromise;
+    const projectDir = join(root, "projects", "-work-agents");
+    await mkdir(join(projectDir, "parent", "subagents"), { recursive: true });
+
+    const task = (id: string, prompt: string, name = "Task") => ({
+      type: "assistant",
+      uuid: `a-${id}`,
+      message: { role: "assistant", content: [{ type: "tool_use", id, name, input: { description: id, prompt, subagent_type: "Explore" } }] },
+    });
+    const filePath = join(projectDir, "parent.jsonl");
+    await writeFile(
+      filePath,
+      lines(
+        { type: "user", uuid: "u0", message: { role: "user", content: "Look around" } },
+        task("toolu_file", "Map the repo"),
+        // Newer Claude Code calls the tool Agent
+        task("toolu_inline", "Read the docs", "Agent"),
+        // Older Claude Code wrote the run into the parent transcript
+        { type: "user", uuid: "s1", parentUuid: null, isSidechain: true, message: { role: "user", content: "Read the docs" } },
+        { type: "assistant", uuid: "s2", parentUuid: "s1", isSidechain: true, message: { role: "assistant", content: "Docs read" } },
+        {
+          type: "user",
+          uuid: "r1",
+          toolUseResult: { agentId: "7f3e", status: "completed" },
+          message: { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_file", content: "Mapped" }] },
+        },
+      ),
+    );
+    await writeFile(
+      join(projectDir, "parent", "subagents", "agent-7f3e.jsonl"),
+      lines(
+        { type: "user", sessionId: "parent", isSidechain: true, message: { role: "user", content: "Map the repo" } },
+        { type: "assistant", sessionId: "parent", isSidechain: true, message: { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Glob", input: { pattern: "**" } }] } },
+      ),
+    );
+
+    const fromFile = await claudeSource.parseSubagent!(filePath, "parent", "toolu_file");
+    expect(fromFile?.map((m) => m.type)).toEqual(["user", "assistant"]);
+
+    const inline = await claudeSource.parseSubagent!(filePath, "parent", "toolu_inline");
+    expect(inline?.map((m) => m.uuid)).toEqual(["s1", "s2"]);
+
+    expect(await claudeSource.parseSubagent!(filePath, "parent", "toolu_missing")).toBeNull();
+    expect((await claudeSource.parse(filePath, "parent")).some((m) => m.isSidechain)).toBe(false);
+  });
+
+  test("keeps compaction boundaries in place and links past hidden entries", async () => {
+    const root = await rootPromise;
+    const filePath = join(root, "projects", "-work-app", "rewound.jsonl");
+    await writeFile(
+      filePath,
+      lines(
+        { type: "user", uuid: "u1", parentUuid: null, message: { role: "user", content: "Hi" } },
+        { type: "system", uuid: "sys", parentUuid: "u1", content: "hook ran" },
+        { type: "assistant", uuid: "a1", parentUuid: "sys", message: { role: "assistant", content: "Hello" } },
+        { type: "system", subtype: "compact_boundary", uuid: "cb", parentUuid: null, logicalParentUuid: "a1", compactMetadata: { trigger: "auto", preTokens: 155_000 } },
+        { type: "user", uuid: "u2", parentUuid: "cb", isCompactSummary: true, message: { role: "user", content: "Summary: said hi" } },
+      ),
+    );
+
+    const messages = await claudeSource.parse(filePath, "rewound");
+    expect(messages.map((m) => [m.uuid, m.parentUuid])).toEqual([
+      ["u1", null],
+      ["a1", "u1"],
+      ["cb", "a1"],
+      ["u2", "cb"],
+    ]);
+    expect(messages[2]).toMatchObject({ type: "compaction", compaction: { trigger: "auto", tokensBefore: 155_000 } });
+  });
+});
@@ -0,0 +1,491 @@
+import { readdir, stat } from "fs/promises";
+import { join, basename, dirname, relative, sep } from "path";
+import { homedir } from "os";
+import type { ConversationMessage, HistoryEntry, StreamResult } from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, inferProviderFromModel, isUnder, parseTimestampValue } from "./shared";
+import { readJsonlLines } from "./jsonl";
+import { isTaskTool } from "../task-tools";
+
+/** A session transcript in a project dir; `agent-*.jsonl` files are subagent runs of another session. */
+function isSessionFile(fileName: string): boolean {
+  return fileName.endsWith(".jsonl") && !fileName.startsWith("agent-");
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  const projectsDir = join(ctx.root, "projects");
+  try {
+    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
+    const directories = projectDirs.filter((d) => d.isDirectory());
+    await Promise.all(
+      directories.map(async (dir) => {
+        try {
+          const projectPath = join(projectsDir, dir.name);
+          const files = await readdir(projectPath);
+          for (const file of files) {
+            if (isSessionFile(file)) {
+              const sessionId = basename(file, ".jsonl");
+              ctx.indexFile(sessionId, join(projectPath, file));
+            }
+          }
+        } catch { /* ignore */ }
+      })
+    );
+  } catch { /* projects dir may not exist */ }
+}
+
+async function readPromptHistory(root: string): Promise<HistoryEntry[]> {
+  try {
+    const historyPath = join(root, "history.jsonl");
+    const entries: HistoryEntry[] = [];
+    await readJsonlLines(historyPath, (line) => {
+      try {
+        const parsed = JSON.parse(line);
+        entries.push({
+          ...parsed,
+          source: "claude",
+          modelId: typeof parsed.model === "string" ? parsed.model : undefined,
+          modelProvider:
+            typeof parsed.provider === "string"
+              ? parsed.provider
+              : inferProviderFromModel(typeof parsed.model === "string" ? parsed.model : undefined),
+          modelConfidence:
+            typeof parsed.model === "string" || typeof parsed.provider === "string"
+              ? "explicit"
+              : undefined,
+        });
+      } catch { /* skip malformed */ }
+    });
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+interface TranscriptMeta {
+  cwd?: string;
+  /** First real user prompt. */
+  display?: string;
+  timestamp: number;
+  model?: string;
+}
+
+function promptText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  const block = content.find((b) => b && typeof b === "object" && b.type === "text" && typeof b.text === "string");
+  return block ? block.text : "";
+}
+
+async function readTranscriptMeta(filePath: string): Promise<TranscriptMeta | null> {
+  let hasMessages = false;
+  let cwd: string | undefined;
+  let display: string | undefined;
+  let timestamp = 0;
+  let model: string | undefined;
+
+  await readJsonlLines(filePath, (line) => {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.type !== "user" && entry.type !== "assistant") return;
+      // Subagent runs are shown under their Task call, not as sessions
+      if (entry.isSidechain) return;
+      hasMessages = true;
+
+      if (!cwd && typeof entry.cwd === "string") cwd = entry.cwd;
+      timestamp = Math.max(timestamp, parseTimestampValue(entry.timestamp) ?? 0);
+
+      if (entry.type === "assistant") {
+        const entryModel = entry.message?.model;
+        if (typeof entryModel === "string" && entryModel !== "<synthetic>") model = entryModel;
+      } else if (!display && !entry.isMeta) {
+        display = cleanTitle(promptText(entry.message?.content), "") || undefined;
+      }
+    } catch { /* skip malformed */ }
+  });
+
+  if (!hasMessages) return null;
+  if (!timestamp) timestamp = (await stat(filePath)).mtimeMs;
+
+  return { cwd, display, timestamp, model };
+}
+
+async function listTranscripts(ctx: SourceContext): Promise<Array<{ filePath: string; meta: TranscriptMeta }>> {
+  const projectsDir = join(ctx.root, "projects");
+  const transcripts: Array<{ filePath: string; meta: TranscriptMeta }> = [];
+  try {
+    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
+    await Promise.all(
+      projectDirs
+        .filter((d) => d.isDirectory())
+        .map(async (dir) => {
+          try {
+            const projectPath = join(projectsDir, dir.name);
+            for (const file of await readdir(projectPath)) {
+              if (!isSessionFile(file)) continue;
+              const filePath = join(projectPath, file);
+              try {
+                const meta = await ctx.cachedMetadata(filePath, () => readTranscriptMeta(filePath));
+                if (meta) transcripts.push({ filePath, meta });
+              } catch { /* skip unreadable */ }
+            }
+          } catch { /* ignore */ }
+        })
+    );
+  } catch { /* projects dir may not exist */ }
+  return transcripts;
+}
+
+/**
+ * One entry per transcript under `projects/`, keyed by file name like every
+ * other lookup (a resumed session's lines can carry the id it was resumed
+ * from). `history.jsonl` only fills in what a transcript lacks (a prompt, the
+ * project) and bumps the timestamp.
+ */
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const [prompts, transcripts] = await Promise.all([readPromptHistory(ctx.root), listTranscripts(ctx)]);
+
+  const promptsBySession = new Map<string, HistoryEntry[]>();
+  for (const prompt of prompts) {
+    if (!prompt.sessionId) continue;
+    const list = promptsBySession.get(prompt.sessionId) ?? [];
+    list.push(prompt);
+    promptsBySession.set(prompt.sessionId, list);
+  }
+
+  return transcripts.map(({ filePath, meta }) => {
+    const sessionId = basename(filePath, ".jsonl");
+    ctx.indexFile(sessionId, filePath);
+
+    const sessionPrompts = (promptsBySession.get(sessionId) ?? []).sort((a, b) => a.timestamp - b.timestamp);
+    const firstPrompt = sessionPrompts[0];
+    const lastPrompt = sessionPrompts[sessionPrompts.length - 1];
+
+    return {
+      display: meta.display || firstPrompt?.display || "Claude Session",
+      timestamp: Math.max(meta.timestamp, lastPrompt?.timestamp ?? 0),
+      project: meta.cwd || firstPrompt?.project || "",
+      sessionId,
+      source: "claude",
+      modelId: meta.model ?? lastPrompt?.modelId,
+      modelProvider: meta.model ? inferProviderFromModel(meta.model) : lastPrompt?.modelProvider,
+      modelConfidence: meta.model ? "explicit" : lastPrompt?.modelConfidence,
+    };
+  });
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  const targetFile = `${sessionId}.jsonl`;
+  const projectsDir = join(ctx.root, "projects");
+  try {
+    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
+    const directories = projectDirs.filter((d) => d.isDirectory());
+    const results = await Promise.all(
+      directories.map(async (dir) => {
+        try {
+          const projectPath = join(projectsDir, dir.name);
+          const files = await readdir(projectPath);
+          if (files.includes(targetFile)) {
+            return join(projectPath, targetFile);
+          }
+        } catch { /* ignore */ }
+        return null;
+      })
+    );
+    const filePath = results.find((r) => r !== null);
+    if (filePath) {
+      ctx.indexFile(sessionId, filePath);
+      return filePath;
+    }
+  } catch { /* ignore */ }
+  return null;
+}
+
+function normalizeMessage(msg: ConversationMessage): ConversationMessage {
+  if (msg.type === "assistant" && msg.message) {
+    const model = msg.message.model;
+    const provider = msg.message.provider || inferProviderFromModel(model);
+    msg.message.provider = provider;
+    msg.message.modelConfidence = model || provider ? "explicit" : "unknown";
+  }
+  return msg;
+}
+
+/** The fields of a transcript line that link it into the branch tree. */
+interface LinkedEntry {
+  uuid?: unknown;
+  parentUuid?: unknown;
+  isSidechain?: unknown;
+}
+
+/**
+ * Re-point messages whose parent is an entry that is not shown (system lines,
+ * hook output, ...) at the nearest shown ancestor, so the branch tree only
+ * links messages. Call it for every entry in file order.
+ */
+function createParentResolver(): (entry: LinkedEntry, shown: boolean) => void {
+  const hidden = new Map<string, string | null>();
+  const resolve = (uuid: unknown): string | null | undefined => {
+    if (typeof uuid === "string") return hidden.has(uuid) ? hidden.get(uuid) : uuid;
+    return uuid === null ? null : undefined;
+  };
+  return (entry, shown) => {
+    if (shown) {
+      entry.parentUuid = resolve(entry.parentUuid);
+    } else if (typeof entry.uuid === "string" && !entry.isSidechain) {
+      hidden.set(entry.uuid, resolve(entry.parentUuid) ?? null);
+    }
+  };
+}
+
+/**
+ * A `compact_boundary` system line as a `compaction` message. The boundary
+ * starts a new chain, so it hangs off the message it logically follows; the
+ * summary Claude Code continues from is the `isCompactSummary` user message
+ * after it.
+ */
+function toCompaction(entry: Record<string, unknown>): ConversationMessage | null {
+  if (entry.type !== "system" || entry.subtype !== "compact_boundary" || entry.isSidechain) return null;
+  const text = (value: unknown) => (typeof value === "string" ? value : undefined);
+  const metadata = (entry.compactMetadata ?? {}) as { trigger?: unknown; preTokens?: unknown };
+  return {
+    type: "compaction",
+    uuid: text(entry.uuid),
+    parentUuid: text(entry.parentUuid) ?? text(entry.logicalParentUuid) ?? null,
+    timestamp: text(entry.timestamp),
+    sessionId: text(entry.sessionId),
+    compaction: {
+      trigger: text(metadata.trigger),
+      tokensBefore: typeof metadata.preTokens === "number" ? metadata.preTokens : undefined,
+    },
+  };
+}
+
+/** User and assistant lines of the main conversation are stored in `ConversationMessage` shape. */
+function isConversationLine(entry: Record<string, unknown>): entry is Record<string, unknown> & ConversationMessage {
+  return (entry.type === "user" || entry.type === "assistant") && !entry.isSidechain;
+}
+
+/** The entry as a shown message, or null for lines the conversation view skips. */
+function toMessage(entry: Record<string, unknown>): ConversationMessage | null {
+  return isConversationLine(entry) ? entry : toCompaction(entry);
+}
+
+async function parse(filePath: string): Promise<ConversationMessage[]> {
+  const messages: ConversationMessage[] = [];
+  const resolveParent = createParentResolver();
+  try {
+    await readJsonlLines(filePath, (line) => {
+      try {
+        const entry = JSON.parse(line);
+        const msg = toMessage(entry);
+        resolveParent(msg ?? entry, msg !== null);
+        if (msg) {
+          messages.push(normalizeMessage(msg));
+        } else if (entry.type === "summary") {
+          messages.push(entry);
+        }
+      } catch { /* skip */ }
+    });
+  } catch { /* ignore */ }
+  return messages;
+}
+
+/** Where a Task call's subagent run can be found, read from the parent transcript. */
+interface TaskLink {
+  prompt?: string;
+  agentId?: string;
+}
+
+interface TaskLinks {
+  /** Task calls by tool_use id. */
+  links: Map<string, TaskLink>;
+  /** Subagent runs written into the parent transcript itself (older Claude Code). */
+  inline: ConversationMessage[][];
+}
+
+// A view expands every Task call of a transcript, so its links are read once
+// per version of the file; only the last few transcripts are kept
+const taskLinkCache = new Map<string, { mtimeMs: number; size: number; links: TaskLinks }>();
+const TASK_LINK_CACHE_SIZE = 8;
+
+async function readTaskLinks(filePath: string): Promise<TaskLinks> {
+  let mtimeMs: number;
+  let size: number;
+  try {
+    ({ mtimeMs, size } = await stat(filePath));
+  } catch {
+    taskLinkCache.delete(filePath);
+    return { links: new Map(), inline: [] };
+  }
+  const cached = taskLinkCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.links;
+
+  const links = new Map<string, TaskLink>();
+  const runs: Array<{ uuids: Set<string>; messages: ConversationMessage[] }> = [];
+
+  await readJsonlLines(filePath, (line) => {
+    try {
+      const msg = JSON.parse(line);
+      if (msg.type !== "user" && msg.type !== "assistant") return;
+
+      if (msg.isSidechain) {
+        const run = runs.find((r) => msg.parentUuid && r.uuids.has(msg.parentUuid));
+        if (run) {
+          run.messages.push(normalizeMessage(msg));
+          if (msg.uuid) run.uuids.add(msg.uuid);
+        } else if (msg.type === "user") {
+          runs.push({ uuids: new Set(msg.uuid ? [msg.uuid] : []), messages: [normalizeMessage(msg)] });
+        }
+        return;
+      }
+
+      const content = msg.message?.content;
+      if (!Array.isArray(content)) return;
+      for (const block of content) {
+        if (block?.type === "tool_use" && typeof block.id === "string" && isTaskTool(block.name)) {
+          const link = links.get(block.id) ?? {};
+          if (typeof block.input?.prompt === "string") link.prompt = block.input.prompt;
+          links.set(block.id, link);
+        }
+        if (block?.type === "tool_result" && typeof msg.toolUseResult?.agentId === "string") {
+          const link = links.get(block.tool_use_id);
+          if (link) link.agentId = msg.toolUseResult.agentId;
+        }
+      }
+    } catch { /* skip malformed */ }
+  });
+
+  const result = { links, inline: runs.map((r) => r.messages) };
+  taskLinkCache.delete(filePath);
+  if (taskLinkCache.size >= TASK_LINK_CACHE_SIZE) taskLinkCache.delete(taskLinkCache.keys().next().value!);
+  taskLinkCache.set(filePath, { mtimeMs, size, links: result });
+  return result;
+}
+
+function firstPrompt(messages: ConversationMessage[]): string | undefined {
+  const first = messages.find((m) => m.type === "user");
+  return first ? promptText(first.message?.content) : undefined;
+}
+
+async function parseSidechainFile(filePath: string): Promise<ConversationMessage[]> {
+  const messages: ConversationMessage[] = [];
+  await readJsonlLines(filePath, (line) => {
+    try {
+      const msg: ConversationMessage = JSON.parse(line);
+      if (msg.type === "user" || msg.type === "assistant") messages.push(normalizeMessage(msg));
+    } catch { /* skip */ }
+  });
+  return messages;
+}
+
+/** `agent-*.jsonl` transcripts next to the session file and in `<sessionId>/subagents/`. */
+async function listAgentFiles(filePath: string, sessionId: string): Promise<string[]> {
+  const dirs = [dirname(filePath), join(dirname(filePath), sessionId, "subagents")];
+  const files: string[] = [];
+  for (const dir of dirs) {
+    try {
+      for (const file of await readdir(dir)) {
+        if (file.startsWith("agent-") && file.endsWith(".jsonl")) files.push(join(dir, file));
+      }
+    } catch { /* no such dir */ }
+  }
+  return files;
+}
+
+/**
+ * The subagent run started by Task call `toolUseId`: matched by the agent id
+ * Claude Code records on the Task result, else by the prompt the run starts with.
+ */
+async function parseSubagent(filePath: string, sessionId: string, toolUseId: string): Promise<ConversationMessage[] | null> {
+  const { links, inline: inlineRuns } = await readTaskLinks(filePath);
+  const link = links.get(toolUseId);
+  if (!link) return null;
+
+  const agentFiles = await listAgentFiles(filePath, sessionId);
+  if (link.agentId) {
+    const agentFile = agentFiles.find((f) => basename(f) === `agent-${link.agentId}.jsonl`);
+    if (agentFile) return parseSidechainFile(agentFile);
+  }
+
+  if (!link.prompt) return null;
+  const inline = inlineRuns.find((run) => firstPrompt(run) === link.prompt);
+  if (inline) return inline;
+
+  for (const agentFile of agentFiles) {
+    const messages = await parseSidechainFile(agentFile);
+    const owner = messages.find((m) => m.sessionId)?.sessionId;
+    if ((!owner || owner === sessionId) && firstPrompt(messages) === link.prompt) return messages;
+  }
+  return null;
+}
+
+async function parseStream(filePath: string, fromOffset: number): Promise<StreamResult> {
+  const messages: ConversationMessage[] = [];
+  try {
+    const fileSize = (await stat(filePath)).size;
+    if (fromOffset >= fileSize) {
+      return { messages: [], nextOffset: fromOffset };
+    }
+
+    let nextOffset = fromOffset;
+    const resolveParent = createParentResolver();
+    await readJsonlLines(
+      filePath,
+      (line, endOffset) => {
+        try {
+          const entry = JSON.parse(line);
+          const msg = toMessage(entry);
+          resolveParent(msg ?? entry, msg !== null);
+          if (msg) {
+            messages.push(msg);
+          }
+          nextOffset = endOffset;
+        } catch {
+          return false;
+        }
+      },
+      { start: fromOffset, end: fileSize },
+    );
+
+    return { messages, nextOffset };
+  } catch {
+    return { messages: [], nextOffset: fromOffset };
+  }
+}
+
+export const claudeSource: SourceAdapter = {
+  id: "claude",
+  display: {
+    label: "Claude",
+    color: "bg-blue-500",
+    resumeCommand: "claude --resume {sessionId}",
+  },
+  defaultRoot: () => join(homedir(), ".claude"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  parseStream,
+  parseSubagent,
+  subagentFiles: listAgentFiles,
+  watchPaths: (root) => [join(root, "history.jsonl"), join(root, "projects")],
+  classifyChange(root, filePath) {
+    if (filePath === join(root, "history.jsonl")) return { kind: "history" };
+    const projectsDir = join(root, "projects");
+    if (!isUnder(filePath, projectsDir) || !filePath.endsWith(".jsonl")) return null;
+    const parts = relative(projectsDir, filePath).split(sep);
+    if (parts.length === 2 && isSessionFile(parts[1])) {
+      return { kind: "session", sessionId: basename(parts[1], ".jsonl") };
+    }
+    // Runs in <sessionId>/subagents/ belong to that session; a project-level
+    // agent-*.jsonl only names its session inside, so it is left to the next parent write
+    if (parts.length === 4 && parts[2] === "subagents") {
+      return { kind: "session", sessionId: parts[1], auxiliary: true };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,87 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { clineSource } from "./cline";
+import type { SourceContext } from "./types";
+
+describe("cline source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-cline-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("lists tasks and parses their API history", async () => {
+    const root = await rootPromise;
+    const taskDir = join(root, "rooveterinaryinc.roo-cline", "tasks", "1767600000000");
+    await mkdir(taskDir, { recursive: true });
+
+    const historyFile = join(taskDir, "api_conversation_history.json");
+    await writeFile(
+      historyFile,
+      JSON.stringify([
+        {
+          role: "user",
+          ts: Date.parse("2026-01-05T10:00:00Z"),
+          content: [
+            { type: "text", text: "<task>\nAdd a README\n</task>" },
+            { type: "text", text: "<environment_details>\n# Current Workspace Directory (/work/app) Files\n</environment_details>" },
+          ],
+        },
+        {
+          role: "assistant",
+          ts: Date.parse("2026-01-05T10:01:00Z"),
+          content: [
+            { type: "text", text: "Writing it." },
+            { type: "tool_use", id: "t1", name: "write_to_file", input: { path: "README.md" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: "Saved" }] }],
+        },
+      ]),
+    );
+    await writeFile(
+      join(taskDir, "ui_messages.json"),
+      JSON.stringify([
+        { ts: Date.parse("2026-01-05T10:00:00Z"), type: "say", say: "task", text: "Add a README" },
+        { ts: Date.parse("2026-01-05T10:02:00Z"), type: "say", say: "completion_result", text: "Done" },
+      ]),
+    );
+    await writeFile(
+      join(taskDir, "task_metadata.json"),
+      JSON.stringify({ model_usage: [{ model_id: "claude-sonnet-4-5", model_provider_id: "anthropic" }] }),
+    );
+
+    const indexed = new Map<string, string>();
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, filePath) => indexed.set(sessionId, filePath),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (_filePath, compute) => compute(),
+    };
+
+    expect(await clineSource.listHistory(ctx)).toEqual([
+      {
+        display: "Add a README",
+        timestamp: Date.parse("2026-01-05T10:02:00Z"),
+        project: "/work/app",
+        sessionId: "1767600000000",
+        source: "cline",
+        modelId: "claude-sonnet-4-5",
+        modelProvider: "anthropic",
+        modelConfidence: "explicit",
+      },
+    ]);
+
+    const messages = await clineSource.parse(historyFile, "1767600000000");
+    expect(messages.map((m) => m.type)).toEqual(["user", "assistant", "user"]);
+    expect(messages[0].message?.content).toEqual([{ type: "text", text: "<task>\nAdd a README\n</task>" }]);
+    expect(messages[1].message).toMatchObject({ model: "claude-sonnet-4-5", provider: "anthropic", modelConfidence: "derived" });
+    expect(messages[2].message?.content).toEqual([
+      { type: "tool_result", tool_use_id: "t1", content: "Saved", is_error: undefined },
+    ]);
+  });
+});
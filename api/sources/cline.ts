@@ -0,0 +1,277 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join, basename, dirname, relative, sep } from "path";
+import { homedir } from "os";
+import type {
+  ContentBlock,
+  ConversationMessage,
+  HistoryEntry,
+  SessionModelInfo,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, inferProviderFromModel, isUnder } from "./shared";
+
+// Cline and its Roo Code fork keep one folder per task under their VS Code
+// globalStorage directory: <globalStorage>/<extension-id>/tasks/<taskId>/.
+// The source root is the globalStorage directory so both extensions are found.
+
+const EXTENSION_IDS = ["saoudrizwan.claude-dev", "rooveterinaryinc.roo-cline"];
+const API_HISTORY_FILE = "api_conversation_history.json";
+const UI_MESSAGES_FILE = "ui_messages.json";
+const TASK_METADATA_FILE = "task_metadata.json";
+const ENVIRONMENT_DETAILS = /<environment_details>[\s\S]*?<\/environment_details>/g;
+const WORKING_DIRECTORY = /# Current (?:Working|Workspace) Directory \(([^)]+)\)/;
+
+interface AnthropicBlock {
+  type?: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicBlock[];
+  is_error?: boolean;
+}
+
+interface AnthropicMessage {
+  role?: string;
+  content?: string | AnthropicBlock[];
+  ts?: number;
+}
+
+interface UiMessage {
+  ts?: number;
+  type?: string;
+  say?: string;
+  text?: string;
+}
+
+interface TaskMetadata {
+  model_usage?: Array<{ model_id?: string; model_provider_id?: string }>;
+}
+
+function defaultGlobalStorage(): string {
+  const home = homedir();
+  if (process.platform === "darwin") {
+    return join(home, "Library", "Application Support", "Code", "User", "globalStorage");
+  }
+  if (process.platform === "win32") {
+    return join(process.env.APPDATA || join(home, "AppData", "Roaming"), "Code", "User", "globalStorage");
+  }
+  return join(home, ".config", "Code", "User", "globalStorage");
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function listTaskFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const extensionId of EXTENSION_IDS) {
+    const tasksDir = join(root, extensionId, "tasks");
+    try {
+      const tasks = await readdir(tasksDir, { withFileTypes: true });
+      for (const task of tasks) {
+        if (task.isDirectory()) files.push(join(tasksDir, task.name, API_HISTORY_FILE));
+      }
+    } catch { /* extension not installed */ }
+  }
+  return files;
+}
+
+function stripEnvironmentDetails(text: string): string {
+  return text.replace(ENVIRONMENT_DETAILS, "").trim();
+}
+
+function mapToolResultContent(content: AnthropicBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) => (block.type === "text" ? block.text || "" : block.type === "image" ? "[image]" : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+function mapBlocks(content: AnthropicMessage["content"]): ContentBlock[] {
+  if (typeof content === "string") {
+    const text = stripEnvironmentDetails(content);
+    return text ? [{ type: "text", text }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const block of content) {
+    if (block.type === "text" && block.text) {
+      // Cline appends workspace listings to every user turn; they are context, not conversation
+      const text = stripEnvironmentDetails(block.text);
+      if (text) blocks.push({ type: "text", text });
+    } else if (block.type === "thinking" && block.thinking) {
+      blocks.push({ type: "thinking", thinking: block.thinking });
+    } else if (block.type === "tool_use") {
+      blocks.push({ type: "tool_use", id: block.id, name: block.name, input: block.input ?? {} });
+    } else if (block.type === "tool_result") {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: block.tool_use_id,
+        content: mapToolResultContent(block.content),
+        is_error: block.is_error,
+      });
+    }
+  }
+  return blocks;
+}
+
+async function readTaskModel(taskDir: string): Promise<SessionModelInfo | null> {
+  const metadata = await readJson<TaskMetadata>(join(taskDir, TASK_METADATA_FILE));
+  const usage = metadata?.model_usage ?? [];
+  for (let i = usage.length - 1; i >= 0; i--) {
+    const model = usage[i]?.model_id;
+    if (model) return { model, provider: inferProviderFromModel(model) || usage[i].model_provider_id || "" };
+  }
+  return null;
+}
+
+async function parse(filePath: string): Promise<ConversationMessage[]> {
+  const history = await readJson<AnthropicMessage[]>(filePath);
+  if (!Array.isArray(history)) return [];
+
+  const taskId = basename(dirname(filePath));
+  const model = await readTaskModel(dirname(filePath));
+  const messages: ConversationMessage[] = [];
+
+  history.forEach((entry, index) => {
+    if (entry.role !== "user" && entry.role !== "assistant") return;
+    const content = mapBlocks(entry.content);
+    if (content.length === 0) return;
+
+    messages.push({
+      type: entry.role,
+      uuid: `${taskId}-${index}`,
+      timestamp: entry.ts ? new Date(entry.ts).toISOString() : undefined,
+      message:
+        entry.role === "assistant"
+          ? {
+              role: "assistant",
+              content,
+              model: model?.model,
+              provider: model?.provider,
+              modelConfidence: model ? "derived" : "unknown",
+            }
+          : { role: "user", content },
+    });
+  });
+
+  return messages;
+}
+
+function firstTaskText(uiMessages: UiMessage[] | null, history: AnthropicMessage[] | null): string {
+  const task = uiMessages?.find((m) => m.say === "task" && m.text);
+  if (task?.text) return task.text;
+
+  const first = history?.find((m) => m.role === "user");
+  const text = mapBlocks(first?.content).find((b) => b.type === "text")?.text ?? "";
+  return text.replace(/<\/?task>/g, "");
+}
+
+function findWorkingDirectory(history: AnthropicMessage[] | null): string | undefined {
+  for (const entry of history ?? []) {
+    const texts = typeof entry.content === "string"
+      ? [entry.content]
+      : (entry.content ?? []).map((b) => b.text || "");
+    for (const text of texts) {
+      const match = text.match(WORKING_DIRECTORY);
+      if (match) return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  for (const filePath of await listTaskFiles(ctx.root)) {
+    ctx.indexFile(basename(dirname(filePath)), filePath);
+  }
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+
+  for (const filePath of await listTaskFiles(ctx.root)) {
+    const taskDir = dirname(filePath);
+    const taskId = basename(taskDir);
+    const history = await readJson<AnthropicMessage[]>(filePath);
+    const uiMessages = await readJson<UiMessage[]>(join(taskDir, UI_MESSAGES_FILE));
+    if (!history && !uiMessages) continue;
+
+    ctx.indexFile(taskId, filePath);
+
+    let timestamp = uiMessages?.[uiMessages.length - 1]?.ts;
+    if (!timestamp) {
+      try {
+        timestamp = (await stat(filePath)).mtimeMs;
+      } catch {
+        timestamp = Number(taskId) || 0;
+      }
+    }
+
+    const model = await readTaskModel(taskDir);
+    const extensionId = basename(dirname(dirname(taskDir)));
+    entries.push({
+      display: cleanTitle(firstTaskText(uiMessages, history), "Cline Task"),
+      timestamp,
+      project: findWorkingDirectory(history) || extensionId,
+      sessionId: taskId,
+      source: "cline",
+      modelId: model?.model,
+      modelProvider: model?.provider,
+      modelConfidence: model ? "explicit" : "unknown",
+    });
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  for (const filePath of await listTaskFiles(ctx.root)) {
+    if (basename(dirname(filePath)) === sessionId) {
+      ctx.indexFile(sessionId, filePath);
+      return filePath;
+    }
+  }
+  return null;
+}
+
+export const clineSource: SourceAdapter = {
+  id: "cline",
+  display: {
+    label: "Cline",
+    color: "bg-lime-500",
+  },
+  defaultRoot: defaultGlobalStorage,
+  // The extension's taskHistory state still lists the task, which breaks once its folder is gone
+  readOnly: true,
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  latestModel: (filePath) => readTaskModel(dirname(filePath)),
+  watchPaths: (root) => EXTENSION_IDS.map((extensionId) => join(root, extensionId, "tasks")),
+  classifyChange(root, filePath) {
+    if (!isUnder(filePath, root)) return null;
+    const [extensionId, tasks, taskId, fileName] = relative(root, filePath).split(sep);
+    if (!EXTENSION_IDS.includes(extensionId) || tasks !== "tasks" || !taskId) return null;
+    if (fileName === API_HISTORY_FILE) return { kind: "session", sessionId: taskId };
+    // ui_messages.json carries the title and last-activity time shown in the list
+    if (fileName === UI_MESSAGES_FILE) {
+      return { kind: "session", sessionId: taskId, historyChanged: true, auxiliary: true };
+    }
+    if (fileName === TASK_METADATA_FILE) return { kind: "session", sessionId: taskId, auxiliary: true };
+    return null;
+  },
+};
@@ -0,0 +1,309 @@
+import { join, basename } from "path";
+import { homedir } from "os";
+import type { HistoryEntry } from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { isUnder, walkJsonlFiles } from "./shared";
+import { parseJsonl, readJsonlLines, streamJsonl, type JsonlParser } from "./jsonl";
+
+const CODEX_SESSION_ID_PATTERN = /([0-9a-f]{4,}-[0-9a-f-]+)\.jsonl$/;
+
+function parseCodexSessionId(fileName: string): string | null {
+  const match = fileName.match(CODEX_SESSION_ID_PATTERN);
+  return match ? match[1] : null;
+}
+
+async function walkCodexSessions(
+  dir: string,
+  callback: (sessionId: string, filePath: string) => void
+): Promise<void> {
+  await walkJsonlFiles(dir, (filePath, fileName) => {
+    const sessionId = parseCodexSessionId(fileName);
+    if (sessionId) {
+      callback(sessionId, filePath);
+    }
+  });
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  const sessionsDir = join(ctx.root, "sessions");
+  try {
+    await walkCodexSessions(sessionsDir, (sessionId, filePath) => {
+      ctx.indexFile(sessionId, filePath);
+    });
+  } catch { /* sessions dir may not exist */ }
+}
+
+async function loadCodexHistory(root: string): Promise<HistoryEntry[]> {
+  try {
+    const historyPath = join(root, "history.jsonl");
+    const latestEntriesBySession = new Map<string, HistoryEntry>();
+    await readJsonlLines(historyPath, (line) => {
+      try {
+        const parsed = JSON.parse(line);
+        const sessionId = parsed.session_id;
+        if (!sessionId) return;
+        const ts = typeof parsed.ts === "string" ? parseInt(parsed.ts, 10) : parsed.ts;
+        const timestamp = ts < 1e12 ? ts * 1000 : ts;
+        const nextEntry: HistoryEntry = {
+          display: (parsed.text || "Codex Session").slice(0, 200),
+          timestamp,
+          project: "",
+          sessionId,
+          source: "codex",
+        };
+
+        const existing = latestEntriesBySession.get(sessionId);
+        if (!existing || nextEntry.timestamp > existing.timestamp) {
+          latestEntriesBySession.set(sessionId, nextEntry);
+        }
+      } catch { /* skip */ }
+    });
+    return Array.from(latestEntriesBySession.values());
+  } catch {
+    return [];
+  }
+}
+
+interface CodexSessionMeta {
+  project?: string;
+  modelProvider?: string;
+  modelId?: string;
+}
+
+async function readCodexSessionMeta(filePath: string): Promise<CodexSessionMeta> {
+  const meta: CodexSessionMeta = {};
+  await readJsonlLines(filePath, (line) => {
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed.type === "session_meta" && parsed.payload) {
+        meta.project = parsed.payload.cwd || meta.project;
+        if (!meta.modelProvider && parsed.payload.model_provider) {
+          meta.modelProvider = parsed.payload.model_provider;
+        }
+      }
+
+      if (parsed.type === "turn_context" && parsed.payload?.model && !meta.modelId) {
+        meta.modelId = parsed.payload.model;
+      }
+
+      if (meta.project && meta.modelProvider && meta.modelId) return false;
+    } catch {
+      // skip malformed
+    }
+  });
+  return meta;
+}
+
+async function enrichCodexEntries(ctx: SourceContext, entries: HistoryEntry[]): Promise<void> {
+  for (const entry of entries) {
+    if (!entry.sessionId) continue;
+    const indexedPath = ctx.lookupFile(entry.sessionId);
+    if (!indexedPath) continue;
+    try {
+      const meta = await ctx.cachedMetadata(indexedPath, () => readCodexSessionMeta(indexedPath));
+      entry.project = meta.project || entry.project || "";
+      entry.modelProvider = entry.modelProvider || meta.modelProvider;
+      entry.modelId = entry.modelId || meta.modelId;
+      entry.modelConfidence = entry.modelProvider || entry.modelId ? "derived" : "unknown";
+    } catch { /* ignore */ }
+  }
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries = await loadCodexHistory(ctx.root);
+  await enrichCodexEntries(ctx, entries);
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) {
+    return indexed;
+  }
+
+  const sessionsDir = join(ctx.root, "sessions");
+  try {
+    let foundPath: string | null = null;
+    await walkCodexSessions(sessionsDir, (id, filePath) => {
+      if (!foundPath && id === sessionId) {
+        foundPath = filePath;
+      }
+    });
+
+    if (foundPath) {
+      ctx.indexFile(sessionId, foundPath);
+    }
+
+    return foundPath;
+  } catch {
+    return null;
+  }
+}
+
+interface CodexLine {
+  type?: string;
+  timestamp?: string;
+  payload?: {
+    model_provider?: string;
+    model?: string;
+    role?: string;
+    content?: Array<{ type?: string; text?: string }>;
+    id?: string;
+    call_id?: string;
+    name?: string;
+    type?: string;
+    arguments?: string;
+    output?: string;
+    text?: string;
+  };
+}
+
+interface CodexParseState {
+  currentModel?: string;
+  currentProvider?: string;
+}
+
+const codexParser: JsonlParser<CodexParseState> = {
+  initialState: () => ({}),
+  parseLine(entry, state, sink) {
+    const parsed = entry as CodexLine;
+    if (parsed.type === "session_meta" && parsed.payload) {
+      state.currentProvider = parsed.payload.model_provider || state.currentProvider;
+      return;
+    }
+
+    if (parsed.type === "turn_context" && parsed.payload) {
+      state.currentModel = parsed.payload.model || state.currentModel;
+      return;
+    }
+
+    const { currentModel, currentProvider } = state;
+    const modelConfidence = currentModel || currentProvider ? "derived" : "unknown";
+
+    if (parsed.type === "response_item" && parsed.payload) {
+      const { role, content: payloadContent } = parsed.payload;
+      if (role === "user") {
+        const textParts = (payloadContent || [])
+          .filter((c) => c.type === "input_text")
+          .map((c) => c.text || "");
+        if (textParts.length > 0) {
+          sink.push({
+            type: "user",
+            uuid: `codex-${sink.count}`,
+            timestamp: parsed.timestamp,
+            message: {
+              role: "user",
+              content: textParts.join("\n"),
+              model: currentModel,
+              provider: currentProvider,
+              modelConfidence,
+            },
+          });
+        }
+      } else if (role === "assistant") {
+        const textParts = (payloadContent || [])
+          .filter((c) => c.type === "output_text")
+          .map((c) => c.text || "");
+        if (textParts.length > 0) {
+          sink.push({
+            type: "assistant",
+            uuid: `codex-${sink.count}`,
+            timestamp: parsed.timestamp,
+            message: {
+              role: "assistant",
+              content: textParts.join("\n"),
+              model: currentModel,
+              provider: currentProvider,
+              modelConfidence,
+            },
+          });
+        }
+      }
+    } else if (parsed.type === "function_call") {
+      const payload = parsed.payload || {};
+      sink.push({
+        type: "assistant",
+        uuid: `codex-fc-${sink.count}`,
+        timestamp: parsed.timestamp,
+        message: {
+          role: "assistant",
+          model: currentModel,
+          provider: currentProvider,
+          modelConfidence,
+          content: [
+            {
+              type: "tool_use",
+              id: payload.call_id || payload.id,
+              name: payload.name || payload.type || "function_call",
+              input: payload.arguments ? JSON.parse(payload.arguments) : {},
+            },
+          ],
+        },
+      });
+    } else if (parsed.type === "function_call_output") {
+      const payload = parsed.payload || {};
+      sink.push({
+        type: "assistant",
+        uuid: `codex-fco-${sink.count}`,
+        timestamp: parsed.timestamp,
+        message: {
+          role: "assistant",
+          model: currentModel,
+          provider: currentProvider,
+          modelConfidence,
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: payload.call_id,
+              content: payload.output || "",
+            },
+          ],
+        },
+      });
+    } else if (parsed.type === "reasoning") {
+      const payload = parsed.payload || {};
+      if (payload.text) {
+        sink.push({
+          type: "assistant",
+          uuid: `codex-r-${sink.count}`,
+          timestamp: parsed.timestamp,
+          message: {
+            role: "assistant",
+            model: currentModel,
+            provider: currentProvider,
+            modelConfidence,
+            content: [
+              {
+                type: "thinking",
+                thinking: payload.text,
+              },
+            ],
+          },
+        });
+      }
+    }
+  },
+};
+
+export const codexSource: SourceAdapter = {
+  id: "codex",
+  display: {
+    label: "Codex",
+    color: "bg-orange-500",
+    resumeCommand: "codex resume {sessionId}",
+  },
+  defaultRoot: () => join(homedir(), ".codex"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse: (filePath) => parseJsonl(filePath, codexParser),
+  parseStream: (filePath, fromOffset) => streamJsonl(filePath, fromOffset, codexParser),
+  watchPaths: (root) => [join(root, "history.jsonl"), join(root, "sessions")],
+  classifyChange(root, filePath) {
+    if (filePath === join(root, "history.jsonl")) return { kind: "history" };
+    if (isUnder(filePath, join(root, "sessions")) && filePath.endsWith(".jsonl")) {
+      return { kind: "session", sessionId: parseCodexSessionId(basename(filePath)) ?? basename(filePath, ".jsonl") };
+    }
+    return null;
+  },
+};
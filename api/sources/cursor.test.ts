@@ -0,0 +1,108 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cursorSource } from "./cursor";
+import type { SourceContext } from "./types";
+
+function writeKv(dbPath: string, table: string, rows: Record<string, unknown>): void {
+  const db = new Database(dbPath, { create: true });
+  db.run(`CREATE TABLE ${table} (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)`);
+  const insert = db.prepare(`INSERT INTO ${table} (key, value) VALUES (?, ?)`);
+  for (const [key, value] of Object.entries(rows)) insert.run(key, JSON.stringify(value));
+  db.close();
+}
+
+describe("cursor source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-cursor-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("lists composer chats with their workspace and parses their bubbles", async () => {
+    const root = await rootPromise;
+    const globalDir = join(root, "globalStorage");
+    const workspaceDir = join(root, "workspaceStorage", "ab12");
+    await mkdir(globalDir, { recursive: true });
+    await mkdir(workspaceDir, { recursive: true });
+
+    writeKv(join(globalDir, "state.vscdb"), "cursorDiskKV", {
+      "composerData:c1": {
+        composerId: "c1",
+        name: "Fix the build",
+        createdAt: Date.parse("2026-01-05T10:00:00Z"),
+        lastUpdatedAt: Date.parse("2026-01-05T10:05:00Z"),
+        modelConfig: { modelName: "claude-4-sonnet" },
+        fullConversationHeadersOnly: [
+          { bubbleId: "b1", type: 1 },
+          { bubbleId: "b2", type: 2 },
+        ],
+      },
+      // Empty chats Cursor creates for new tabs are not listed
+      "composerData:c2": { composerId: "c2", createdAt: Date.parse("2026-01-04T10:00:00Z"), fullConversationHeadersOnly: [] },
+      "bubbleId:c1:b1": { bubbleId: "b1", type: 1, text: "Why does it fail?", createdAt: "2026-01-05T10:00:00Z" },
+      "bubbleId:c1:b2": {
+        bubbleId: "b2",
+        type: 2,
+        text: "Running the tests.",
+        createdAt: "2026-01-05T10:01:00Z",
+        tokenCount: { inputTokens: 40, outputTokens: 12 },
+        toolFormerData: { toolCallId: "t1", name: "run_terminal_cmd", params: '{"command":"bun test"}', result: "1 fail", status: "error" },
+      },
+    });
+    await writeFile(join(workspaceDir, "workspace.json"), JSON.stringify({ folder: "file:///work/app" }));
+    writeKv(join(workspaceDir, "state.vscdb"), "ItemTable", {
+      "composer.composerData": { allComposers: [{ composerId: "c1" }] },
+    });
+
+    const indexed = new Map<string, string>();
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, filePath) => indexed.set(sessionId, filePath),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (_filePath, compute) => compute(),
+    };
+
+    expect(await cursorSource.listHistory(ctx)).toEqual([
+      {
+        display: "Fix the build",
+        timestamp: Date.parse("2026-01-05T10:05:00Z"),
+        project: "/work/app",
+        sessionId: "c1",
+        source: "cursor",
+        modelId: "claude-4-sonnet",
+        modelProvider: "anthropic",
+        modelConfidence: "explicit",
+      },
+    ]);
+
+    const dbPath = join(globalDir, "state.vscdb");
+    const messages = await cursorSource.parse(dbPath, "c1");
+    expect(messages.map((m) => m.type)).toEqual(["user", "assistant", "assistant"]);
+    expect(messages[1].message).toMatchObject({
+      content: [
+        { type: "text", text: "Running the tests." },
+        { type: "tool_use", id: "t1", name: "run_terminal_cmd", input: { command: "bun test" } },
+      ],
+      model: "claude-4-sonnet",
+      usage: { input_tokens: 40, output_tokens: 12 },
+    });
+    expect(messages[2].message?.content).toEqual([
+      { type: "tool_result", tool_use_id: "t1", content: "1 fail", is_error: true },
+    ]);
+
+    // A write could be to any chat, so the changed ones come from rows added since the last scan
+    expect(cursorSource.classifyChange(root, `${dbPath}-wal`)).toEqual({ kind: "history" });
+    const db = new Database(dbPath);
+    db.run("INSERT INTO cursorDiskKV (key, value) VALUES (?, ?)", ["bubbleId:c1:b3", JSON.stringify({ bubbleId: "b3", type: 1, text: "Again" })]);
+    db.run("INSERT INTO cursorDiskKV (key, value) VALUES (?, ?)", [
+      "composerData:c1",
+      JSON.stringify({ composerId: "c1", name: "Fix the CI", fullConversationHeadersOnly: [{ bubbleId: "b1", type: 1 }] }),
+    ]);
+    db.close();
+    expect(await cursorSource.changedSessions!(`${dbPath}-wal`)).toEqual(["c1"]);
+    expect((await cursorSource.listHistory(ctx)).map((e) => [e.display, e.project])).toEqual([["Fix the CI", "/work/app"]]);
+  });
+});
@@ -0,0 +1,420 @@
+import { Database } from "bun:sqlite";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { fileURLToPath } from "url";
+import type {
+  ContentBlock,
+  ConversationMessage,
+  HistoryEntry,
+  SessionModelInfo,
+  TokenUsage,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, inferProviderFromModel, parseTimestampValue } from "./shared";
+
+// Cursor keeps composer (agent) chats in the global state.vscdb:
+//   cursorDiskKV  composerData:<composerId>          chat metadata and bubble order
+//   cursorDiskKV  bubbleId:<composerId>:<bubbleId>   individual messages
+// Each workspaceStorage/<hash>/state.vscdb lists the composers opened in that
+// workspace (ItemTable composer.composerData), which gives chats their project.
+// The databases belong to Cursor and are only ever opened read-only.
+
+const DB_FILE = "state.vscdb";
+const USER_BUBBLE = 1;
+const AI_BUBBLE = 2;
+
+interface ComposerData {
+  composerId?: string;
+  name?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  modelConfig?: { modelName?: string };
+  fullConversationHeadersOnly?: Array<{ bubbleId?: string; type?: number }>;
+  conversation?: Bubble[];
+}
+
+interface Bubble {
+  bubbleId?: string;
+  type?: number;
+  text?: string;
+  createdAt?: string | number;
+  thinking?: { text?: string };
+  modelInfo?: { modelName?: string };
+  tokenCount?: { inputTokens?: number; outputTokens?: number };
+  toolFormerData?: {
+    toolCallId?: string;
+    name?: string;
+    params?: string;
+    rawArgs?: string;
+    result?: string;
+    status?: string;
+  };
+}
+
+interface ComposerSummary {
+  composer: ComposerData;
+  project?: string;
+}
+
+interface ComposerCache {
+  version: string;
+  /**
+   * Highest cursorDiskKV rowid scanned. Rows are written with ON CONFLICT
+   * REPLACE, so every write gets a new rowid above it.
+   */
+  maxRowid: number;
+  composers: Map<string, ComposerSummary>;
+  /** Chats written by the last scan, for `changedSessions`. */
+  changed: Set<string>;
+}
+
+// Keyed by global db path, one per machine root
+const composerCaches = new Map<string, ComposerCache>();
+
+function defaultUserDir(): string {
+  const home = homedir();
+  if (process.platform === "darwin") {
+    return join(home, "Library", "Application Support", "Cursor", "User");
+  }
+  if (process.platform === "win32") {
+    return join(process.env.APPDATA || join(home, "AppData", "Roaming"), "Cursor", "User");
+  }
+  return join(home, ".config", "Cursor", "User");
+}
+
+function globalDbPath(root: string): string {
+  return join(root, "globalStorage", DB_FILE);
+}
+
+function fileVersion(dbPath: string): string {
+  // Cursor runs the databases in WAL mode, so fresh writes land in the -wal file first
+  const mtimes = [dbPath, `${dbPath}-wal`].map((path) => {
+    try {
+      return statSync(path).mtimeMs;
+    } catch {
+      return 0;
+    }
+  });
+  return mtimes.join(":");
+}
+
+function withDatabase<T>(dbPath: string, fn: (db: Database) => T): T | null {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath, { readonly: true });
+    return fn(db);
+  } catch {
+    return null;
+  } finally {
+    db?.close();
+  }
+}
+
+function parseJsonValue<T>(value: unknown): T | null {
+  try {
+    const text = typeof value === "string" ? value : new TextDecoder().decode(value as Uint8Array);
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+function readWorkspaceProjects(root: string): Map<string, string> {
+  const projects = new Map<string, string>();
+  const workspaceDir = join(root, "workspaceStorage");
+  let workspaces: string[];
+  try {
+    workspaces = readdirSync(workspaceDir);
+  } catch {
+    return projects;
+  }
+
+  for (const workspace of workspaces) {
+    let folder: string | undefined;
+    try {
+      const info = JSON.parse(readFileSync(join(workspaceDir, workspace, "workspace.json"), "utf-8"));
+      folder = typeof info.folder === "string" ? fileURLToPath(info.folder) : undefined;
+    } catch { /* multi-root or remote workspaces have no local folder */ }
+    if (!folder) continue;
+
+    const composerIds = withDatabase(join(workspaceDir, workspace, DB_FILE), (db) => {
+      const row = db.query("SELECT value FROM ItemTable WHERE key = 'composer.composerData'").get() as
+        | { value: unknown }
+        | null;
+      const data = row ? parseJsonValue<{ allComposers?: Array<{ composerId?: string }> }>(row.value) : null;
+      return (data?.allComposers ?? []).map((c) => c.composerId).filter((id): id is string => !!id);
+    });
+    for (const composerId of composerIds ?? []) {
+      projects.set(composerId, folder);
+    }
+  }
+
+  return projects;
+}
+
+/** Chat id of a `composerData:<id>` or `bubbleId:<id>:<bubbleId>` key. */
+function composerIdFromKey(key: string): string | null {
+  const [kind, composerId] = key.split(":");
+  return (kind === "composerData" || kind === "bubbleId") && composerId ? composerId : null;
+}
+
+/**
+ * The composers of the global db, read in full once and then only from rows
+ * written since the previous scan. Chats deleted in Cursor stay listed until
+ * a restart.
+ */
+function loadComposers(root: string): ComposerCache {
+  const dbPath = globalDbPath(root);
+  const version = fileVersion(dbPath);
+  const cached = composerCaches.get(dbPath);
+  if (cached?.version === version) return cached;
+
+  const cache: ComposerCache = cached
+    ? { ...cached, version, changed: new Set() }
+    : { version, maxRowid: 0, composers: new Map(), changed: new Set() };
+  let projects: Map<string, string> | null = null;
+  withDatabase(dbPath, (db) => {
+    const rows = db
+      .query(
+        "SELECT rowid, key, CASE WHEN key LIKE 'composerData:%' THEN value END AS value FROM cursorDiskKV WHERE rowid > ?",
+      )
+      .all(cache.maxRowid) as Array<{ rowid: number; key: string; value: unknown }>;
+    for (const row of rows) {
+      cache.maxRowid = Math.max(cache.maxRowid, row.rowid);
+      const composerId = composerIdFromKey(row.key);
+      if (!composerId) continue;
+      if (cached) cache.changed.add(composerId);
+      if (row.value === null) continue;
+
+      const composer = parseJsonValue<ComposerData>(row.value);
+      if (!composer) continue;
+      const id = composer.composerId || composerId;
+      // Workspaces only gain chats when one is new, so they are re-read then
+      const known = cache.composers.get(id);
+      if (!known) projects ??= readWorkspaceProjects(root);
+      cache.composers.set(id, { composer, project: known?.project ?? projects?.get(id) });
+    }
+  });
+
+  composerCaches.set(dbPath, cache);
+  return cache;
+}
+
+function loadBubbles(dbPath: string, composerId: string, composer: ComposerData): Bubble[] {
+  // Older Cursor versions store the bubbles inline on the composer
+  if (Array.isArray(composer.conversation) && composer.conversation.length > 0) {
+    return composer.conversation;
+  }
+
+  const headers = composer.fullConversationHeadersOnly ?? [];
+  if (headers.length === 0) return [];
+
+  return (
+    withDatabase(dbPath, (db) => {
+      const rows = db
+        .query("SELECT key, value FROM cursorDiskKV WHERE key LIKE ?")
+        .all(`bubbleId:${composerId}:%`) as Array<{ key: string; value: unknown }>;
+      const byId = new Map<string, Bubble>();
+      for (const row of rows) {
+        const bubble = parseJsonValue<Bubble>(row.value);
+        if (bubble) byId.set(bubble.bubbleId || row.key.split(":")[2], bubble);
+      }
+      return headers
+        .map((header) => (header.bubbleId ? byId.get(header.bubbleId) : undefined))
+        .filter((bubble): bubble is Bubble => !!bubble);
+    }) ?? []
+  );
+}
+
+function parseToolArgs(raw?: string): unknown {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { arguments: raw };
+  }
+}
+
+function bubbleTimestamp(bubble: Bubble): string | undefined {
+  const ts = parseTimestampValue(bubble.createdAt);
+  return ts ? new Date(ts).toISOString() : undefined;
+}
+
+function mapUsage(bubble: Bubble): TokenUsage | undefined {
+  const input = bubble.tokenCount?.inputTokens ?? 0;
+  const output = bubble.tokenCount?.outputTokens ?? 0;
+  if (!input && !output) return undefined;
+  return { input_tokens: input, output_tokens: output };
+}
+
+function mapBubbles(composer: ComposerData, bubbles: Bubble[]): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  let currentModel = composer.modelConfig?.modelName;
+
+  bubbles.forEach((bubble, index) => {
+    const uuid = bubble.bubbleId || `cursor-${index}`;
+    const timestamp = bubbleTimestamp(bubble);
+
+    if (bubble.type === USER_BUBBLE) {
+      if (!bubble.text?.trim()) return;
+      messages.push({ type: "user", uuid, timestamp, message: { role: "user", content: bubble.text } });
+      return;
+    }
+
+    if (bubble.type !== AI_BUBBLE) return;
+    if (bubble.modelInfo?.modelName) currentModel = bubble.modelInfo.modelName;
+
+    const blocks: ContentBlock[] = [];
+    if (bubble.thinking?.text) blocks.push({ type: "thinking", thinking: bubble.thinking.text });
+    if (bubble.text?.trim()) blocks.push({ type: "text", text: bubble.text });
+
+    const tool = bubble.toolFormerData;
+    if (tool?.name) {
+      const id = tool.toolCallId || uuid;
+      blocks.push({ type: "tool_use", id, name: tool.name, input: parseToolArgs(tool.params || tool.rawArgs) });
+    }
+    if (blocks.length === 0) return;
+
+    const provider = inferProviderFromModel(currentModel);
+    messages.push({
+      type: "assistant",
+      uuid,
+      timestamp,
+      message: {
+        role: "assistant",
+        content: blocks,
+        model: currentModel,
+        provider,
+        usage: mapUsage(bubble),
+        modelConfidence: bubble.modelInfo?.modelName ? "explicit" : currentModel ? "derived" : "unknown",
+      },
+    });
+
+    if (tool?.name && tool.result !== undefined) {
+      messages.push({
+        type: "assistant",
+        uuid: `${uuid}-result`,
+        timestamp,
+        message: {
+          role: "assistant",
+          content: [{
+            type: "tool_result",
+            tool_use_id: tool.toolCallId || uuid,
+            content: tool.result,
+            is_error: tool.status === "error",
+          }],
+          model: currentModel,
+          provider,
+          modelConfidence: currentModel ? "derived" : "unknown",
+        },
+      });
+    }
+  });
+
+  return messages;
+}
+
+function rootFromDbPath(dbPath: string): string {
+  return join(dbPath, "..", "..");
+}
+
+function firstUserText(root: string, composerId: string, composer: ComposerData): string {
+  const inline = composer.conversation?.find((b) => b.type === USER_BUBBLE && b.text);
+  if (inline?.text) return inline.text;
+
+  const header = composer.fullConversationHeadersOnly?.find((h) => h.type === USER_BUBBLE);
+  if (!header?.bubbleId) return "";
+  const bubble = withDatabase(globalDbPath(root), (db) => {
+    const row = db.query("SELECT value FROM cursorDiskKV WHERE key = ?").get(
+      `bubbleId:${composerId}:${header.bubbleId}`,
+    ) as { value: unknown } | null;
+    return row ? parseJsonValue<Bubble>(row.value) : null;
+  });
+  return bubble?.text ?? "";
+}
+
+function hasConversation(composer: ComposerData): boolean {
+  return (composer.fullConversationHeadersOnly?.length ?? 0) > 0 || (composer.conversation?.length ?? 0) > 0;
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  const dbPath = globalDbPath(ctx.root);
+  for (const composerId of loadComposers(ctx.root).composers.keys()) {
+    ctx.indexFile(composerId, dbPath);
+  }
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const dbPath = globalDbPath(ctx.root);
+  const entries: HistoryEntry[] = [];
+
+  for (const [composerId, { composer, project }] of loadComposers(ctx.root).composers) {
+    if (!hasConversation(composer)) continue;
+    ctx.indexFile(composerId, dbPath);
+
+    const modelId = composer.modelConfig?.modelName;
+    entries.push({
+      display: cleanTitle(composer.name || firstUserText(ctx.root, composerId, composer), "Cursor Chat"),
+      timestamp: composer.lastUpdatedAt ?? composer.createdAt ?? 0,
+      project: project || "Cursor",
+      sessionId: composerId,
+      source: "cursor",
+      modelId,
+      modelProvider: inferProviderFromModel(modelId),
+      modelConfidence: modelId ? "explicit" : "unknown",
+    });
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  if (!loadComposers(ctx.root).composers.has(sessionId)) return null;
+  const dbPath = globalDbPath(ctx.root);
+  ctx.indexFile(sessionId, dbPath);
+  return dbPath;
+}
+
+async function parse(filePath: string, sessionId: string): Promise<ConversationMessage[]> {
+  const summary = loadComposers(rootFromDbPath(filePath)).composers.get(sessionId);
+  if (!summary) return [];
+  return mapBubbles(summary.composer, loadBubbles(filePath, sessionId, summary.composer));
+}
+
+async function latestModel(filePath: string, sessionId: string): Promise<SessionModelInfo | null> {
+  const messages = await parse(filePath, sessionId);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const model = messages[i]?.message?.model;
+    if (model) return { model, provider: inferProviderFromModel(model) ?? "" };
+  }
+  return null;
+}
+
+export const cursorSource: SourceAdapter = {
+  id: "cursor",
+  display: {
+    label: "Cursor",
+    color: "bg-slate-500",
+  },
+  defaultRoot: defaultUserDir,
+  readOnly: true,
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  latestModel,
+  watchPaths: (root) => [globalDbPath(root), `${globalDbPath(root)}-wal`],
+  // The database does not say which chat a write touched; changedSessions
+  // finds out once the watcher's debounce has let the writes settle
+  classifyChange(root, filePath) {
+    const dbPath = globalDbPath(root);
+    return filePath === dbPath || filePath === `${dbPath}-wal` ? { kind: "history" } : null;
+  },
+  async changedSessions(filePath) {
+    return [...loadComposers(rootFromDbPath(filePath.replace(/-wal$/, ""))).changed];
+  },
+};
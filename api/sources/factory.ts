@@ -0,0 +1,252 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join, basename } from "path";
+import { homedir } from "os";
+import type {
+  ContentBlock,
+  HistoryEntry,
+  ModelConfidence,
+  SessionModelInfo,
+  TokenUsage,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import {
+  deriveProvider,
+  firstTextFromContent,
+  inferProviderFromModel,
+  isUnder,
+  normalizeModelId,
+} from "./shared";
+import { parseJsonl, readJsonlLines, streamJsonl, type JsonlParser } from "./jsonl";
+
+async function readFactorySettingsMeta(sessionFilePath: string): Promise<{
+  modelId?: string;
+  modelProvider?: string;
+  modelConfidence?: ModelConfidence;
+}> {
+  const settingsPath = sessionFilePath.replace(/\.jsonl$/, ".settings.json");
+
+  try {
+    const settings = JSON.parse(await readFile(settingsPath, "utf-8")) as Record<string, unknown>;
+    const modelId = normalizeModelId(typeof settings.model === "string" ? settings.model : undefined);
+    const modelProvider = typeof settings.providerLock === "string"
+      ? settings.providerLock
+      : inferProviderFromModel(modelId);
+
+    if (!modelId && !modelProvider) {
+      return {};
+    }
+
+    return {
+      modelId,
+      modelProvider,
+      modelConfidence: "derived",
+    };
+  } catch {
+    return {};
+  }
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  const sessionsDir = join(ctx.root, "sessions");
+  try {
+    const entries = await readdir(sessionsDir, { withFileTypes: true });
+    const directories = entries.filter((d) => d.isDirectory());
+    await Promise.all(
+      directories.map(async (dir) => {
+        try {
+          const projectPath = join(sessionsDir, dir.name);
+          const files = await readdir(projectPath);
+          for (const file of files) {
+            if (file.endsWith(".jsonl")) {
+              const sessionId = basename(file, ".jsonl");
+              ctx.indexFile(sessionId, join(projectPath, file));
+            }
+          }
+        } catch { /* ignore */ }
+      })
+    );
+  } catch { /* sessions dir may not exist */ }
+}
+
+/** Title, id and cwd from a session's leading `session_start` line, or null if it has none. */
+async function readSessionStart(filePath: string): Promise<{
+  display: string;
+  id?: string;
+  cwd?: string;
+  mtimeMs: number;
+} | null> {
+  let firstLine: string | undefined;
+  await readJsonlLines(filePath, (line) => {
+    firstLine = line;
+    return false;
+  });
+  if (!firstLine) return null;
+  const parsed = JSON.parse(firstLine);
+  if (parsed.type !== "session_start") return null;
+  return {
+    display: parsed.sessionTitle || parsed.title || "Factory Session",
+    id: parsed.id,
+    cwd: parsed.cwd,
+    mtimeMs: (await stat(filePath)).mtimeMs,
+  };
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const sessionsDir = join(ctx.root, "sessions");
+  const entries: HistoryEntry[] = [];
+  try {
+    const projDirs = await readdir(sessionsDir, { withFileTypes: true });
+    const directories = projDirs.filter((d) => d.isDirectory());
+    await Promise.all(
+      directories.map(async (dir) => {
+        try {
+          const projectPath = join(sessionsDir, dir.name);
+          const files = await readdir(projectPath);
+          for (const file of files) {
+            if (!file.endsWith(".jsonl")) continue;
+            const filePath = join(projectPath, file);
+            try {
+              const start = await ctx.cachedMetadata(filePath, () => readSessionStart(filePath));
+              if (!start) continue;
+              const settingsMeta = await ctx.cachedMetadata(
+                filePath.replace(/\.jsonl$/, ".settings.json"),
+                () => readFactorySettingsMeta(filePath),
+              );
+              entries.push({
+                display: start.display,
+                timestamp: start.mtimeMs,
+                project: start.cwd || dir.name.replace(/-/g, "/"),
+                sessionId: start.id || basename(file, ".jsonl"),
+                source: "factory",
+                modelProvider: settingsMeta.modelProvider,
+                modelId: settingsMeta.modelId,
+                modelConfidence: settingsMeta.modelConfidence,
+              });
+            } catch { /* skip malformed */ }
+          }
+        } catch { /* ignore */ }
+      })
+    );
+  } catch { /* sessions dir may not exist */ }
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  const sessionsDir = join(ctx.root, "sessions");
+  const targetFile = `${sessionId}.jsonl`;
+  try {
+    const projDirs = await readdir(sessionsDir, { withFileTypes: true });
+    for (const dir of projDirs) {
+      if (!dir.isDirectory()) continue;
+      const projectPath = join(sessionsDir, dir.name);
+      const files = await readdir(projectPath);
+      if (files.includes(targetFile)) {
+        return join(projectPath, targetFile);
+      }
+    }
+  } catch { /* ignore */ }
+  return null;
+}
+
+interface FactoryLine {
+  type?: string;
+  id?: string;
+  timestamp?: string;
+  message?: {
+    role?: string;
+    content: string | ContentBlock[];
+    model?: unknown;
+    provider?: unknown;
+    usage?: TokenUsage;
+  };
+}
+
+interface FactoryParseState {
+  derivedModel?: string;
+  settingsMeta: Awaited<ReturnType<typeof readFactorySettingsMeta>>;
+}
+
+const factoryParser: JsonlParser<FactoryParseState> = {
+  initialState: async (filePath) => ({ settingsMeta: await readFactorySettingsMeta(filePath) }),
+  parseLine(entry, state, sink) {
+    const parsed = entry as FactoryLine;
+    if (parsed.type !== "message" || !parsed.message) return;
+    const role = parsed.message.role;
+    if (role !== "user" && role !== "assistant") return;
+
+    const { settingsMeta } = state;
+    const firstText = firstTextFromContent(parsed.message.content);
+    const modelMatch = firstText.match(/\bModel:\s*([^\n\r]+)/i);
+    if (!state.derivedModel && modelMatch) {
+      state.derivedModel = normalizeModelId(modelMatch[1]?.trim());
+    }
+    const { derivedModel } = state;
+
+    const explicitModel = normalizeModelId(typeof parsed.message.model === "string" ? parsed.message.model : undefined);
+    const model = explicitModel || derivedModel || (role === "assistant" ? settingsMeta.modelId : undefined);
+    const provider =
+      typeof parsed.message.provider === "string"
+        ? parsed.message.provider
+        : inferProviderFromModel(model) || (role === "assistant" ? settingsMeta.modelProvider : undefined);
+
+    let modelConfidence: ModelConfidence = "unknown";
+    if (explicitModel) modelConfidence = "explicit";
+    else if (derivedModel) modelConfidence = "derived";
+    else if (model) modelConfidence = settingsMeta.modelConfidence || "derived";
+
+    sink.push({
+      type: role,
+      uuid: parsed.id,
+      timestamp: parsed.timestamp,
+      message: {
+        role,
+        content: parsed.message.content,
+        model,
+        provider,
+        usage: parsed.message.usage,
+        modelConfidence,
+      },
+    });
+  },
+};
+
+async function fallbackModel(filePath: string): Promise<SessionModelInfo | null> {
+  try {
+    const settingsPath = filePath.replace(/\.jsonl$/, ".settings.json");
+    const settings = JSON.parse(await readFile(settingsPath, "utf-8"));
+    if (settings.model) {
+      // Factory model format: "custom:claude-opus-4-6-1" → strip "custom:" prefix
+      const rawModel = settings.model.replace(/^custom:/, "");
+      const provider = settings.providerLock || deriveProvider(rawModel);
+      return { model: rawModel, provider };
+    }
+  } catch { /* no settings file */ }
+  return null;
+}
+
+export const factorySource: SourceAdapter = {
+  id: "factory",
+  display: {
+    label: "Factory",
+    color: "bg-emerald-500",
+    resumeCommand: "droid --resume {sessionId}",
+  },
+  defaultRoot: () => join(homedir(), ".factory"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse: (filePath) => parseJsonl(filePath, factoryParser),
+  parseStream: (filePath, fromOffset) => streamJsonl(filePath, fromOffset, factoryParser),
+  fallbackModel,
+  watchPaths: (root) => [join(root, "history.json"), join(root, "sessions")],
+  classifyChange(root, filePath) {
+    if (filePath === join(root, "history.json")) return { kind: "history" };
+    if (isUnder(filePath, join(root, "sessions")) && filePath.endsWith(".jsonl")) {
+      return { kind: "session", sessionId: basename(filePath, ".jsonl") };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { geminiSource } from "./gemini";
+import type { SourceContext } from "./types";
+
+describe("gemini source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-gemini-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("lists chat recordings and checkpoints and parses both", async () => {
+    const root = await rootPromise;
+    const projectDir = join(root, "tmp", "3f9a0c1d2e4b5a6f");
+    await mkdir(join(projectDir, "chats"), { recursive: true });
+    await writeFile(join(projectDir, ".project_root"), "/work/app\n");
+
+    const chatFile = join(projectDir, "chats", "session-2026-01-01T10-00-1a2b3c.json");
+    await writeFile(
+      chatFile,
+      JSON.stringify({
+        sessionId: "1a2b3c",
+        lastUpdated: "2026-01-01T10:05:00Z",
+        messages: [
+          { id: "m1", type: "user", timestamp: "2026-01-01T10:00:00Z", content: [{ text: "List the files" }] },
+          {
+            id: "m2",
+            type: "gemini",
+            timestamp: "2026-01-01T10:01:00Z",
+            model: "gemini-2.5-pro",
+            content: "Listing them.",
+            thoughts: [{ subject: "Plan", description: "use ls" }],
+            toolCalls: [{ id: "c1", name: "run_shell_command", args: { command: "ls" }, status: "success", result: [{ functionResponse: { id: "c1", name: "run_shell_command", response: { output: "a.ts" } } }] }],
+            tokens: { input: 120, output: 30, cached: 100 },
+          },
+        ],
+      }),
+    );
+    const checkpointFile = join(projectDir, "checkpoint-refactor.json");
+    await writeFile(
+      checkpointFile,
+      JSON.stringify([
+        { role: "user", parts: [{ text: "Rename the helper" }] },
+        { role: "model", parts: [{ functionCall: { name: "replace", args: { file_path: "a.ts" } } }] },
+        { role: "user", parts: [{ functionResponse: { name: "replace", response: { error: "not found" } } }] },
+      ]),
+    );
+
+    const indexed = new Map<string, string>();
+    const cachedPaths: string[] = [];
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, filePath) => indexed.set(sessionId, filePath),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (filePath, compute) => {
+        cachedPaths.push(filePath);
+        return compute();
+      },
+    };
+
+    const entries = await geminiSource.listHistory(ctx);
+    const byId = Object.fromEntries(entries.map((e) => [e.sessionId, e]));
+    expect(byId["session-2026-01-01T10-00-1a2b3c"]).toMatchObject({
+      display: "List the files",
+      project: "/work/app",
+      timestamp: Date.parse("2026-01-01T10:05:00Z"),
+      modelId: "gemini-2.5-pro",
+    });
+    expect(byId["3f9a0c1d2e4b-checkpoint-refactor"]).toMatchObject({ display: "Rename the helper", project: "/work/app" });
+    // Titles and models are reused across restarts while a file is unchanged
+    expect(cachedPaths.sort()).toEqual([checkpointFile, chatFile].sort());
+
+    const chat = await geminiSource.parse(chatFile, "session-2026-01-01T10-00-1a2b3c");
+    expect(chat.map((m) => m.type)).toEqual(["user", "assistant", "assistant"]);
+    expect(chat[1].message?.content).toEqual([
+      { type: "thinking", thinking: "Plan: use ls" },
+      { type: "text", text: "Listing them." },
+      { type: "tool_use", id: "c1", name: "run_shell_command", input: { command: "ls" } },
+    ]);
+    expect(chat[1].message?.usage).toEqual({ input_tokens: 120, output_tokens: 30, cache_read_input_tokens: 100 });
+    expect(chat[2].message?.content).toEqual([{ type: "tool_result", tool_use_id: "c1", content: "a.ts", is_error: false }]);
+
+    const checkpoint = await geminiSource.parse(checkpointFile, "3f9a0c1d2e4b-checkpoint-refactor");
+    expect(checkpoint.map((m) => m.type)).toEqual(["user", "assistant", "assistant"]);
+    expect(checkpoint[2].message?.content).toEqual([
+      { type: "tool_result", tool_use_id: "gemini-call-1-0", content: "not found", is_error: true },
+    ]);
+  });
+});
@@ -0,0 +1,431 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join, basename, dirname } from "path";
+import { homedir } from "os";
+import type {
+  ContentBlock,
+  ConversationMessage,
+  HistoryEntry,
+  SessionModelInfo,
+  TokenUsage,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, isUnder, parseTimestampValue, toText } from "./shared";
+
+// Gemini CLI keeps per-project state under ~/.gemini/tmp/<project-hash>/:
+//   chats/session-*.json   full chat recordings (newer CLI versions)
+//   checkpoint-<tag>.json  `/chat save <tag>` snapshots (raw Content[] history)
+//   logs.json              user prompt log, used only as a change signal
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { id?: string; name?: string; args?: unknown };
+  functionResponse?: { id?: string; name?: string; response?: unknown };
+}
+
+interface GeminiContent {
+  role?: string;
+  parts?: GeminiPart[];
+}
+
+interface GeminiToolCall {
+  id?: string;
+  name?: string;
+  args?: unknown;
+  result?: unknown;
+  resultDisplay?: unknown;
+  status?: string;
+  timestamp?: string;
+}
+
+interface GeminiRecordMessage {
+  id?: string;
+  timestamp?: string;
+  type?: string;
+  content?: unknown;
+  model?: string;
+  toolCalls?: GeminiToolCall[];
+  thoughts?: Array<{ subject?: string; description?: string }>;
+  tokens?: { input?: number; output?: number; cached?: number; thoughts?: number; tool?: number; total?: number };
+}
+
+interface GeminiChatRecord {
+  sessionId?: string;
+  startTime?: string;
+  lastUpdated?: string;
+  messages?: GeminiRecordMessage[];
+}
+
+function isChatFile(filePath: string): boolean {
+  return basename(dirname(filePath)) === "chats" && filePath.endsWith(".json");
+}
+
+function isCheckpointFile(filePath: string): boolean {
+  return /^checkpoint-.+\.json$/.test(basename(filePath));
+}
+
+function geminiSessionIdFromPath(filePath: string): string | null {
+  if (isChatFile(filePath)) {
+    return basename(filePath, ".json");
+  }
+  if (isCheckpointFile(filePath)) {
+    // Checkpoint tags are only unique per project, so qualify them with the project dir
+    const projectDir = basename(dirname(filePath));
+    return `${projectDir.slice(0, 12)}-${basename(filePath, ".json")}`;
+  }
+  return null;
+}
+
+async function listSessionFiles(root: string): Promise<Array<{ filePath: string; projectDir: string }>> {
+  const tmpDir = join(root, "tmp");
+  const files: Array<{ filePath: string; projectDir: string }> = [];
+  try {
+    const projectDirs = await readdir(tmpDir, { withFileTypes: true });
+    for (const dir of projectDirs) {
+      if (!dir.isDirectory()) continue;
+      const projectDir = join(tmpDir, dir.name);
+      try {
+        const entries = await readdir(projectDir);
+        for (const entry of entries) {
+          if (isCheckpointFile(entry)) files.push({ filePath: join(projectDir, entry), projectDir });
+        }
+      } catch { /* ignore */ }
+      try {
+        const chats = await readdir(join(projectDir, "chats"));
+        for (const chat of chats) {
+          if (chat.endsWith(".json")) files.push({ filePath: join(projectDir, "chats", chat), projectDir });
+        }
+      } catch { /* chats dir may not exist */ }
+    }
+  } catch { /* tmp dir may not exist */ }
+  return files;
+}
+
+async function readProjectRoot(projectDir: string): Promise<string> {
+  try {
+    const root = (await readFile(join(projectDir, ".project_root"), "utf-8")).trim();
+    if (root) return root;
+  } catch { /* older CLI versions only store the hash */ }
+  return basename(projectDir);
+}
+
+function partsToText(content: unknown): string {
+  if (Array.isArray(content)) {
+    return content
+      .filter((part) => !(part && typeof part === "object" && (part as GeminiPart).thought))
+      .map((part) => toText(part))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return toText(content);
+}
+
+function functionResponseText(response: unknown): string {
+  if (!response || typeof response !== "object") return toText(response);
+  const record = response as Record<string, unknown>;
+  if (typeof record.output === "string") return record.output;
+  if (typeof record.error === "string") return record.error;
+  return JSON.stringify(response, null, 2);
+}
+
+function toolCallResultText(call: GeminiToolCall): string {
+  if (Array.isArray(call.result)) {
+    const texts = (call.result as GeminiPart[])
+      .map((part) => (part.functionResponse ? functionResponseText(part.functionResponse.response) : toText(part)))
+      .filter(Boolean);
+    if (texts.length > 0) return texts.join("\n");
+  }
+  if (typeof call.resultDisplay === "string") return call.resultDisplay;
+  return toText(call.result);
+}
+
+function mapTokens(tokens: GeminiRecordMessage["tokens"]): TokenUsage | undefined {
+  if (!tokens) return undefined;
+  return {
+    input_tokens: tokens.input,
+    output_tokens: tokens.output,
+    cache_read_input_tokens: tokens.cached,
+  };
+}
+
+function parseChatRecord(record: GeminiChatRecord): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  let currentModel: string | undefined;
+
+  for (const msg of record.messages ?? []) {
+    if (msg.type === "user") {
+      const text = partsToText(msg.content);
+      if (!text) continue;
+      messages.push({
+        type: "user",
+        uuid: msg.id,
+        timestamp: msg.timestamp,
+        message: { role: "user", content: text },
+      });
+      continue;
+    }
+
+    if (msg.type !== "gemini") continue;
+
+    if (msg.model) currentModel = msg.model;
+    const blocks: ContentBlock[] = [];
+
+    for (const thought of msg.thoughts ?? []) {
+      const thinking = [thought.subject, thought.description].filter(Boolean).join(": ");
+      if (thinking) blocks.push({ type: "thinking", thinking });
+    }
+
+    const text = partsToText(msg.content);
+    if (text) blocks.push({ type: "text", text });
+
+    const toolCalls = msg.toolCalls ?? [];
+    for (const call of toolCalls) {
+      blocks.push({
+        type: "tool_use",
+        id: call.id,
+        name: call.name || "tool",
+        input: call.args ?? {},
+      });
+    }
+
+    if (blocks.length > 0) {
+      messages.push({
+        type: "assistant",
+        uuid: msg.id,
+        timestamp: msg.timestamp,
+        message: {
+          role: "assistant",
+          content: blocks,
+          model: currentModel,
+          provider: "google",
+          usage: mapTokens(msg.tokens),
+          modelConfidence: msg.model ? "explicit" : currentModel ? "derived" : "unknown",
+        },
+      });
+    }
+
+    const results: ContentBlock[] = toolCalls
+      .filter((call) => call.status !== "executing" && call.status !== "scheduled")
+      .map((call) => ({
+        type: "tool_result",
+        tool_use_id: call.id,
+        content: toolCallResultText(call),
+        is_error: call.status === "error" || call.status === "cancelled",
+      }));
+
+    if (results.length > 0) {
+      messages.push({
+        type: "assistant",
+        uuid: msg.id ? `${msg.id}-results` : undefined,
+        timestamp: toolCalls[toolCalls.length - 1]?.timestamp ?? msg.timestamp,
+        message: {
+          role: "assistant",
+          content: results,
+          model: currentModel,
+          provider: "google",
+          modelConfidence: currentModel ? "derived" : "unknown",
+        },
+      });
+    }
+  }
+
+  return messages;
+}
+
+function parseCheckpoint(history: GeminiContent[]): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  // Older checkpoints omit call ids, so responses are paired with calls by name in order
+  const pendingCallIds = new Map<string, string[]>();
+
+  history.forEach((content, index) => {
+    const blocks: ContentBlock[] = [];
+    let hasTextFromUser = false;
+
+    for (const [partIndex, part] of (content.parts ?? []).entries()) {
+      if (part.functionCall) {
+        const name = part.functionCall.name || "tool";
+        const id = part.functionCall.id || `gemini-call-${index}-${partIndex}`;
+        pendingCallIds.set(name, [...(pendingCallIds.get(name) ?? []), id]);
+        blocks.push({ type: "tool_use", id, name, input: part.functionCall.args ?? {} });
+        continue;
+      }
+
+      if (part.functionResponse) {
+        const name = part.functionResponse.name || "tool";
+        const queue = pendingCallIds.get(name) ?? [];
+        const id = part.functionResponse.id || queue.shift();
+        if (part.functionResponse.id) {
+          pendingCallIds.set(name, queue.filter((queued) => queued !== part.functionResponse?.id));
+        }
+        blocks.push({
+          type: "tool_result",
+          tool_use_id: id,
+          content: functionResponseText(part.functionResponse.response),
+          is_error: !!(part.functionResponse.response as Record<string, unknown> | undefined)?.error,
+        });
+        continue;
+      }
+
+      if (typeof part.text === "string" && part.text) {
+        if (part.thought) {
+          blocks.push({ type: "thinking", thinking: part.text });
+        } else {
+          blocks.push({ type: "text", text: part.text });
+          if (content.role === "user") hasTextFromUser = true;
+        }
+      }
+    }
+
+    if (blocks.length === 0) return;
+
+    // Function responses travel in "user" turns; show them alongside the model's calls
+    const isUserPrompt = content.role === "user" && hasTextFromUser;
+    messages.push({
+      type: isUserPrompt ? "user" : "assistant",
+      uuid: `gemini-${index}`,
+      message: isUserPrompt
+        ? { role: "user", content: blocks }
+        : { role: "assistant", content: blocks, provider: "google", modelConfidence: "unknown" },
+    });
+  });
+
+  return messages;
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await readFile(filePath, "utf-8"));
+}
+
+async function parse(filePath: string): Promise<ConversationMessage[]> {
+  try {
+    const data = await readJson(filePath);
+    if (Array.isArray(data)) return parseCheckpoint(data as GeminiContent[]);
+    if (data && typeof data === "object") return parseChatRecord(data as GeminiChatRecord);
+  } catch { /* ignore */ }
+  return [];
+}
+
+function latestModel(record: GeminiChatRecord): string | undefined {
+  const messages = record.messages ?? [];
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.model) return messages[i].model;
+  }
+  return undefined;
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  for (const { filePath } of await listSessionFiles(ctx.root)) {
+    const sessionId = geminiSessionIdFromPath(filePath);
+    if (sessionId) ctx.indexFile(sessionId, filePath);
+  }
+}
+
+interface GeminiSessionMeta {
+  display: string;
+  timestamp: number;
+  modelId?: string;
+}
+
+/** Null for chats without messages. */
+async function readGeminiSessionMeta(filePath: string): Promise<GeminiSessionMeta | null> {
+  const data = await readJson(filePath);
+  let display = "";
+  let timestamp = (await stat(filePath)).mtimeMs;
+  let modelId: string | undefined;
+
+  if (Array.isArray(data)) {
+    const firstUser = (data as GeminiContent[]).find(
+      (c) => c.role === "user" && c.parts?.some((p) => typeof p.text === "string" && p.text.trim()),
+    );
+    const tag = basename(filePath, ".json").replace(/^checkpoint-/, "");
+    display = cleanTitle(partsToText(firstUser?.parts ?? []), `Checkpoint ${tag}`);
+  } else if (data && typeof data === "object") {
+    const record = data as GeminiChatRecord;
+    if (!record.messages?.length) return null;
+    const firstUser = record.messages.find((m) => m.type === "user");
+    display = cleanTitle(partsToText(firstUser?.content), "Gemini Session");
+    timestamp = parseTimestampValue(record.lastUpdated) ?? timestamp;
+    modelId = latestModel(record);
+  }
+  return { display, timestamp, modelId };
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+  const projectRoots = new Map<string, string>();
+
+  for (const { filePath, projectDir } of await listSessionFiles(ctx.root)) {
+    const sessionId = geminiSessionIdFromPath(filePath);
+    if (!sessionId) continue;
+
+    try {
+      let project = projectRoots.get(projectDir);
+      if (project === undefined) {
+        project = await readProjectRoot(projectDir);
+        projectRoots.set(projectDir, project);
+      }
+
+      const meta = await ctx.cachedMetadata(filePath, () => readGeminiSessionMeta(filePath));
+      if (!meta) continue;
+
+      ctx.indexFile(sessionId, filePath);
+      entries.push({
+        display: meta.display,
+        timestamp: meta.timestamp,
+        project,
+        sessionId,
+        source: "gemini",
+        modelId: meta.modelId,
+        modelProvider: "google",
+        modelConfidence: meta.modelId ? "explicit" : "derived",
+      });
+    } catch { /* skip malformed */ }
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  for (const { filePath } of await listSessionFiles(ctx.root)) {
+    if (geminiSessionIdFromPath(filePath) === sessionId) {
+      ctx.indexFile(sessionId, filePath);
+      return filePath;
+    }
+  }
+  return null;
+}
+
+async function readLatestModel(filePath: string): Promise<SessionModelInfo | null> {
+  try {
+    const data = await readJson(filePath);
+    if (data && typeof data === "object" && !Array.isArray(data)) {
+      const model = latestModel(data as GeminiChatRecord);
+      if (model) return { model, provider: "google" };
+    }
+  } catch { /* ignore */ }
+  return null;
+}
+
+export const geminiSource: SourceAdapter = {
+  id: "gemini",
+  display: {
+    label: "Gemini",
+    color: "bg-violet-500",
+  },
+  defaultRoot: () => join(homedir(), ".gemini"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  latestModel: readLatestModel,
+  watchPaths: (root) => [join(root, "tmp")],
+  classifyChange(root, filePath) {
+    if (!isUnder(filePath, join(root, "tmp"))) return null;
+    if (basename(filePath) === "logs.json") return { kind: "history" };
+    const sessionId = geminiSessionIdFromPath(filePath);
+    return sessionId ? { kind: "session", sessionId } : null;
+  },
+};
@@ -0,0 +1,79 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gooseSource } from "./goose";
+import type { SourceContext } from "./types";
+
+const lines = (...values: unknown[]) => values.map((v) => `${JSON.stringify(v)}\n`).join("");
+
+describe("goose source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-goose-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  test("reads metadata from the first line and maps tool requests and responses", async () => {
+    const root = await rootPromise;
+    const filePath = join(root, "20260105_091502.jsonl");
+    await writeFile(
+      filePath,
+      lines(
+        { working_dir: "/work/app", description: "Fix the build", total_tokens: 300 },
+        { id: "m1", role: "user", created: 1767604502, content: [{ type: "text", text: "Why does it fail?" }] },
+        {
+          id: "m2",
+          role: "assistant",
+          created: 1767604510,
+          content: [
+            { type: "thinking", thinking: "Run the tests" },
+            { type: "toolRequest", id: "t1", toolCall: { status: "success", value: { name: "developer__shell", arguments: { command: "bun test" } } } },
+          ],
+        },
+        {
+          id: "m3",
+          role: "user",
+          created: 1767604520,
+          content: [{ type: "toolResponse", id: "t1", toolResult: { status: "success", value: [{ type: "text", text: "1 fail" }] } }],
+        },
+      ),
+    );
+    // Sessions that never got past metadata are not listed
+    await writeFile(join(root, "20260105_100000.jsonl"), lines({ working_dir: "/work/app", description: "" }));
+
+    const indexed = new Map<string, string>();
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, path) => indexed.set(sessionId, path),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (_path, compute) => compute(),
+    };
+
+    expect(await gooseSource.listHistory(ctx)).toEqual([
+      {
+        display: "Fix the build",
+        timestamp: 1767604520000,
+        project: "/work/app",
+        sessionId: "20260105_091502",
+        source: "goose",
+        modelConfidence: "unknown",
+      },
+    ]);
+
+    const messages = await gooseSource.parse(filePath, "20260105_091502");
+    expect(messages.map((m) => [m.type, m.uuid])).toEqual([
+      ["user", "m1"],
+      ["assistant", "m2"],
+      ["user", "m3"],
+    ]);
+    expect(messages[0].timestamp).toBe("2026-01-05T09:15:02.000Z");
+    expect(messages[1].message?.content).toEqual([
+      { type: "thinking", thinking: "Run the tests" },
+      { type: "tool_use", id: "t1", name: "developer__shell", input: { command: "bun test" } },
+    ]);
+    expect(messages[2].message?.content).toEqual([
+      { type: "tool_result", tool_use_id: "t1", content: "1 fail", is_error: false },
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { readdir, stat } from "fs/promises";
+import { join, basename, dirname } from "path";
+import { homedir } from "os";
+import type { ContentBlock, ConversationMessage, HistoryEntry } from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, parseTimestampValue, toText } from "./shared";
+import { readJsonlLines } from "./jsonl";
+
+// Goose session files are JSONL: the first line is session metadata
+// (working_dir, description, token totals), every following line is a message
+// whose content mixes text, thinking, toolRequest and toolResponse items.
+
+interface GooseMetadata {
+  working_dir?: string;
+  description?: string;
+}
+
+interface GooseContent {
+  type?: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  toolCall?: { status?: string; value?: { name?: string; arguments?: unknown }; error?: string };
+  toolResult?: { status?: string; value?: unknown; error?: string };
+}
+
+interface GooseMessage {
+  id?: string;
+  role?: string;
+  created?: number;
+  content?: GooseContent[];
+}
+
+function isMessage(record: Record<string, unknown>): boolean {
+  return (record.role === "user" || record.role === "assistant") && Array.isArray(record.content);
+}
+
+async function readRecords(filePath: string): Promise<Array<Record<string, unknown>>> {
+  const records: Array<Record<string, unknown>> = [];
+  await readJsonlLines(filePath, (line) => {
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === "object") records.push(parsed);
+    } catch { /* skip malformed */ }
+  });
+  return records;
+}
+
+async function listSessionFiles(root: string): Promise<string[]> {
+  try {
+    return (await readdir(root)).filter((f) => f.endsWith(".jsonl")).map((f) => join(root, f));
+  } catch {
+    return [];
+  }
+}
+
+function toolResultText(result: GooseContent["toolResult"]): string {
+  if (!result) return "";
+  if (result.status === "error") return result.error || "";
+  if (Array.isArray(result.value)) {
+    return result.value.map((item) => toText(item)).filter(Boolean).join("\n");
+  }
+  return toText(result.value);
+}
+
+function mapContent(items: GooseContent[]): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  for (const item of items) {
+    if (item.type === "text" && item.text) {
+      blocks.push({ type: "text", text: item.text });
+    } else if (item.type === "thinking" && item.thinking) {
+      blocks.push({ type: "thinking", thinking: item.thinking });
+    } else if (item.type === "toolRequest") {
+      blocks.push({
+        type: "tool_use",
+        id: item.id,
+        name: item.toolCall?.value?.name || "tool",
+        input: item.toolCall?.value?.arguments ?? {},
+      });
+    } else if (item.type === "toolResponse") {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: item.id,
+        content: toolResultText(item.toolResult),
+        is_error: item.toolResult?.status === "error",
+      });
+    }
+  }
+  return blocks;
+}
+
+function messageTimestamp(message: GooseMessage): string | undefined {
+  const ts = parseTimestampValue(message.created);
+  return ts ? new Date(ts).toISOString() : undefined;
+}
+
+async function parse(filePath: string): Promise<ConversationMessage[]> {
+  let records: Array<Record<string, unknown>>;
+  try {
+    records = await readRecords(filePath);
+  } catch {
+    return [];
+  }
+
+  const messages: ConversationMessage[] = [];
+  records.forEach((record, index) => {
+    if (!isMessage(record)) return;
+    const message = record as GooseMessage;
+    const content = mapContent(message.content ?? []);
+    if (content.length === 0) return;
+
+    // Tool responses come back in user-role messages, the same shape Claude transcripts use
+    const role = message.role === "assistant" ? "assistant" : "user";
+    messages.push({
+      type: role,
+      uuid: message.id || `goose-${index}`,
+      timestamp: messageTimestamp(message),
+      message: { role, content },
+    });
+  });
+  return messages;
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  for (const filePath of await listSessionFiles(ctx.root)) {
+    ctx.indexFile(basename(filePath, ".jsonl"), filePath);
+  }
+}
+
+async function readGooseSessionMeta(filePath: string, sessionId: string): Promise<HistoryEntry | null> {
+  const records = await readRecords(filePath);
+  const metadata = (records[0] && !isMessage(records[0]) ? records[0] : {}) as GooseMetadata;
+  const messages = records.filter(isMessage) as GooseMessage[];
+  if (messages.length === 0) return null;
+
+  const firstUserText = messages
+    .find((m) => m.role === "user" && m.content?.some((c) => c.type === "text" && c.text))
+    ?.content?.find((c) => c.type === "text")?.text;
+  const lastCreated = parseTimestampValue(messages[messages.length - 1]?.created);
+
+  return {
+    display: cleanTitle(metadata.description || firstUserText || "", "Goose Session"),
+    timestamp: lastCreated ?? (await stat(filePath)).mtimeMs,
+    project: metadata.working_dir || "",
+    sessionId,
+    source: "goose",
+    modelConfidence: "unknown",
+  };
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+
+  for (const filePath of await listSessionFiles(ctx.root)) {
+    const sessionId = basename(filePath, ".jsonl");
+    try {
+      const entry = await ctx.cachedMetadata(filePath, () => readGooseSessionMeta(filePath, sessionId));
+      if (!entry) continue;
+      ctx.indexFile(sessionId, filePath);
+      entries.push(entry);
+    } catch { /* skip unreadable */ }
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  const filePath = join(ctx.root, `${sessionId}.jsonl`);
+  try {
+    await stat(filePath);
+    ctx.indexFile(sessionId, filePath);
+    return filePath;
+  } catch {
+    return null;
+  }
+}
+
+export const gooseSource: SourceAdapter = {
+  id: "goose",
+  display: {
+    label: "Goose",
+    color: "bg-stone-500",
+    resumeCommand: "goose session --resume --name {sessionId}",
+  },
+  defaultRoot: () => join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "goose", "sessions"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  watchPaths: (root) => [root],
+  classifyChange(root, filePath) {
+    if (dirname(filePath) !== root || !filePath.endsWith(".jsonl")) return null;
+    // Goose rewrites the metadata line (description, totals) as the session grows
+    return { kind: "session", sessionId: basename(filePath, ".jsonl"), historyChanged: true };
+  },
+};
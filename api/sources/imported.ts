@@ -0,0 +1,118 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join, basename } from "path";
+import { homedir } from "os";
+import type { ConversationMessage, HistoryEntry, SessionSource } from "../storage";
+import type { SourceAdapter, SourceContext, SourceDisplay } from "./types";
+import { cleanTitle } from "./shared";
+
+// Conversations imported from web chat exports are stored one raw JSON file
+// per conversation under ~/.claude-run-plus/imports/<source>/<id>.json. The
+// importer touches IMPORT_MARKER when it finishes so running servers reload.
+
+export const IMPORT_MARKER = ".last-import";
+
+export function defaultImportRoot(source: SessionSource): string {
+  return join(homedir(), ".claude-run-plus", "imports", source);
+}
+
+export interface ImportedConversation {
+  title: string;
+  project: string;
+  createdAt: number;
+  updatedAt: number;
+  modelId?: string;
+  modelProvider?: string;
+}
+
+interface ImportedSourceOptions<T> {
+  id: SessionSource;
+  display: SourceDisplay;
+  /** Summary fields for the session list. */
+  describe(raw: T): ImportedConversation;
+  toMessages(raw: T): ConversationMessage[];
+}
+
+async function listImportedFiles(root: string): Promise<string[]> {
+  try {
+    return (await readdir(root)).filter((f) => f.endsWith(".json")).map((f) => join(root, f));
+  } catch {
+    return [];
+  }
+}
+
+async function readRaw<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createImportedSource<T>(options: ImportedSourceOptions<T>): SourceAdapter {
+  async function discover(ctx: SourceContext): Promise<void> {
+    for (const filePath of await listImportedFiles(ctx.root)) {
+      ctx.indexFile(basename(filePath, ".json"), filePath);
+    }
+  }
+
+  async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    for (const filePath of await listImportedFiles(ctx.root)) {
+      const raw = await readRaw<T>(filePath);
+      if (!raw) continue;
+
+      const sessionId = basename(filePath, ".json");
+      ctx.indexFile(sessionId, filePath);
+
+      const summary = options.describe(raw);
+      entries.push({
+        display: cleanTitle(summary.title, `${options.display.label} Conversation`),
+        timestamp: summary.updatedAt || summary.createdAt,
+        project: summary.project,
+        sessionId,
+        source: options.id,
+        modelId: summary.modelId,
+        modelProvider: summary.modelProvider,
+        modelConfidence: summary.modelId ? "explicit" : summary.modelProvider ? "derived" : "unknown",
+      });
+    }
+    return entries;
+  }
+
+  async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+    const indexed = ctx.lookupFile(sessionId);
+    if (indexed) return indexed;
+
+    const filePath = join(ctx.root, `${sessionId}.json`);
+    try {
+      await stat(filePath);
+      ctx.indexFile(sessionId, filePath);
+      return filePath;
+    } catch {
+      return null;
+    }
+  }
+
+  async function parse(filePath: string): Promise<ConversationMessage[]> {
+    const raw = await readRaw<T>(filePath);
+    return raw ? options.toMessages(raw) : [];
+  }
+
+  return {
+    id: options.id,
+    display: options.display,
+    defaultRoot: () => defaultImportRoot(options.id),
+    readOnly: true,
+    discover,
+    listHistory,
+    resolveFile,
+    parse,
+    async latestModel(filePath) {
+      const raw = await readRaw<T>(filePath);
+      const summary = raw ? options.describe(raw) : null;
+      return summary?.modelId ? { model: summary.modelId, provider: summary.modelProvider || "" } : null;
+    },
+    watchPaths: (root) => [join(root, IMPORT_MARKER)],
+    classifyChange: (root, filePath) => (filePath === join(root, IMPORT_MARKER) ? { kind: "history" } : null),
+  };
+}
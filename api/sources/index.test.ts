@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  addMachineRoot,
+  classifySourcePath,
+  getSourceInfo,
+  isSessionSource,
+  resetSourceSettings,
+  setSourceEnabled,
+  setSourceRoot,
+} from "./index";
+
+describe("source registry", () => {
+  afterEach(() => {
+    resetSourceSettings();
+  });
+
+  test("registers the built-in sources with display metadata", () => {
+    const ids = getSourceInfo().map((s) => s.id);
+    expect(ids).toEqual(["claude", "factory", "codex", "pi", "gemini", "aider", "opencode", "cline", "cursor", "goose", "claude-web", "chatgpt"]);
+    expect(isSessionSource("codex")).toBe(true);
+    expect(isSessionSource("nope")).toBe(false);
+  });
+
+  test("tags changes under machine roots with the machine label", () => {
+    setSourceRoot("claude", "/data/claude");
+    addMachineRoot("claude", "laptop", "/sync/laptop/.claude");
+
+    expect(classifySourcePath("/sync/laptop/.claude/projects/-tmp/abc.jsonl")).toEqual({
+      source: "claude",
+      machine: "laptop",
+      event: { kind: "session", sessionId: "abc" },
+    });
+  });
+
+  test("hides disabled sources", () => {
+    setSourceRoot("goose", "/data/goose/sessions");
+    setSourceEnabled("goose", false);
+
+    expect(getSourceInfo().map((s) => s.id)).not.toContain("goose");
+    expect(isSessionSource("goose")).toBe(false);
+    expect(classifySourcePath("/data/goose/sessions/abc.jsonl")).toBeNull();
+  });
+
+  test("routes watched paths to the owning source", () => {
+    setSourceRoot("claude", "/data/claude");
+    setSourceRoot("factory", "/data/factory");
+    setSourceRoot("codex", "/data/codex");
+    setSourceRoot("pi", "/data/pi");
+    setSourceRoot("gemini", "/data/gemini");
+    setSourceRoot("opencode", "/data/opencode");
+    setSourceRoot("cline", "/data/globalStorage");
+    setSourceRoot("goose", "/data/goose/sessions");
+
+    expect(classifySourcePath("/data/claude/history.jsonl")).toEqual({
+      source: "claude",
+      event: { kind: "history" },
+    });
+    expect(classifySourcePath("/data/claude/projects/-tmp/abc.jsonl")).toEqual({
+      source: "claude",
+      event: { kind: "session", sessionId: "abc" },
+    });
+    expect(classifySourcePath("/data/claude/projects/-tmp/abc/subagents/agent-7f3e.jsonl")).toEqual({
+      source: "claude",
+      event: { kind: "session", sessionId: "abc", auxiliary: true },
+    });
+    expect(classifySourcePath("/data/claude/projects/-tmp/agent-7f3e.jsonl")).toBeNull();
+    expect(classifySourcePath("/data/codex/sessions/2026/01/rollout-2026-01-01T00-00-00-0198abcd-1234-5678.jsonl")).toEqual({
+      source: "codex",
+      event: { kind: "session", sessionId: "0198abcd-1234-5678" },
+    });
+    expect(classifySourcePath("/data/pi/sessions/--tmp--/2026-01-01_5f2e9a10-aaaa-bbbb.jsonl")).toEqual({
+      source: "pi",
+      event: { kind: "session", sessionId: "5f2e9a10-aaaa-bbbb" },
+    });
+    expect(classifySourcePath("/data/gemini/tmp/3f9a0c1d2e4b5a6f/chats/session-2026-01-01T10-00-1a2b3c.json")).toEqual({
+      source: "gemini",
+      event: { kind: "session", sessionId: "session-2026-01-01T10-00-1a2b3c" },
+    });
+    expect(classifySourcePath("/data/gemini/tmp/3f9a0c1d2e4b5a6f/checkpoint-refactor.json")).toEqual({
+      source: "gemini",
+      event: { kind: "session", sessionId: "3f9a0c1d2e4b-checkpoint-refactor" },
+    });
+    expect(classifySourcePath("/data/gemini/tmp/3f9a0c1d2e4b5a6f/logs.json")).toEqual({
+      source: "gemini",
+      event: { kind: "history" },
+    });
+    expect(classifySourcePath("/data/opencode/message/ses_abc123/msg_def456.json")).toEqual({
+      source: "opencode",
+      event: { kind: "session", sessionId: "ses_abc123", auxiliary: true },
+    });
+    expect(classifySourcePath("/data/globalStorage/rooveterinaryinc.roo-cline/tasks/1767600000000/api_conversation_history.json")).toEqual({
+      source: "cline",
+      event: { kind: "session", sessionId: "1767600000000" },
+    });
+    expect(classifySourcePath("/data/goose/sessions/20260105_091502.jsonl")).toEqual({
+      source: "goose",
+      event: { kind: "session", sessionId: "20260105_091502", historyChanged: true },
+    });
+    expect(classifySourcePath("/data/pi/settings.json")).toBeNull();
+  });
+
+  test("ignores sibling directories that share a root's prefix", () => {
+    setSourceRoot("claude", "/data/claude");
+
+    expect(classifySourcePath("/data/claude-backup/projects/-tmp/abc.jsonl")).toBeNull();
+  });
+});
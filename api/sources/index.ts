@@ -0,0 +1,122 @@
+import type { SessionSource } from "../storage";
+import type { SourceAdapter, SourceInfo, SourceRoot, WatchEvent } from "./types";
+import { claudeSource } from "./claude";
+import { factorySource } from "./factory";
+import { codexSource } from "./codex";
+import { piSource } from "./pi";
+import { geminiSource } from "./gemini";
+import { aiderSource } from "./aider";
+import { opencodeSource } from "./opencode";
+import { clineSource } from "./cline";
+import { cursorSource } from "./cursor";
+import { gooseSource } from "./goose";
+import { claudeWebSource } from "./claude-web";
+import { chatgptSource } from "./chatgpt";
+
+export type { SourceAdapter, SourceContext, SourceDisplay, SourceInfo, SourceRoot, WatchEvent } from "./types";
+
+const adapters = new Map<SessionSource, SourceAdapter>();
+const roots = new Map<SessionSource, string>();
+const machineRoots = new Map<SessionSource, SourceRoot[]>();
+const disabled = new Set<SessionSource>();
+
+export function registerSource(adapter: SourceAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+export function getSourceAdapter(source: SessionSource): SourceAdapter | undefined {
+  return disabled.has(source) ? undefined : adapters.get(source);
+}
+
+/** Enabled adapters only; use `getRegisteredSources` to include disabled ones. */
+export function getSourceAdapters(): SourceAdapter[] {
+  return [...adapters.values()].filter((adapter) => !disabled.has(adapter.id));
+}
+
+export function getRegisteredSources(): SourceAdapter[] {
+  return [...adapters.values()];
+}
+
+export function getSourceIds(): SessionSource[] {
+  return getSourceAdapters().map((adapter) => adapter.id);
+}
+
+export function isSessionSource(value: string): value is SessionSource {
+  return adapters.has(value) && !disabled.has(value);
+}
+
+export function setSourceRoot(source: SessionSource, root: string): void {
+  roots.set(source, root);
+}
+
+/** Register an extra root for the source, e.g. a `~/.claude` synced from another machine. */
+export function addMachineRoot(source: SessionSource, machine: string, path: string): void {
+  const existing = (machineRoots.get(source) ?? []).filter((root) => root.machine !== machine);
+  machineRoots.set(source, [...existing, { path, machine }]);
+}
+
+export function setSourceEnabled(source: SessionSource, enabled: boolean): void {
+  if (enabled) disabled.delete(source);
+  else disabled.add(source);
+}
+
+export function isSourceEnabled(source: SessionSource): boolean {
+  return adapters.has(source) && !disabled.has(source);
+}
+
+/** Back to default roots with every source enabled. */
+export function resetSourceSettings(): void {
+  roots.clear();
+  machineRoots.clear();
+  disabled.clear();
+}
+
+export function getSourceRoot(source: SessionSource): string {
+  const configured = roots.get(source);
+  if (configured) return configured;
+  return adapters.get(source)?.defaultRoot() ?? "";
+}
+
+/** The local root (machine undefined) followed by any machine roots. */
+export function getSourceRoots(source: SessionSource): SourceRoot[] {
+  return [{ path: getSourceRoot(source) }, ...(machineRoots.get(source) ?? [])];
+}
+
+export function findSourceRoot(source: SessionSource, machine?: string): SourceRoot | undefined {
+  return getSourceRoots(source).find((root) => root.machine === machine);
+}
+
+export function getSourceInfo(): SourceInfo[] {
+  return getSourceAdapters().map((adapter) => ({ id: adapter.id, ...adapter.display, readOnly: adapter.readOnly }));
+}
+
+export function getAllWatchPaths(): string[] {
+  return getSourceAdapters().flatMap((adapter) =>
+    getSourceRoots(adapter.id).flatMap((root) => adapter.watchPaths(root.path)),
+  );
+}
+
+export function classifySourcePath(
+  filePath: string,
+): { source: SessionSource; machine?: string; event: WatchEvent } | null {
+  for (const adapter of getSourceAdapters()) {
+    for (const root of getSourceRoots(adapter.id)) {
+      const event = adapter.classifyChange(root.path, filePath);
+      if (event) return root.machine ? { source: adapter.id, machine: root.machine, event } : { source: adapter.id, event };
+    }
+  }
+  return null;
+}
+
+registerSource(claudeSource);
+registerSource(factorySource);
+registerSource(codexSource);
+registerSource(piSource);
+registerSource(geminiSource);
+registerSource(aiderSource);
+registerSource(opencodeSource);
+registerSource(clineSource);
+registerSource(cursorSource);
+registerSource(gooseSource);
+registerSource(claudeWebSource);
+registerSource(chatgptSource);
@@ -0,0 +1,72 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { codexSource } from "./codex";
+import { DEFAULT_MAX_LINE_BYTES, readJsonlLines, setMaxLineBytes } from "./jsonl";
+
+const line = (value: unknown) => `${JSON.stringify(value)}\n`;
+
+const userLine = (text: string) =>
+  line({ type: "response_item", payload: { role: "user", content: [{ type: "input_text", text }] } });
+
+describe("incremental jsonl parsing", () => {
+  const dirPromise = mkdtemp(join(tmpdir(), "claude-run-plus-jsonl-"));
+
+  afterAll(async () => {
+    setMaxLineBytes(DEFAULT_MAX_LINE_BYTES);
+    await rm(await dirPromise, { recursive: true, force: true });
+  });
+
+  test("resumes from a byte offset with the carried parser state", async () => {
+    const filePath = join(await dirPromise, "rollout.jsonl");
+    await writeFile(
+      filePath,
+      line({ type: "session_meta", payload: { model_provider: "openai" } }) +
+        line({ type: "turn_context", payload: { model: "gpt-5-codex" } }) +
+        userLine("first"),
+    );
+
+    const first = await codexSource.parseStream!(filePath, 0);
+    expect(first.messages.map((m) => m.uuid)).toEqual(["codex-0"]);
+
+    // A half-written line is left for the next read
+    const second = userLine("second");
+    await appendFile(filePath, second.slice(0, 20));
+    const partial = await codexSource.parseStream!(filePath, first.nextOffset);
+    expect(partial).toEqual({ messages: [], nextOffset: first.nextOffset });
+
+    await appendFile(filePath, second.slice(20));
+    const resumed = await codexSource.parseStream!(filePath, first.nextOffset);
+    expect(resumed.messages).toHaveLength(1);
+    expect(resumed.messages[0].uuid).toBe("codex-1");
+    expect(resumed.messages[0].message?.model).toBe("gpt-5-codex");
+    expect(resumed.messages[0].message?.provider).toBe("openai");
+
+    const full = await codexSource.parse(filePath, "rollout");
+    expect(full.map((m) => m.uuid)).toEqual(["codex-0", "codex-1"]);
+  });
+
+  test("truncates long strings in lines over the size cap", async () => {
+    const filePath = join(await dirPromise, "huge.jsonl");
+    const output = `é\\"${"x".repeat(200_000)}`;
+    await writeFile(
+      filePath,
+      line({ type: "tool_result", id: "t1", output }) + line({ type: "after" }),
+    );
+
+    setMaxLineBytes(4096);
+    const entries: Array<Record<string, string>> = [];
+    await readJsonlLines(filePath, (text) => {
+      entries.push(JSON.parse(text));
+    });
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].type).toBe("tool_result");
+    expect(entries[0].id).toBe("t1");
+    expect(entries[0].output.startsWith(`é\\"xxx`)).toBe(true);
+    expect(entries[0].output).toMatch(/… \[truncated 1\d\d\.\d KB\]$/);
+    expect(entries[0].output.length).toBeLessThan(70_000);
+    expect(entries[1]).toEqual({ type: "after" });
+  });
+});
@@ -0,0 +1,317 @@
+import { open, stat } from "fs/promises";
+import type { ConversationMessage, StreamResult } from "../storage";
+
+// Streaming JSONL reading shared by every line-based source. Lines are read in
+// chunks, so memory stays bounded by the per-line cap rather than the file
+// size, and a line over the cap has its long strings cut down (see
+// `createCompactor`) so huge tool payloads turn into a placeholder.
+//
+// Sources whose messages depend on earlier lines (current model, pending tool
+// calls, ...) implement a `JsonlParser`; the parser state reached at each
+// returned offset is kept, so an append only costs the new bytes.
+
+export const DEFAULT_MAX_LINE_BYTES = 16 * 1024 * 1024;
+/** How much of each string is kept when a line goes over the cap. */
+const TRUNCATED_STRING_BYTES = 64 * 1024;
+const CHUNK_BYTES = 64 * 1024;
+
+let maxLineBytes = DEFAULT_MAX_LINE_BYTES;
+
+export function setMaxLineBytes(bytes: number): void {
+  maxLineBytes = bytes;
+}
+
+const NEWLINE = 0x0a;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const LETTER_U = 0x75;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} bytes`;
+}
+
+/** Drop a multi-byte UTF-8 sequence cut off at the end of `buffer`. */
+function trimPartialUtf8(buffer: Buffer): Buffer {
+  let start = buffer.length;
+  while (start > 0 && (buffer[start - 1] & 0xc0) === 0x80 && buffer.length - start < 3) start--;
+  if (start === 0) return buffer;
+  const lead = buffer[start - 1];
+  const expected = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return buffer.length - (start - 1) < expected ? buffer.subarray(0, start - 1) : buffer;
+}
+
+interface Compactor {
+  feed(chunk: Buffer): void;
+  finish(): string;
+}
+
+/**
+ * Copies a JSON line through while keeping only the first
+ * `TRUNCATED_STRING_BYTES` of each string value, so the result still parses
+ * and keeps its structure (types, ids, roles) but not the bulk of the payload.
+ */
+function createCompactor(): Compactor {
+  const parts: Buffer[] = [];
+  let inString = false;
+  let dropping = false;
+  // 0: none, 1: after a backslash, 2-5: inside the hex digits of \uXXXX
+  let escape = 0;
+  let current: Buffer[] = [];
+  let kept = 0;
+  let safeKept = 0;
+  let total = 0;
+
+  const endString = () => {
+    let content: Buffer = Buffer.concat(current);
+    if (dropping) {
+      content = trimPartialUtf8(content.subarray(0, safeKept));
+      parts.push(content, Buffer.from(` … [truncated ${formatBytes(total - content.length)}]`));
+    } else {
+      parts.push(content);
+    }
+    parts.push(Buffer.from([QUOTE]));
+  };
+
+  return {
+    feed(chunk) {
+      let runStart = dropping ? -1 : 0;
+      for (let i = 0; i < chunk.length; i++) {
+        const byte = chunk[i];
+        if (!inString) {
+          if (byte === QUOTE) {
+            parts.push(chunk.subarray(runStart, i + 1));
+            inString = true;
+            dropping = false;
+            escape = 0;
+            current = [];
+            kept = safeKept = total = 0;
+            runStart = i + 1;
+          }
+          continue;
+        }
+
+        if (escape === 1) escape = byte === LETTER_U ? 2 : 0;
+        else if (escape > 1) escape = escape === 5 ? 0 : escape + 1;
+        else if (byte === BACKSLASH) escape = 1;
+        else if (byte === QUOTE) {
+          if (runStart >= 0) current.push(chunk.subarray(runStart, i));
+          endString();
+          inString = false;
+          dropping = false;
+          runStart = i + 1;
+          continue;
+        }
+
+        total++;
+        if (!dropping && kept >= TRUNCATED_STRING_BYTES) {
+          current.push(chunk.subarray(runStart, i));
+          dropping = true;
+          runStart = -1;
+        }
+        if (!dropping) {
+          kept++;
+          if (escape === 0) safeKept = kept;
+        }
+      }
+      if (runStart >= 0) (inString ? current : parts).push(chunk.subarray(runStart));
+    },
+    finish() {
+      if (inString) endString();
+      return Buffer.concat(parts).toString("utf-8");
+    },
+  };
+}
+
+/**
+ * Called per non-blank line with the offset just past it. `terminated` is
+ * false for a last line without a trailing newline. Return false to stop.
+ */
+export type JsonlLineHandler = (line: string, endOffset: number, terminated: boolean) => boolean | void;
+
+/** Read the lines of `filePath` in [start, end) without loading the whole range. */
+export async function readJsonlLines(
+  filePath: string,
+  onLine: JsonlLineHandler,
+  options: { start?: number; end?: number } = {},
+): Promise<void> {
+  const start = options.start ?? 0;
+  const handle = await open(filePath, "r");
+  try {
+    const end = options.end ?? (await handle.stat()).size;
+    let position = start;
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let compactor: Compactor | null = null;
+
+    const append = (segment: Buffer) => {
+      if (segment.length === 0) return;
+      if (!compactor && pendingBytes + segment.length > maxLineBytes) {
+        compactor = createCompactor();
+        for (const part of pending) compactor.feed(part);
+        pending = [];
+      }
+      if (compactor) {
+        compactor.feed(segment);
+      } else {
+        pending.push(segment);
+        pendingBytes += segment.length;
+      }
+    };
+
+    const emit = (endOffset: number, terminated: boolean): boolean => {
+      const line = compactor
+        ? compactor.finish()
+        : pending.length === 1
+          ? pending[0].toString("utf-8")
+          : Buffer.concat(pending).toString("utf-8");
+      pending = [];
+      pendingBytes = 0;
+      compactor = null;
+      if (!line.trim()) return true;
+      return onLine(line, endOffset, terminated) !== false;
+    };
+
+    while (position < end) {
+      const chunk = Buffer.allocUnsafe(Math.min(CHUNK_BYTES, end - position));
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+      if (bytesRead === 0) break;
+
+      let lineStart = 0;
+      while (lineStart < bytesRead) {
+        const newline = chunk.indexOf(NEWLINE, lineStart);
+        if (newline === -1 || newline >= bytesRead) {
+          append(chunk.subarray(lineStart, bytesRead));
+          break;
+        }
+        append(chunk.subarray(lineStart, newline));
+        if (!emit(position + newline + 1, true)) return;
+        lineStart = newline + 1;
+      }
+      position += bytesRead;
+    }
+
+    if (pendingBytes > 0 || compactor) emit(position, false);
+  } finally {
+    await handle.close();
+  }
+}
+
+export interface MessageSink {
+  /** Messages emitted for this file so far, including earlier reads. */
+  readonly count: number;
+  push(message: ConversationMessage): void;
+}
+
+export interface JsonlParser<S> {
+  initialState(filePath: string): S | Promise<S>;
+  /** Handle one line that parsed to a JSON object. `state` is a plain object that is cloned between reads. */
+  parseLine(entry: Record<string, unknown>, state: S, sink: MessageSink): void;
+}
+
+interface Snapshot {
+  state: unknown;
+  count: number;
+}
+
+const MAX_SNAPSHOTS = 200;
+const snapshots = new Map<string, Snapshot>();
+
+function snapshotKey(filePath: string, offset: number): string {
+  return `${offset}:${filePath}`;
+}
+
+function saveSnapshot(filePath: string, offset: number, snapshot: Snapshot): void {
+  const key = snapshotKey(filePath, offset);
+  snapshots.delete(key);
+  snapshots.set(key, snapshot);
+  if (snapshots.size > MAX_SNAPSHOTS) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest !== undefined) snapshots.delete(oldest);
+  }
+}
+
+/**
+ * Feed the lines in [start, end) to the parser. Returns the offset after the
+ * last consumed line: a trailing line without a newline is only consumed when
+ * it is complete JSON, so a half-written line is picked up on the next read.
+ */
+async function consume<S>(
+  filePath: string,
+  start: number,
+  end: number,
+  parser: JsonlParser<S>,
+  state: S,
+  sink: MessageSink,
+): Promise<number> {
+  let offset = start;
+  await readJsonlLines(
+    filePath,
+    (line, endOffset, terminated) => {
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // Malformed lines are skipped; a partial last line is retried later
+        if (terminated) offset = endOffset;
+        return;
+      }
+      try {
+        if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+          parser.parseLine(entry as Record<string, unknown>, state, sink);
+        }
+      } catch { /* skip lines the parser cannot handle */ }
+      offset = endOffset;
+    },
+    { start, end },
+  );
+  return offset;
+}
+
+/** Parse new messages from `fromOffset` (a byte offset previously returned here, or 0). */
+export async function streamJsonl<S>(filePath: string, fromOffset: number, parser: JsonlParser<S>): Promise<StreamResult> {
+  try {
+    const { size } = await stat(filePath);
+    if (fromOffset >= size && fromOffset > 0) {
+      return { messages: [], nextOffset: fromOffset };
+    }
+
+    let state: S;
+    let count: number;
+    const cached = snapshots.get(snapshotKey(filePath, fromOffset));
+    if (cached) {
+      state = structuredClone(cached.state) as S;
+      count = cached.count;
+    } else {
+      state = await parser.initialState(filePath);
+      count = 0;
+      if (fromOffset > 0) {
+        // No state for this offset (e.g. after a restart): replay up to it once
+        const replay = { get count() { return count; }, push() { count++; } };
+        await consume(filePath, 0, fromOffset, parser, state, replay);
+      }
+    }
+
+    const messages: ConversationMessage[] = [];
+    const sink: MessageSink = {
+      get count() {
+        return count;
+      },
+      push(message) {
+        messages.push(message);
+        count++;
+      },
+    };
+
+    const nextOffset = await consume(filePath, fromOffset, size, parser, state, sink);
+    saveSnapshot(filePath, nextOffset, { state: structuredClone(state), count });
+    return { messages, nextOffset };
+  } catch {
+    return { messages: [], nextOffset: fromOffset };
+  }
+}
+
+export async function parseJsonl<S>(filePath: string, parser: JsonlParser<S>): Promise<ConversationMessage[]> {
+  return (await streamJsonl(filePath, 0, parser)).messages;
+}
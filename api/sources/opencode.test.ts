@@ -0,0 +1,126 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { opencodeSource } from "./opencode";
+import type { SourceContext } from "./types";
+
+describe("opencode source", () => {
+  const rootPromise = mkdtemp(join(tmpdir(), "claude-run-plus-opencode-"));
+
+  afterAll(async () => {
+    await rm(await rootPromise, { recursive: true, force: true });
+  });
+
+  const writeJson = async (path: string, value: unknown) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(value));
+  };
+
+  test("joins session, message and part trees into one conversation", async () => {
+    const root = await rootPromise;
+    const sessionFile = join(root, "session", "proj1", "ses_1.json");
+    await writeJson(sessionFile, {
+      id: "ses_1",
+      directory: "/work/app",
+      title: "Fix the build",
+      time: { created: Date.parse("2026-01-01T10:00:00Z"), updated: Date.parse("2026-01-01T10:05:00Z") },
+    });
+    // Subagent runs are child sessions and stay out of the list
+    await writeJson(join(root, "session", "proj1", "ses_2.json"), { id: "ses_2", parentID: "ses_1", title: "Explore" });
+
+    await writeJson(join(root, "message", "ses_1", "msg_1.json"), {
+      id: "msg_1",
+      sessionID: "ses_1",
+      role: "user",
+      time: { created: Date.parse("2026-01-01T10:00:00Z") },
+    });
+    await writeJson(join(root, "message", "ses_1", "msg_2.json"), {
+      id: "msg_2",
+      sessionID: "ses_1",
+      role: "assistant",
+      modelID: "claude-sonnet-4-5",
+      providerID: "anthropic",
+      time: { created: Date.parse("2026-01-01T10:01:00Z"), completed: Date.parse("2026-01-01T10:02:00Z") },
+      tokens: { input: 50, output: 20, cache: { read: 10, write: 5 } },
+    });
+    await writeJson(join(root, "part", "msg_1", "prt_1.json"), { id: "prt_1", messageID: "msg_1", type: "text", text: "Why does it fail?" });
+    await writeJson(join(root, "part", "msg_1", "prt_2.json"), { id: "prt_2", messageID: "msg_1", type: "text", text: "<file>...</file>", synthetic: true });
+    await writeJson(join(root, "part", "msg_2", "prt_3.json"), { id: "prt_3", messageID: "msg_2", type: "reasoning", text: "Run the tests" });
+    await writeJson(join(root, "part", "msg_2", "prt_4.json"), {
+      id: "prt_4",
+      sessionID: "ses_1",
+      messageID: "msg_2",
+      type: "tool",
+      tool: "bash",
+      callID: "call_1",
+      state: { status: "error", input: { command: "bun test" }, error: "1 fail" },
+    });
+
+    const indexed = new Map<string, string>();
+    const ctx: SourceContext = {
+      root,
+      indexFile: (sessionId, filePath) => indexed.set(sessionId, filePath),
+      lookupFile: (sessionId) => indexed.get(sessionId),
+      cachedMetadata: (_filePath, compute) => compute(),
+    };
+
+    const entries = await opencodeSource.listHistory(ctx);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      sessionId: "ses_1",
+      display: "Fix the build",
+      project: "/work/app",
+      timestamp: Date.parse("2026-01-01T10:05:00Z"),
+      modelId: "claude-sonnet-4-5",
+      modelProvider: "anthropic",
+    });
+
+    const messages = await opencodeSource.parse(sessionFile, "ses_1");
+    expect(messages.map((m) => m.type)).toEqual(["user", "assistant", "assistant"]);
+    expect(messages[0].message?.content).toEqual([{ type: "text", text: "Why does it fail?" }]);
+    expect(messages[1].message?.content).toEqual([
+      { type: "thinking", thinking: "Run the tests" },
+      { type: "tool_use", id: "call_1", name: "bash", input: { command: "bun test" } },
+    ]);
+    expect(messages[1].message?.usage).toEqual({
+      input_tokens: 50,
+      output_tokens: 20,
+      cache_read_input_tokens: 10,
+      cache_creation_input_tokens: 5,
+    });
+    expect(messages[2]).toMatchObject({
+      timestamp: "2026-01-01T10:02:00.000Z",
+      message: { content: [{ type: "tool_result", tool_use_id: "call_1", content: "1 fail", is_error: true }] },
+    });
+
+    expect(opencodeSource.classifyChange(root, join(root, "part", "msg_2", "prt_4.json"))).toEqual({
+      kind: "session",
+      sessionId: "ses_1",
+      auxiliary: true,
+    });
+  });
+
+  test("opens the child session a task call ran in", async () => {
+    const root = await rootPromise;
+    const parentFile = join(root, "session", "proj2", "ses_p.json");
+    await writeJson(parentFile, { id: "ses_p", directory: "/work/app", title: "Review" });
+    await writeJson(join(root, "session", "proj2", "ses_c.json"), { id: "ses_c", parentID: "ses_p", title: "Scan files (@general subagent)" });
+    await writeJson(join(root, "message", "ses_p", "msg_p1.json"), { id: "msg_p1", sessionID: "ses_p", role: "assistant" });
+    await writeJson(join(root, "part", "msg_p1", "prt_p1.json"), {
+      id: "prt_p1",
+      messageID: "msg_p1",
+      type: "tool",
+      tool: "task",
+      callID: "call_task",
+      state: { status: "completed", input: { description: "Scan files" }, output: "Done", metadata: { sessionId: "ses_c" } },
+    });
+    await writeJson(join(root, "message", "ses_c", "msg_c1.json"), { id: "msg_c1", sessionID: "ses_c", role: "user" });
+    await writeJson(join(root, "part", "msg_c1", "prt_c1.json"), { id: "prt_c1", messageID: "msg_c1", type: "text", text: "Scan the files" });
+
+    const run = await opencodeSource.parseSubagent!(parentFile, "ses_p", "call_task");
+    expect(run?.map((m) => m.message?.content)).toEqual([[{ type: "text", text: "Scan the files" }]]);
+    expect(await opencodeSource.parseSubagent!(parentFile, "ses_p", "missing")).toBeNull();
+    expect(await opencodeSource.subagentFiles!(parentFile, "ses_p")).toEqual([join(root, "session", "proj2", "ses_c.json")]);
+  });
+});
@@ -0,0 +1,354 @@
+import { readdir, readFile } from "fs/promises";
+import { readFileSync } from "fs";
+import { join, basename, dirname, relative, sep } from "path";
+import { homedir } from "os";
+import type {
+  ContentBlock,
+  ConversationMessage,
+  HistoryEntry,
+  SessionModelInfo,
+  TokenUsage,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import { cleanTitle, inferProviderFromModel, isUnder } from "./shared";
+
+// OpenCode splits each session across three trees under storage/:
+//   session/<projectID>/<sessionID>.json   session info (title, directory, times)
+//   message/<sessionID>/<messageID>.json   message info (role, model, tokens)
+//   part/<messageID>/<partID>.json         content parts (text, reasoning, tool calls)
+
+interface OpenCodeSessionInfo {
+  id?: string;
+  parentID?: string;
+  directory?: string;
+  title?: string;
+  time?: { created?: number; updated?: number };
+}
+
+interface OpenCodeMessageInfo {
+  id: string;
+  sessionID?: string;
+  role?: string;
+  modelID?: string;
+  providerID?: string;
+  time?: { created?: number; completed?: number };
+  tokens?: { input?: number; output?: number; reasoning?: number; cache?: { read?: number; write?: number } };
+}
+
+interface OpenCodePart {
+  id: string;
+  sessionID?: string;
+  messageID?: string;
+  type?: string;
+  text?: string;
+  synthetic?: boolean;
+  tool?: string;
+  callID?: string;
+  state?: {
+    status?: string;
+    input?: unknown;
+    output?: string;
+    error?: string;
+    /** `task` calls record the child session they ran in. */
+    metadata?: { sessionId?: string };
+  };
+}
+
+function storageDirFromSessionFile(filePath: string): string {
+  return dirname(dirname(dirname(filePath)));
+}
+
+async function readJsonDir<T>(dir: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch {
+    return [];
+  }
+
+  const items = await Promise.all(
+    files.map(async (file) => {
+      try {
+        return JSON.parse(await readFile(join(dir, file), "utf-8")) as T;
+      } catch {
+        return null;
+      }
+    }),
+  );
+  return items.filter((item): item is Awaited<T> => item !== null);
+}
+
+async function listSessionFiles(root: string): Promise<string[]> {
+  const sessionDir = join(root, "session");
+  const files: string[] = [];
+  try {
+    const projects = await readdir(sessionDir, { withFileTypes: true });
+    for (const project of projects) {
+      if (!project.isDirectory()) continue;
+      try {
+        for (const file of await readdir(join(sessionDir, project.name))) {
+          if (file.endsWith(".json")) files.push(join(sessionDir, project.name, file));
+        }
+      } catch { /* ignore */ }
+    }
+  } catch { /* storage dir may not exist */ }
+  return files;
+}
+
+async function loadMessages(storageDir: string, sessionId: string): Promise<OpenCodeMessageInfo[]> {
+  const messages = await readJsonDir<OpenCodeMessageInfo>(join(storageDir, "message", sessionId));
+  return messages.sort(
+    (a, b) => (a.time?.created ?? 0) - (b.time?.created ?? 0) || a.id.localeCompare(b.id),
+  );
+}
+
+function mapTokens(tokens: OpenCodeMessageInfo["tokens"]): TokenUsage | undefined {
+  if (!tokens) return undefined;
+  return {
+    input_tokens: tokens.input,
+    output_tokens: tokens.output,
+    cache_read_input_tokens: tokens.cache?.read,
+    cache_creation_input_tokens: tokens.cache?.write,
+  };
+}
+
+function toolResultText(part: OpenCodePart): string {
+  if (part.state?.status === "error") return part.state.error || "";
+  return part.state?.output || "";
+}
+
+function mapMessage(info: OpenCodeMessageInfo, parts: OpenCodePart[]): ConversationMessage[] {
+  const timestamp = info.time?.created ? new Date(info.time.created).toISOString() : undefined;
+
+  if (info.role === "user") {
+    // Synthetic parts are file contents and reminders OpenCode injects, not typed text
+    const blocks: ContentBlock[] = parts
+      .filter((part) => part.type === "text" && part.text && !part.synthetic)
+      .map((part) => ({ type: "text", text: part.text }));
+    if (blocks.length === 0) return [];
+    return [{ type: "user", uuid: info.id, timestamp, message: { role: "user", content: blocks } }];
+  }
+
+  if (info.role !== "assistant") return [];
+
+  const model = info.modelID;
+  const provider = info.providerID || inferProviderFromModel(model);
+  const blocks: ContentBlock[] = [];
+  const results: ContentBlock[] = [];
+
+  for (const part of parts) {
+    if (part.type === "reasoning" && part.text) {
+      blocks.push({ type: "thinking", thinking: part.text });
+    } else if (part.type === "text" && part.text && !part.synthetic) {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "tool") {
+      const id = part.callID || part.id;
+      blocks.push({ type: "tool_use", id, name: part.tool || "tool", input: part.state?.input ?? {} });
+      if (part.state?.status === "completed" || part.state?.status === "error") {
+        results.push({
+          type: "tool_result",
+          tool_use_id: id,
+          content: toolResultText(part),
+          is_error: part.state.status === "error",
+        });
+      }
+    }
+  }
+
+  const messages: ConversationMessage[] = [];
+  if (blocks.length > 0) {
+    messages.push({
+      type: "assistant",
+      uuid: info.id,
+      timestamp,
+      message: {
+        role: "assistant",
+        content: blocks,
+        model,
+        provider,
+        usage: mapTokens(info.tokens),
+        modelConfidence: model ? "explicit" : "unknown",
+      },
+    });
+  }
+  if (results.length > 0) {
+    messages.push({
+      type: "assistant",
+      uuid: `${info.id}-results`,
+      timestamp: info.time?.completed ? new Date(info.time.completed).toISOString() : timestamp,
+      message: {
+        role: "assistant",
+        content: results,
+        model,
+        provider,
+        modelConfidence: model ? "derived" : "unknown",
+      },
+    });
+  }
+  return messages;
+}
+
+async function parse(filePath: string, sessionId: string): Promise<ConversationMessage[]> {
+  const storageDir = storageDirFromSessionFile(filePath);
+  const infos = await loadMessages(storageDir, sessionId);
+  const partsByMessage = await Promise.all(
+    infos.map((info) => readJsonDir<OpenCodePart>(join(storageDir, "part", info.id))),
+  );
+
+  return infos.flatMap((info, i) => mapMessage(info, partsByMessage[i] ?? []));
+}
+
+/** Session info files of the subagent runs started from `sessionId`, which sit next to its own. */
+async function childSessionFiles(filePath: string, sessionId: string): Promise<string[]> {
+  const dir = dirname(filePath);
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  const children: string[] = [];
+  for (const file of files) {
+    const info = await readSessionInfo(join(dir, file));
+    if (info?.parentID === sessionId) children.push(join(dir, file));
+  }
+  return children;
+}
+
+/**
+ * The child session started by `task` call `toolUseId`: the one its result
+ * names, else the child whose title starts with the call's description.
+ */
+async function parseSubagent(filePath: string, sessionId: string, toolUseId: string): Promise<ConversationMessage[] | null> {
+  const storageDir = storageDirFromSessionFile(filePath);
+  let call: OpenCodePart | undefined;
+  for (const info of await loadMessages(storageDir, sessionId)) {
+    const parts = await readJsonDir<OpenCodePart>(join(storageDir, "part", info.id));
+    call = parts.find((part) => part.type === "tool" && (part.callID || part.id) === toolUseId);
+    if (call) break;
+  }
+  if (!call) return null;
+
+  const childId = call.state?.metadata?.sessionId;
+  if (childId) return parse(join(dirname(filePath), `${childId}.json`), childId);
+
+  const input = (call.state?.input ?? {}) as { description?: unknown };
+  if (typeof input.description !== "string" || !input.description) return null;
+  for (const childFile of await childSessionFiles(filePath, sessionId)) {
+    const info = await readSessionInfo(childFile);
+    if (info?.title?.startsWith(input.description)) {
+      return parse(childFile, info.id || basename(childFile, ".json"));
+    }
+  }
+  return null;
+}
+
+async function latestModel(storageDir: string, sessionId: string): Promise<SessionModelInfo | null> {
+  const messages = await loadMessages(storageDir, sessionId);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const model = messages[i]?.modelID;
+    if (model) return { model, provider: messages[i].providerID || inferProviderFromModel(model) || "" };
+  }
+  return null;
+}
+
+async function readSessionInfo(filePath: string): Promise<OpenCodeSessionInfo | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as OpenCodeSessionInfo;
+  } catch {
+    return null;
+  }
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  for (const filePath of await listSessionFiles(ctx.root)) {
+    ctx.indexFile(basename(filePath, ".json"), filePath);
+  }
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+
+  for (const filePath of await listSessionFiles(ctx.root)) {
+    const info = await readSessionInfo(filePath);
+    if (!info) continue;
+
+    const sessionId = info.id || basename(filePath, ".json");
+    ctx.indexFile(sessionId, filePath);
+
+    // Child sessions are subagent runs, shown under their parent's task call (parseSubagent)
+    if (info.parentID) continue;
+
+    const model = await latestModel(ctx.root, sessionId);
+    entries.push({
+      display: cleanTitle(info.title || "", "OpenCode Session"),
+      timestamp: info.time?.updated ?? info.time?.created ?? 0,
+      project: info.directory || basename(dirname(filePath)),
+      sessionId,
+      source: "opencode",
+      modelId: model?.model,
+      modelProvider: model?.provider,
+      modelConfidence: model ? "explicit" : "unknown",
+    });
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  for (const filePath of await listSessionFiles(ctx.root)) {
+    if (basename(filePath, ".json") === sessionId) {
+      ctx.indexFile(sessionId, filePath);
+      return filePath;
+    }
+  }
+  return null;
+}
+
+function sessionIdFromPartFile(filePath: string): string | null {
+  try {
+    const part = JSON.parse(readFileSync(filePath, "utf-8")) as OpenCodePart;
+    return part.sessionID || null;
+  } catch {
+    return null;
+  }
+}
+
+export const opencodeSource: SourceAdapter = {
+  id: "opencode",
+  display: {
+    label: "OpenCode",
+    color: "bg-amber-500",
+    resumeCommand: "opencode --session {sessionId}",
+  },
+  defaultRoot: () => join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "opencode", "storage"),
+  // Deleting the session file would orphan its message/ and part/ trees
+  readOnly: true,
+  discover,
+  listHistory,
+  resolveFile,
+  parse,
+  parseSubagent,
+  subagentFiles: childSessionFiles,
+  latestModel: (filePath, sessionId) => latestModel(storageDirFromSessionFile(filePath), sessionId),
+  watchPaths: (root) => [join(root, "session"), join(root, "message"), join(root, "part")],
+  classifyChange(root, filePath) {
+    if (!isUnder(filePath, root) || !filePath.endsWith(".json")) return null;
+    const [tree, parent] = relative(root, filePath).split(sep);
+    if (tree === "session") {
+      return { kind: "session", sessionId: basename(filePath, ".json"), historyChanged: true };
+    }
+    if (tree === "message" && parent) {
+      return { kind: "session", sessionId: parent, auxiliary: true };
+    }
+    if (tree === "part") {
+      // Part paths are keyed by message, so the owning session comes from the part itself
+      const sessionId = sessionIdFromPartFile(filePath);
+      return sessionId ? { kind: "session", sessionId, auxiliary: true } : null;
+    }
+    return null;
+  },
+};
@@ -0,0 +1,421 @@
+import { stat } from "fs/promises";
+import { join, basename } from "path";
+import { homedir } from "os";
+import type {
+  ContentBlock,
+  HistoryEntry,
+  ModelConfidence,
+  TokenUsage,
+} from "../storage";
+import type { SourceAdapter, SourceContext } from "./types";
+import {
+  cleanTitle,
+  firstTextFromContent,
+  isUnder,
+  parseTimestampValue,
+  toText,
+  walkJsonlFiles,
+} from "./shared";
+import { parseJsonl, readJsonlLines, streamJsonl, type JsonlParser, type MessageSink } from "./jsonl";
+
+function parsePiSessionIdFromFilename(fileName: string): string {
+  const withoutExt = basename(fileName, ".jsonl");
+  const match = withoutExt.match(/_([0-9a-f-]{8,})$/i);
+  return match ? match[1] : withoutExt;
+}
+
+export function getLastPiActivityTimestampFromEntries(entries: Array<Record<string, unknown>>): number {
+  let latest = 0;
+
+  for (const entry of entries) {
+    const entryTs = parseTimestampValue(entry.timestamp);
+    if (entryTs && entryTs > latest) latest = entryTs;
+
+    const message = entry.message;
+    if (message && typeof message === "object") {
+      const msgTs = parseTimestampValue((message as Record<string, unknown>).timestamp);
+      if (msgTs && msgTs > latest) latest = msgTs;
+    }
+  }
+
+  return latest;
+}
+
+async function discover(ctx: SourceContext): Promise<void> {
+  const sessionsDir = join(ctx.root, "sessions");
+  try {
+    await walkJsonlFiles(sessionsDir, (filePath, fileName) => {
+      const sessionId = parsePiSessionIdFromFilename(fileName);
+      ctx.indexFile(sessionId, filePath);
+    });
+  } catch {
+    // sessions dir may not exist
+  }
+}
+
+async function readPiSessionMeta(filePath: string, fileName: string): Promise<HistoryEntry & { sessionId: string }> {
+  const fallbackSessionId = parsePiSessionIdFromFilename(fileName);
+  let sessionId = fallbackSessionId;
+  let timestamp = 0;
+  let project = "";
+  let display = "Pi Session";
+  let modelProvider: string | undefined;
+  let modelId: string | undefined;
+  let modelConfidence: ModelConfidence = "unknown";
+
+  try {
+    let latestActivityTs = 0;
+
+    await readJsonlLines(filePath, (line) => {
+      try {
+        const parsed = JSON.parse(line);
+        if (!parsed || typeof parsed !== "object") return;
+        const parsedRecord = parsed as Record<string, unknown>;
+        latestActivityTs = Math.max(latestActivityTs, getLastPiActivityTimestampFromEntries([parsedRecord]));
+
+        if (parsedRecord.type === "session") {
+          if (typeof parsedRecord.id === "string") sessionId = parsedRecord.id;
+          const ts = parseTimestampValue(parsedRecord.timestamp);
+          if (ts) timestamp = ts;
+          if (typeof parsedRecord.cwd === "string") project = parsedRecord.cwd;
+        }
+
+        if (!modelId && parsedRecord.type === "model_change") {
+          const provider = parsedRecord.provider;
+          const mid = parsedRecord.modelId;
+          modelProvider = typeof provider === "string" ? provider : modelProvider;
+          modelId = typeof mid === "string" ? mid : modelId;
+          if (modelId || modelProvider) modelConfidence = "explicit";
+        }
+
+        const parsedMessage = parsedRecord.message;
+        if (parsedRecord.type === "message" && parsedMessage && typeof parsedMessage === "object") {
+          const msg = parsedMessage as Record<string, unknown>;
+          const role = msg.role;
+
+          if (!display || display === "Pi Session") {
+            if (role === "user") {
+              display = cleanTitle(firstTextFromContent(msg.content), "Pi Session");
+            } else if (role === "assistant") {
+              display = cleanTitle(firstTextFromContent(msg.content), "Pi Session");
+            }
+          }
+
+          if (!modelId && role === "assistant") {
+            if (typeof msg.provider === "string") {
+              modelProvider = msg.provider;
+            }
+            if (typeof msg.model === "string") {
+              modelId = msg.model;
+            }
+            if ((modelProvider || modelId) && modelConfidence !== "explicit") {
+              modelConfidence = "derived";
+            }
+          }
+        }
+
+      } catch {
+        // skip malformed line
+      }
+    });
+
+    if (latestActivityTs > timestamp) {
+      timestamp = latestActivityTs;
+    }
+  } catch {
+    // ignore per-file parse failure
+  }
+
+  if (!timestamp) {
+    try {
+      timestamp = (await stat(filePath)).mtimeMs;
+    } catch {
+      timestamp = Date.now();
+    }
+  }
+
+  return {
+    display,
+    timestamp,
+    project,
+    sessionId,
+    source: "pi",
+    modelProvider,
+    modelId,
+    modelConfidence,
+  };
+}
+
+async function listHistory(ctx: SourceContext): Promise<HistoryEntry[]> {
+  const sessionsDir = join(ctx.root, "sessions");
+  const entries: HistoryEntry[] = [];
+
+  try {
+    await walkJsonlFiles(sessionsDir, async (filePath, fileName) => {
+      const entry = await ctx.cachedMetadata(filePath, () => readPiSessionMeta(filePath, fileName));
+      ctx.indexFile(entry.sessionId, filePath);
+      entries.push(entry);
+    });
+  } catch {
+    return [];
+  }
+
+  return entries;
+}
+
+async function resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null> {
+  const indexed = ctx.lookupFile(sessionId);
+  if (indexed) return indexed;
+
+  const sessionsDir = join(ctx.root, "sessions");
+  try {
+    let found: string | null = null;
+    await walkJsonlFiles(sessionsDir, async (filePath, fileName) => {
+      if (found) return;
+      const id = parsePiSessionIdFromFilename(fileName);
+      if (id === sessionId) {
+        found = filePath;
+      }
+    });
+    return found;
+  } catch {
+    return null;
+  }
+}
+
+function mapPiContent(content: unknown): string | ContentBlock[] {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return toText(content);
+
+  const blocks: ContentBlock[] = [];
+
+  for (const item of content) {
+    if (!item || typeof item !== "object") {
+      const text = toText(item);
+      if (text) blocks.push({ type: "text", text });
+      continue;
+    }
+
+    const block = item as Record<string, unknown>;
+    const type = block.type;
+
+    if (type === "text") {
+      const text = typeof block.text === "string" ? block.text : toText(block.content);
+      if (text) blocks.push({ type: "text", text });
+      continue;
+    }
+
+    if (type === "thinking") {
+      const thinking = typeof block.thinking === "string" ? block.thinking : toText(block.text);
+      if (thinking) blocks.push({ type: "thinking", thinking });
+      continue;
+    }
+
+    if (type === "toolCall") {
+      blocks.push({
+        type: "tool_use",
+        id: typeof block.id === "string" ? block.id : undefined,
+        name: typeof block.name === "string" ? block.name : "tool",
+        input: block.arguments ?? block.input ?? {},
+      });
+      continue;
+    }
+
+    const text = toText(block);
+    if (text) {
+      blocks.push({ type: "text", text });
+    }
+  }
+
+  return blocks.length > 0 ? blocks : "";
+}
+
+interface PiParseState {
+  currentProvider?: string;
+  currentModel?: string;
+  /** Parent of each entry that is not shown (model changes, ...), so links skip over it. */
+  hidden: Map<string, string | null>;
+}
+
+interface PiEntry {
+  type?: string;
+  id?: string;
+  timestamp?: string;
+  provider?: string;
+  modelId?: string;
+  tokensBefore?: unknown;
+  summary?: unknown;
+  message?: {
+    role?: string;
+    content?: unknown;
+    provider?: unknown;
+    model?: unknown;
+    api?: unknown;
+    usage?: TokenUsage;
+    toolCallId?: string;
+    isError?: unknown;
+    command?: unknown;
+    output?: unknown;
+    exitCode?: number;
+    display?: unknown;
+  };
+}
+
+function pushPiEntry(entry: Record<string, unknown>, parentUuid: string | null | undefined, state: PiParseState, sink: MessageSink): void {
+  const parsed = entry as PiEntry;
+  if (parsed.type === "model_change") {
+    state.currentProvider = parsed.provider || state.currentProvider;
+    state.currentModel = parsed.modelId || state.currentModel;
+    return;
+  }
+
+  if (parsed.type === "compaction") {
+    sink.push({
+      type: "compaction",
+      uuid: parsed.id,
+      parentUuid,
+      timestamp: parsed.timestamp,
+      compaction: {
+        tokensBefore: typeof parsed.tokensBefore === "number" ? parsed.tokensBefore : undefined,
+        summary: typeof parsed.summary === "string" ? parsed.summary : undefined,
+      },
+    });
+    return;
+  }
+
+  if (parsed.type !== "message" || !parsed.message) return;
+
+  const role = parsed.message.role;
+
+  if (role === "user" || role === "assistant") {
+    const explicitProvider = typeof parsed.message.provider === "string" ? parsed.message.provider : undefined;
+    const explicitModel = typeof parsed.message.model === "string" ? parsed.message.model : undefined;
+
+    const provider = explicitProvider || state.currentProvider;
+    const model = explicitModel || state.currentModel;
+
+    if (explicitProvider) state.currentProvider = explicitProvider;
+    if (explicitModel) state.currentModel = explicitModel;
+
+    sink.push({
+      type: role,
+      uuid: parsed.id,
+      parentUuid,
+      timestamp: parsed.timestamp,
+      message: {
+        role,
+        content: mapPiContent(parsed.message.content),
+        provider,
+        model,
+        api: typeof parsed.message.api === "string" ? parsed.message.api : undefined,
+        usage: parsed.message.usage,
+        modelConfidence: explicitProvider || explicitModel ? "explicit" : provider || model ? "derived" : "unknown",
+      },
+    });
+    return;
+  }
+
+  if (role === "toolResult") {
+    sink.push({
+      type: "assistant",
+      uuid: parsed.id,
+      parentUuid,
+      timestamp: parsed.timestamp,
+      message: {
+        role: "assistant",
+        provider: state.currentProvider,
+        model: state.currentModel,
+        modelConfidence: state.currentProvider || state.currentModel ? "derived" : "unknown",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: parsed.message.toolCallId,
+            content: toText(parsed.message.content),
+            is_error: !!parsed.message.isError,
+          },
+        ],
+      },
+    });
+    return;
+  }
+
+  if (role === "bashExecution") {
+    const summary = [parsed.message.command, parsed.message.output]
+      .filter((v: unknown) => typeof v === "string" && v.length > 0)
+      .join("\n\n");
+
+    sink.push({
+      type: "assistant",
+      uuid: parsed.id,
+      parentUuid,
+      timestamp: parsed.timestamp,
+      message: {
+        role: "assistant",
+        provider: state.currentProvider,
+        model: state.currentModel,
+        modelConfidence: state.currentProvider || state.currentModel ? "derived" : "unknown",
+        content: [
+          {
+            type: "tool_result",
+            content: summary,
+            is_error: parsed.message.exitCode ? parsed.message.exitCode !== 0 : false,
+          },
+        ],
+      },
+    });
+    return;
+  }
+
+  if (role === "custom" && parsed.message.display !== false) {
+    const customText = toText(parsed.message.content);
+    if (customText) {
+      sink.push({
+        type: "assistant",
+        uuid: parsed.id,
+        parentUuid,
+        timestamp: parsed.timestamp,
+        message: {
+          role: "assistant",
+          provider: state.currentProvider,
+          model: state.currentModel,
+          modelConfidence: state.currentProvider || state.currentModel ? "derived" : "unknown",
+          content: customText,
+        },
+      });
+    }
+  }
+}
+
+const piParser: JsonlParser<PiParseState> = {
+  initialState: () => ({ hidden: new Map() }),
+  parseLine(parsed, state, sink) {
+    const parentId = typeof parsed.parentId === "string" ? parsed.parentId : parsed.parentId === null ? null : undefined;
+    const parentUuid = parentId && state.hidden.has(parentId) ? state.hidden.get(parentId) : parentId;
+    const before = sink.count;
+    pushPiEntry(parsed, parentUuid, state, sink);
+    if (sink.count === before && typeof parsed.id === "string") {
+      state.hidden.set(parsed.id, parentUuid ?? null);
+    }
+  },
+};
+
+export const piSource: SourceAdapter = {
+  id: "pi",
+  display: {
+    label: "Pi",
+    color: "bg-pink-500",
+  },
+  defaultRoot: () => join(homedir(), ".pi", "agent"),
+  discover,
+  listHistory,
+  resolveFile,
+  parse: (filePath) => parseJsonl(filePath, piParser),
+  parseStream: (filePath, fromOffset) => streamJsonl(filePath, fromOffset, piParser),
+  watchPaths: (root) => [join(root, "sessions")],
+  classifyChange(root, filePath) {
+    if (isUnder(filePath, join(root, "sessions")) && filePath.endsWith(".jsonl")) {
+      return { kind: "session", sessionId: parsePiSessionIdFromFilename(basename(filePath)) };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,109 @@
+import { readdir } from "fs/promises";
+import { isAbsolute, join, relative, sep } from "path";
+import { sanitizeText } from "../sanitize";
+
+export function inferProviderFromModel(model?: string): string | undefined {
+  if (!model) return undefined;
+  const lower = model.toLowerCase();
+  if (lower.includes("claude")) return "anthropic";
+  if (lower.includes("gpt") || lower.includes("o1") || lower.includes("o3")) return "openai";
+  if (lower.includes("gemini")) return "google";
+  if (lower.includes("llama") || lower.includes("qwen") || lower.includes("mistral")) return "openrouter";
+  return undefined;
+}
+
+export function deriveProvider(model: string): string {
+  if (model.startsWith("claude")) return "anthropic";
+  if (model.startsWith("gpt") || model.startsWith("o1") || model.startsWith("o3") || model.startsWith("o4")) return "openai";
+  if (model.includes("gemini")) return "google";
+  if (model.includes("codex")) return "openai-codex";
+  return "";
+}
+
+export function normalizeModelId(value?: string): string | undefined {
+  if (!value || typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return trimmed.replace(/^custom:/, "");
+}
+
+export function toText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return value.map((v) => toText(v)).filter(Boolean).join("\n");
+  }
+  if (typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.text === "string") return obj.text;
+    if (typeof obj.content === "string") return obj.content;
+  }
+  return "";
+}
+
+export function firstTextFromContent(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    for (const item of content) {
+      if (typeof item === "string") {
+        if (item.trim()) return item;
+        continue;
+      }
+      if (item && typeof item === "object") {
+        const block = item as Record<string, unknown>;
+        const text = typeof block.text === "string" ? block.text : toText(block.content);
+        if (text.trim()) return text;
+      }
+    }
+  }
+  return "";
+}
+
+export function sanitizeForIndex(text: string): string {
+  return sanitizeText(text);
+}
+
+export function cleanTitle(text: string, fallback: string): string {
+  const cleaned = sanitizeForIndex(text)
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!cleaned) return fallback;
+  return cleaned.slice(0, 200);
+}
+
+export function parseTimestampValue(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === "string") {
+    const asNum = Number(value);
+    if (!Number.isNaN(asNum)) {
+      return asNum < 1e12 ? asNum * 1000 : asNum;
+    }
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return null;
+}
+
+/** Whether `filePath` is `dir` or inside it; `/a/bc` is not under `/a/b`. */
+export function isUnder(filePath: string, dir: string): boolean {
+  if (!dir) return false;
+  const rel = relative(dir, filePath);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+export async function walkJsonlFiles(
+  dir: string,
+  callback: (filePath: string, fileName: string) => Promise<void> | void,
+): Promise<void> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await walkJsonlFiles(fullPath, callback);
+    } else if (entry.name.endsWith(".jsonl")) {
+      await callback(fullPath, entry.name);
+    }
+  }
+}
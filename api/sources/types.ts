@@ -0,0 +1,85 @@
+import type {
+  ConversationMessage,
+  HistoryEntry,
+  SessionModelInfo,
+  SessionSource,
+  StreamResult,
+} from "../storage";
+
+export interface SourceDisplay {
+  label: string;
+  /** Tailwind background class used for the source dot/badge. */
+  color: string;
+  /** Shell command template; `{sessionId}` is replaced with the session id. */
+  resumeCommand?: string;
+}
+
+export interface SourceInfo extends SourceDisplay {
+  id: SessionSource;
+  readOnly?: boolean;
+}
+
+/** A directory a source reads from; `machine` labels roots synced from other hosts. */
+export interface SourceRoot {
+  path: string;
+  machine?: string;
+}
+
+export interface SourceContext {
+  root: string;
+  indexFile(sessionId: string, filePath: string): void;
+  lookupFile(sessionId: string): string | undefined;
+  /** Reuse what `compute` derived from `filePath` on a previous run while the file is unchanged. */
+  cachedMetadata<T>(filePath: string, compute: () => Promise<T>): Promise<T>;
+}
+
+export type WatchEvent =
+  | { kind: "history" }
+  | {
+      kind: "session";
+      sessionId: string;
+      /** The change also affects the session list (titles, new sessions, timestamps). */
+      historyChanged?: boolean;
+      /** The changed file belongs to the session but is not the file it is indexed under. */
+      auxiliary?: boolean;
+    };
+
+export interface SourceAdapter {
+  id: SessionSource;
+  display: SourceDisplay;
+  defaultRoot(): string;
+  /** Sessions share files with other sessions or another tool's state, so they are never deleted. */
+  readOnly?: boolean;
+
+  /** Walk the source's storage and register every session file in the file index. */
+  discover(ctx: SourceContext): Promise<void>;
+  listHistory(ctx: SourceContext): Promise<HistoryEntry[]>;
+  /** Find a session's transcript, scanning disk when it is not indexed yet. */
+  resolveFile(ctx: SourceContext, sessionId: string): Promise<string | null>;
+  /** `sessionId` lets sources that keep several sessions in one file pick theirs out. */
+  parse(filePath: string, sessionId: string): Promise<ConversationMessage[]>;
+  /**
+   * Incremental read from a byte offset. Sources without it are streamed by
+   * re-parsing and slicing on message count.
+   */
+  parseStream?(filePath: string, fromOffset: number): Promise<StreamResult>;
+  /** The subagent conversation started by tool call `toolUseId`, or null when there is none. */
+  parseSubagent?(filePath: string, sessionId: string, toolUseId: string): Promise<ConversationMessage[] | null>;
+  /** Files besides `filePath` that `parseSubagent` may read, so caches notice new or growing runs. */
+  subagentFiles?(filePath: string, sessionId: string): Promise<string[]>;
+
+  watchPaths(root: string): string[];
+  /** Map a changed path under `watchPaths` to a watcher event, or null to ignore it. Runs on every change, so no scans or side effects. */
+  classifyChange(root: string, filePath: string): WatchEvent | null;
+  /**
+   * For stores whose paths do not say which session a write touched: the
+   * sessions written since the last look. The watcher calls it after its
+   * debounce for changes `classifyChange` reported as history.
+   */
+  changedSessions?(filePath: string): Promise<string[]>;
+
+  /** Model info for transcripts that never name their model. */
+  fallbackModel?(filePath: string, sessionId: string): Promise<SessionModelInfo | null>;
+  /** Latest model for files that are not JSONL transcripts; replaces the generic line scan. */
+  latestModel?(filePath: string, sessionId: string): Promise<SessionModelInfo | null>;
+}
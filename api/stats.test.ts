@@ -0,0 +1,137 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ContentBlock, ConversationMessage, Session } from "./storage";
+import { closeSearchDb, initSearchDb, removeIndexedSession } from "./search";
+import {
+  computeSessionActivity,
+  computeToolCalls,
+  getDailyActivity,
+  getHourlyActivity,
+  getStatsOverview,
+  getToolFailureSessions,
+  getToolStats,
+  getTurnStats,
+  hasCurrentSessionStats,
+  recordSessionStats,
+} from "./stats";
+
+const user = (
+  timestamp: string | undefined,
+  content: string | ContentBlock[],
+  extra: Partial<ConversationMessage> = {},
+): ConversationMessage => ({
+  type: "user",
+  timestamp,
+  message: { role: "user", content },
+  ...extra,
+});
+
+const assistant = (timestamp: string, model: string, content: string | ContentBlock[] = "ok"): ConversationMessage => ({
+  type: "assistant",
+  timestamp,
+  message: { role: "assistant", content, model },
+});
+
+const session = (id: string, project: string, timestamp: number): Session => ({
+  id,
+  source: "claude",
+  display: id,
+  timestamp,
+  project,
+  projectName: project,
+});
+
+describe("session stats", () => {
+  const dirPromise = mkdtemp(join(tmpdir(), "claude-run-plus-stats-"));
+
+  afterAll(async () => {
+    closeSearchDb();
+    await rm(await dirPromise, { recursive: true, force: true });
+  });
+
+  test("counts prompts but not tool results or injected context", () => {
+    const activity = computeSessionActivity([
+      user("2026-03-01T09:15:00", "fix the build"),
+      assistant("2026-03-01T09:15:05", "claude-sonnet-4-5"),
+      user("2026-03-01T09:16:00", [{ type: "tool_result", tool_use_id: "t1", content: "done" }]),
+      user(undefined, "<command-name>/clear</command-name>", { isMeta: true }),
+      user("2026-03-02T22:00:00", [{ type: "text", text: "and the tests" }]),
+    ]);
+
+    expect(activity).toEqual([
+      { day: "2026-03-01", hour: 9, model: "", messages: 3, prompts: 1 },
+      { day: "2026-03-01", hour: 9, model: "claude-sonnet-4-5", messages: 1, prompts: 0 },
+      { day: "2026-03-02", hour: 22, model: "", messages: 1, prompts: 1 },
+    ]);
+  });
+
+  test("pairs tool calls with their results", () => {
+    const rows = computeToolCalls([
+      assistant("2026-03-01T09:00:00", "claude-sonnet-4-5", [
+        { type: "tool_use", id: "t1", name: "Bash", input: {} },
+        { type: "tool_use", id: "t2", name: "Bash", input: {} },
+      ]),
+      user("2026-03-01T09:00:02", [
+        { type: "tool_result", tool_use_id: "t1", content: "exit 1", is_error: true },
+        { type: "tool_result", tool_use_id: "t2", content: [{ type: "text", text: "ok" }] },
+        { type: "tool_result", tool_use_id: "unknown", content: "ignored" },
+      ]),
+      // Never answered
+      assistant("2026-03-01T09:01:00", "claude-sonnet-4-5", [{ type: "tool_use", id: "t3", name: "Read", input: {} }]),
+    ]);
+
+    expect(rows).toEqual([
+      { day: "2026-03-01", tool: "Bash", model: "claude-sonnet-4-5", calls: 2, errors: 1, outputChars: 8, resultMs: 4000, timedResults: 2 },
+      { day: "2026-03-01", tool: "Read", model: "claude-sonnet-4-5", calls: 1, errors: 0, outputChars: 0, resultMs: 0, timedResults: 0 },
+    ]);
+  });
+
+  test("aggregates stored sessions by project and date range", async () => {
+    initSearchDb(join(await dirPromise, "search.db"));
+
+    const a = session("s-a", "/work/app", 1);
+    const b = session("s-b", "/work/lib", 2);
+    recordSessionStats(a, [
+      { day: "2026-03-01", hour: 9, model: "", messages: 4, prompts: 2 },
+      { day: "2026-03-02", hour: 10, model: "", messages: 2, prompts: 1 },
+    ]);
+    recordSessionStats(
+      b,
+      [{ day: "2026-03-02", hour: 10, model: "gpt-5", messages: 6, prompts: 0 }],
+      [{ day: "2026-03-02", tool: "shell", model: "gpt-5", calls: 4, errors: 3, outputChars: 400, resultMs: 0, timedResults: 0 }],
+    );
+
+    expect(hasCurrentSessionStats(a)).toBe(true);
+    expect(hasCurrentSessionStats({ ...a, timestamp: 5 })).toBe(false);
+
+    expect(getStatsOverview({})).toEqual({ sessions: 2, messages: 12, prompts: 3, projects: 2, activeDays: 2 });
+    expect(getDailyActivity({ from: "2026-03-02" })).toEqual([{ day: "2026-03-02", sessions: 2, messages: 8 }]);
+    expect(getTurnStats({ project: "/work/app" })).toMatchObject({ sessions: 1, averageTurns: 3, medianTurns: 3 });
+    expect(getHourlyActivity({ to: "2026-03-01" })[9]).toEqual({ hour: 9, messages: 4, prompts: 2 });
+
+    expect(getToolStats({})).toEqual([
+      {
+        key: "shell",
+        calls: 4,
+        errors: 3,
+        sessions: 1,
+        averageOutputChars: 100,
+        averageResultMs: null,
+        sources: [{ key: "claude", calls: 4, errors: 3 }],
+        models: [{ key: "gpt-5", calls: 4, errors: 3 }],
+        projects: [{ key: "/work/lib", calls: 4, errors: 3 }],
+      },
+    ]);
+    expect(getToolFailureSessions("shell", {})).toEqual([
+      { sessionId: "s-b", source: "claude", project: "/work/lib", calls: 4, errors: 3 },
+    ]);
+    expect(getToolStats({ project: "/work/app" })).toEqual([]);
+
+    // Re-recording replaces, and removing the indexed session drops its stats
+    recordSessionStats(a, [{ day: "2026-03-01", hour: 9, model: "", messages: 1, prompts: 1 }]);
+    removeIndexedSession("s-b", "claude");
+    expect(getStatsOverview({})).toMatchObject({ sessions: 1, messages: 1, prompts: 1 });
+  });
+});
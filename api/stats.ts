@@ -0,0 +1,424 @@
+import type { ContentBlock, ConversationMessage, Session } from "./storage";
+import { getSearchDb } from "./search";
+import { usageDay } from "./usage";
+
+// Dashboard numbers. Each session is boiled down to activity rows (messages
+// and prompts per local day, hour and model) and tool call rows (per day,
+// tool and model) that are stored in the search DB whenever the session is
+// indexed, so the /api/stats endpoints are SQL aggregates over those rows and
+// never parse transcripts.
+
+export interface ActivityRow {
+  day: string;
+  hour: number;
+  /** Model of assistant messages; empty for the user's. */
+  model: string;
+  messages: number;
+  prompts: number;
+}
+
+export interface ToolCallRow {
+  day: string;
+  tool: string;
+  /** Model that made the calls. */
+  model: string;
+  calls: number;
+  /** Results flagged `is_error`. */
+  errors: number;
+  /** Characters of result text. */
+  outputChars: number;
+  /** Summed time from call to result, over `timedResults` results. */
+  resultMs: number;
+  timedResults: number;
+}
+
+export interface StatsFilter {
+  project?: string;
+  source?: string;
+  /** Inclusive YYYY-MM-DD bounds. */
+  from?: string;
+  to?: string;
+}
+
+/** A message the user typed, as opposed to tool results and injected context. */
+export function isUserPrompt(message: ConversationMessage): boolean {
+  if (message.type !== "user" || message.isMeta || message.isCompactSummary) return false;
+  const content = message.message?.content;
+  if (typeof content === "string") return content.trim().length > 0;
+  if (!Array.isArray(content) || content.some((b) => b.type === "tool_result")) return false;
+  return content.some((b) => b.type === "text" && !!b.text?.trim());
+}
+
+/** Messages without a timestamp count at the previous one's, or at `fallbackTimestamp`. */
+export function computeSessionActivity(messages: ConversationMessage[], fallbackTimestamp?: number): ActivityRow[] {
+  const rows = new Map<string, ActivityRow>();
+  let lastTimestamp: string | number | undefined = fallbackTimestamp;
+
+  for (const message of messages) {
+    if (message.type !== "user" && message.type !== "assistant") continue;
+    if (message.timestamp) lastTimestamp = message.timestamp;
+    const day = usageDay(lastTimestamp);
+    if (!day) continue;
+
+    const hour = new Date(lastTimestamp!).getHours();
+    const model = message.type === "assistant" ? message.message?.model ?? "" : "";
+    const key = `${day}\n${hour}\n${model}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { day, hour, model, messages: 0, prompts: 0 };
+      rows.set(key, row);
+    }
+    row.messages++;
+    if (isUserPrompt(message)) row.prompts++;
+  }
+  return [...rows.values()];
+}
+
+/** Text of a tool result, ignoring images and other blocks. */
+export function toolResultText(content: string | ContentBlock[] | undefined): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((block) => (block.type === "text" ? block.text ?? "" : "")).join("");
+}
+
+function elapsedMs(from: string | undefined, to: string | undefined): number | null {
+  if (!from || !to) return null;
+  const ms = new Date(to).getTime() - new Date(from).getTime();
+  return Number.isFinite(ms) && ms >= 0 ? ms : null;
+}
+
+/** Tool calls matched to their results by id; results without a known call are skipped. */
+export function computeToolCalls(messages: ConversationMessage[], fallbackTimestamp?: number): ToolCallRow[] {
+  const rows = new Map<string, ToolCallRow>();
+  const pending = new Map<string, { row: ToolCallRow; timestamp?: string }>();
+  let lastTimestamp: string | number | undefined = fallbackTimestamp;
+
+  for (const message of messages) {
+    if (message.timestamp) lastTimestamp = message.timestamp;
+    const content = message.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type === "tool_use" && block.name) {
+        const day = usageDay(lastTimestamp);
+        const model = message.message?.model ?? "";
+        const key = `${day}\n${block.name}\n${model}`;
+        let row = rows.get(key);
+        if (!row) {
+          row = { day, tool: block.name, model, calls: 0, errors: 0, outputChars: 0, resultMs: 0, timedResults: 0 };
+          rows.set(key, row);
+        }
+        row.calls++;
+        if (block.id) pending.set(block.id, { row, timestamp: message.timestamp });
+      } else if (block.type === "tool_result" && block.tool_use_id) {
+        const call = pending.get(block.tool_use_id);
+        if (!call) continue;
+        pending.delete(block.tool_use_id);
+        if (block.is_error) call.row.errors++;
+        call.row.outputChars += toolResultText(block.content).length;
+        const ms = elapsedMs(call.timestamp, message.timestamp);
+        if (ms !== null) {
+          call.row.resultMs += ms;
+          call.row.timedResults++;
+        }
+      }
+    }
+  }
+  return [...rows.values()].filter((row) => row.day);
+}
+
+export function recordSessionStats(session: Session, activity: ActivityRow[], toolCalls: ToolCallRow[] = []): void {
+  const db = getSearchDb();
+  if (!db) return;
+  const machine = session.machine ?? "";
+  const identity = [session.id, session.source, machine];
+
+  const insertActivity = db.prepare(
+    "INSERT INTO session_activity (session_id, source, machine, day, hour, model, messages, prompts) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+  );
+  const insertToolCalls = db.prepare(
+    `INSERT INTO session_tool_calls (session_id, source, machine, day, tool, model, calls, errors, output_chars, result_ms, timed_results)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    db.run("DELETE FROM session_activity WHERE session_id = ? AND source = ? AND machine = ?", identity);
+    db.run("DELETE FROM session_tool_calls WHERE session_id = ? AND source = ? AND machine = ?", identity);
+    db.run(
+      "INSERT OR REPLACE INTO session_stats (session_id, source, machine, project, session_timestamp) VALUES (?, ?, ?, ?, ?)",
+      [...identity, session.project, session.timestamp],
+    );
+    for (const row of activity) {
+      insertActivity.run(...identity, row.day, row.hour, row.model, row.messages, row.prompts);
+    }
+    for (const row of toolCalls) {
+      insertToolCalls.run(...identity, row.day, row.tool, row.model, row.calls, row.errors, row.outputChars, row.resultMs, row.timedResults);
+    }
+  })();
+}
+
+/** Whether the stored stats were computed from the session as it is now. */
+export function hasCurrentSessionStats(session: Session): boolean {
+  const db = getSearchDb();
+  if (!db) return false;
+  const row = db
+    .query("SELECT session_timestamp FROM session_stats WHERE session_id = ? AND source = ? AND machine = ?")
+    .get(session.id, session.source, session.machine ?? "") as { session_timestamp: number } | null;
+  return row?.session_timestamp === session.timestamp;
+}
+
+const SESSION_KEY = "a.source || '@' || a.machine || ':' || a.session_id";
+
+function activityQuery(filter: StatsFilter, table: string): { from: string; params: string[] } {
+  let from = `
+    FROM ${table} a
+    JOIN session_stats s ON a.source = s.source AND a.machine = s.machine AND a.session_id = s.session_id
+    WHERE 1 = 1`;
+  const params: string[] = [];
+  if (filter.project) {
+    from += " AND s.project = ?";
+    params.push(filter.project);
+  }
+  if (filter.source) {
+    from += " AND a.source = ?";
+    params.push(filter.source);
+  }
+  if (filter.from) {
+    from += " AND a.day >= ?";
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    from += " AND a.day <= ?";
+    params.push(filter.to);
+  }
+  return { from, params };
+}
+
+function queryAll<T>(select: string, filter: StatsFilter, tail = "", table = "session_activity"): T[] {
+  const db = getSearchDb();
+  if (!db) return [];
+  const { from, params } = activityQuery(filter, table);
+  return db.query(`${select} ${from} ${tail}`).all(...params) as T[];
+}
+
+export interface StatsOverview {
+  sessions: number;
+  messages: number;
+  prompts: number;
+  projects: number;
+  activeDays: number;
+}
+
+export function getStatsOverview(filter: StatsFilter): StatsOverview {
+  const [row] = queryAll<StatsOverview>(
+    `SELECT
+      COUNT(DISTINCT ${SESSION_KEY}) AS sessions,
+      COALESCE(SUM(a.messages), 0) AS messages,
+      COALESCE(SUM(a.prompts), 0) AS prompts,
+      COUNT(DISTINCT s.project) AS projects,
+      COUNT(DISTINCT a.day) AS activeDays`,
+    filter,
+  );
+  return row ?? { sessions: 0, messages: 0, prompts: 0, projects: 0, activeDays: 0 };
+}
+
+export interface DailyActivity {
+  day: string;
+  sessions: number;
+  messages: number;
+}
+
+/** Sessions active and messages sent per day, for the heatmap. */
+export function getDailyActivity(filter: StatsFilter): DailyActivity[] {
+  return queryAll<DailyActivity>(
+    `SELECT a.day AS day, COUNT(DISTINCT ${SESSION_KEY}) AS sessions, SUM(a.messages) AS messages`,
+    filter,
+    "GROUP BY a.day ORDER BY a.day",
+  );
+}
+
+export interface ProjectActivity {
+  project: string;
+  sessions: number;
+  messages: number;
+  prompts: number;
+  lastActive: string;
+}
+
+export function getProjectActivity(filter: StatsFilter): ProjectActivity[] {
+  return queryAll<ProjectActivity>(
+    `SELECT
+      s.project AS project,
+      COUNT(DISTINCT ${SESSION_KEY}) AS sessions,
+      SUM(a.messages) AS messages,
+      SUM(a.prompts) AS prompts,
+      MAX(a.day) AS lastActive`,
+    filter,
+    "GROUP BY s.project ORDER BY messages DESC",
+  );
+}
+
+export interface BreakdownRow {
+  key: string;
+  sessions: number;
+  messages: number;
+}
+
+export interface StatsBreakdown {
+  sources: BreakdownRow[];
+  /** Assistant messages per model. */
+  models: BreakdownRow[];
+}
+
+export function getStatsBreakdown(filter: StatsFilter): StatsBreakdown {
+  const select = (column: string) =>
+    `SELECT ${column} AS key, COUNT(DISTINCT ${SESSION_KEY}) AS sessions, SUM(a.messages) AS messages`;
+  return {
+    sources: queryAll<BreakdownRow>(select("a.source"), filter, "GROUP BY a.source ORDER BY messages DESC"),
+    models: queryAll<BreakdownRow>(select("a.model"), filter, "AND a.model != '' GROUP BY a.model ORDER BY messages DESC"),
+  };
+}
+
+export interface TurnStats {
+  sessions: number;
+  averageTurns: number;
+  medianTurns: number;
+  /** Sessions by number of user prompts. */
+  buckets: Array<{ label: string; sessions: number }>;
+}
+
+const TURN_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: "0", max: 0 },
+  { label: "1", max: 1 },
+  { label: "2-5", max: 5 },
+  { label: "6-10", max: 10 },
+  { label: "11-25", max: 25 },
+  { label: "26-50", max: 50 },
+  { label: "51+", max: Infinity },
+];
+
+export function getTurnStats(filter: StatsFilter): TurnStats {
+  const turns = queryAll<{ turns: number }>(`SELECT SUM(a.prompts) AS turns`, filter, `GROUP BY ${SESSION_KEY}`)
+    .map((row) => row.turns)
+    .sort((a, b) => a - b);
+
+  const buckets = TURN_BUCKETS.map((bucket) => ({ label: bucket.label, sessions: 0 }));
+  for (const count of turns) {
+    buckets[TURN_BUCKETS.findIndex((bucket) => count <= bucket.max)].sessions++;
+  }
+
+  const total = turns.reduce((sum, count) => sum + count, 0);
+  return {
+    sessions: turns.length,
+    averageTurns: turns.length > 0 ? total / turns.length : 0,
+    medianTurns: turns.length > 0 ? turns[Math.floor(turns.length / 2)] : 0,
+    buckets,
+  };
+}
+
+export interface HourlyActivity {
+  hour: number;
+  messages: number;
+  prompts: number;
+}
+
+/** Messages and prompts per local hour of the day, all 24 hours. */
+export function getHourlyActivity(filter: StatsFilter): HourlyActivity[] {
+  const rows = queryAll<HourlyActivity>(
+    "SELECT a.hour AS hour, SUM(a.messages) AS messages, SUM(a.prompts) AS prompts",
+    filter,
+    "GROUP BY a.hour",
+  );
+  const byHour = new Map(rows.map((row) => [row.hour, row]));
+  return Array.from({ length: 24 }, (_, hour) => byHour.get(hour) ?? { hour, messages: 0, prompts: 0 });
+}
+
+export interface ToolCallTotals {
+  key: string;
+  calls: number;
+  errors: number;
+}
+
+export interface ToolStats extends ToolCallTotals {
+  sessions: number;
+  /** Characters of result text per result. */
+  averageOutputChars: number;
+  /** Null when no result had timestamps on both ends. */
+  averageResultMs: number | null;
+  sources: ToolCallTotals[];
+  models: ToolCallTotals[];
+  projects: ToolCallTotals[];
+}
+
+const TOOL_TOTALS = "SUM(a.calls) AS calls, SUM(a.errors) AS errors";
+
+/** Every tool by number of calls, each broken down by source, model and project. */
+export function getToolStats(filter: StatsFilter): ToolStats[] {
+  const tools = queryAll<ToolCallTotals & { sessions: number; outputChars: number; resultMs: number; timedResults: number }>(
+    `SELECT
+      a.tool AS key,
+      ${TOOL_TOTALS},
+      COUNT(DISTINCT ${SESSION_KEY}) AS sessions,
+      SUM(a.output_chars) AS outputChars,
+      SUM(a.result_ms) AS resultMs,
+      SUM(a.timed_results) AS timedResults`,
+    filter,
+    "GROUP BY a.tool ORDER BY calls DESC, a.tool",
+    "session_tool_calls",
+  );
+
+  const breakdown = (column: string) => {
+    const byTool = new Map<string, ToolCallTotals[]>();
+    const rows = queryAll<ToolCallTotals & { tool: string }>(
+      `SELECT a.tool AS tool, ${column} AS key, ${TOOL_TOTALS}`,
+      filter,
+      `GROUP BY a.tool, ${column} ORDER BY calls DESC`,
+      "session_tool_calls",
+    );
+    for (const { tool, ...totals } of rows) {
+      const list = byTool.get(tool) ?? [];
+      list.push(totals);
+      byTool.set(tool, list);
+    }
+    return byTool;
+  };
+  const sources = breakdown("a.source");
+  const models = breakdown("a.model");
+  const projects = breakdown("s.project");
+
+  return tools.map(({ outputChars, resultMs, timedResults, ...tool }) => ({
+    ...tool,
+    averageOutputChars: tool.calls > 0 ? Math.round(outputChars / tool.calls) : 0,
+    averageResultMs: timedResults > 0 ? Math.round(resultMs / timedResults) : null,
+    sources: sources.get(tool.key) ?? [],
+    models: models.get(tool.key) ?? [],
+    projects: projects.get(tool.key) ?? [],
+  }));
+}
+
+export interface ToolFailureSession {
+  sessionId: string;
+  source: string;
+  /** Unset for local sessions. */
+  machine?: string;
+  project: string;
+  calls: number;
+  errors: number;
+}
+
+/** Sessions with the most failed calls to `tool`. */
+export function getToolFailureSessions(tool: string, filter: StatsFilter, limit = 20): ToolFailureSession[] {
+  const db = getSearchDb();
+  if (!db) return [];
+  const { from, params } = activityQuery(filter, "session_tool_calls");
+  const rows = db
+    .query(
+      `SELECT a.session_id AS sessionId, a.source AS source, a.machine AS machine, s.project AS project, ${TOOL_TOTALS}
+      ${from} AND a.tool = ?
+      GROUP BY a.source, a.machine, a.session_id
+      HAVING errors > 0
+      ORDER BY errors DESC, calls DESC
+      LIMIT ?`,
+    )
+    .all(...params, tool, limit) as ToolFailureSession[];
+  return rows.map(({ machine, ...row }) => (machine ? { ...row, machine } : row));
+}
@@ -91,4 +91,30 @@ describe("dedupeSessionsByLatestTimestamp", () => {
       "claude:same-id",
     ]);
   });
+
+  test("keeps sessions with same id when machines differ", () => {
+    const sessions: Session[] = [
+      {
+        id: "same-id",
+        display: "local session",
+        timestamp: 5_000,
+        project: "/tmp",
+        projectName: "tmp",
+        source: "claude",
+      },
+      {
+        id: "same-id",
+        display: "laptop session",
+        timestamp: 6_000,
+        project: "/tmp",
+        projectName: "tmp",
+        source: "claude",
+        machine: "laptop",
+      },
+    ];
+
+    const deduped = dedupeSessionsByLatestTimestamp(sessions);
+
+    expect(deduped.map((s) => s.display)).toEqual(["laptop session", "local session"]);
+  });
 });
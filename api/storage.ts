@@ -1,9 +1,31 @@
-import { readdir, readFile, stat, open, unlink } from "fs/promises";
-import { join, basename } from "path";
-import { homedir } from "os";
-import { createInterface } from "readline";
-
-export type SessionSource = "claude" | "factory" | "codex" | "pi";
+import { unlink } from "fs/promises";
+import {
+  getSourceAdapter,
+  getSourceAdapters,
+  getSourceIds,
+  getSourceRoots,
+  findSourceRoot,
+  addMachineRoot,
+  resetSourceSettings,
+  setSourceEnabled,
+  setSourceRoot,
+  type SourceAdapter,
+  type SourceContext,
+  type SourceRoot,
+} from "./sources";
+import { deriveProvider, sanitizeForIndex } from "./sources/shared";
+import { readJsonlLines, setMaxLineBytes, DEFAULT_MAX_LINE_BYTES } from "./sources/jsonl";
+import { cachedFileMetadata } from "./metadata-cache";
+import { resolveConversationPath } from "./conversation-tree";
+import { isTaskTool } from "./task-tools";
+import { collectMessageUsage, summarizeUsage, type MessageUsage, type UsageRecord } from "./usage";
+
+export type { SourceInfo } from "./sources";
+export type { BranchPoint, ConversationBranch } from "./conversation-tree";
+export { getLastPiActivityTimestampFromEntries } from "./sources/pi";
+
+/** Id of a registered source adapter (see `api/sources`). */
+export type SessionSource = string;
 export type ModelConfidence = "explicit" | "derived" | "unknown";
 
 export interface HistoryEntry {
@@ -12,6 +34,8 @@ export interface HistoryEntry {
   project: string;
   sessionId?: string;
   source: SessionSource;
+  /** Label of the machine root the entry came from; undefined for the local root. */
+  machine?: string;
   modelProvider?: string;
   modelId?: string;
   modelConfidence?: ModelConfidence;
@@ -29,6 +53,7 @@ export interface Session {
   project: string;
   projectName: string;
   source: SessionSource;
+  machine?: string;
   latestModel?: SessionModelInfo;
   modelProvider?: string;
   modelId?: string;
@@ -36,11 +61,20 @@ export interface Session {
 }
 
 export interface ConversationMessage {
-  type: "user" | "assistant" | "summary" | "file-history-snapshot";
+  type: "user" | "assistant" | "summary" | "file-history-snapshot" | "compaction";
   uuid?: string;
-  parentUuid?: string;
+  /** Null marks the start of a conversation; unknown or missing parents follow the previous message. */
+  parentUuid?: string | null;
   timestamp?: string;
   sessionId?: string;
+  /** Claude: part of a subagent run rather than the main conversation. */
+  isSidechain?: boolean;
+  /** Claude: context injected by the agent rather than typed by the user. */
+  isMeta?: boolean;
+  /** Claude: the summary a compacted conversation continues from (follows its `compaction`). */
+  isCompactSummary?: boolean;
+  /** Claude: on a `tool_result` line, the line holding the tool call it answers. */
+  sourceToolAssistantUUID?: string;
   message?: {
     role: string;
     content: string | ContentBlock[];
@@ -51,6 +85,17 @@ export interface ConversationMessage {
     modelConfidence?: ModelConfidence;
   };
   summary?: string;
+  compaction?: CompactionInfo;
+}
+
+/** Where the agent's context was compacted, kept at its position in the conversation. */
+export interface CompactionInfo {
+  /** "auto" or "manual" when the source records it. */
+  trigger?: string;
+  /** Context size just before compacting. */
+  tokensBefore?: number;
+  /** The generated summary, when the source stores it on the event itself. */
+  summary?: string;
 }
 
 export interface ContentBlock {
@@ -78,45 +123,60 @@ export interface StreamResult {
   nextOffset: number;
 }
 
-let claudeDir = join(homedir(), ".claude");
-let factoryDir = join(homedir(), ".factory");
-let codexDir = join(homedir(), ".codex");
-let piDir = join(homedir(), ".pi", "agent");
+interface FileIndexEntry {
+  path: string;
+  source: SessionSource;
+  machine?: string;
+}
 
-const fileIndex = new Map<string, { path: string; source: SessionSource }>();
+const fileIndex = new Map<string, FileIndexEntry>();
 let historyCache: HistoryEntry[] | null = null;
 const pendingRequests = new Map<string, Promise<unknown>>();
 
-function sessionKey(sessionId: string, source: SessionSource): string {
-  return `${source}:${sessionId}`;
+function sessionKey(sessionId: string, source: SessionSource, machine?: string): string {
+  return machine ? `${source}@${machine}:${sessionId}` : `${source}:${sessionId}`;
 }
 
-function setFileIndexEntry(sessionId: string, filePath: string, source: SessionSource): void {
-  fileIndex.set(sessionKey(sessionId, source), { path: filePath, source });
+function setFileIndexEntry(sessionId: string, filePath: string, source: SessionSource, machine?: string): void {
+  fileIndex.set(sessionKey(sessionId, source, machine), { path: filePath, source, machine });
 }
 
-function getFileIndexEntry(sessionId: string, sourceHint?: SessionSource): { path: string; source: SessionSource } | undefined {
+function getFileIndexEntry(sessionId: string, sourceHint?: SessionSource, machine?: string): FileIndexEntry | undefined {
   if (sourceHint) {
-    return fileIndex.get(sessionKey(sessionId, sourceHint));
+    return fileIndex.get(sessionKey(sessionId, sourceHint, machine));
   }
 
-  for (const source of ["claude", "factory", "codex", "pi"] as const) {
-    const entry = fileIndex.get(sessionKey(sessionId, source));
+  for (const source of getSourceIds()) {
+    const entry = fileIndex.get(sessionKey(sessionId, source, machine));
     if (entry) return entry;
   }
 
   return undefined;
 }
 
-function deleteFileIndexEntry(sessionId: string, sourceHint?: SessionSource): void {
-  if (sourceHint) {
-    fileIndex.delete(sessionKey(sessionId, sourceHint));
-    return;
-  }
+function deleteFileIndexEntry(sessionId: string, source: SessionSource, machine?: string): void {
+  fileIndex.delete(sessionKey(sessionId, source, machine));
+}
 
-  for (const source of ["claude", "factory", "codex", "pi"] as const) {
-    fileIndex.delete(sessionKey(sessionId, source));
-  }
+function sourceContext(adapter: SourceAdapter, root: SourceRoot): SourceContext {
+  return {
+    root: root.path,
+    indexFile: (sessionId, filePath) => setFileIndexEntry(sessionId, filePath, adapter.id, root.machine),
+    lookupFile: (sessionId) => fileIndex.get(sessionKey(sessionId, adapter.id, root.machine))?.path,
+    cachedMetadata: cachedFileMetadata,
+  };
+}
+
+/** Context for the root a session lives under, or null when that machine is not configured. */
+function sessionContext(adapter: SourceAdapter, machine?: string): SourceContext | null {
+  const root = findSourceRoot(adapter.id, machine);
+  return root ? sourceContext(adapter, root) : null;
+}
+
+function forEachRoot<T>(fn: (adapter: SourceAdapter, root: SourceRoot) => Promise<T>): Promise<T[]> {
+  return Promise.all(
+    getSourceAdapters().flatMap((adapter) => getSourceRoots(adapter.id).map((root) => fn(adapter, root))),
+  );
 }
 
 export interface StorageInitOptions {
@@ -124,49 +184,54 @@ export interface StorageInitOptions {
   factoryDir?: string;
   codexDir?: string;
   piDir?: string;
+  /** Root per source id; for aider a `path.delimiter`-separated list of repo roots. */
+  sourceDirs?: Record<SessionSource, string>;
+  /** Extra labeled roots per source: machine label -> directory. */
+  machineDirs?: Record<SessionSource, Record<string, string>>;
+  disabledSources?: SessionSource[];
+  /** JSONL lines longer than this have their long strings truncated. */
+  maxLineBytes?: number;
 }
 
 export function initStorage(dirOrOptions?: string | StorageInitOptions): void {
-  if (typeof dirOrOptions === "string") {
-    claudeDir = dirOrOptions;
-    factoryDir = join(homedir(), ".factory");
-    codexDir = join(homedir(), ".codex");
-    piDir = join(homedir(), ".pi", "agent");
-  } else {
-    const options = dirOrOptions ?? {};
-    claudeDir = options.claudeDir ?? join(homedir(), ".claude");
-    factoryDir = options.factoryDir ?? join(homedir(), ".factory");
-    codexDir = options.codexDir ?? join(homedir(), ".codex");
-    piDir = options.piDir ?? join(homedir(), ".pi", "agent");
+  resetSourceSettings();
+
+  const options: StorageInitOptions =
+    typeof dirOrOptions === "string" ? { claudeDir: dirOrOptions } : dirOrOptions ?? {};
+
+  for (const [source, dir] of Object.entries(options.sourceDirs ?? {})) {
+    if (dir) setSourceRoot(source, dir);
   }
+  if (options.claudeDir) setSourceRoot("claude", options.claudeDir);
+  if (options.factoryDir) setSourceRoot("factory", options.factoryDir);
+  if (options.codexDir) setSourceRoot("codex", options.codexDir);
+  if (options.piDir) setSourceRoot("pi", options.piDir);
+  for (const [source, machines] of Object.entries(options.machineDirs ?? {})) {
+    for (const [machine, dir] of Object.entries(machines)) {
+      addMachineRoot(source, machine, dir);
+    }
+  }
+  for (const source of options.disabledSources ?? []) {
+    setSourceEnabled(source, false);
+  }
+  setMaxLineBytes(options.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES);
 
   fileIndex.clear();
   historyCache = null;
   pendingRequests.clear();
 }
 
-export function getClaudeDir(): string {
-  return claudeDir;
-}
-
-export function getFactoryDir(): string {
-  return factoryDir;
-}
-
-export function getCodexDir(): string {
-  return codexDir;
-}
-
-export function getPiDir(): string {
-  return piDir;
-}
-
 export function invalidateHistoryCache(): void {
   historyCache = null;
 }
 
-export function addToFileIndex(sessionId: string, filePath: string, source: SessionSource = "claude"): void {
-  setFileIndexEntry(sessionId, filePath, source);
+export function addToFileIndex(
+  sessionId: string,
+  filePath: string,
+  source: SessionSource = "claude",
+  machine?: string,
+): void {
+  setFileIndexEntry(sessionId, filePath, source, machine);
 }
 
 function getProjectName(projectPath: string): string {
@@ -174,967 +239,6 @@ function getProjectName(projectPath: string): string {
   return parts[parts.length - 1] || projectPath;
 }
 
-function encodeProjectPath(path: string): string {
-  return path.replace(/[/.]/g, "-");
-}
-
-function inferProviderFromModel(model?: string): string | undefined {
-  if (!model) return undefined;
-  const lower = model.toLowerCase();
-  if (lower.includes("claude")) return "anthropic";
-  if (lower.includes("gpt") || lower.includes("o1") || lower.includes("o3")) return "openai";
-  if (lower.includes("gemini")) return "google";
-  if (lower.includes("llama") || lower.includes("qwen") || lower.includes("mistral")) return "openrouter";
-  return undefined;
-}
-
-function normalizeModelId(value?: string): string | undefined {
-  if (!value || typeof value !== "string") return undefined;
-  const trimmed = value.trim();
-  if (!trimmed) return undefined;
-  return trimmed.replace(/^custom:/, "");
-}
-
-async function readFactorySettingsMeta(sessionFilePath: string): Promise<{
-  modelId?: string;
-  modelProvider?: string;
-  modelConfidence?: ModelConfidence;
-}> {
-  const settingsPath = sessionFilePath.replace(/\.jsonl$/, ".settings.json");
-
-  try {
-    const settings = JSON.parse(await readFile(settingsPath, "utf-8")) as Record<string, unknown>;
-    const modelId = normalizeModelId(typeof settings.model === "string" ? settings.model : undefined);
-    const modelProvider = typeof settings.providerLock === "string"
-      ? settings.providerLock
-      : inferProviderFromModel(modelId);
-
-    if (!modelId && !modelProvider) {
-      return {};
-    }
-
-    return {
-      modelId,
-      modelProvider,
-      modelConfidence: "derived",
-    };
-  } catch {
-    return {};
-  }
-}
-
-function toText(value: unknown): string {
-  if (typeof value === "string") return value;
-  if (value === null || value === undefined) return "";
-  if (Array.isArray(value)) {
-    return value.map((v) => toText(v)).filter(Boolean).join("\n");
-  }
-  if (typeof value === "object") {
-    const obj = value as Record<string, unknown>;
-    if (typeof obj.text === "string") return obj.text;
-    if (typeof obj.content === "string") return obj.content;
-  }
-  return "";
-}
-
-function firstTextFromContent(content: unknown): string {
-  if (typeof content === "string") return content;
-  if (Array.isArray(content)) {
-    for (const item of content) {
-      if (typeof item === "string") {
-        if (item.trim()) return item;
-        continue;
-      }
-      if (item && typeof item === "object") {
-        const block = item as Record<string, unknown>;
-        const text = typeof block.text === "string" ? block.text : toText(block.content);
-        if (text.trim()) return text;
-      }
-    }
-  }
-  return "";
-}
-
-function cleanTitle(text: string, fallback: string): string {
-  const cleaned = sanitizeForIndex(text)
-    .replace(/\s+/g, " ")
-    .trim();
-  if (!cleaned) return fallback;
-  return cleaned.slice(0, 200);
-}
-
-function parseTimestampValue(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value < 1e12 ? value * 1000 : value;
-  }
-  if (typeof value === "string") {
-    const asNum = Number(value);
-    if (!Number.isNaN(asNum)) {
-      return asNum < 1e12 ? asNum * 1000 : asNum;
-    }
-    const parsed = Date.parse(value);
-    if (!Number.isNaN(parsed)) return parsed;
-  }
-  return null;
-}
-
-export function getLastPiActivityTimestampFromEntries(entries: Array<Record<string, unknown>>): number {
-  let latest = 0;
-
-  for (const entry of entries) {
-    const entryTs = parseTimestampValue(entry.timestamp);
-    if (entryTs && entryTs > latest) latest = entryTs;
-
-    const message = entry.message;
-    if (message && typeof message === "object") {
-      const msgTs = parseTimestampValue((message as Record<string, unknown>).timestamp);
-      if (msgTs && msgTs > latest) latest = msgTs;
-    }
-  }
-
-  return latest;
-}
-
-// --- Claude loader ---
-
-async function buildClaudeFileIndex(): Promise<void> {
-  const projectsDir = join(claudeDir, "projects");
-  try {
-    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
-    const directories = projectDirs.filter((d) => d.isDirectory());
-    await Promise.all(
-      directories.map(async (dir) => {
-        try {
-          const projectPath = join(projectsDir, dir.name);
-          const files = await readdir(projectPath);
-          for (const file of files) {
-            if (file.endsWith(".jsonl")) {
-              const sessionId = basename(file, ".jsonl");
-              setFileIndexEntry(sessionId, join(projectPath, file), "claude");
-            }
-          }
-        } catch { /* ignore */ }
-      })
-    );
-  } catch { /* projects dir may not exist */ }
-}
-
-async function loadClaudeHistory(): Promise<HistoryEntry[]> {
-  try {
-    const historyPath = join(claudeDir, "history.jsonl");
-    const content = await readFile(historyPath, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    const entries: HistoryEntry[] = [];
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        entries.push({
-          ...parsed,
-          source: "claude" as SessionSource,
-          modelId: typeof parsed.model === "string" ? parsed.model : undefined,
-          modelProvider:
-            typeof parsed.provider === "string"
-              ? parsed.provider
-              : inferProviderFromModel(typeof parsed.model === "string" ? parsed.model : undefined),
-          modelConfidence:
-            typeof parsed.model === "string" || typeof parsed.provider === "string"
-              ? "explicit"
-              : undefined,
-        });
-      } catch { /* skip malformed */ }
-    }
-    return entries;
-  } catch {
-    return [];
-  }
-}
-
-async function findClaudeSessionByTimestamp(
-  encodedProject: string,
-  timestamp: number
-): Promise<string | undefined> {
-  try {
-    const projectsDir = join(claudeDir, "projects");
-    const projectPath = join(projectsDir, encodedProject);
-    const files = await readdir(projectPath);
-    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
-    const fileStats = await Promise.all(
-      jsonlFiles.map(async (file) => {
-        const filePath = join(projectPath, file);
-        const fileStat = await stat(filePath);
-        return { file, mtime: fileStat.mtimeMs };
-      })
-    );
-    let closestFile: string | null = null;
-    let closestTimeDiff = Infinity;
-    for (const { file, mtime } of fileStats) {
-      const timeDiff = Math.abs(mtime - timestamp);
-      if (timeDiff < closestTimeDiff) {
-        closestTimeDiff = timeDiff;
-        closestFile = file;
-      }
-    }
-    if (closestFile) return basename(closestFile, ".jsonl");
-  } catch { /* ignore */ }
-  return undefined;
-}
-
-// --- Factory loader ---
-
-async function buildFactoryFileIndex(): Promise<void> {
-  const sessionsDir = join(factoryDir, "sessions");
-  try {
-    const entries = await readdir(sessionsDir, { withFileTypes: true });
-    const directories = entries.filter((d) => d.isDirectory());
-    await Promise.all(
-      directories.map(async (dir) => {
-        try {
-          const projectPath = join(sessionsDir, dir.name);
-          const files = await readdir(projectPath);
-          for (const file of files) {
-            if (file.endsWith(".jsonl")) {
-              const sessionId = basename(file, ".jsonl");
-              setFileIndexEntry(sessionId, join(projectPath, file), "factory");
-            }
-          }
-        } catch { /* ignore */ }
-      })
-    );
-  } catch { /* sessions dir may not exist */ }
-}
-
-async function loadFactoryHistory(): Promise<HistoryEntry[]> {
-  const sessionsDir = join(factoryDir, "sessions");
-  const entries: HistoryEntry[] = [];
-  try {
-    const projDirs = await readdir(sessionsDir, { withFileTypes: true });
-    const directories = projDirs.filter((d) => d.isDirectory());
-    await Promise.all(
-      directories.map(async (dir) => {
-        try {
-          const projectPath = join(sessionsDir, dir.name);
-          const files = await readdir(projectPath);
-          for (const file of files) {
-            if (!file.endsWith(".jsonl")) continue;
-            const filePath = join(projectPath, file);
-            try {
-              const content = await readFile(filePath, "utf-8");
-              const firstLine = content.split("\n")[0];
-              if (!firstLine) continue;
-              const parsed = JSON.parse(firstLine);
-              if (parsed.type !== "session_start") continue;
-              const fileStat = await stat(filePath);
-              const cwd = parsed.cwd || dir.name.replace(/-/g, "/");
-              const settingsMeta = await readFactorySettingsMeta(filePath);
-              entries.push({
-                display: parsed.sessionTitle || parsed.title || "Factory Session",
-                timestamp: fileStat.mtimeMs,
-                project: cwd,
-                sessionId: parsed.id || basename(file, ".jsonl"),
-                source: "factory",
-                modelProvider: settingsMeta.modelProvider,
-                modelId: settingsMeta.modelId,
-                modelConfidence: settingsMeta.modelConfidence,
-              });
-            } catch { /* skip malformed */ }
-          }
-        } catch { /* ignore */ }
-      })
-    );
-  } catch { /* sessions dir may not exist */ }
-  return entries;
-}
-
-async function getFactoryConversation(sessionId: string): Promise<ConversationMessage[]> {
-  const entry = getFileIndexEntry(sessionId, "factory");
-  if (!entry) {
-    const filePath = await findFactorySessionFile(sessionId);
-    if (!filePath) return [];
-    return parseFactorySession(filePath);
-  }
-  return parseFactorySession(entry.path);
-}
-
-async function findFactorySessionFile(sessionId: string): Promise<string | null> {
-  const sessionsDir = join(factoryDir, "sessions");
-  const targetFile = `${sessionId}.jsonl`;
-  try {
-    const projDirs = await readdir(sessionsDir, { withFileTypes: true });
-    for (const dir of projDirs) {
-      if (!dir.isDirectory()) continue;
-      const projectPath = join(sessionsDir, dir.name);
-      const files = await readdir(projectPath);
-      if (files.includes(targetFile)) {
-        return join(projectPath, targetFile);
-      }
-    }
-  } catch { /* ignore */ }
-  return null;
-}
-
-async function parseFactorySession(filePath: string): Promise<ConversationMessage[]> {
-  const messages: ConversationMessage[] = [];
-  let derivedModel: string | undefined;
-  const settingsMeta = await readFactorySettingsMeta(filePath);
-
-  try {
-    const content = await readFile(filePath, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        if (parsed.type === "message" && parsed.message) {
-          const role = parsed.message.role;
-          if (role !== "user" && role !== "assistant") continue;
-
-          const firstText = firstTextFromContent(parsed.message.content);
-          const modelMatch = firstText.match(/\bModel:\s*([^\n\r]+)/i);
-          if (!derivedModel && modelMatch) {
-            derivedModel = normalizeModelId(modelMatch[1]?.trim());
-          }
-
-          const explicitModel = normalizeModelId(typeof parsed.message.model === "string" ? parsed.message.model : undefined);
-          const model = explicitModel || derivedModel || (role === "assistant" ? settingsMeta.modelId : undefined);
-          const provider =
-            typeof parsed.message.provider === "string"
-              ? parsed.message.provider
-              : inferProviderFromModel(model) || (role === "assistant" ? settingsMeta.modelProvider : undefined);
-
-          let modelConfidence: ModelConfidence = "unknown";
-          if (explicitModel) modelConfidence = "explicit";
-          else if (derivedModel) modelConfidence = "derived";
-          else if (model) modelConfidence = settingsMeta.modelConfidence || "derived";
-
-          messages.push({
-            type: role,
-            uuid: parsed.id,
-            timestamp: parsed.timestamp,
-            message: {
-              role,
-              content: parsed.message.content,
-              model,
-              provider,
-              usage: parsed.message.usage as TokenUsage | undefined,
-              modelConfidence,
-            },
-          });
-        }
-      } catch { /* skip */ }
-    }
-  } catch { /* ignore */ }
-  return messages;
-}
-
-// --- Codex loader ---
-
-async function buildCodexFileIndex(): Promise<void> {
-  const sessionsDir = join(codexDir, "sessions");
-  try {
-    await walkCodexSessions(sessionsDir, (sessionId, filePath) => {
-      setFileIndexEntry(sessionId, filePath, "codex");
-    });
-  } catch { /* sessions dir may not exist */ }
-}
-
-async function walkCodexSessions(
-  dir: string,
-  callback: (sessionId: string, filePath: string) => void
-): Promise<void> {
-  const entries = await readdir(dir, { withFileTypes: true });
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    if (entry.isDirectory()) {
-      await walkCodexSessions(fullPath, callback);
-    } else if (entry.name.endsWith(".jsonl")) {
-      const match = entry.name.match(/([0-9a-f]{4,}-[0-9a-f-]+)\.jsonl$/);
-      if (match) {
-        callback(match[1], fullPath);
-      }
-    }
-  }
-}
-
-async function loadCodexHistory(): Promise<HistoryEntry[]> {
-  try {
-    const historyPath = join(codexDir, "history.jsonl");
-    const content = await readFile(historyPath, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    const latestEntriesBySession = new Map<string, HistoryEntry>();
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        const sessionId = parsed.session_id;
-        if (!sessionId) continue;
-        const ts = typeof parsed.ts === "string" ? parseInt(parsed.ts, 10) : parsed.ts;
-        const timestamp = ts < 1e12 ? ts * 1000 : ts;
-        const nextEntry: HistoryEntry = {
-          display: (parsed.text || "Codex Session").slice(0, 200),
-          timestamp,
-          project: "",
-          sessionId,
-          source: "codex",
-        };
-
-        const existing = latestEntriesBySession.get(sessionId);
-        if (!existing || nextEntry.timestamp > existing.timestamp) {
-          latestEntriesBySession.set(sessionId, nextEntry);
-        }
-      } catch { /* skip */ }
-    }
-    return Array.from(latestEntriesBySession.values());
-  } catch {
-    return [];
-  }
-}
-
-async function enrichCodexEntries(entries: HistoryEntry[]): Promise<void> {
-  for (const entry of entries) {
-    if (entry.source !== "codex" || !entry.sessionId) continue;
-    const indexed = getFileIndexEntry(entry.sessionId, "codex");
-    if (!indexed) continue;
-    try {
-      const content = await readFile(indexed.path, "utf-8");
-      const lines = content.split("\n").filter(Boolean);
-      for (const line of lines) {
-        try {
-          const parsed = JSON.parse(line);
-          if (parsed.type === "session_meta" && parsed.payload) {
-            entry.project = parsed.payload.cwd || entry.project || "";
-            if (!entry.modelProvider && parsed.payload.model_provider) {
-              entry.modelProvider = parsed.payload.model_provider;
-            }
-          }
-
-          if (parsed.type === "turn_context" && parsed.payload?.model && !entry.modelId) {
-            entry.modelId = parsed.payload.model;
-          }
-
-          if (entry.project && entry.modelProvider && entry.modelId) {
-            entry.modelConfidence = "derived";
-            break;
-          }
-        } catch {
-          // skip malformed
-        }
-      }
-
-      if (!entry.modelConfidence) {
-        entry.modelConfidence = entry.modelProvider || entry.modelId ? "derived" : "unknown";
-      }
-    } catch { /* ignore */ }
-  }
-}
-
-async function findCodexSessionFile(sessionId: string): Promise<string | null> {
-  const indexed = getFileIndexEntry(sessionId, "codex");
-  if (indexed) {
-    return indexed.path;
-  }
-
-  const sessionsDir = join(codexDir, "sessions");
-  try {
-    let foundPath: string | null = null;
-    await walkCodexSessions(sessionsDir, (id, filePath) => {
-      if (!foundPath && id === sessionId) {
-        foundPath = filePath;
-      }
-    });
-
-    if (foundPath) {
-      setFileIndexEntry(sessionId, foundPath, "codex");
-    }
-
-    return foundPath;
-  } catch {
-    return null;
-  }
-}
-
-async function getCodexConversation(sessionId: string): Promise<ConversationMessage[]> {
-  const filePath = await findCodexSessionFile(sessionId);
-  if (!filePath) {
-    return [];
-  }
-  return parseCodexSession(filePath);
-}
-
-async function parseCodexSession(filePath: string): Promise<ConversationMessage[]> {
-  const messages: ConversationMessage[] = [];
-  let currentModel: string | undefined;
-  let currentProvider: string | undefined;
-
-  try {
-    const content = await readFile(filePath, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-
-        if (parsed.type === "session_meta" && parsed.payload) {
-          currentProvider = parsed.payload.model_provider || currentProvider;
-          continue;
-        }
-
-        if (parsed.type === "turn_context" && parsed.payload) {
-          currentModel = parsed.payload.model || currentModel;
-          continue;
-        }
-
-        if (parsed.type === "response_item" && parsed.payload) {
-          const { role, content: payloadContent } = parsed.payload;
-          if (role === "user") {
-            const textParts = (payloadContent || [])
-              .filter((c: { type: string }) => c.type === "input_text")
-              .map((c: { text: string }) => c.text || "");
-            if (textParts.length > 0) {
-              messages.push({
-                type: "user",
-                uuid: `codex-${messages.length}`,
-                timestamp: parsed.timestamp,
-                message: {
-                  role: "user",
-                  content: textParts.join("\n"),
-                  model: currentModel,
-                  provider: currentProvider,
-                  modelConfidence: currentModel || currentProvider ? "derived" : "unknown",
-                },
-              });
-            }
-          } else if (role === "assistant") {
-            const textParts = (payloadContent || [])
-              .filter((c: { type: string }) => c.type === "output_text")
-              .map((c: { text: string }) => c.text || "");
-            if (textParts.length > 0) {
-              messages.push({
-                type: "assistant",
-                uuid: `codex-${messages.length}`,
-                timestamp: parsed.timestamp,
-                message: {
-                  role: "assistant",
-                  content: textParts.join("\n"),
-                  model: currentModel,
-                  provider: currentProvider,
-                  modelConfidence: currentModel || currentProvider ? "derived" : "unknown",
-                },
-              });
-            }
-          }
-        } else if (parsed.type === "function_call") {
-          const payload = parsed.payload || {};
-          messages.push({
-            type: "assistant",
-            uuid: `codex-fc-${messages.length}`,
-            timestamp: parsed.timestamp,
-            message: {
-              role: "assistant",
-              model: currentModel,
-              provider: currentProvider,
-              modelConfidence: currentModel || currentProvider ? "derived" : "unknown",
-              content: [
-                {
-                  type: "tool_use",
-                  id: payload.call_id || payload.id,
-                  name: payload.name || payload.type || "function_call",
-                  input: payload.arguments ? JSON.parse(payload.arguments) : {},
-                },
-              ],
-            },
-          });
-        } else if (parsed.type === "function_call_output") {
-          const payload = parsed.payload || {};
-          messages.push({
-            type: "assistant",
-            uuid: `codex-fco-${messages.length}`,
-            timestamp: parsed.timestamp,
-            message: {
-              role: "assistant",
-              model: currentModel,
-              provider: currentProvider,
-              modelConfidence: currentModel || currentProvider ? "derived" : "unknown",
-              content: [
-                {
-                  type: "tool_result",
-                  tool_use_id: payload.call_id,
-                  content: payload.output || "",
-                },
-              ],
-            },
-          });
-        } else if (parsed.type === "reasoning") {
-          const payload = parsed.payload || {};
-          if (payload.text) {
-            messages.push({
-              type: "assistant",
-              uuid: `codex-r-${messages.length}`,
-              timestamp: parsed.timestamp,
-              message: {
-                role: "assistant",
-                model: currentModel,
-                provider: currentProvider,
-                modelConfidence: currentModel || currentProvider ? "derived" : "unknown",
-                content: [
-                  {
-                    type: "thinking",
-                    thinking: payload.text,
-                  },
-                ],
-              },
-            });
-          }
-        }
-      } catch { /* skip */ }
-    }
-  } catch { /* ignore */ }
-  return messages;
-}
-
-// --- Pi loader ---
-
-function parsePiSessionIdFromFilename(fileName: string): string {
-  const withoutExt = basename(fileName, ".jsonl");
-  const match = withoutExt.match(/_([0-9a-f-]{8,})$/i);
-  return match ? match[1] : withoutExt;
-}
-
-async function walkPiSessions(
-  dir: string,
-  callback: (filePath: string, fileName: string) => Promise<void> | void,
-): Promise<void> {
-  const entries = await readdir(dir, { withFileTypes: true });
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    if (entry.isDirectory()) {
-      await walkPiSessions(fullPath, callback);
-    } else if (entry.name.endsWith(".jsonl")) {
-      await callback(fullPath, entry.name);
-    }
-  }
-}
-
-async function buildPiFileIndex(): Promise<void> {
-  const sessionsDir = join(piDir, "sessions");
-  try {
-    await walkPiSessions(sessionsDir, (filePath, fileName) => {
-      const sessionId = parsePiSessionIdFromFilename(fileName);
-      setFileIndexEntry(sessionId, filePath, "pi");
-    });
-  } catch {
-    // sessions dir may not exist
-  }
-}
-
-async function loadPiHistory(): Promise<HistoryEntry[]> {
-  const sessionsDir = join(piDir, "sessions");
-  const entries: HistoryEntry[] = [];
-
-  try {
-    await walkPiSessions(sessionsDir, async (filePath, fileName) => {
-      const fallbackSessionId = parsePiSessionIdFromFilename(fileName);
-      let sessionId = fallbackSessionId;
-      let timestamp = 0;
-      let project = "";
-      let display = "Pi Session";
-      let modelProvider: string | undefined;
-      let modelId: string | undefined;
-      let modelConfidence: ModelConfidence = "unknown";
-
-      try {
-        const content = await readFile(filePath, "utf-8");
-        const lines = content.split("\n").filter(Boolean);
-        const parsedEntries: Array<Record<string, unknown>> = [];
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            if (!parsed || typeof parsed !== "object") continue;
-            const parsedRecord = parsed as Record<string, unknown>;
-            parsedEntries.push(parsedRecord);
-
-            if (parsedRecord.type === "session") {
-              if (typeof parsedRecord.id === "string") sessionId = parsedRecord.id;
-              const ts = parseTimestampValue(parsedRecord.timestamp);
-              if (ts) timestamp = ts;
-              if (typeof parsedRecord.cwd === "string") project = parsedRecord.cwd;
-            }
-
-            if (!modelId && parsedRecord.type === "model_change") {
-              const provider = parsedRecord.provider;
-              const mid = parsedRecord.modelId;
-              modelProvider = typeof provider === "string" ? provider : modelProvider;
-              modelId = typeof mid === "string" ? mid : modelId;
-              if (modelId || modelProvider) modelConfidence = "explicit";
-            }
-
-            const parsedMessage = parsedRecord.message;
-            if (parsedRecord.type === "message" && parsedMessage && typeof parsedMessage === "object") {
-              const msg = parsedMessage as Record<string, unknown>;
-              const role = msg.role;
-
-              if (!display || display === "Pi Session") {
-                if (role === "user") {
-                  display = cleanTitle(firstTextFromContent(msg.content), "Pi Session");
-                } else if (role === "assistant") {
-                  display = cleanTitle(firstTextFromContent(msg.content), "Pi Session");
-                }
-              }
-
-              if (!modelId && role === "assistant") {
-                if (typeof msg.provider === "string") {
-                  modelProvider = msg.provider;
-                }
-                if (typeof msg.model === "string") {
-                  modelId = msg.model;
-                }
-                if ((modelProvider || modelId) && modelConfidence !== "explicit") {
-                  modelConfidence = "derived";
-                }
-              }
-            }
-
-          } catch {
-            // skip malformed line
-          }
-        }
-
-        const latestActivityTs = getLastPiActivityTimestampFromEntries(parsedEntries);
-        if (latestActivityTs > timestamp) {
-          timestamp = latestActivityTs;
-        }
-      } catch {
-        // ignore per-file parse failure
-      }
-
-      if (!timestamp) {
-        try {
-          timestamp = (await stat(filePath)).mtimeMs;
-        } catch {
-          timestamp = Date.now();
-        }
-      }
-
-      setFileIndexEntry(sessionId, filePath, "pi");
-
-      entries.push({
-        display,
-        timestamp,
-        project,
-        sessionId,
-        source: "pi",
-        modelProvider,
-        modelId,
-        modelConfidence,
-      });
-    });
-  } catch {
-    return [];
-  }
-
-  return entries;
-}
-
-async function findPiSessionFile(sessionId: string): Promise<string | null> {
-  const sessionsDir = join(piDir, "sessions");
-  try {
-    let found: string | null = null;
-    await walkPiSessions(sessionsDir, async (filePath, fileName) => {
-      if (found) return;
-      const id = parsePiSessionIdFromFilename(fileName);
-      if (id === sessionId) {
-        found = filePath;
-      }
-    });
-    return found;
-  } catch {
-    return null;
-  }
-}
-
-function mapPiContent(content: unknown): string | ContentBlock[] {
-  if (typeof content === "string") return content;
-  if (!Array.isArray(content)) return toText(content);
-
-  const blocks: ContentBlock[] = [];
-
-  for (const item of content) {
-    if (!item || typeof item !== "object") {
-      const text = toText(item);
-      if (text) blocks.push({ type: "text", text });
-      continue;
-    }
-
-    const block = item as Record<string, unknown>;
-    const type = block.type;
-
-    if (type === "text") {
-      const text = typeof block.text === "string" ? block.text : toText(block.content);
-      if (text) blocks.push({ type: "text", text });
-      continue;
-    }
-
-    if (type === "thinking") {
-      const thinking = typeof block.thinking === "string" ? block.thinking : toText(block.text);
-      if (thinking) blocks.push({ type: "thinking", thinking });
-      continue;
-    }
-
-    if (type === "toolCall") {
-      blocks.push({
-        type: "tool_use",
-        id: typeof block.id === "string" ? block.id : undefined,
-        name: typeof block.name === "string" ? block.name : "tool",
-        input: block.arguments ?? block.input ?? {},
-      });
-      continue;
-    }
-
-    const text = toText(block);
-    if (text) {
-      blocks.push({ type: "text", text });
-    }
-  }
-
-  return blocks.length > 0 ? blocks : "";
-}
-
-async function parsePiSession(filePath: string): Promise<ConversationMessage[]> {
-  const messages: ConversationMessage[] = [];
-  let currentProvider: string | undefined;
-  let currentModel: string | undefined;
-
-  try {
-    const content = await readFile(filePath, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-
-        if (parsed.type === "model_change") {
-          currentProvider = parsed.provider || currentProvider;
-          currentModel = parsed.modelId || currentModel;
-          continue;
-        }
-
-        if (parsed.type !== "message" || !parsed.message) continue;
-
-        const role = parsed.message.role;
-
-        if (role === "user" || role === "assistant") {
-          const explicitProvider = typeof parsed.message.provider === "string" ? parsed.message.provider : undefined;
-          const explicitModel = typeof parsed.message.model === "string" ? parsed.message.model : undefined;
-
-          const provider = explicitProvider || currentProvider;
-          const model = explicitModel || currentModel;
-
-          if (explicitProvider) currentProvider = explicitProvider;
-          if (explicitModel) currentModel = explicitModel;
-
-          messages.push({
-            type: role,
-            uuid: parsed.id,
-            timestamp: parsed.timestamp,
-            message: {
-              role,
-              content: mapPiContent(parsed.message.content),
-              provider,
-              model,
-              api: typeof parsed.message.api === "string" ? parsed.message.api : undefined,
-              usage: parsed.message.usage as TokenUsage | undefined,
-              modelConfidence: explicitProvider || explicitModel ? "explicit" : provider || model ? "derived" : "unknown",
-            },
-          });
-          continue;
-        }
-
-        if (role === "toolResult") {
-          messages.push({
-            type: "assistant",
-            uuid: parsed.id,
-            timestamp: parsed.timestamp,
-            message: {
-              role: "assistant",
-              provider: currentProvider,
-              model: currentModel,
-              modelConfidence: currentProvider || currentModel ? "derived" : "unknown",
-              content: [
-                {
-                  type: "tool_result",
-                  tool_use_id: parsed.message.toolCallId,
-                  content: toText(parsed.message.content),
-                  is_error: !!parsed.message.isError,
-                },
-              ],
-            },
-          });
-          continue;
-        }
-
-        if (role === "bashExecution") {
-          const summary = [parsed.message.command, parsed.message.output]
-            .filter((v: unknown) => typeof v === "string" && v.length > 0)
-            .join("\n\n");
-
-          messages.push({
-            type: "assistant",
-            uuid: parsed.id,
-            timestamp: parsed.timestamp,
-            message: {
-              role: "assistant",
-              provider: currentProvider,
-              model: currentModel,
-              modelConfidence: currentProvider || currentModel ? "derived" : "unknown",
-              content: [
-                {
-                  type: "tool_result",
-                  content: summary,
-                  is_error: parsed.message.exitCode ? parsed.message.exitCode !== 0 : false,
-                },
-              ],
-            },
-          });
-          continue;
-        }
-
-        if (role === "custom" && parsed.message.display !== false) {
-          const customText = toText(parsed.message.content);
-          if (customText) {
-            messages.push({
-              type: "assistant",
-              uuid: parsed.id,
-              timestamp: parsed.timestamp,
-              message: {
-                role: "assistant",
-                provider: currentProvider,
-                model: currentModel,
-                modelConfidence: currentProvider || currentModel ? "derived" : "unknown",
-                content: customText,
-              },
-            });
-          }
-        }
-      } catch {
-        // skip malformed line
-      }
-    }
-  } catch {
-    return [];
-  }
-
-  return messages;
-}
-
-async function getPiConversation(sessionId: string): Promise<ConversationMessage[]> {
-  const entry = getFileIndexEntry(sessionId, "pi");
-  if (entry) {
-    return parsePiSession(entry.path);
-  }
-
-  const filePath = await findPiSessionFile(sessionId);
-  if (!filePath) return [];
-
-  return parsePiSession(filePath);
-}
-
 // --- Unified API ---
 
 async function dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
@@ -1145,45 +249,15 @@ async function dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
   return promise;
 }
 
-async function findClaudeSessionFile(sessionId: string): Promise<string | null> {
-  const entry = getFileIndexEntry(sessionId, "claude");
-  if (entry) return entry.path;
-
-  const targetFile = `${sessionId}.jsonl`;
-  const projectsDir = join(claudeDir, "projects");
-  try {
-    const projectDirs = await readdir(projectsDir, { withFileTypes: true });
-    const directories = projectDirs.filter((d) => d.isDirectory());
-    const results = await Promise.all(
-      directories.map(async (dir) => {
-        try {
-          const projectPath = join(projectsDir, dir.name);
-          const files = await readdir(projectPath);
-          if (files.includes(targetFile)) {
-            return join(projectPath, targetFile);
-          }
-        } catch { /* ignore */ }
-        return null;
-      })
-    );
-    const filePath = results.find((r) => r !== null);
-    if (filePath) {
-      setFileIndexEntry(sessionId, filePath, "claude");
-      return filePath;
-    }
-  } catch { /* ignore */ }
-  return null;
-}
-
 async function loadAllHistory(): Promise<HistoryEntry[]> {
-  const [claudeEntries, factoryEntries, codexEntries, piEntries] = await Promise.all([
-    loadClaudeHistory(),
-    loadFactoryHistory(),
-    loadCodexHistory(),
-    loadPiHistory(),
-  ]);
-  await enrichCodexEntries(codexEntries);
-  const allEntries = [...claudeEntries, ...factoryEntries, ...codexEntries, ...piEntries];
+  const perRoot = await forEachRoot(async (adapter, root) => {
+    const entries = await adapter.listHistory(sourceContext(adapter, root));
+    if (root.machine) {
+      for (const entry of entries) entry.machine = root.machine;
+    }
+    return entries;
+  });
+  const allEntries = perRoot.flat();
   historyCache = allEntries;
   return allEntries;
 }
@@ -1192,7 +266,7 @@ export function dedupeSessionsByLatestTimestamp(sessions: Session[]): Session[]
   const latestBySessionKey = new Map<string, Session>();
 
   for (const session of sessions) {
-    const key = sessionKey(session.id, session.source);
+    const key = sessionKey(session.id, session.source, session.machine);
     const existing = latestBySessionKey.get(key);
     if (!existing || session.timestamp > existing.timestamp) {
       latestBySessionKey.set(key, session);
@@ -1203,12 +277,7 @@ export function dedupeSessionsByLatestTimestamp(sessions: Session[]): Session[]
 }
 
 export async function loadStorage(): Promise<void> {
-  await Promise.all([
-    buildClaudeFileIndex(),
-    buildFactoryFileIndex(),
-    buildCodexFileIndex(),
-    buildPiFileIndex(),
-  ]);
+  await forEachRoot((adapter, root) => adapter.discover(sourceContext(adapter, root)));
   await loadAllHistory();
 }
 
@@ -1218,13 +287,7 @@ export async function getSessions(): Promise<Session[]> {
     const sessions: Session[] = [];
 
     for (const entry of entries) {
-      let sessionId = entry.sessionId;
-
-      if (!sessionId && entry.source === "claude") {
-        const encodedProject = encodeProjectPath(entry.project);
-        sessionId = await findClaudeSessionByTimestamp(encodedProject, entry.timestamp);
-      }
-
+      const sessionId = entry.sessionId;
       if (!sessionId) continue;
 
       sessions.push({
@@ -1234,6 +297,7 @@ export async function getSessions(): Promise<Session[]> {
         project: entry.project,
         projectName: getProjectName(entry.project),
         source: entry.source,
+        ...(entry.machine && { machine: entry.machine }),
         modelProvider: entry.modelProvider,
         modelId: entry.modelId,
         modelConfidence: entry.modelConfidence,
@@ -1262,127 +326,143 @@ export async function getProjects(): Promise<string[]> {
     .map(([project]) => project);
 }
 
-export async function getConversation(sessionId: string, sourceHint?: SessionSource): Promise<ConversationMessage[]> {
-  const dedupeKey = sourceHint ? `getConversation:${sourceHint}:${sessionId}` : `getConversation:${sessionId}`;
-  return dedupe(dedupeKey, async () => {
-    const entry = getFileIndexEntry(sessionId, sourceHint);
-    const source = sourceHint ?? entry?.source;
-
-    if (source === "factory") {
-      return getFactoryConversation(sessionId);
-    }
-    if (source === "codex") {
-      return getCodexConversation(sessionId);
-    }
-    if (source === "pi") {
-      return getPiConversation(sessionId);
-    }
-
-    // Default: Claude
-    const filePath = await findClaudeSessionFile(sessionId);
+/** Every message in the session file, in file order, across all branches. */
+export function getConversationMessages(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<ConversationMessage[]> {
+  const scope = sourceHint ? sessionKey(sessionId, sourceHint, machine) : sessionId;
+  return dedupe(`getConversation:${scope}`, async () => {
+    const entry = getFileIndexEntry(sessionId, sourceHint, machine);
+    const adapter = getSourceAdapter(sourceHint ?? entry?.source ?? "claude");
+    const ctx = adapter && sessionContext(adapter, machine);
+    if (!adapter || !ctx) return [];
+
+    const filePath = await adapter.resolveFile(ctx, sessionId);
     if (!filePath) return [];
 
-    const messages: ConversationMessage[] = [];
-    try {
-      const content = await readFile(filePath, "utf-8");
-      const lines = content.trim().split("\n").filter(Boolean);
-      for (const line of lines) {
-        try {
-          const msg: ConversationMessage = JSON.parse(line);
-          if (msg.type === "user" || msg.type === "assistant") {
-            if (msg.type === "assistant" && msg.message) {
-              const model = msg.message.model;
-              const provider = msg.message.provider || inferProviderFromModel(model);
-              msg.message.provider = provider;
-              msg.message.modelConfidence = model || provider ? "explicit" : "unknown";
-            }
-            messages.push(msg);
-          } else if (msg.type === "summary") {
-            messages.unshift(msg);
-          }
-        } catch { /* skip */ }
-      }
-    } catch { /* ignore */ }
-    return messages;
+    return adapter.parse(filePath, sessionId);
   });
 }
 
+/**
+ * The conversation along one branch: the most recent one by default, or the
+ * one continuing from message `branch` (see `resolveConversationPath`).
+ */
+export async function getConversation(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+  branch?: string,
+): Promise<ConversationMessage[]> {
+  const messages = await getConversationMessages(sessionId, sourceHint, machine);
+  return resolveConversationPath(messages, branch).messages;
+}
+
+/** Token usage across every branch of a session and its subagent runs, summed per day and model. */
+export async function getSessionUsage(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<UsageRecord[]> {
+  const entry = getFileIndexEntry(sessionId, sourceHint, machine);
+  const adapter = getSourceAdapter(sourceHint ?? entry?.source ?? "claude");
+  const ctx = adapter && sessionContext(adapter, machine);
+  if (!adapter || !ctx) return [];
+
+  const filePath = await adapter.resolveFile(ctx, sessionId);
+  if (!filePath) return [];
+
+  // Keyed by session too: some sources keep several sessions in one file.
+  // Subagent runs count toward the session that started them.
+  return cachedFileMetadata(
+    filePath,
+    async () => summarizeUsage(collectMessageUsage(await getConversationWithSubagents(sessionId, adapter.id, machine))),
+    `usage:${sessionId}:${filePath}`,
+    (await adapter.subagentFiles?.(filePath, sessionId)) ?? [],
+  );
+}
+
+/** Token usage of each model response in a session and its subagent runs, in conversation order. */
+export async function getMessageUsage(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<MessageUsage[]> {
+  return collectMessageUsage(await getConversationWithSubagents(sessionId, sourceHint, machine));
+}
+
+export async function getSubagentConversation(
+  sessionId: string,
+  toolUseId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<ConversationMessage[] | null> {
+  const entry = getFileIndexEntry(sessionId, sourceHint, machine);
+  const adapter = getSourceAdapter(sourceHint ?? entry?.source ?? "claude");
+  const ctx = adapter && sessionContext(adapter, machine);
+  if (!adapter?.parseSubagent || !ctx) return null;
+
+  const filePath = await adapter.resolveFile(ctx, sessionId);
+  if (!filePath) return null;
+
+  return adapter.parseSubagent(filePath, sessionId, toolUseId);
+}
+
+/** `getConversationMessages` with each Task call's subagent run spliced in after the call. */
+export async function getConversationWithSubagents(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<ConversationMessage[]> {
+  const messages = await getConversationMessages(sessionId, sourceHint, machine);
+  const result: ConversationMessage[] = [];
+  for (const message of messages) {
+    result.push(message);
+    const content = message.message?.content;
+    if (message.type !== "assistant" || !Array.isArray(content)) continue;
+    for (const block of content) {
+      if (block.type !== "tool_use" || !isTaskTool(block.name) || !block.id) continue;
+      const run = await getSubagentConversation(sessionId, block.id, sourceHint, machine);
+      if (run) result.push(...run);
+    }
+  }
+  return result;
+}
+
 export async function getConversationStream(
   sessionId: string,
   fromOffset: number = 0,
   sourceHint?: SessionSource,
+  machine?: string,
 ): Promise<StreamResult> {
-  const entry = getFileIndexEntry(sessionId, sourceHint);
+  const entry = getFileIndexEntry(sessionId, sourceHint, machine);
   const source = sourceHint ?? entry?.source ?? "claude";
-  let filePath: string | null = null;
-
-  if (entry) {
-    filePath = entry.path;
-  } else if (source === "claude") {
-    filePath = await findClaudeSessionFile(sessionId);
-  } else {
-    filePath = await findSessionFileBySource(sessionId, source);
+  const adapter = getSourceAdapter(source);
+  const ctx = adapter && sessionContext(adapter, machine);
+  if (!adapter || !ctx) {
+    return { messages: [], nextOffset: 0 };
   }
 
+  const filePath = entry ? entry.path : await adapter.resolveFile(ctx, sessionId);
   if (!filePath) {
     return { messages: [], nextOffset: 0 };
   }
 
-  // For non-Claude sources, use message-count offset (incremental updates)
-  if (source !== "claude") {
-    const messages = await getConversation(sessionId, source);
-    if (fromOffset >= messages.length) {
-      return { messages: [], nextOffset: messages.length };
-    }
-    return {
-      messages: messages.slice(fromOffset),
-      nextOffset: messages.length,
-    };
+  if (adapter.parseStream) {
+    return adapter.parseStream(filePath, fromOffset);
   }
 
-  const messages: ConversationMessage[] = [];
-  let fileHandle;
-  try {
-    const fileStat = await stat(filePath);
-    const fileSize = fileStat.size;
-    if (fromOffset >= fileSize) {
-      return { messages: [], nextOffset: fromOffset };
-    }
-
-    fileHandle = await open(filePath, "r");
-    const stream = fileHandle.createReadStream({
-      start: fromOffset,
-      encoding: "utf-8",
-    });
-
-    const rl = createInterface({ input: stream, crlfDelay: Infinity });
-    let bytesConsumed = 0;
-
-    for await (const line of rl) {
-      const lineBytes = Buffer.byteLength(line, "utf-8") + 1;
-      if (line.trim()) {
-        try {
-          const msg: ConversationMessage = JSON.parse(line);
-          if (msg.type === "user" || msg.type === "assistant") {
-            messages.push(msg);
-          }
-          bytesConsumed += lineBytes;
-        } catch {
-          break;
-        }
-      } else {
-        bytesConsumed += lineBytes;
-      }
-    }
-
-    const actualOffset = fromOffset + bytesConsumed;
-    const nextOffset = actualOffset > fileSize ? fileSize : actualOffset;
-    return { messages, nextOffset };
-  } catch {
-    return { messages: [], nextOffset: fromOffset };
-  } finally {
-    if (fileHandle) await fileHandle.close();
+  // Sources without byte-offset streaming use a message-count offset
+  const messages = await getConversationMessages(sessionId, source, machine);
+  if (fromOffset >= messages.length) {
+    return { messages: [], nextOffset: messages.length };
   }
+  return {
+    messages: messages.slice(fromOffset),
+    nextOffset: messages.length,
+  };
 }
 
 export function getSessionSource(sessionId: string, sourceHint?: SessionSource): SessionSource {
@@ -1390,140 +470,122 @@ export function getSessionSource(sessionId: string, sourceHint?: SessionSource):
   return entry?.source ?? sourceHint ?? "claude";
 }
 
-function deriveProvider(model: string): string {
-  if (model.startsWith("claude")) return "anthropic";
-  if (model.startsWith("gpt") || model.startsWith("o1") || model.startsWith("o3") || model.startsWith("o4")) return "openai";
-  if (model.includes("gemini")) return "google";
-  if (model.includes("codex")) return "openai-codex";
-  return "";
-}
-
 const modelCache = new Map<string, SessionModelInfo | null>();
 
-function modelCacheKey(sessionId: string, sourceHint?: SessionSource): string {
-  return sourceHint ? `${sourceHint}:${sessionId}` : sessionId;
+function modelCacheKey(sessionId: string, sourceHint?: SessionSource, machine?: string): string {
+  return sourceHint ? sessionKey(sessionId, sourceHint, machine) : sessionId;
 }
 
-export function invalidateModelCache(sessionId: string, sourceHint?: SessionSource): void {
+export function invalidateModelCache(sessionId: string, sourceHint?: SessionSource, machine?: string): void {
   if (sourceHint) {
-    modelCache.delete(modelCacheKey(sessionId, sourceHint));
+    modelCache.delete(modelCacheKey(sessionId, sourceHint, machine));
     return;
   }
 
   modelCache.delete(sessionId);
-  for (const source of ["claude", "factory", "codex", "pi"] as const) {
-    modelCache.delete(modelCacheKey(sessionId, source));
+  for (const source of getSourceIds()) {
+    modelCache.delete(modelCacheKey(sessionId, source, machine));
   }
 }
 
-export async function getSessionLatestModel(sessionId: string, sourceHint?: SessionSource): Promise<SessionModelInfo | null> {
-  const cacheKey = modelCacheKey(sessionId, sourceHint);
+export async function getSessionLatestModel(
+  sessionId: string,
+  sourceHint?: SessionSource,
+  machine?: string,
+): Promise<SessionModelInfo | null> {
+  const cacheKey = modelCacheKey(sessionId, sourceHint, machine);
   const cached = modelCache.get(cacheKey);
   if (cached !== undefined) return cached;
 
-  let entry = getFileIndexEntry(sessionId, sourceHint);
+  let entry = getFileIndexEntry(sessionId, sourceHint, machine);
   if (!entry && sourceHint) {
-    const path = await findSessionFileBySource(sessionId, sourceHint);
+    const path = await findSessionFileBySource(sessionId, sourceHint, machine);
     if (path) {
-      setFileIndexEntry(sessionId, path, sourceHint);
-      entry = { path, source: sourceHint };
+      setFileIndexEntry(sessionId, path, sourceHint, machine);
+      entry = { path, source: sourceHint, machine };
     }
   }
   if (!entry) return null;
 
-  try {
-    const content = await readFile(entry.path, "utf-8");
-    const lines = content.trim().split("\n");
+  const adapter = getSourceAdapter(entry.source);
+  if (adapter?.latestModel) {
+    const result = await adapter.latestModel(entry.path, sessionId);
+    modelCache.set(cacheKey, result);
+    return result;
+  }
 
-    // Walk from the end to find the latest model reference
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i];
-      if (!line) continue;
+  try {
+    // Scan forward, keeping the latest model reference
+    let latest = null as SessionModelInfo | null;
+    await readJsonlLines(entry.path, (line) => {
       try {
         const parsed = JSON.parse(line);
         // Pi model_change events
         if (parsed.type === "model_change" && parsed.modelId) {
-          const result: SessionModelInfo = {
+          latest = {
             model: parsed.modelId,
             provider: parsed.provider || deriveProvider(parsed.modelId),
           };
-          modelCache.set(cacheKey, result);
-          return result;
+          return;
         }
-        // Claude/Codex assistant messages with model field
-        if (parsed.type === "assistant" && parsed.message?.model) {
+        // Claude/Codex assistant messages with model field, and Factory
+        // "message" type with role=assistant
+        if ((parsed.type === "assistant" || parsed.type === "message") && parsed.message?.model) {
           const model = parsed.message.model;
-          const result: SessionModelInfo = {
+          latest = {
             model,
             provider: deriveProvider(model),
           };
-          modelCache.set(cacheKey, result);
-          return result;
-        }
-        // Factory "message" type with role=assistant
-        if (parsed.type === "message" && parsed.message?.model) {
-          const model = parsed.message.model;
-          const result: SessionModelInfo = {
-            model,
-            provider: deriveProvider(model),
-          };
-          modelCache.set(cacheKey, result);
-          return result;
         }
       } catch { /* skip malformed */ }
+    });
+    if (latest) {
+      modelCache.set(cacheKey, latest);
+      return latest;
     }
   } catch { /* ignore */ }
 
-  // Fallback: check for companion settings file (Factory stores model there)
-  if (entry.source === "factory") {
-    try {
-      const settingsPath = entry.path.replace(/\.jsonl$/, ".settings.json");
-      const settings = JSON.parse(await readFile(settingsPath, "utf-8"));
-      if (settings.model) {
-        // Factory model format: "custom:claude-opus-4-6-1" → strip "custom:" prefix
-        const rawModel = settings.model.replace(/^custom:/, "");
-        const provider = settings.providerLock || deriveProvider(rawModel);
-        const result: SessionModelInfo = { model: rawModel, provider };
-        modelCache.set(cacheKey, result);
-        return result;
-      }
-    } catch { /* no settings file */ }
+  const fallback = await adapter?.fallbackModel?.(entry.path, sessionId);
+  if (fallback) {
+    modelCache.set(cacheKey, fallback);
+    return fallback;
   }
 
   modelCache.set(cacheKey, null);
   return null;
 }
 
-async function findSessionFileBySource(sessionId: string, source: SessionSource): Promise<string | null> {
-  if (source === "claude") return findClaudeSessionFile(sessionId);
-  if (source === "factory") return findFactorySessionFile(sessionId);
-  if (source === "codex") return findCodexSessionFile(sessionId);
-  return findPiSessionFile(sessionId);
+async function findSessionFileBySource(sessionId: string, source: SessionSource, machine?: string): Promise<string | null> {
+  const adapter = getSourceAdapter(source);
+  const ctx = adapter && sessionContext(adapter, machine);
+  if (!adapter || !ctx) return null;
+  return adapter.resolveFile(ctx, sessionId);
 }
 
 async function resolveSessionFileForDelete(
   sessionId: string,
   sourceHint?: SessionSource,
-): Promise<{ path: string; source: SessionSource } | null> {
-  const indexed = getFileIndexEntry(sessionId, sourceHint);
+  machine?: string,
+): Promise<FileIndexEntry | null> {
+  const indexed = getFileIndexEntry(sessionId, sourceHint, machine);
 
   if (sourceHint) {
     if (indexed) {
       return indexed;
     }
 
-    const path = await findSessionFileBySource(sessionId, sourceHint);
-    return path ? { path, source: sourceHint } : null;
+    const path = await findSessionFileBySource(sessionId, sourceHint, machine);
+    return path ? { path, source: sourceHint, machine } : null;
   }
 
   if (indexed) {
     return indexed;
   }
 
-  for (const source of ["claude", "factory", "codex", "pi"] as const) {
-    const path = await findSessionFileBySource(sessionId, source);
+  for (const source of getSourceIds()) {
+    const path = await findSessionFileBySource(sessionId, source, machine);
     if (path) {
-      return { path, source };
+      return { path, source, machine };
     }
   }
 
@@ -1536,9 +598,10 @@ function isFsNotFoundError(error: unknown): boolean {
   return maybeCode === "ENOENT";
 }
 
-export async function deleteSession(sessionId: string, sourceHint?: SessionSource): Promise<boolean> {
-  const resolved = await resolveSessionFileForDelete(sessionId, sourceHint);
+export async function deleteSession(sessionId: string, sourceHint?: SessionSource, machine?: string): Promise<boolean> {
+  const resolved = await resolveSessionFileForDelete(sessionId, sourceHint, machine);
   if (!resolved) return false;
+  if (getSourceAdapter(resolved.source)?.readOnly) return false;
 
   try {
     await unlink(resolved.path);
@@ -1548,13 +611,12 @@ export async function deleteSession(sessionId: string, sourceHint?: SessionSourc
     }
   }
 
-  deleteFileIndexEntry(sessionId, sourceHint ?? resolved.source);
+  deleteFileIndexEntry(sessionId, resolved.source, machine);
 
-  pendingRequests.delete(`getConversation:${sessionId}`);
-  pendingRequests.delete(`content:${sessionId}`);
-  for (const source of ["claude", "factory", "codex", "pi"] as const) {
-    pendingRequests.delete(`getConversation:${source}:${sessionId}`);
-    pendingRequests.delete(`content:${source}:${sessionId}`);
+  const key = sessionKey(sessionId, resolved.source, machine);
+  for (const scope of [sessionId, key]) {
+    pendingRequests.delete(`getConversation:${scope}`);
+    pendingRequests.delete(`content:${scope}`);
   }
   pendingRequests.delete("getSessions");
   pendingRequests.delete("getProjects");
@@ -1563,29 +625,11 @@ export async function deleteSession(sessionId: string, sourceHint?: SessionSourc
   return true;
 }
 
-const SANITIZE_PATTERNS = [
-  /<command-name>[^<]*<\/command-name>/g,
-  /<command-message>[^<]*<\/command-message>/g,
-  /<command-args>[^<]*<\/command-args>/g,
-  /<local-command-stdout>[^<]*<\/local-command-stdout>/g,
-  /<local-command-caveat>[\s\S]*?<\/local-command-caveat>/g,
-  /<system-reminder>[\s\S]*?<\/system-reminder>/g,
-  /<system-notification>[\s\S]*?<\/system-notification>/g,
-  /^\s*Caveat:.*?unless the user explicitly asks you to\./s,
-];
-
-function sanitizeForIndex(text: string): string {
-  let result = text;
-  for (const pattern of SANITIZE_PATTERNS) {
-    result = result.replace(pattern, "");
-  }
-  return result.trim();
-}
-
-export function getAllSessionContent(sessionId: string, sourceHint?: SessionSource): Promise<string> {
-  const dedupeKey = sourceHint ? `content:${sourceHint}:${sessionId}` : `content:${sessionId}`;
-  return dedupe(dedupeKey, async () => {
-    const messages = await getConversation(sessionId, sourceHint);
+export function getAllSessionContent(sessionId: string, sourceHint?: SessionSource, machine?: string): Promise<string> {
+  const scope = sourceHint ? sessionKey(sessionId, sourceHint, machine) : sessionId;
+  return dedupe(`content:${scope}`, async () => {
+    // Abandoned branches stay searchable
+    const messages = await getConversationMessages(sessionId, sourceHint, machine);
     const parts: string[] = [];
     for (const msg of messages) {
       if (!msg.message) continue;
@@ -1605,3 +649,27 @@ export function getAllSessionContent(sessionId: string, sourceHint?: SessionSour
     return parts.join("\n");
   });
 }
+
+/** What the client-side search worker indexes for one session. */
+export interface SearchIndexEntry {
+  id: string;
+  source: SessionSource;
+  machine?: string;
+  display: string;
+  project: string;
+  content: string;
+  timestamp: number;
+}
+
+export function getSearchIndexEntries(sessions: Session[]): Promise<SearchIndexEntry[]> {
+  return Promise.all(
+    sessions.map(async (s) => {
+      const entry = { id: s.id, source: s.source, machine: s.machine, display: s.display, project: s.project, timestamp: s.timestamp };
+      try {
+        return { ...entry, content: await getAllSessionContent(s.id, s.source, s.machine) };
+      } catch {
+        return { ...entry, content: "" };
+      }
+    })
+  );
+}
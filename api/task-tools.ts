@@ -0,0 +1,9 @@
+// Tool calls that start a subagent run: Claude Code's `Task`, called `Agent`
+// in newer versions. Shared with the web client, so it has no imports.
+
+const TASK_TOOLS = new Set(["task", "agent"]);
+
+/** Whether a `tool_use` block named `name` starts a subagent run. */
+export function isTaskTool(name: string | undefined): boolean {
+  return !!name && TASK_TOOLS.has(name.toLowerCase());
+}
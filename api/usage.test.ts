@@ -0,0 +1,68 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { ConversationMessage } from "./storage";
+import { buildUsageReport, collectMessageUsage, findModelPrice, setModelPrices, summarizeUsage } from "./usage";
+
+const assistant = (
+  uuid: string,
+  timestamp: string,
+  model: string,
+  usage: Record<string, number>,
+  responseId?: string,
+): ConversationMessage => ({
+  type: "assistant",
+  uuid,
+  timestamp,
+  message: { role: "assistant", content: "", model, usage, ...(responseId ? { id: responseId } : {}) } as ConversationMessage["message"],
+});
+
+describe("usage", () => {
+  afterAll(() => setModelPrices());
+
+  test("matches dated model ids to the longest price prefix", () => {
+    setModelPrices({ "claude-sonnet-4-5": { input: 1, output: 2 } });
+    expect(findModelPrice("claude-sonnet-4-5-20250929")).toEqual({ input: 1, output: 2 });
+    expect(findModelPrice("anthropic/claude-sonnet-4-20250514")?.input).toBe(3);
+    expect(findModelPrice("claude-sonnet-4@20250514")?.input).toBe(3);
+    expect(findModelPrice("gpt-5-mini-2025-08-07")?.input).toBe(0.25);
+    expect(findModelPrice("gpt-4o-latest")?.input).toBe(2.5);
+    expect(findModelPrice("gemini-2.5-pro-preview-05-06")?.input).toBe(1.25);
+    expect(findModelPrice("llama-3")).toBeNull();
+  });
+
+  test("does not price smaller variants as their base model", () => {
+    setModelPrices();
+    expect(findModelPrice("gpt-4o-mini-2024-07-18")?.input).toBe(0.15);
+    expect(findModelPrice("gpt-4.1-nano")?.input).toBe(0.1);
+    expect(findModelPrice("o3-mini-2025-01-31")?.input).toBe(1.1);
+    expect(findModelPrice("gemini-2.5-flash-lite")?.input).toBe(0.1);
+    // Unknown variants stay unpriced rather than borrowing a sibling's row
+    expect(findModelPrice("gpt-4o-audio-preview")).toBeNull();
+    expect(findModelPrice("claude-sonnet-4-7")).toBeNull();
+  });
+
+  test("counts each response once and prices it per model and day", () => {
+    setModelPrices();
+    const messages: ConversationMessage[] = [
+      { type: "user", uuid: "u1", timestamp: "2026-03-01T10:00:00", message: { role: "user", content: "hi" } },
+      // Claude Code repeats a response's usage on every content block
+      assistant("a1", "2026-03-01T10:00:01", "claude-sonnet-4-5-20250929", { input_tokens: 1_000_000, output_tokens: 10 }, "msg_1"),
+      assistant("a2", "2026-03-01T10:00:02", "claude-sonnet-4-5-20250929", { input_tokens: 1_000_000, output_tokens: 100_000 }, "msg_1"),
+      // Pi's usage keys
+      assistant("p1", "2026-03-02T09:00:00", "local-model", { input: 500, output: 50, cacheRead: 10 }),
+    ];
+
+    const rows = collectMessageUsage(messages);
+    expect(rows.map((r) => [r.uuid, r.outputTokens])).toEqual([["a2", 100_000], ["p1", 50]]);
+
+    const records = summarizeUsage(rows);
+    const report = buildUsageReport(
+      "day",
+      records.map((r) => ({ ...r, key: r.day })),
+    );
+    expect(report.groups.map((g) => g.key)).toEqual(["2026-03-01", "2026-03-02"]);
+    // 1M input at $3 + 100k output at $15/M
+    expect(report.groups[0].cost).toBeCloseTo(4.5);
+    expect(report.total).toMatchObject({ messages: 2, inputTokens: 1_000_500, cacheReadTokens: 10, unpricedMessages: 1 });
+    expect(report.unpricedModels).toEqual(["local-model"]);
+  });
+});
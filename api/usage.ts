@@ -0,0 +1,267 @@
+import type { ConversationMessage, TokenUsage } from "./storage";
+
+// Token usage and cost. Tokens are read from each message's `usage` and
+// summed per day and model for each session (cached alongside other file
+// metadata); cost is applied at query time from the price table, so editing
+// prices never needs a re-scan.
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Defaults to the input price. */
+  cacheWrite?: number;
+  /** Defaults to the input price. */
+  cacheRead?: number;
+}
+
+/**
+ * Built-in list prices; `prices` in the config file overrides or extends
+ * them. Keys match model ids exactly or followed by a date or release suffix
+ * (see `findModelPrice`), so dated ids such as `claude-sonnet-4-5-20250929`
+ * use the `claude-sonnet-4-5` row. Every smaller variant (`-mini`, `-lite`,
+ * ...) needs a row of its own.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-codex": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  o3: { input: 2, output: 8, cacheRead: 0.5 },
+  "o3-mini": { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  "o4-mini": { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cacheRead: 0.31 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+};
+
+// What may follow a price key in a model id: a date (`-20250929`,
+// `-2024-08-06`, Vertex's `@20250514`), `-latest`, or a preview/experimental
+// tag. Anything else (`-mini`, `-lite`, `-4-5`) is a different model.
+const VERSION_SUFFIX = /^[-@](?:\d{4}-?\d{2}-?\d{2}|latest|preview|exp)\b/;
+
+let prices: Record<string, ModelPrice> = DEFAULT_PRICES;
+
+export function setModelPrices(overrides: Record<string, ModelPrice> = {}): void {
+  prices = { ...DEFAULT_PRICES, ...overrides };
+}
+
+export function getModelPrices(): Record<string, ModelPrice> {
+  return prices;
+}
+
+/** Price row for `model`: an exact match, else the longest key followed by a version suffix. */
+export function findModelPrice(model: string): ModelPrice | null {
+  // Drop a provider prefix such as `anthropic/`
+  const id = model.slice(model.lastIndexOf("/") + 1).toLowerCase();
+  if (prices[id]) return prices[id];
+  let best: string | null = null;
+  for (const key of Object.keys(prices)) {
+    if (!id.startsWith(key) || !VERSION_SUFFIX.test(id.slice(key.length))) continue;
+    if (!best || key.length > best.length) best = key;
+  }
+  return best ? prices[best] : null;
+}
+
+export interface UsageTokens {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Anthropic-style usage (`input_tokens`, ...) or Pi's (`input`, `cacheRead`, ...). */
+export function readUsage(usage: TokenUsage | undefined): UsageTokens | null {
+  if (!usage || typeof usage !== "object") return null;
+  const tokens: UsageTokens = {
+    inputTokens: tokenCount(usage.input_tokens ?? usage.input),
+    outputTokens: tokenCount(usage.output_tokens ?? usage.output),
+    cacheWriteTokens: tokenCount(usage.cache_creation_input_tokens ?? usage.cacheWrite),
+    cacheReadTokens: tokenCount(usage.cache_read_input_tokens ?? usage.cacheRead),
+  };
+  const total = tokens.inputTokens + tokens.outputTokens + tokens.cacheWriteTokens + tokens.cacheReadTokens;
+  return total > 0 ? tokens : null;
+}
+
+/** Cost in USD, or null when the model has no price. */
+export function usageCost(tokens: UsageTokens, model: string): number | null {
+  const price = findModelPrice(model);
+  if (!price) return null;
+  return (
+    (tokens.inputTokens * price.input +
+      tokens.outputTokens * price.output +
+      tokens.cacheWriteTokens * (price.cacheWrite ?? price.input) +
+      tokens.cacheReadTokens * (price.cacheRead ?? price.input)) /
+    1_000_000
+  );
+}
+
+/** Local calendar day (YYYY-MM-DD) of a timestamp, or "" when it is missing. */
+export function usageDay(timestamp: string | number | undefined): string {
+  if (timestamp === undefined) return "";
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface MessageUsage extends UsageTokens {
+  uuid?: string;
+  timestamp?: string;
+  model: string;
+}
+
+/**
+ * Usage per model response. Claude Code writes one entry per content block
+ * of a response, each repeating the response's usage, so entries sharing an
+ * API message id are counted once (the last one, which is final).
+ */
+export function collectMessageUsage(messages: ConversationMessage[]): MessageUsage[] {
+  const byResponse = new Map<string, MessageUsage>();
+  const rows: MessageUsage[] = [];
+  let lastTimestamp: string | undefined;
+
+  for (const message of messages) {
+    if (message.timestamp) lastTimestamp = message.timestamp;
+    if (message.type !== "assistant") continue;
+    const tokens = readUsage(message.message?.usage);
+    if (!tokens) continue;
+
+    const row: MessageUsage = {
+      uuid: message.uuid,
+      timestamp: message.timestamp ?? lastTimestamp,
+      model: message.message?.model || "unknown",
+      ...tokens,
+    };
+    const responseId = (message.message as { id?: unknown } | undefined)?.id;
+    if (typeof responseId === "string") {
+      const previous = byResponse.get(responseId);
+      if (previous) {
+        Object.assign(previous, row);
+        continue;
+      }
+      byResponse.set(responseId, row);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** A session's usage summed per day and model; what gets cached per file. */
+export interface UsageRecord extends UsageTokens {
+  day: string;
+  model: string;
+  messages: number;
+}
+
+export function summarizeUsage(rows: MessageUsage[]): UsageRecord[] {
+  const records = new Map<string, UsageRecord>();
+  for (const row of rows) {
+    const day = usageDay(row.timestamp);
+    const key = `${day}\n${row.model}`;
+    let record = records.get(key);
+    if (!record) {
+      record = { day, model: row.model, messages: 0, ...emptyTokens() };
+      records.set(key, record);
+    }
+    addTokens(record, row);
+    record.messages++;
+  }
+  return [...records.values()];
+}
+
+function emptyTokens(): UsageTokens {
+  return { inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 };
+}
+
+function addTokens(target: UsageTokens, tokens: UsageTokens): void {
+  target.inputTokens += tokens.inputTokens;
+  target.outputTokens += tokens.outputTokens;
+  target.cacheWriteTokens += tokens.cacheWriteTokens;
+  target.cacheReadTokens += tokens.cacheReadTokens;
+}
+
+export interface UsageTotals extends UsageTokens {
+  messages: number;
+  /** USD for the priced part. */
+  cost: number;
+  /** Messages from models without a price, left out of `cost`. */
+  unpricedMessages: number;
+}
+
+export interface UsageGroupTotals extends UsageTotals {
+  key: string;
+  /** Display name when the key is an id (sessions). */
+  label?: string;
+}
+
+export type UsageGroup = "day" | "model" | "project" | "session" | "source";
+
+export const USAGE_GROUPS: UsageGroup[] = ["day", "model", "project", "session", "source"];
+
+export interface UsageReport {
+  group: UsageGroup | "message";
+  total: UsageTotals;
+  /** Days in order, messages in conversation order, anything else by cost then tokens. */
+  groups: UsageGroupTotals[];
+  unpricedModels: string[];
+}
+
+/** One row going into a report, with the key it is grouped under. */
+export interface UsageReportRow extends UsageTokens {
+  key: string;
+  label?: string;
+  model: string;
+  messages: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { ...emptyTokens(), messages: 0, cost: 0, unpricedMessages: 0 };
+}
+
+export function buildUsageReport(group: UsageReport["group"], rows: UsageReportRow[]): UsageReport {
+  const total = emptyTotals();
+  const groups = new Map<string, UsageGroupTotals>();
+  const unpriced = new Set<string>();
+
+  for (const row of rows) {
+    let totals = groups.get(row.key);
+    if (!totals) {
+      totals = { key: row.key, label: row.label, ...emptyTotals() };
+      groups.set(row.key, totals);
+    }
+    const cost = usageCost(row, row.model);
+    if (cost === null) unpriced.add(row.model);
+    for (const target of [total, totals]) {
+      addTokens(target, row);
+      target.messages += row.messages;
+      if (cost === null) target.unpricedMessages += row.messages;
+      else target.cost += cost;
+    }
+  }
+
+  const tokenTotal = (t: UsageTokens) => t.inputTokens + t.outputTokens + t.cacheWriteTokens + t.cacheReadTokens;
+  const sorted = [...groups.values()];
+  if (group === "day") sorted.sort((a, b) => a.key.localeCompare(b.key));
+  else if (group !== "message") sorted.sort((a, b) => b.cost - a.cost || tokenTotal(b) - tokenTotal(a));
+
+  return { group, total, groups: sorted, unpricedModels: [...unpriced].sort() };
+}
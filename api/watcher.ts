@@ -1,15 +1,17 @@
 import { watch, type FSWatcher } from "chokidar";
-import { basename, join } from "path";
 import type { SessionSource } from "./storage";
+import { classifySourcePath, getAllWatchPaths, getSourceAdapter } from "./sources";
 
 type HistoryChangeCallback = () => void;
-type SessionChangeCallback = (sessionId: string, filePath: string, source: SessionSource) => void;
+type SessionChangeCallback = (
+  sessionId: string,
+  filePath: string,
+  source: SessionSource,
+  machine: string | undefined,
+  auxiliary: boolean,
+) => void;
 
 let watcher: FSWatcher | null = null;
-let claudeDir = "";
-let factoryDir = "";
-let codexDir = "";
-let piDir = "";
 const debounceTimers = new Map<string, NodeJS.Timeout>();
 const debounceMs = 20;
 const historyDebounceMs = 100;
@@ -17,41 +19,30 @@ const historyDebounceMs = 100;
 const historyChangeListeners = new Set<HistoryChangeCallback>();
 const sessionChangeListeners = new Set<SessionChangeCallback>();
 
-export function initWatcher(claude: string, factory: string, codex: string, pi?: string): void {
-  claudeDir = claude;
-  factoryDir = factory;
-  codexDir = codex;
-  piDir = pi || "";
-}
-
-function detectSource(filePath: string): SessionSource {
-  if (filePath.startsWith(factoryDir)) return "factory";
-  if (filePath.startsWith(codexDir)) return "codex";
-  if (piDir && filePath.startsWith(piDir)) return "claude"; // Pi sessions use claude format
-  return "claude";
-}
-
-function emitChange(filePath: string): void {
-  const isHistory =
-    filePath.endsWith("history.jsonl") || filePath.endsWith("history.json");
+async function emitChange(filePath: string): Promise<void> {
+  const classified = classifySourcePath(filePath);
+  if (!classified) return;
 
-  if (isHistory) {
+  if (classified.event.kind === "history" || classified.event.historyChanged) {
     for (const callback of historyChangeListeners) {
       callback();
     }
-  } else if (filePath.endsWith(".jsonl")) {
-    const source = detectSource(filePath);
-    let sessionId: string;
-
-    if (source === "codex") {
-      const match = basename(filePath, ".jsonl").match(/([0-9a-f]{4,}-[0-9a-f-]+)$/);
-      sessionId = match ? match[1] : basename(filePath, ".jsonl");
-    } else {
-      sessionId = basename(filePath, ".jsonl");
+  }
+
+  const { event, source, machine } = classified;
+  if (event.kind === "session") {
+    for (const callback of sessionChangeListeners) {
+      callback(event.sessionId, filePath, source, machine, !!event.auxiliary);
     }
+    return;
+  }
 
+  // A store shared by many sessions, so it is auxiliary to each of them
+  const changedSessions = getSourceAdapter(source)?.changedSessions;
+  if (!changedSessions) return;
+  for (const sessionId of await changedSessions(filePath).catch(() => [])) {
     for (const callback of sessionChangeListeners) {
-      callback(sessionId, filePath, source);
+      callback(sessionId, filePath, source, machine, true);
     }
   }
 }
@@ -60,12 +51,12 @@ function handleChange(path: string): void {
   const existing = debounceTimers.get(path);
   if (existing) clearTimeout(existing);
 
-  const isHistory = path.endsWith("history.jsonl") || path.endsWith("history.json");
+  const isHistory = classifySourcePath(path)?.event.kind === "history";
   const delay = isHistory ? historyDebounceMs : debounceMs;
 
   const timer = setTimeout(() => {
     debounceTimers.delete(path);
-    emitChange(path);
+    emitChange(path).catch(() => {});
   }, delay);
 
   debounceTimers.set(path, timer);
@@ -74,15 +65,7 @@ function handleChange(path: string): void {
 export function startWatcher(): void {
   if (watcher) return;
 
-  const watchPaths = [
-    join(claudeDir, "history.jsonl"),
-    join(claudeDir, "projects"),
-    join(factoryDir, "history.json"),
-    join(factoryDir, "sessions"),
-    join(codexDir, "history.jsonl"),
-    join(codexDir, "sessions"),
-    ...(piDir ? [piDir] : []),
-  ];
+  const watchPaths = getAllWatchPaths();
 
   const usePolling = process.env.CLAUDE_RUN_USE_POLLING === "1";
 
@@ -1,17 +1,24 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import type { Session, SessionSource } from "@claude-run-plus/api";
-import { PanelLeft, Copy, Check, Sun, Moon } from "lucide-react";
-import { formatTime } from "./utils";
+import type { Session, SessionSource, SourceInfo } from "@claude-run-plus/api";
+import { PanelLeft, Copy, Check, Sun, Moon, LayoutDashboard } from "lucide-react";
+import { formatTime, IS_ARCHIVE, LOCAL_MACHINE, sessionQuery } from "./utils";
+import { ARCHIVE_FILES } from "../api/archive-layout";
 import SessionList from "./components/session-list";
 import SessionView, { type SessionModelInfo } from "./components/session-view";
+import Dashboard from "./components/dashboard";
+import SessionCommits from "./components/session-commits";
+import SessionChanges from "./components/session-changes";
+import SessionExportMenu from "./components/session-export-menu";
 import { useEventSource } from "./hooks/use-event-source";
 import { useSearchIndex, type SearchIndexEntry } from "./hooks/use-search-index";
+import { useSources, getSourceColor, getResumeCommand } from "./hooks/use-sources";
 
 interface SessionHeaderProps {
   session: Session;
+  sources: SourceInfo[];
   copied: boolean;
   modelInfo: SessionModelInfo | null;
-  onCopyResumeCommand: (sessionId: string) => void;
+  onCopyResumeCommand: (command: string) => void;
 }
 
 function formatModelName(model: string): string {
@@ -20,12 +27,16 @@ function formatModelName(model: string): string {
 }
 
 function SessionHeader(props: SessionHeaderProps) {
-  const { session, copied, modelInfo, onCopyResumeCommand } = props;
+  const { session, sources, copied, modelInfo, onCopyResumeCommand } = props;
+  const hasResumeCommand = !!sources.find((s) => s.id === session.source)?.resumeCommand;
+  const copyLabel = hasResumeCommand
+    ? copied ? "Resume command copied" : "Copy resume command"
+    : copied ? "Session ID copied" : "Copy session ID";
 
   return (
     <>
       <div className="flex items-center gap-3 min-w-0 flex-1">
-        <SourceBadge source={session.source} />
+        <SourceBadge source={session.source} sources={sources} />
         <div className="min-w-0 flex-1">
           <div className="flex items-center gap-2">
             <span className="text-sm text-zinc-700 dark:text-zinc-300 truncate">
@@ -36,20 +47,24 @@ function SessionHeader(props: SessionHeaderProps) {
                 {modelInfo.provider ? `${modelInfo.provider}/` : ""}{formatModelName(modelInfo.model)}
               </span>
             )}
+            {!IS_ARCHIVE && <SessionCost session={session} />}
+            {!IS_ARCHIVE && <SessionCommits session={session} />}
             <span className="text-xs text-zinc-400 dark:text-zinc-600 shrink-0">
               {formatTime(session.timestamp)}
             </span>
           </div>
           <div className="text-[11px] text-zinc-500 dark:text-zinc-500 truncate mt-0.5">
             📁 {session.projectName} — {session.project}
+            {session.machine && <span className="ml-2">🖥 {session.machine}</span>}
           </div>
         </div>
       </div>
+      {!IS_ARCHIVE && <SessionExportMenu session={session} />}
       <button
-        onClick={() => onCopyResumeCommand(session.id)}
+        onClick={() => onCopyResumeCommand(getResumeCommand(sources, session.source, session.id))}
         className="flex items-center justify-center p-1.5 text-zinc-700 dark:text-zinc-300 bg-zinc-200 dark:bg-zinc-800 hover:bg-zinc-300 dark:hover:bg-zinc-700 rounded transition-colors cursor-pointer shrink-0"
-        title={copied ? "Session ID copied" : "Copy session ID"}
-        aria-label={copied ? "Session ID copied" : "Copy session ID"}
+        title={copyLabel}
+        aria-label={copyLabel}
       >
         {copied ? (
           <Check className="w-4 h-4 text-green-600 dark:text-green-500" />
@@ -61,21 +76,95 @@ function SessionHeader(props: SessionHeaderProps) {
   );
 }
 
-const SOURCE_COLORS: Record<SessionSource, string> = {
-  claude: "bg-blue-500",
-  factory: "bg-emerald-500",
-  codex: "bg-orange-500",
-  pi: "bg-pink-500",
-};
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  messages: number;
+  cost: number;
+  unpricedMessages: number;
+}
+
+function formatCost(cost: number): string {
+  return cost >= 100 ? `$${cost.toFixed(0)}` : cost >= 0.01 || cost === 0 ? `$${cost.toFixed(2)}` : "<$0.01";
+}
+
+function SessionCost({ session }: { session: Session }) {
+  const [usage, setUsage] = useState<UsageTotals | null>(null);
+
+  // Refetched when the session changes on disk (its timestamp moves)
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({
+      group: "model",
+      session: session.id,
+      source: session.source,
+      machine: session.machine ?? LOCAL_MACHINE,
+    });
+    fetch(`/api/usage?${params}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((report) => {
+        if (!cancelled) setUsage(report?.total ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setUsage(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id, session.source, session.machine, session.timestamp]);
+
+  if (!usage || usage.messages === 0) return null;
 
-function SourceBadge({ source }: { source: SessionSource }) {
+  const tokens = (n: number) => n.toLocaleString();
+  const title = [
+    `${tokens(usage.inputTokens)} input · ${tokens(usage.outputTokens)} output`,
+    `${tokens(usage.cacheWriteTokens)} cache write · ${tokens(usage.cacheReadTokens)} cache read`,
+    usage.unpricedMessages > 0 ? `${usage.unpricedMessages} responses from models without a price are not counted` : "",
+  ].filter(Boolean).join("\n");
+
+  return (
+    <span
+      className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium tabular-nums bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 shrink-0 cursor-default"
+      title={title}
+    >
+      {formatCost(usage.cost)}
+      {usage.unpricedMessages > 0 && "+"}
+    </span>
+  );
+}
+
+function SourceBadge({ source, sources }: { source: SessionSource; sources: SourceInfo[] }) {
+  const label = sources.find((s) => s.id === source)?.label || source;
   return (
-    <span className={`inline-block w-2 h-2 rounded-full shrink-0 ${SOURCE_COLORS[source]}`} title={source} />
+    <span className={`inline-block w-2 h-2 rounded-full shrink-0 ${getSourceColor(sources, source)}`} title={label} />
   );
 }
 
-function sessionKey(sessionId: string, source: SessionSource): string {
-  return `${source}:${sessionId}`;
+function sessionKey(sessionId: string, source: SessionSource, machine?: string): string {
+  return machine ? `${source}@${machine}:${sessionId}` : `${source}:${sessionId}`;
+}
+
+interface SelectedSession {
+  id: string;
+  source: SessionSource;
+  machine?: string;
+}
+
+type AppView = "sessions" | "dashboard";
+
+type SessionTab = "conversation" | "changes";
+
+const SESSION_TABS: Array<[SessionTab, string]> = [
+  ["conversation", "Conversation"],
+  ["changes", "Changes"],
+];
+
+const DASHBOARD_PATH = "/dashboard";
+
+function viewFromLocation(): AppView {
+  return window.location.pathname === DASHBOARD_PATH ? "dashboard" : "sessions";
 }
 
 function App() {
@@ -83,12 +172,15 @@ function App() {
   const [projects, setProjects] = useState<string[]>([]);
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
   const [selectedSource, setSelectedSource] = useState<SessionSource | null>(null);
-  const [selectedSession, setSelectedSession] = useState<{ id: string; source: SessionSource } | null>(null);
+  const [selectedMachine, setSelectedMachine] = useState<string | null>(null);
+  const [selectedSession, setSelectedSession] = useState<SelectedSession | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [loading, setLoading] = useState(true);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [copied, setCopied] = useState(false);
   const [currentModel, setCurrentModel] = useState<SessionModelInfo | null>(null);
+  const [view, setView] = useState<AppView>(viewFromLocation);
+  const [sessionTab, setSessionTab] = useState<SessionTab>("conversation");
   const [theme, setTheme] = useState<"light" | "dark">(() => {
     if (typeof window !== "undefined") {
       return (localStorage.getItem("claude-run-plus-theme") as "light" | "dark") || "dark";
@@ -101,9 +193,24 @@ function App() {
     localStorage.setItem("claude-run-plus-theme", theme);
   }, [theme]);
 
+  const sources = useSources();
+
+  useEffect(() => {
+    const handlePopState = () => setView(viewFromLocation());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: AppView) => {
+    const path = next === "dashboard" ? DASHBOARD_PATH : "/";
+    // An archive can live under any path and has no dashboard to route to
+    if (!IS_ARCHIVE && window.location.pathname !== path) window.history.pushState(null, "", path);
+    setView(next);
+  }, []);
+
   const handleCopyResumeCommand = useCallback(
-    (sessionId: string) => {
-      navigator.clipboard.writeText(sessionId).then(() => {
+    (command: string) => {
+      navigator.clipboard.writeText(command).then(() => {
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
       });
@@ -113,7 +220,9 @@ function App() {
 
   const selectedSessionData = useMemo(() => {
     if (!selectedSession) return null;
-    return sessions.find((s) => s.id === selectedSession.id && s.source === selectedSession.source) || null;
+    return sessions.find(
+      (s) => s.id === selectedSession.id && s.source === selectedSession.source && s.machine === selectedSession.machine,
+    ) || null;
   }, [sessions, selectedSession]);
 
   useEffect(() => {
@@ -121,7 +230,7 @@ function App() {
     const fetchProjects = async (retries = 3) => {
       for (let i = 0; i < retries; i++) {
         try {
-          const res = await fetch("/api/projects");
+          const res = await fetch(IS_ARCHIVE ? ARCHIVE_FILES.projects : "/api/projects");
           const data = await res.json();
           if (!cancelled) setProjects(data);
           return;
@@ -143,9 +252,9 @@ function App() {
   const handleSessionsUpdate = useCallback((event: MessageEvent) => {
     const updates: Session[] = JSON.parse(event.data);
     setSessions((prev) => {
-      const sessionMap = new Map(prev.map((s) => [sessionKey(s.id, s.source), s]));
+      const sessionMap = new Map(prev.map((s) => [sessionKey(s.id, s.source, s.machine), s]));
       for (const update of updates) {
-        sessionMap.set(sessionKey(update.id, update.source), update);
+        sessionMap.set(sessionKey(update.id, update.source, update.machine), update);
       }
       return Array.from(sessionMap.values()).sort(
         (a, b) => b.timestamp - a.timestamp,
@@ -171,8 +280,26 @@ function App() {
       { eventName: "contentUpdate", onMessage: handleContentUpdate },
     ],
     onError: handleSessionsError,
+    enabled: !IS_ARCHIVE,
   });
 
+  useEffect(() => {
+    if (!IS_ARCHIVE) return;
+    fetch(ARCHIVE_FILES.sessions)
+      .then((res) => res.json())
+      .then((data: Session[]) => setSessions(data))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const machines = useMemo(() => {
+    const labels = new Set<string>();
+    for (const s of sessions) {
+      if (s.machine) labels.add(s.machine);
+    }
+    return [...labels].sort();
+  }, [sessions]);
+
   const filteredSessions = useMemo(() => {
     let result = sessions;
     if (selectedProject) {
@@ -181,33 +308,42 @@ function App() {
     if (selectedSource) {
       result = result.filter((s) => s.source === selectedSource);
     }
+    if (selectedMachine) {
+      result = result.filter((s) => (s.machine ?? LOCAL_MACHINE) === selectedMachine);
+    }
     return result;
-  }, [sessions, selectedProject, selectedSource]);
+  }, [sessions, selectedProject, selectedSource, selectedMachine]);
 
-  const handleSelectSession = useCallback((sessionId: string, source: SessionSource) => {
-    setSelectedSession({ id: sessionId, source });
+  const handleSelectSession = useCallback((sessionId: string, source: SessionSource, machine?: string) => {
+    navigate("sessions");
+    setSelectedSession({ id: sessionId, source, machine });
+    setSessionTab("conversation");
     setCurrentModel(null);
+    // An archive has no server; SessionView reports the model from the messages
+    if (IS_ARCHIVE) return;
     // Fetch model from server with source-qualified identity
-    fetch(`/api/session/${sessionId}/model?source=${encodeURIComponent(source)}`)
+    fetch(`/api/session/${sessionId}/model?${sessionQuery(source, machine)}`)
       .then((r) => r.json())
       .then((data: SessionModelInfo | null) => {
         if (data) setCurrentModel(data);
       })
       .catch(() => {});
-  }, []);
+  }, [navigate]);
 
-  const handleDeleteSession = useCallback(async (sessionId: string, source: SessionSource) => {
-    const res = await fetch(`/api/sessions/${sessionId}?source=${encodeURIComponent(source)}`, {
+  const handleDeleteSession = useCallback(async (sessionId: string, source: SessionSource, machine?: string) => {
+    const res = await fetch(`/api/sessions/${sessionId}?${sessionQuery(source, machine)}`, {
       method: "DELETE",
     });
     if (!res.ok) {
       throw new Error("Failed to delete session");
     }
 
-    setSessions((prev) => prev.filter((s) => !(s.id === sessionId && s.source === source)));
-    removeEntry(sessionId, source);
+    const isDeleted = (s: { id: string; source: SessionSource; machine?: string }) =>
+      s.id === sessionId && s.source === source && s.machine === machine;
+    setSessions((prev) => prev.filter((s) => !isDeleted(s)));
+    removeEntry(sessionId, source, machine);
 
-    if (selectedSession && selectedSession.id === sessionId && selectedSession.source === source) {
+    if (selectedSession && isDeleted(selectedSession)) {
       setSelectedSession(null);
       setCurrentModel(null);
     }
@@ -246,14 +382,38 @@ function App() {
               </select>
             </label>
           </div>
+          {machines.length > 0 && (
+            <div className="border-b border-zinc-200 dark:border-zinc-800/60">
+              <label htmlFor={"select-machine"} className="block w-full px-1">
+                <select
+                  id={"select-machine"}
+                  value={selectedMachine || ""}
+                  onChange={(e) => setSelectedMachine(e.target.value || null)}
+                  className="w-full h-[40px] bg-transparent text-zinc-700 dark:text-zinc-300 text-sm focus:outline-none cursor-pointer px-5 py-2"
+                >
+                  <option value="">All Machines</option>
+                  <option value={LOCAL_MACHINE}>This machine</option>
+                  {machines.map((machine) => (
+                    <option key={machine} value={machine}>
+                      {machine}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
           <SessionList
             sessions={filteredSessions}
-            selectedSessionKey={selectedSession ? sessionKey(selectedSession.id, selectedSession.source) : null}
+            selectedSessionKey={
+              selectedSession ? sessionKey(selectedSession.id, selectedSession.source, selectedSession.machine) : null
+            }
             onSelectSession={handleSelectSession}
             onDeleteSession={handleDeleteSession}
             loading={loading}
+            sources={sources}
             selectedSource={selectedSource}
             onSelectSource={setSelectedSource}
+            selectedMachine={selectedMachine}
             onSearchQueryChange={handleSearchQueryChange}
             searchFn={searchFn}
             searchReady={searchReady}
@@ -283,9 +443,23 @@ function App() {
               <Moon className="w-4 h-4 text-zinc-600" />
             )}
           </button>
-          {selectedSessionData && (
+          {!IS_ARCHIVE && (
+            <button
+              onClick={() => navigate(view === "dashboard" ? "sessions" : "dashboard")}
+              className={`p-1.5 hover:bg-zinc-200 dark:hover:bg-zinc-800 rounded transition-colors cursor-pointer ${view === "dashboard" ? "bg-zinc-200 dark:bg-zinc-800" : ""}`}
+              aria-label={view === "dashboard" ? "Close dashboard" : "Open dashboard"}
+              title="Dashboard"
+            >
+              <LayoutDashboard className="w-4 h-4 text-zinc-500 dark:text-zinc-400" />
+            </button>
+          )}
+          {view === "dashboard" && (
+            <span className="text-sm text-zinc-700 dark:text-zinc-300">Dashboard</span>
+          )}
+          {view === "sessions" && selectedSessionData && (
             <SessionHeader
               session={selectedSessionData}
+              sources={sources}
               copied={copied}
               modelInfo={currentModel}
               onCopyResumeCommand={handleCopyResumeCommand}
@@ -293,8 +467,31 @@ function App() {
           )}
         </div>
         <div className="flex-1 overflow-hidden">
-          {selectedSession ? (
-            <SessionView sessionId={selectedSession.id} source={selectedSession.source} searchQuery={searchQuery} onModelChange={handleModelChange} />
+          {view === "dashboard" ? (
+            <Dashboard projects={projects} onSelectSession={handleSelectSession} />
+          ) : selectedSession ? (
+            <div className="flex flex-col h-full">
+              {!IS_ARCHIVE && (
+                <div className="flex gap-1 px-4 border-b border-zinc-200 dark:border-zinc-800/60">
+                  {SESSION_TABS.map(([tab, label]) => (
+                    <button
+                      key={tab}
+                      onClick={() => setSessionTab(tab)}
+                      className={`px-3 py-1.5 text-xs border-b-2 -mb-px transition-colors cursor-pointer ${sessionTab === tab ? "border-zinc-700 dark:border-zinc-300 text-zinc-800 dark:text-zinc-200" : "border-transparent text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex-1 overflow-hidden">
+                {sessionTab === "changes" ? (
+                  <SessionChanges sessionId={selectedSession.id} source={selectedSession.source} machine={selectedSession.machine} updatedAt={selectedSessionData?.timestamp} />
+                ) : (
+                  <SessionView sessionId={selectedSession.id} source={selectedSession.source} machine={selectedSession.machine} searchQuery={searchQuery} onModelChange={handleModelChange} />
+                )}
+              </div>
+            </div>
           ) : (
             <div className="flex h-full items-center justify-center text-zinc-400 dark:text-zinc-600">
               <div className="text-center">
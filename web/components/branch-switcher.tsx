@@ -0,0 +1,56 @@
+import { ChevronLeft, ChevronRight, GitBranch } from "lucide-react";
+import type { BranchPoint } from "@claude-run-plus/api";
+
+interface BranchSwitcherProps {
+  point: BranchPoint;
+  /** Called with the first message uuid of the branch to show. */
+  onSelect: (uuid: string) => void;
+}
+
+function BranchSwitcher({ point, onSelect }: BranchSwitcherProps) {
+  const { branches, activeIndex } = point;
+  const select = (index: number) => {
+    if (index >= 0 && index < branches.length) onSelect(branches[index].uuid);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 py-1 text-[11px] text-zinc-500">
+      <GitBranch size={12} className="opacity-60" />
+      <button
+        onClick={() => select(activeIndex - 1)}
+        disabled={activeIndex === 0}
+        className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-30 cursor-pointer disabled:cursor-default transition-colors"
+        aria-label="Previous branch"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">
+        Branch {activeIndex + 1} / {branches.length}
+      </span>
+      <button
+        onClick={() => select(activeIndex + 1)}
+        disabled={activeIndex === branches.length - 1}
+        className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-30 cursor-pointer disabled:cursor-default transition-colors"
+        aria-label="Next branch"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+      {branches.map((branch, index) => (
+        <button
+          key={branch.uuid}
+          onClick={() => select(index)}
+          title={branch.timestamp ? new Date(branch.timestamp).toLocaleString() : undefined}
+          className={`px-2 py-0.5 rounded-md border tabular-nums cursor-pointer transition-colors ${
+            index === activeIndex
+              ? "border-zinc-400 dark:border-zinc-600 text-zinc-800 dark:text-zinc-200"
+              : "border-zinc-200 dark:border-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-900"
+          }`}
+        >
+          {branch.messageCount} {branch.messageCount === 1 ? "message" : "messages"}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default BranchSwitcher;
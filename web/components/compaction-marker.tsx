@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Scissors } from "lucide-react";
+import type { CompactionInfo } from "@claude-run-plus/api";
+import { MarkdownRenderer } from "./markdown-renderer";
+
+interface CompactionMarkerProps {
+  compaction?: CompactionInfo;
+  /** The summary the conversation continued from. */
+  summary?: string;
+}
+
+function CompactionMarker({ compaction, summary }: CompactionMarkerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const tokensBefore = compaction?.tokensBefore;
+
+  return (
+    <div className="my-2">
+      <div className="flex items-center gap-2 text-[11px] text-amber-700 dark:text-amber-400/80">
+        <div className="h-px flex-1 bg-amber-300/60 dark:bg-amber-500/20" />
+        <Scissors size={12} className="opacity-70" />
+        <span className="font-medium">
+          Context {compaction?.trigger === "manual" ? "compacted manually" : "compacted"} here
+          {tokensBefore !== undefined && (
+            <span className="font-normal opacity-80">, {tokensBefore.toLocaleString()} tokens before</span>
+          )}
+        </span>
+        {summary && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-[10px] underline decoration-dotted underline-offset-2 opacity-70 hover:opacity-100 cursor-pointer"
+          >
+            {expanded ? "hide summary" : "show summary"}
+          </button>
+        )}
+        <div className="h-px flex-1 bg-amber-300/60 dark:bg-amber-500/20" />
+      </div>
+      {expanded && summary && (
+        <div className="mt-2 rounded-xl border border-amber-200 dark:border-amber-500/20 bg-amber-50/60 dark:bg-amber-500/5 px-4 py-3 text-sm text-zinc-700 dark:text-zinc-300">
+          <MarkdownRenderer content={summary} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CompactionMarker;
@@ -0,0 +1,507 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+
+interface DashboardProps {
+  projects: string[];
+  onSelectSession: (sessionId: string, source: string, machine?: string) => void;
+}
+
+// Response shapes of the /api/stats endpoints (api/stats.ts)
+interface StatsOverview {
+  sessions: number;
+  messages: number;
+  prompts: number;
+  projects: number;
+  activeDays: number;
+}
+
+interface DailyActivity {
+  day: string;
+  sessions: number;
+  messages: number;
+}
+
+interface ProjectActivity {
+  project: string;
+  sessions: number;
+  messages: number;
+  prompts: number;
+  lastActive: string;
+}
+
+interface BreakdownRow {
+  key: string;
+  sessions: number;
+  messages: number;
+}
+
+interface StatsBreakdown {
+  sources: BreakdownRow[];
+  models: BreakdownRow[];
+}
+
+interface TurnStats {
+  sessions: number;
+  averageTurns: number;
+  medianTurns: number;
+  buckets: Array<{ label: string; sessions: number }>;
+}
+
+interface HourlyActivity {
+  hour: number;
+  messages: number;
+  prompts: number;
+}
+
+interface ToolCallTotals {
+  key: string;
+  calls: number;
+  errors: number;
+}
+
+interface ToolStats extends ToolCallTotals {
+  sessions: number;
+  averageOutputChars: number;
+  averageResultMs: number | null;
+  sources: ToolCallTotals[];
+  models: ToolCallTotals[];
+  projects: ToolCallTotals[];
+}
+
+interface ToolFailureSession {
+  sessionId: string;
+  source: string;
+  machine?: string;
+  project: string;
+  display?: string;
+  calls: number;
+  errors: number;
+}
+
+interface DashboardStats {
+  overview: StatsOverview;
+  heatmap: DailyActivity[];
+  projects: ProjectActivity[];
+  breakdown: StatsBreakdown;
+  turns: TurnStats;
+  hours: HourlyActivity[];
+  tools: ToolStats[];
+}
+
+const STAT_NAMES = ["overview", "heatmap", "projects", "breakdown", "turns", "hours", "tools"] as const;
+
+const HEATMAP_COLORS = [
+  "bg-zinc-100 dark:bg-zinc-800/60",
+  "bg-emerald-200 dark:bg-emerald-900",
+  "bg-emerald-300 dark:bg-emerald-700",
+  "bg-emerald-500 dark:bg-emerald-500",
+  "bg-emerald-700 dark:bg-emerald-300",
+];
+
+function toDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDay(day: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function projectName(project: string): string {
+  return project.split("/").pop() || project;
+}
+
+function Section({ title, children, className = "" }: { title: string; children: ReactNode; className?: string }) {
+  return (
+    <section className={`rounded-xl border border-zinc-200 dark:border-zinc-800/60 p-4 ${className}`}>
+      <h2 className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function BarRow({ label, value, max, detail, onClick }: {
+  label: string;
+  value: number;
+  max: number;
+  detail: string;
+  onClick?: () => void;
+}) {
+  return (
+    <div
+      className={`flex items-center gap-3 text-xs ${onClick ? "cursor-pointer hover:opacity-80" : ""}`}
+      onClick={onClick}
+      title={label}
+    >
+      <span className="w-36 truncate text-zinc-700 dark:text-zinc-300">{label}</span>
+      <div className="flex-1 h-2 rounded bg-zinc-100 dark:bg-zinc-800/60 overflow-hidden">
+        <div className="h-full bg-emerald-500/70" style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }} />
+      </div>
+      <span className="w-28 text-right tabular-nums text-zinc-500">{detail}</span>
+    </div>
+  );
+}
+
+/** GitHub-style grid of weeks, one cell per day shaded by sessions active that day. */
+function ActivityHeatmap({ days, from, to }: { days: DailyActivity[]; from: string; to: string }) {
+  const weeks = useMemo(() => {
+    const byDay = new Map(days.map((d) => [d.day, d]));
+    const end = to ? parseDay(to) : new Date();
+    const start = from ? parseDay(from) : new Date(end.getFullYear() - 1, end.getMonth(), end.getDate() + 1);
+    // Columns start on Sunday
+    const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate() - start.getDay());
+    const result: Array<Array<{ day: string; inRange: boolean; activity?: DailyActivity }>> = [];
+    while (cursor <= end) {
+      const week = [];
+      for (let i = 0; i < 7; i++) {
+        const day = toDay(cursor);
+        week.push({ day, inRange: cursor >= start && cursor <= end, activity: byDay.get(day) });
+        cursor.setDate(cursor.getDate() + 1);
+      }
+      result.push(week);
+    }
+    return result;
+  }, [days, from, to]);
+
+  const max = Math.max(0, ...days.map((d) => d.sessions));
+  const level = (sessions: number) => (sessions === 0 || max === 0 ? 0 : Math.ceil((sessions / max) * 4));
+
+  return (
+    <div className="flex gap-[3px] overflow-x-auto pb-1">
+      {weeks.map((week) => (
+        <div key={week[0].day} className="flex flex-col gap-[3px]">
+          {week.map(({ day, inRange, activity }) => (
+            <div
+              key={day}
+              className={`w-[11px] h-[11px] rounded-[2px] ${inRange ? HEATMAP_COLORS[level(activity?.sessions ?? 0)] : ""}`}
+              title={inRange ? `${day}: ${activity?.sessions ?? 0} sessions, ${activity?.messages ?? 0} messages` : undefined}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HourChart({ hours }: { hours: HourlyActivity[] }) {
+  const max = Math.max(0, ...hours.map((h) => h.messages));
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-28">
+        {hours.map((h) => (
+          <div
+            key={h.hour}
+            className="flex-1 rounded-t bg-emerald-500/70 min-h-px"
+            style={{ height: `${max > 0 ? (h.messages / max) * 100 : 0}%` }}
+            title={`${String(h.hour).padStart(2, "0")}:00: ${h.messages} messages, ${h.prompts} prompts`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-zinc-400 mt-1 tabular-nums">
+        <span>00</span>
+        <span>06</span>
+        <span>12</span>
+        <span>18</span>
+        <span>23</span>
+      </div>
+    </div>
+  );
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function errorRate({ calls, errors }: ToolCallTotals): string {
+  return calls > 0 ? `${((errors / calls) * 100).toFixed(errors > 0 && errors < calls / 100 ? 1 : 0)}%` : "0%";
+}
+
+function ToolBreakdown({ title, rows, format = (key) => key }: {
+  title: string;
+  rows: ToolCallTotals[];
+  format?: (key: string) => string;
+}) {
+  return (
+    <div>
+      <div className="text-[11px] text-zinc-500 mb-1">{title}</div>
+      {rows.slice(0, 6).map((row) => (
+        <div key={row.key} className="flex justify-between gap-2 text-xs" title={row.key}>
+          <span className="truncate text-zinc-700 dark:text-zinc-300">{format(row.key) || "unknown"}</span>
+          <span className="shrink-0 tabular-nums text-zinc-500">
+            {row.calls.toLocaleString()} · {errorRate(row)} failed
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ToolDetails({ tool, params, onSelectSession }: {
+  tool: ToolStats;
+  params: string;
+  onSelectSession: DashboardProps["onSelectSession"];
+}) {
+  const [failures, setFailures] = useState<ToolFailureSession[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailures(null);
+    fetch(`/api/stats/tools/${encodeURIComponent(tool.key)}/sessions?${params}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((rows: ToolFailureSession[]) => {
+        if (!cancelled) setFailures(rows);
+      })
+      .catch(() => {
+        if (!cancelled) setFailures([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tool.key, params]);
+
+  return (
+    <div className="px-3 py-3 space-y-3 bg-zinc-50 dark:bg-zinc-900/40">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <ToolBreakdown title="By source" rows={tool.sources} />
+        <ToolBreakdown title="By model" rows={tool.models} />
+        <ToolBreakdown title="By project" rows={tool.projects} format={projectName} />
+      </div>
+      <div>
+        <div className="text-[11px] text-zinc-500 mb-1">Sessions with the most failures</div>
+        {failures === null && <div className="text-xs text-zinc-500">Loading…</div>}
+        {failures?.length === 0 && <div className="text-xs text-zinc-500">No failed calls</div>}
+        {failures?.map((f) => (
+          <button
+            key={`${f.source}:${f.machine ?? ""}:${f.sessionId}`}
+            onClick={() => onSelectSession(f.sessionId, f.source, f.machine)}
+            className="w-full flex justify-between gap-2 text-xs py-0.5 text-left hover:underline cursor-pointer"
+          >
+            <span className="truncate text-zinc-700 dark:text-zinc-300">
+              {f.display || f.sessionId}
+              <span className="ml-2 text-zinc-500">{projectName(f.project)}</span>
+            </span>
+            <span className="shrink-0 tabular-nums text-red-500">
+              {f.errors} / {f.calls} failed
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ToolTable({ tools, params, onSelectSession }: {
+  tools: ToolStats[];
+  params: string;
+  onSelectSession: DashboardProps["onSelectSession"];
+}) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (tools.length === 0) return <div className="text-xs text-zinc-500">No tool calls</div>;
+
+  return (
+    <div className="text-xs">
+      <div className="grid grid-cols-[1fr_repeat(4,6rem)] gap-2 px-3 pb-2 text-[11px] text-zinc-500">
+        <span>Tool</span>
+        <span className="text-right">Calls</span>
+        <span className="text-right">Failed</span>
+        <span className="text-right">Avg output</span>
+        <span className="text-right">Avg time</span>
+      </div>
+      {tools.map((tool) => (
+        <div key={tool.key} className="border-t border-zinc-100 dark:border-zinc-800/60">
+          <button
+            onClick={() => setSelected(selected === tool.key ? null : tool.key)}
+            className="w-full grid grid-cols-[1fr_repeat(4,6rem)] gap-2 px-3 py-1.5 text-left tabular-nums hover:bg-zinc-50 dark:hover:bg-zinc-900/40 cursor-pointer"
+          >
+            <span className="truncate text-zinc-700 dark:text-zinc-300">{tool.key}</span>
+            <span className="text-right">{tool.calls.toLocaleString()}</span>
+            <span className={`text-right ${tool.errors > 0 ? "text-red-500" : "text-zinc-500"}`}>
+              {tool.errors.toLocaleString()} ({errorRate(tool)})
+            </span>
+            <span className="text-right text-zinc-500">{tool.averageOutputChars.toLocaleString()} chars</span>
+            <span className="text-right text-zinc-500">{formatDuration(tool.averageResultMs)}</span>
+          </button>
+          {selected === tool.key && <ToolDetails tool={tool} params={params} onSelectSession={onSelectSession} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Dashboard({ projects, onSelectSession }: DashboardProps) {
+  const [project, setProject] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = useMemo(() => {
+    const query = new URLSearchParams();
+    if (project) query.set("project", project);
+    if (from) query.set("from", from);
+    if (to) query.set("to", to);
+    return query.toString();
+  }, [project, from, to]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      STAT_NAMES.map((name) =>
+        fetch(`/api/stats/${name}?${params}`).then((res) => {
+          if (!res.ok) throw new Error(`Failed to load ${name} stats`);
+          return res.json();
+        }),
+      ),
+    )
+      .then((results) => {
+        if (cancelled) return;
+        setStats(Object.fromEntries(STAT_NAMES.map((name, i) => [name, results[i]])) as unknown as DashboardStats);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [params]);
+
+  const inputClass =
+    "bg-transparent border border-zinc-200 dark:border-zinc-800 rounded px-2 py-1 text-xs text-zinc-700 dark:text-zinc-300 focus:outline-none";
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-6 py-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={project} onChange={(e) => setProject(e.target.value)} className={`${inputClass} cursor-pointer`}>
+            <option value="">All Projects</option>
+            {projects.map((p) => (
+              <option key={p} value={p}>
+                {projectName(p)}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-xs text-zinc-500">
+            From
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1.5 text-xs text-zinc-500">
+            To
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </label>
+          {(project || from || to) && (
+            <button
+              onClick={() => {
+                setProject("");
+                setFrom("");
+                setTo("");
+              }}
+              className="text-xs text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 cursor-pointer"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+              {[
+                ["Sessions", stats.overview.sessions],
+                ["Prompts", stats.overview.prompts],
+                ["Messages", stats.overview.messages],
+                ["Active days", stats.overview.activeDays],
+                ["Projects", stats.overview.projects],
+                ["Avg turns", Math.round(stats.turns.averageTurns * 10) / 10],
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-xl border border-zinc-200 dark:border-zinc-800/60 px-4 py-3">
+                  <div className="text-[11px] text-zinc-500">{label}</div>
+                  <div className="text-lg font-medium tabular-nums text-zinc-800 dark:text-zinc-200">{value.toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+
+            <Section title="Sessions per day">
+              <ActivityHeatmap days={stats.heatmap} from={from} to={to} />
+            </Section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Section title="Active projects">
+                <div className="space-y-2">
+                  {stats.projects.slice(0, 10).map((p) => (
+                    <BarRow
+                      key={p.project}
+                      label={projectName(p.project)}
+                      value={p.messages}
+                      max={stats.projects[0]?.messages ?? 0}
+                      detail={`${p.sessions} sessions`}
+                      onClick={() => setProject(p.project)}
+                    />
+                  ))}
+                  {stats.projects.length === 0 && <div className="text-xs text-zinc-500">No activity</div>}
+                </div>
+              </Section>
+
+              <Section title="Busiest hours">
+                <HourChart hours={stats.hours} />
+              </Section>
+
+              <Section title="Sources and models">
+                <div className="space-y-2">
+                  {stats.breakdown.sources.map((s) => (
+                    <BarRow
+                      key={`source:${s.key}`}
+                      label={s.key}
+                      value={s.sessions}
+                      max={stats.overview.sessions}
+                      detail={`${s.sessions} sessions`}
+                    />
+                  ))}
+                  {stats.breakdown.models.length > 0 && <div className="h-px bg-zinc-200 dark:bg-zinc-800/60 my-3" />}
+                  {stats.breakdown.models.map((m) => (
+                    <BarRow
+                      key={`model:${m.key}`}
+                      label={m.key}
+                      value={m.messages}
+                      max={stats.breakdown.models[0]?.messages ?? 0}
+                      detail={`${m.messages.toLocaleString()} replies`}
+                    />
+                  ))}
+                </div>
+              </Section>
+
+              <Section title="Turns per session">
+                <div className="text-xs text-zinc-500 mb-3">
+                  Average {stats.turns.averageTurns.toFixed(1)} · median {stats.turns.medianTurns}
+                </div>
+                <div className="space-y-2">
+                  {stats.turns.buckets.map((b) => (
+                    <BarRow
+                      key={b.label}
+                      label={`${b.label} prompts`}
+                      value={b.sessions}
+                      max={Math.max(0, ...stats.turns.buckets.map((x) => x.sessions))}
+                      detail={`${b.sessions} sessions`}
+                    />
+                  ))}
+                </div>
+              </Section>
+            </div>
+
+            <Section title="Tools">
+              <ToolTable tools={stats.tools} params={params} onSelectSession={onSelectSession} />
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Dashboard;
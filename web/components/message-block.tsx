@@ -20,6 +20,7 @@ import {
   Bot,
 } from "lucide-react";
 import { sanitizeText } from "../utils";
+import { isTaskTool } from "../../api/task-tools";
 import { MarkdownRenderer, highlightText } from "./markdown-renderer";
 import {
   TodoRenderer,
@@ -39,6 +40,8 @@ import {
 interface MessageBlockProps {
   message: ConversationMessage;
   searchHighlight?: string[];
+  /** URL of the subagent run a Task call started; enables the inline expand. */
+  subagentUrl?: (toolUseId: string) => string;
 }
 
 function buildToolMap(content: ContentBlock[]): Map<string, string> {
@@ -52,7 +55,7 @@ function buildToolMap(content: ContentBlock[]): Map<string, string> {
 }
 
 const MessageBlock = memo(function MessageBlock(props: MessageBlockProps) {
-  const { message, searchHighlight } = props;
+  const { message, searchHighlight, subagentUrl } = props;
 
   const isUser = message.type === "user";
   const content = message.message?.content;
@@ -92,7 +95,7 @@ const MessageBlock = memo(function MessageBlock(props: MessageBlockProps) {
     return (
       <div className="flex flex-col gap-1 py-0.5">
         {toolBlocks.map((block, index) => (
-          <ContentBlockRenderer key={index} block={block} toolMap={toolMap} />
+          <ContentBlockRenderer key={index} block={block} toolMap={toolMap} subagentUrl={subagentUrl} />
         ))}
       </div>
     );
@@ -130,7 +133,7 @@ const MessageBlock = memo(function MessageBlock(props: MessageBlockProps) {
         {hasTools && (
           <div className="flex flex-col gap-1 mt-1.5">
             {toolBlocks.map((block, index) => (
-              <ContentBlockRenderer key={index} block={block} toolMap={toolMap} />
+              <ContentBlockRenderer key={index} block={block} toolMap={toolMap} subagentUrl={subagentUrl} />
             ))}
           </div>
         )}
@@ -144,6 +147,7 @@ interface ContentBlockRendererProps {
   isUser?: boolean;
   toolMap?: Map<string, string>;
   searchHighlight?: string[];
+  subagentUrl?: (toolUseId: string) => string;
 }
 
 const TOOL_ICONS: Record<string, typeof Wrench> = {
@@ -154,7 +158,6 @@ const TOOL_ICONS: Record<string, typeof Wrench> = {
   edit: Pencil,
   write: FilePlus2,
   glob: FolderOpen,
-  task: Bot,
 };
 
 const TOOL_ICON_PATTERNS: Array<{ patterns: string[]; icon: typeof Wrench }> = [
@@ -168,6 +171,7 @@ const TOOL_ICON_PATTERNS: Array<{ patterns: string[]; icon: typeof Wrench }> = [
 function getToolIcon(toolName: string) {
   const name = toolName.toLowerCase();
   if (TOOL_ICONS[name]) return TOOL_ICONS[name];
+  if (isTaskTool(name)) return Bot;
   for (const { patterns, icon } of TOOL_ICON_PATTERNS) {
     if (patterns.some((p) => name.includes(p))) return icon;
   }
@@ -192,7 +196,6 @@ const TOOL_PREVIEW_HANDLERS: Record<string, PreviewHandler> = {
   },
   grep: (input) => input.pattern ? `"${String(input.pattern)}"` : null,
   glob: (input) => input.pattern ? String(input.pattern) : null,
-  task: (input) => input.description ? String(input.description) : null,
 };
 
 function getToolPreview(toolName: string, input: Record<string, unknown> | undefined): string | null {
@@ -200,6 +203,7 @@ function getToolPreview(toolName: string, input: Record<string, unknown> | undef
   const name = toolName.toLowerCase();
   const handler = TOOL_PREVIEW_HANDLERS[name];
   if (handler) return handler(input);
+  if (isTaskTool(name)) return input.description ? String(input.description) : null;
   if (name.includes("web") && input.url) {
     try {
       const url = new URL(String(input.url));
@@ -244,7 +248,7 @@ function ToolInputRenderer(props: ToolInputRendererProps) {
   if (name === "askuserquestion" && input.questions) {
     return <AskQuestionRenderer input={input as { questions: Array<{ header: string; question: string; options: Array<{ label: string; description: string }>; multiSelect: boolean }> }} />;
   }
-  if (name === "task" && input.prompt) {
+  if (isTaskTool(name) && input.prompt) {
     return <TaskRenderer input={input as { description: string; prompt: string; subagent_type: string; model?: string; run_in_background?: boolean; resume?: string }} />;
   }
 
@@ -255,6 +259,72 @@ function ToolInputRenderer(props: ToolInputRendererProps) {
   );
 }
 
+interface SubagentRunProps {
+  url: string;
+}
+
+function SubagentRun(props: SubagentRunProps) {
+  const { url } = props;
+  const [expanded, setExpanded] = useState(false);
+  const [messages, setMessages] = useState<ConversationMessage[] | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "missing" | "error">("idle");
+
+  const toggle = async () => {
+    setExpanded(!expanded);
+    if (messages || status === "loading" || status === "missing") return;
+
+    setStatus("loading");
+    try {
+      const res = await fetch(url);
+      if (res.status === 404) {
+        setStatus("missing");
+        return;
+      }
+      if (!res.ok) throw new Error("Failed to load subagent run");
+      setMessages(await res.json());
+      setStatus("idle");
+    } catch {
+      setStatus("error");
+    }
+  };
+
+  const toolCalls = messages?.reduce(
+    (count, m) =>
+      count + (Array.isArray(m.message?.content) ? m.message.content.filter((b) => b.type === "tool_use").length : 0),
+    0,
+  );
+
+  return (
+    <div className="w-full mt-1.5">
+      <button
+        onClick={toggle}
+        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-500/10 hover:bg-slate-200 dark:hover:bg-slate-500/15 text-[11px] text-slate-600 dark:text-slate-300 transition-colors border border-slate-200 dark:border-slate-500/20"
+      >
+        <Bot size={12} className="opacity-60" />
+        <span className="font-medium">subagent run</span>
+        {messages && (
+          <span className="text-slate-400 dark:text-slate-500 font-normal">
+            {messages.length} messages · {toolCalls} tool calls
+          </span>
+        )}
+        <span className="text-[10px] opacity-40 ml-0.5">{expanded ? "▼" : "▶"}</span>
+      </button>
+      {expanded && (
+        <div className="mt-2 ml-1 pl-3 border-l-2 border-slate-200 dark:border-slate-700/60 flex flex-col gap-2">
+          {status === "loading" && <span className="text-[11px] text-zinc-500">Loading subagent run…</span>}
+          {status === "missing" && (
+            <span className="text-[11px] text-zinc-500">No transcript was found for this subagent run.</span>
+          )}
+          {status === "error" && <span className="text-[11px] text-rose-500">Could not load the subagent run.</span>}
+          {messages?.map((message, index) => (
+            <MessageBlock key={message.uuid ?? index} message={message} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface ToolResultRendererProps {
   toolName: string;
   content: string;
@@ -298,7 +368,7 @@ function ToolResultRenderer(props: ToolResultRendererProps) {
 }
 
 function ContentBlockRenderer(props: ContentBlockRendererProps) {
-  const { block, isUser, toolMap, searchHighlight } = props;
+  const { block, isUser, toolMap, searchHighlight, subagentUrl } = props;
   const [expanded, setExpanded] = useState(false);
 
   if (block.type === "text" && block.text) {
@@ -353,9 +423,9 @@ function ContentBlockRenderer(props: ContentBlockRendererProps) {
       toolName === "glob" ||
       toolName === "read" ||
       toolName === "askuserquestion" ||
-      toolName === "task";
+      isTaskTool(toolName);
 
-    const shouldAutoExpand = toolName === "todowrite" || toolName === "askuserquestion" || toolName === "task";
+    const shouldAutoExpand = toolName === "todowrite" || toolName === "askuserquestion" || isTaskTool(toolName);
     const isExpanded = expanded || shouldAutoExpand;
 
     return (
@@ -378,7 +448,12 @@ function ContentBlockRenderer(props: ContentBlockRendererProps) {
           )}
         </button>
         {isExpanded && hasInput && hasSpecialRenderer ? (
-          <ToolInputRenderer toolName={block.name || ""} input={input} />
+          <>
+            <ToolInputRenderer toolName={block.name || ""} input={input} />
+            {isTaskTool(toolName) && block.id && subagentUrl && (
+              <SubagentRun url={subagentUrl(block.id)} />
+            )}
+          </>
         ) : (
           expanded &&
           hasInput && (
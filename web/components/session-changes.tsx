@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, FileMinus2, FilePen, FilePlus2, Folder } from "lucide-react";
+import type { SessionSource } from "@claude-run-plus/api";
+import { DiffLines, parseDiff } from "./tool-renderers";
+import { sessionQuery } from "../utils";
+
+// Response shape of /api/session/:id/patch (api/session-patch.ts)
+interface PatchFile {
+  path: string;
+  displayPath: string;
+  status: "added" | "modified" | "deleted";
+  partial: boolean;
+  additions: number;
+  deletions: number;
+  diff: string;
+}
+
+interface SessionPatch {
+  files: PatchFile[];
+  patch: string;
+}
+
+interface SessionChangesProps {
+  sessionId: string;
+  source: SessionSource;
+  machine?: string;
+  /** Session timestamp; the patch is rebuilt when it moves. */
+  updatedAt?: number;
+}
+
+const STATUS_ICONS = {
+  added: <FilePlus2 size={14} className="text-emerald-500 shrink-0" />,
+  modified: <FilePen size={14} className="text-blue-400 shrink-0" />,
+  deleted: <FileMinus2 size={14} className="text-rose-500 shrink-0" />,
+};
+
+function splitPath(displayPath: string): [string, string] {
+  const slash = displayPath.lastIndexOf("/");
+  return slash === -1 ? ["", displayPath] : [displayPath.slice(0, slash), displayPath.slice(slash + 1)];
+}
+
+function LineCounts({ file }: { file: PatchFile }) {
+  return (
+    <span className="flex items-center gap-1.5 text-[11px] font-mono shrink-0">
+      {file.additions > 0 && <span className="text-emerald-500">+{file.additions}</span>}
+      {file.deletions > 0 && <span className="text-rose-500">-{file.deletions}</span>}
+    </span>
+  );
+}
+
+function SessionChanges(props: SessionChangesProps) {
+  const { sessionId, source, machine, updatedAt } = props;
+  const [data, setData] = useState<SessionPatch | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const diffRefs = useRef(new Map<string, HTMLDivElement>());
+
+  useEffect(() => {
+    setLoading(true);
+    setSelected(null);
+  }, [sessionId, source, machine]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/session/${sessionId}/patch?${sessionQuery(source, machine)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result: SessionPatch | null) => {
+        if (!cancelled) setData(result);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, source, machine, updatedAt]);
+
+  // Files grouped by directory, directories in path order
+  const tree = useMemo(() => {
+    const groups = new Map<string, PatchFile[]>();
+    for (const file of data?.files ?? []) {
+      const [dir] = splitPath(file.displayPath);
+      groups.set(dir, [...(groups.get(dir) ?? []), file]);
+    }
+    return [...groups].sort(([a], [b]) => a.localeCompare(b));
+  }, [data]);
+
+  const selectFile = (path: string) => {
+    setSelected(path);
+    diffRefs.current.get(path)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-zinc-400 dark:text-zinc-600">
+        Loading changes...
+      </div>
+    );
+  }
+
+  if (!data || data.files.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-zinc-400 dark:text-zinc-600">
+        No file changes in this session
+      </div>
+    );
+  }
+
+  const additions = data.files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = data.files.reduce((sum, file) => sum + file.deletions, 0);
+
+  return (
+    <div className="flex h-full">
+      <aside className="w-72 shrink-0 border-r border-zinc-200 dark:border-zinc-800/60 overflow-y-auto">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-200 dark:border-zinc-800/60">
+          <span className="text-xs text-zinc-600 dark:text-zinc-400">
+            {data.files.length} {data.files.length === 1 ? "file" : "files"}
+          </span>
+          <span className="text-[11px] font-mono text-emerald-500">+{additions}</span>
+          <span className="text-[11px] font-mono text-rose-500">-{deletions}</span>
+          <a
+            href={`/api/session/${sessionId}/patch?format=patch&${sessionQuery(source, machine)}`}
+            download={`${sessionId}.patch`}
+            className="ml-auto p-1 rounded text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors"
+            title="Download .patch"
+            aria-label="Download .patch"
+          >
+            <Download size={14} />
+          </a>
+        </div>
+        {tree.map(([dir, files]) => (
+          <div key={dir} className="py-1">
+            {dir && (
+              <div className="flex items-center gap-1.5 px-3 py-1 text-[11px] text-zinc-500 truncate" title={dir}>
+                <Folder size={12} className="shrink-0" />
+                {dir}
+              </div>
+            )}
+            {files.map((file) => (
+              <button
+                key={file.displayPath}
+                onClick={() => selectFile(file.displayPath)}
+                className={`w-full flex items-center gap-1.5 py-1 pr-3 text-left text-xs cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800/60 ${dir ? "pl-6" : "pl-3"} ${selected === file.displayPath ? "bg-zinc-100 dark:bg-zinc-800/60" : ""}`}
+                title={file.path}
+              >
+                {STATUS_ICONS[file.status]}
+                <span className="truncate text-zinc-700 dark:text-zinc-300">{splitPath(file.displayPath)[1]}</span>
+                {file.partial && <span className="text-[10px] text-amber-500 shrink-0" title="Original file not seen; showing edited regions only">partial</span>}
+                <span className="ml-auto">
+                  <LineCounts file={file} />
+                </span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </aside>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {data.files.map((file) => (
+          <div
+            key={file.displayPath}
+            ref={(el) => {
+              if (el) diffRefs.current.set(file.displayPath, el);
+              else diffRefs.current.delete(file.displayPath);
+            }}
+            className="bg-zinc-900/70 border border-zinc-700/50 rounded-lg overflow-hidden scroll-mt-4"
+          >
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-700/50 bg-zinc-800/30">
+              {STATUS_ICONS[file.status]}
+              <span className="text-xs font-mono text-zinc-300 truncate">{file.displayPath}</span>
+              {file.partial && (
+                <span className="text-[10px] text-amber-400 shrink-0">
+                  edited regions only, line numbers approximate
+                </span>
+              )}
+              <span className="ml-auto">
+                <LineCounts file={file} />
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <DiffLines lines={parseDiff(file.diff)} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SessionChanges;
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { GitCommitHorizontal } from "lucide-react";
+import type { Session } from "@claude-run-plus/api";
+import { sessionQuery } from "../utils";
+
+// Response shape of /api/session/:id/commits (api/git-commits.ts)
+interface SessionCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  files: string[];
+  matchedBy: Array<"time" | "files">;
+  matchedFiles: string[];
+}
+
+interface SessionCommitsResponse {
+  repo: string | null;
+  commits: SessionCommit[];
+}
+
+function matchLabel(commit: SessionCommit): string {
+  if (commit.matchedFiles.length > 0) {
+    return `${commit.matchedFiles.length} of ${commit.files.length} files edited in this session`;
+  }
+  return "made during the session";
+}
+
+function SessionCommits({ session }: { session: Session }) {
+  const [data, setData] = useState<SessionCommitsResponse | null>(null);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOpen(false);
+    fetch(`/api/session/${session.id}/commits?${sessionQuery(session.source, session.machine)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result: SessionCommitsResponse | null) => {
+        if (!cancelled) setData(result);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id, session.source, session.machine, session.timestamp]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  if (!data || data.commits.length === 0) return null;
+  const { commits } = data;
+
+  return (
+    <div ref={containerRef} className="relative shrink-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-sky-100 dark:bg-sky-500/10 text-sky-700 dark:text-sky-400 cursor-pointer"
+        title={`Commits in ${data.repo}`}
+      >
+        <GitCommitHorizontal size={12} />
+        {commits.length} {commits.length === 1 ? "commit" : "commits"}
+      </button>
+      {open && (
+        <div className="absolute left-0 top-full mt-1 z-20 w-96 max-h-80 overflow-y-auto rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shadow-lg py-1">
+          <div className="px-3 py-1.5 text-[10px] text-zinc-500 truncate">{data.repo}</div>
+          {commits.map((commit) => (
+            <button
+              key={commit.hash}
+              onClick={() => navigator.clipboard.writeText(commit.hash)}
+              className="w-full text-left px-3 py-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 cursor-pointer"
+              title={[`Click to copy ${commit.hash}`, ...(commit.matchedFiles.length > 0 ? commit.matchedFiles : commit.files)].join("\n")}
+            >
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-mono text-sky-700 dark:text-sky-400 shrink-0">{commit.shortHash}</span>
+                <span className="truncate text-zinc-700 dark:text-zinc-300">{commit.subject}</span>
+              </div>
+              <div className="text-[10px] text-zinc-500 truncate">
+                {commit.author} · {new Date(commit.date).toLocaleString()} · {matchLabel(commit)}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionCommits;
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, FileDown } from "lucide-react";
+import type { Session } from "@claude-run-plus/api";
+import { sessionQuery } from "../utils";
+
+type ExportOption = "thinking" | "toolInputs" | "toolResults";
+
+const OPTIONS: Array<[ExportOption, string]> = [
+  ["thinking", "Thinking"],
+  ["toolInputs", "Tool inputs"],
+  ["toolResults", "Tool results"],
+];
+
+const DOWNLOADS: Array<[string, string]> = [
+  ["md", "Markdown"],
+  ["html", "HTML page"],
+  ["json", "JSON"],
+];
+
+function SessionExportMenu({ session }: { session: Session }) {
+  const [open, setOpen] = useState(false);
+  const [included, setIncluded] = useState<Record<ExportOption, boolean>>({
+    thinking: true,
+    toolInputs: true,
+    toolResults: true,
+  });
+  const [copied, setCopied] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const exportUrl = (format: string) => {
+    const excluded = OPTIONS.filter(([option]) => !included[option]).map(([option]) => `&${option}=0`).join("");
+    return `/api/session/${session.id}/export?${sessionQuery(session.source, session.machine)}&format=${format}${excluded}`;
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      const res = await fetch(exportUrl("md"));
+      if (!res.ok) return;
+      await navigator.clipboard.writeText(await res.text());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      /* clipboard unavailable */
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative shrink-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center justify-center p-1.5 text-zinc-700 dark:text-zinc-300 bg-zinc-200 dark:bg-zinc-800 hover:bg-zinc-300 dark:hover:bg-zinc-700 rounded transition-colors cursor-pointer"
+        title="Export session"
+        aria-label="Export session"
+      >
+        <FileDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-52 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shadow-lg py-1 text-xs">
+          <div className="px-3 py-1.5 text-[10px] text-zinc-500">Include</div>
+          {OPTIONS.map(([option, label]) => (
+            <label
+              key={option}
+              className="flex items-center gap-2 px-3 py-1 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={included[option]}
+                onChange={(event) => setIncluded({ ...included, [option]: event.target.checked })}
+              />
+              {label}
+            </label>
+          ))}
+          <div className="my-1 border-t border-zinc-200 dark:border-zinc-800" />
+          <button
+            onClick={copyMarkdown}
+            className="w-full flex items-center gap-2 text-left px-3 py-1.5 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 cursor-pointer"
+          >
+            Copy as Markdown
+            {copied && <Check className="w-3.5 h-3.5 ml-auto text-green-600 dark:text-green-500" />}
+          </button>
+          {DOWNLOADS.map(([format, label]) => (
+            <a
+              key={format}
+              href={exportUrl(format)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-3 py-1.5 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              Download {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionExportMenu;
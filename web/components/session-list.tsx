@@ -1,9 +1,10 @@
 import { useState, useMemo, memo, useRef, useEffect, useCallback } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { Trash2 } from "lucide-react";
-import type { Session, SessionSource } from "@claude-run-plus/api";
-import { formatTime } from "../utils";
+import type { Session, SessionSource, SourceInfo } from "@claude-run-plus/api";
+import { formatTime, IS_ARCHIVE, LOCAL_MACHINE, sessionQuery } from "../utils";
 import type { ClientSearchResult } from "../hooks/use-search-index";
+import { getSourceColor } from "../hooks/use-sources";
 
 interface ModelInfo {
   model: string;
@@ -25,40 +26,72 @@ function ModelBadge({ model }: { model: ModelInfo | null }) {
   );
 }
 
-const SOURCE_COLORS: Record<SessionSource, string> = {
-  claude: "bg-blue-500",
-  factory: "bg-emerald-500",
-  codex: "bg-orange-500",
-  pi: "bg-pink-500",
-};
-
-const SOURCES: Array<{ key: SessionSource | "all"; label: string }> = [
-  { key: "all", label: "All" },
-  { key: "claude", label: "Claude" },
-  { key: "factory", label: "Factory" },
-  { key: "codex", label: "Codex" },
-  { key: "pi", label: "Pi" },
-];
-
-function sessionKey(sessionId: string, source: SessionSource): string {
-  return `${source}:${sessionId}`;
+function sessionKey(sessionId: string, source: SessionSource, machine?: string): string {
+  return machine ? `${source}@${machine}:${sessionId}` : `${source}:${sessionId}`;
+}
+
+function MachineLabel({ machine }: { machine?: string }) {
+  if (!machine) return null;
+  return (
+    <span className="text-[9px] px-1 rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-500 shrink-0">{machine}</span>
+  );
+}
+
+// Response shape of /api/commits/:hash/sessions (api/git-commits.ts)
+interface CommitSessionsResponse {
+  commit: { shortHash: string; subject: string } | null;
+  sessions: Array<{ session: Session; matchedFiles: string[] }>;
+}
+
+const COMMIT_HASH = /^[0-9a-f]{7,40}$/i;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** The sessions a commit hash typed into search probably came out of, as search results. */
+async function searchCommitSessions(query: string, source: string | null, machine?: string | null): Promise<ClientSearchResult[]> {
+  if (IS_ARCHIVE || !COMMIT_HASH.test(query)) return [];
+  try {
+    const res = await fetch(`/api/commits/${query}/sessions`);
+    if (!res.ok) return [];
+    const { commit, sessions } = (await res.json()) as CommitSessionsResponse;
+    if (!commit) return [];
+    return sessions
+      .filter(({ session }) => (!source || session.source === source) && (!machine || (session.machine ?? LOCAL_MACHINE) === machine))
+      .map(({ session, matchedFiles }) => ({
+        sessionId: session.id,
+        source: session.source,
+        machine: session.machine,
+        display: session.display,
+        project: session.project,
+        snippet:
+          `<mark class="search-highlight">${escapeHtml(commit.shortHash)}</mark> ${escapeHtml(commit.subject)}` +
+          (matchedFiles.length > 0 ? ` · ${escapeHtml(matchedFiles.join(", "))}` : ""),
+        timestamp: session.timestamp,
+      }));
+  } catch {
+    return [];
+  }
 }
 
 interface SessionListProps {
   sessions: Session[];
   selectedSessionKey: string | null;
-  onSelectSession: (sessionId: string, source: SessionSource) => void;
-  onDeleteSession: (sessionId: string, source: SessionSource) => Promise<void>;
+  onSelectSession: (sessionId: string, source: SessionSource, machine?: string) => void;
+  onDeleteSession: (sessionId: string, source: SessionSource, machine?: string) => Promise<void>;
   loading?: boolean;
+  sources: SourceInfo[];
   selectedSource: SessionSource | null;
   onSelectSource: (source: SessionSource | null) => void;
+  selectedMachine?: string | null;
   onSearchQueryChange?: (query: string) => void;
-  searchFn: (query: string, source?: string | null) => Promise<ClientSearchResult[]>;
+  searchFn: (query: string, source?: string | null, machine?: string | null) => Promise<ClientSearchResult[]>;
   searchReady: boolean;
 }
 
 const SessionList = memo(function SessionList(props: SessionListProps) {
-  const { sessions, selectedSessionKey, onSelectSession, onDeleteSession, loading, selectedSource, onSelectSource, onSearchQueryChange, searchFn: clientSearch, searchReady } = props;
+  const { sessions, selectedSessionKey, onSelectSession, onDeleteSession, loading, sources, selectedSource, onSelectSource, selectedMachine, onSearchQueryChange, searchFn: clientSearch, searchReady } = props;
   const [search, setSearch] = useState("");
   const [highlightIdx, setHighlightIdx] = useState(-1);
   const [deletingSession, setDeletingSession] = useState<string | null>(null);
@@ -72,12 +105,22 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
 
   useEffect(() => {
     const pendingSessions = sessions.filter((s) => {
-      const key = sessionKey(s.id, s.source);
+      const key = sessionKey(s.id, s.source, s.machine);
       return !modelMap.has(key) && !pendingModelsRef.current.has(key);
     });
     if (pendingSessions.length === 0) return;
 
-    const keys = pendingSessions.map((s) => sessionKey(s.id, s.source));
+    // An archive lists each session with its model
+    if (IS_ARCHIVE) {
+      setModelMap((prev) => {
+        const next = new Map(prev);
+        for (const s of pendingSessions) next.set(sessionKey(s.id, s.source, s.machine), s.latestModel ?? null);
+        return next;
+      });
+      return;
+    }
+
+    const keys = pendingSessions.map((s) => sessionKey(s.id, s.source, s.machine));
 
     // Mark as pending to prevent duplicate concurrent requests
     for (const key of keys) pendingModelsRef.current.add(key);
@@ -90,9 +133,9 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
         const batch = pendingSessions.slice(i, i + 20);
         const results = await Promise.all(
           batch.map(async (session) => {
-            const key = sessionKey(session.id, session.source);
+            const key = sessionKey(session.id, session.source, session.machine);
             try {
-              const res = await fetch(`/api/session/${session.id}/model?source=${encodeURIComponent(session.source)}`);
+              const res = await fetch(`/api/session/${session.id}/model?${sessionQuery(session.source, session.machine)}`);
               const data: ModelInfo | null = await res.json();
               return [key, data] as const;
             } catch {
@@ -130,13 +173,22 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
     }
     const timer = setTimeout(() => {
       let cancelled = false;
-      clientSearch(search, selectedSource).then((results) => {
-        if (!cancelled) setSearchResults(results.length > 0 ? results : []);
+      Promise.all([
+        searchCommitSessions(search.trim(), selectedSource, selectedMachine),
+        clientSearch(search, selectedSource, selectedMachine),
+      ]).then(([commitResults, textResults]) => {
+        if (cancelled) return;
+        // Sessions behind a commit come first, without repeating them among text matches
+        const keys = new Set(commitResults.map((r) => sessionKey(r.sessionId, r.source as SessionSource, r.machine)));
+        setSearchResults([
+          ...commitResults,
+          ...textResults.filter((r) => !keys.has(sessionKey(r.sessionId, r.source as SessionSource, r.machine))),
+        ]);
       });
       // Note: cancelled is scoped to the timeout callback, cleanup below handles stale timers
     }, 200);
     return () => clearTimeout(timer);
-  }, [search, selectedSource, searchReady, clientSearch]);
+  }, [search, selectedSource, selectedMachine, searchReady, clientSearch]);
 
   useEffect(() => {
     onSearchQueryChange?.(search);
@@ -170,10 +222,10 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
   const selectAtIndex = useCallback((idx: number) => {
     if (showSearchResults && searchResults) {
       const r = searchResults[idx];
-      if (r) onSelectSession(r.sessionId, r.source as SessionSource);
+      if (r) onSelectSession(r.sessionId, r.source as SessionSource, r.machine);
     } else {
       const s = filteredSessions[idx];
-      if (s) onSelectSession(s.id, s.source);
+      if (s) onSelectSession(s.id, s.source, s.machine);
     }
   }, [showSearchResults, searchResults, filteredSessions, onSelectSession]);
 
@@ -224,14 +276,15 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
     return () => document.removeEventListener("keydown", handleGlobalKey);
   }, []);
 
-  const handleDeleteSession = useCallback(async (sessionId: string, source: SessionSource) => {
+  const handleDeleteSession = useCallback(async (sessionId: string, source: SessionSource, machine?: string) => {
     const confirmed = window.confirm("Delete this session permanently?");
     if (!confirmed) return;
-    setDeletingSession(sessionId);
+    const key = sessionKey(sessionId, source, machine);
+    setDeletingSession(key);
     try {
-      await onDeleteSession(sessionId, source);
+      await onDeleteSession(sessionId, source, machine);
     } finally {
-      setDeletingSession((prev) => (prev === sessionId ? null : prev));
+      setDeletingSession((prev) => (prev === key ? null : prev));
     }
   }, [onDeleteSession]);
 
@@ -245,10 +298,20 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
 
   const placeholder = searchReady ? "Search... (press /)" : "Indexing...";
 
+  const sourceFilters = useMemo(
+    () => [{ key: "all", label: "All" }, ...sources.map((s) => ({ key: s.id, label: s.label }))],
+    [sources],
+  );
+
+  const readOnlySources = useMemo(
+    () => new Set(sources.filter((s) => s.readOnly).map((s) => s.id)),
+    [sources],
+  );
+
   return (
     <div className="h-full overflow-hidden bg-white dark:bg-zinc-950 flex flex-col">
       <div className="flex px-3 py-2 gap-1 border-b border-zinc-200 dark:border-zinc-800/60">
-        {SOURCES.map(({ key, label }) => (
+        {sourceFilters.map(({ key, label }) => (
           <button
             key={key}
             onClick={() => onSelectSource(key === "all" ? null : key)}
@@ -341,31 +404,33 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
             <div className="divide-y divide-zinc-200/60 dark:divide-zinc-800/40">
               {searchResults!.map((result, idx) => {
                 const resultSource = (result.source as SessionSource) || "claude";
-                const deleting = deletingSession === result.sessionId;
+                const resultKey = sessionKey(result.sessionId, resultSource, result.machine);
+                const deleting = deletingSession === resultKey;
                 return (
                   <div
-                    key={`${result.source}:${result.sessionId}`}
+                    key={resultKey}
                     ref={(el) => setResultRef(idx, el)}
                     className={`group flex items-stretch ${
                       highlightIdx === idx
                         ? "bg-zinc-100 dark:bg-zinc-800"
-                        : selectedSessionKey === sessionKey(result.sessionId, resultSource)
+                        : selectedSessionKey === resultKey
                           ? "bg-cyan-100 dark:bg-cyan-700/30"
                           : "hover:bg-zinc-50 dark:hover:bg-zinc-900/60"
                     }`}
                   >
                     <button
-                      onClick={() => onSelectSession(result.sessionId, resultSource)}
+                      onClick={() => onSelectSession(result.sessionId, resultSource, result.machine)}
                       className="flex-1 px-3 py-3 text-left transition-colors"
                     >
                       <div className="flex items-center justify-between mb-1">
                         <div className="flex items-center gap-1.5 min-w-0">
-                          <span className={`inline-block w-1.5 h-1.5 rounded-full shrink-0 ${SOURCE_COLORS[resultSource] || "bg-zinc-400"}`} />
+                          <span className={`inline-block w-1.5 h-1.5 rounded-full shrink-0 ${getSourceColor(sources, resultSource)}`} />
                           <span className="text-[10px] text-zinc-500 font-medium truncate">
                             {result.project.split("/").pop() || result.project}
                           </span>
                           <span className="text-[10px] text-zinc-400 dark:text-zinc-600">·</span>
-                          <ModelBadge model={modelMap.get(sessionKey(result.sessionId, resultSource)) ?? null} />
+                          <ModelBadge model={modelMap.get(resultKey) ?? null} />
+                          <MachineLabel machine={result.machine} />
                         </div>
                         <span className="text-[10px] text-zinc-400 dark:text-zinc-600 shrink-0 ml-1">
                           {result.timestamp ? formatTime(result.timestamp) : ""}
@@ -379,18 +444,20 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
                         dangerouslySetInnerHTML={{ __html: result.snippet }}
                       />
                     </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        void handleDeleteSession(result.sessionId, resultSource);
-                      }}
-                      disabled={deleting}
-                      className="mr-2 my-2 p-1.5 self-start rounded text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition disabled:opacity-40"
-                      title="Delete session"
-                      aria-label="Delete session"
-                    >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </button>
+                    {!readOnlySources.has(resultSource) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          void handleDeleteSession(result.sessionId, resultSource, result.machine);
+                        }}
+                        disabled={deleting}
+                        className="mr-2 my-2 p-1.5 self-start rounded text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition disabled:opacity-40"
+                        title="Delete session"
+                        aria-label="Delete session"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
                   </div>
                 );
               })}
@@ -411,10 +478,11 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
             {virtualizer.getVirtualItems().map((virtualItem) => {
               const session = filteredSessions[virtualItem.index];
               const isHighlighted = highlightIdx === virtualItem.index;
-              const deleting = deletingSession === session.id;
+              const key = sessionKey(session.id, session.source, session.machine);
+              const deleting = deletingSession === key;
               return (
                 <div
-                  key={`${session.source}:${session.id}`}
+                  key={key}
                   data-index={virtualItem.index}
                   ref={virtualizer.measureElement}
                   style={{
@@ -427,23 +495,24 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
                   className={`group flex items-stretch overflow-hidden border-b border-zinc-200/60 dark:border-zinc-800/40 ${
                     isHighlighted
                       ? "bg-zinc-100 dark:bg-zinc-800"
-                      : selectedSessionKey === sessionKey(session.id, session.source)
+                      : selectedSessionKey === key
                         ? "bg-cyan-100 dark:bg-cyan-700/30"
                         : "hover:bg-zinc-50 dark:hover:bg-zinc-900/60"
                   } ${virtualItem.index === 0 ? "border-t border-t-zinc-200/60 dark:border-t-zinc-800/40" : ""}`}
                 >
                   <button
-                    onClick={() => onSelectSession(session.id, session.source)}
+                    onClick={() => onSelectSession(session.id, session.source, session.machine)}
                     className="flex-1 px-3 py-3.5 text-left transition-colors"
                   >
                     <div className="flex items-center justify-between mb-1">
                       <div className="flex items-center gap-1.5 min-w-0">
-                        <span className={`inline-block w-1.5 h-1.5 rounded-full shrink-0 ${SOURCE_COLORS[session.source]}`} />
+                        <span className={`inline-block w-1.5 h-1.5 rounded-full shrink-0 ${getSourceColor(sources, session.source)}`} />
                         <span className="text-[10px] text-zinc-500 font-medium truncate">
                           {session.projectName}
                         </span>
                         <span className="text-[10px] text-zinc-400 dark:text-zinc-600">·</span>
-                        <ModelBadge model={modelMap.get(sessionKey(session.id, session.source)) ?? null} />
+                        <ModelBadge model={modelMap.get(key) ?? null} />
+                        <MachineLabel machine={session.machine} />
                       </div>
                       <span className="text-[10px] text-zinc-400 dark:text-zinc-600 shrink-0 ml-1">
                         {formatTime(session.timestamp)}
@@ -453,18 +522,20 @@ const SessionList = memo(function SessionList(props: SessionListProps) {
                       {session.display}
                     </p>
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      void handleDeleteSession(session.id, session.source);
-                    }}
-                    disabled={deleting}
-                    className="mr-2 my-2 p-1.5 self-start rounded text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition disabled:opacity-40"
-                    title="Delete session"
-                    aria-label="Delete session"
-                  >
-                    <Trash2 className="w-3.5 h-3.5" />
-                  </button>
+                  {!readOnlySources.has(session.source) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void handleDeleteSession(session.id, session.source, session.machine);
+                      }}
+                      disabled={deleting}
+                      className="mr-2 my-2 p-1.5 self-start rounded text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition disabled:opacity-40"
+                      title="Delete session"
+                      aria-label="Delete session"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
                 </div>
               );
             })}
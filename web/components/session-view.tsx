@@ -1,9 +1,13 @@
-import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { Fragment, useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { ChevronUp, ChevronDown } from "lucide-react";
 import type { ConversationMessage, SessionSource } from "@claude-run-plus/api";
+import { resolveConversationPath } from "../../api/conversation-tree";
+import { archiveConversationPath } from "../../api/archive-layout";
+import BranchSwitcher from "./branch-switcher";
+import CompactionMarker from "./compaction-marker";
 import MessageBlock from "./message-block";
 import ScrollToBottomButton from "./scroll-to-bottom-button";
-import { sanitizeText } from "../utils";
+import { IS_ARCHIVE, sanitizeText, sessionQuery } from "../utils";
 
 const MAX_RETRIES = 10;
 const BASE_RETRY_DELAY_MS = 1000;
@@ -18,6 +22,7 @@ export interface SessionModelInfo {
 interface SessionViewProps {
   sessionId: string;
   source: SessionSource;
+  machine?: string;
   searchQuery?: string;
   onModelChange?: (info: SessionModelInfo | null) => void;
 }
@@ -76,9 +81,11 @@ function extractLatestModel(messages: ConversationMessage[]): SessionModelInfo |
 }
 
 function SessionView(props: SessionViewProps) {
-  const { sessionId, source, searchQuery, onModelChange } = props;
+  const { sessionId, source, machine, searchQuery, onModelChange } = props;
 
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  // First message of the chosen branch; unset follows the most recent one
+  const [branch, setBranch] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
   const [autoScroll, setAutoScroll] = useState(true);
   const [matchCount, setMatchCount] = useState(0);
@@ -95,6 +102,12 @@ function SessionView(props: SessionViewProps) {
   const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
 
+  const subagentUrl = useCallback(
+    (toolUseId: string) =>
+      `/api/conversation/${sessionId}/subagents/${encodeURIComponent(toolUseId)}?${sessionQuery(source, machine)}`,
+    [sessionId, source, machine],
+  );
+
   const searchWords = useMemo(() => {
     if (!searchQuery?.trim()) return [];
     return searchQuery.trim().toLowerCase().split(/\s+/);
@@ -104,20 +117,32 @@ function SessionView(props: SessionViewProps) {
     if (!mountedRef.current) return;
     if (eventSourceRef.current) eventSourceRef.current.close();
 
+    if (IS_ARCHIVE) {
+      fetch(archiveConversationPath(sessionId, source, machine))
+        .then((res) => res.json())
+        .then((data: ConversationMessage[]) => {
+          if (mountedRef.current) setMessages(data);
+        })
+        .catch(() => {})
+        .finally(() => setLoading(false));
+      return;
+    }
+
     const eventSource = new EventSource(
-      `/api/conversation/${sessionId}/stream?source=${encodeURIComponent(source)}&offset=${offsetRef.current}`
+      `/api/conversation/${sessionId}/stream?${sessionQuery(source, machine)}&offset=${offsetRef.current}`
     );
     eventSourceRef.current = eventSource;
 
     eventSource.addEventListener("messages", (event) => {
       retryCountRef.current = 0;
       const newMessages: ConversationMessage[] = JSON.parse(event.data);
+      // The event id is the byte offset to resume from after a reconnect
+      if (event.lastEventId) offsetRef.current = Number(event.lastEventId);
       setLoading(false);
       setMessages((prev) => {
         const existingIds = new Set(prev.map((m) => m.uuid).filter(Boolean));
         const unique = newMessages.filter((m) => !existingIds.has(m.uuid));
         if (unique.length === 0) return prev;
-        offsetRef.current += unique.length;
         return [...prev, ...unique];
       });
     });
@@ -132,7 +157,7 @@ function SessionView(props: SessionViewProps) {
         retryTimeoutRef.current = setTimeout(() => connect(), delay);
       }
     };
-  }, [sessionId, source]);
+  }, [sessionId, source, machine]);
 
   // Report latest model to parent whenever messages change
   useEffect(() => {
@@ -145,6 +170,7 @@ function SessionView(props: SessionViewProps) {
     mountedRef.current = true;
     setLoading(true);
     setMessages([]);
+    setBranch(undefined);
     setAutoScroll(!searchQuery?.trim());
     hasScrolledToMatchRef.current = false;
     offsetRef.current = 0;
@@ -279,9 +305,19 @@ function SessionView(props: SessionViewProps) {
     setAutoScroll(isAtBottom);
   };
 
-  const summary = messages.find((m) => m.type === "summary");
-  const conversationMessages = messages.filter(
-    (m) => m.type === "user" || m.type === "assistant"
+  // The stream carries every branch in file order; show one path through them
+  const { messages: pathMessages, branchPoints } = useMemo(
+    () => resolveConversationPath(messages, branch),
+    [messages, branch],
+  );
+  const branchPointAt = useMemo(
+    () => new Map(branchPoints.map((point) => [point.branches[point.activeIndex].uuid, point])),
+    [branchPoints],
+  );
+
+  const summary = pathMessages.find((m) => m.type === "summary");
+  const conversationMessages = pathMessages.filter(
+    (m) => m.type === "user" || m.type === "assistant" || m.type === "compaction"
   );
 
   if (loading) {
@@ -306,7 +342,7 @@ function SessionView(props: SessionViewProps) {
                 {summary.summary}
               </h2>
               <p className="mt-2 text-[11px] text-zinc-500">
-                {conversationMessages.length} messages
+                {conversationMessages.filter((m) => m.type !== "compaction").length} messages
               </p>
             </div>
           )}
@@ -315,20 +351,36 @@ function SessionView(props: SessionViewProps) {
             {conversationMessages.map((message, index) => {
               const isMatch = searchWords.length > 0 && messageMatchesQuery(message, searchWords);
               const isFirstMatch = isMatch && !conversationMessages.slice(0, index).some((m) => messageMatchesQuery(m, searchWords));
+              const branchPoint = message.uuid ? branchPointAt.get(message.uuid) : undefined;
+              const previous = conversationMessages[index - 1];
+              // A compaction summary is shown inside the marker before it
+              if (message.isCompactSummary && previous?.type === "compaction") return null;
+              const next = conversationMessages[index + 1];
               return (
-                <div
-                  key={message.uuid || index}
-                  ref={
-                    isFirstMatch
-                      ? firstMatchRef
-                      : index === conversationMessages.length - 1
-                        ? lastMessageRef
-                        : undefined
-                  }
-                  className={isMatch ? "ring-2 ring-orange-400 dark:ring-orange-500/60 rounded-2xl" : ""}
-                >
-                  <MessageBlock message={message} searchHighlight={searchWords} />
-                </div>
+                <Fragment key={message.uuid || index}>
+                  {branchPoint && <BranchSwitcher point={branchPoint} onSelect={setBranch} />}
+                  <div
+                    ref={
+                      isFirstMatch
+                        ? firstMatchRef
+                        : index === conversationMessages.length - 1
+                          ? lastMessageRef
+                          : undefined
+                    }
+                    className={isMatch ? "ring-2 ring-orange-400 dark:ring-orange-500/60 rounded-2xl" : ""}
+                  >
+                    {message.type === "compaction" ? (
+                      <CompactionMarker
+                        compaction={message.compaction}
+                        summary={message.compaction?.summary ?? (next?.isCompactSummary ? getMessageText(next) : undefined)}
+                      />
+                    ) : message.isCompactSummary ? (
+                      <CompactionMarker summary={getMessageText(message)} />
+                    ) : (
+                      <MessageBlock message={message} searchHighlight={searchWords} subagentUrl={IS_ARCHIVE ? undefined : subagentUrl} />
+                    )}
+                  </div>
+                </Fragment>
               );
             })}
           </div>
@@ -26,7 +26,7 @@ function getFileName(filePath: string) {
   return parts.slice(-2).join("/");
 }
 
-function parseDiff(diffText: string) {
+export function parseDiff(diffText: string) {
   const lines = diffText.split("\n");
   const result: Array<{ type: "add" | "remove" | "context" | "header"; content: string }> = [];
 
@@ -45,6 +45,56 @@ function parseDiff(diffText: string) {
   return result;
 }
 
+export type DiffLine = ReturnType<typeof parseDiff>[number];
+
+/** Colored unified diff lines, as used by the Edit renderer and the Changes tab. */
+export function DiffLines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <pre className="text-xs font-mono p-0">
+      {lines.map((line, index) => {
+        if (line.type === "header") {
+          return (
+            <div
+              key={index}
+              className="px-3 py-1 bg-blue-900/20 text-blue-300 border-y border-blue-900/30"
+            >
+              {line.content}
+            </div>
+          );
+        }
+        if (line.type === "add") {
+          return (
+            <div
+              key={index}
+              className="px-3 py-0.5 bg-emerald-900/20 text-emerald-300 border-l-2 border-emerald-500"
+            >
+              <span className="select-none text-emerald-600 mr-2">+</span>
+              {line.content || " "}
+            </div>
+          );
+        }
+        if (line.type === "remove") {
+          return (
+            <div
+              key={index}
+              className="px-3 py-0.5 bg-rose-900/20 text-rose-300 border-l-2 border-rose-500"
+            >
+              <span className="select-none text-rose-600 mr-2">-</span>
+              {line.content || " "}
+            </div>
+          );
+        }
+        return (
+          <div key={index} className="px-3 py-0.5 text-zinc-400">
+            <span className="select-none text-zinc-600 mr-2"> </span>
+            {line.content || " "}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
 export function EditRenderer(props: EditRendererProps) {
   const { input } = props;
 
@@ -87,48 +137,7 @@ export function EditRenderer(props: EditRendererProps) {
           </div>
         </div>
         <div className="overflow-x-auto max-h-80 overflow-y-auto">
-          <pre className="text-xs font-mono p-0">
-            {parsedLines.map((line, index) => {
-              if (line.type === "header") {
-                return (
-                  <div
-                    key={index}
-                    className="px-3 py-1 bg-blue-900/20 text-blue-300 border-y border-blue-900/30"
-                  >
-                    {line.content}
-                  </div>
-                );
-              }
-              if (line.type === "add") {
-                return (
-                  <div
-                    key={index}
-                    className="px-3 py-0.5 bg-emerald-900/20 text-emerald-300 border-l-2 border-emerald-500"
-                  >
-                    <span className="select-none text-emerald-600 mr-2">+</span>
-                    {line.content || " "}
-                  </div>
-                );
-              }
-              if (line.type === "remove") {
-                return (
-                  <div
-                    key={index}
-                    className="px-3 py-0.5 bg-rose-900/20 text-rose-300 border-l-2 border-rose-500"
-                  >
-                    <span className="select-none text-rose-600 mr-2">-</span>
-                    {line.content || " "}
-                  </div>
-                );
-              }
-              return (
-                <div key={index} className="px-3 py-0.5 text-zinc-400">
-                  <span className="select-none text-zinc-600 mr-2"> </span>
-                  {line.content || " "}
-                </div>
-              );
-            })}
-          </pre>
+          <DiffLines lines={parsedLines} />
         </div>
       </div>
     </div>
@@ -1,5 +1,5 @@
 export { TodoRenderer } from "./todo-renderer";
-export { EditRenderer, WriteRenderer } from "./edit-renderer";
+export { EditRenderer, WriteRenderer, DiffLines, parseDiff } from "./edit-renderer";
 export { BashRenderer, BashResultRenderer } from "./bash-renderer";
 export { GrepRenderer, GlobRenderer, SearchResultRenderer } from "./search-renderer";
 export { ReadRenderer, FileContentRenderer } from "./read-renderer";
@@ -8,12 +8,14 @@ interface EventHandler {
 interface UseEventSourceOptions {
   events: EventHandler[];
   onError?: () => void;
+  /** When false, no connection is made. */
+  enabled?: boolean;
   maxRetries?: number;
   baseDelay?: number;
 }
 
 export function useEventSource(url: string, options: UseEventSourceOptions) {
-  const { events, onError, maxRetries = 10, baseDelay = 1000 } = options;
+  const { events, onError, enabled = true, maxRetries = 10, baseDelay = 1000 } = options;
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const retryCountRef = useRef(0);
@@ -65,6 +67,7 @@ export function useEventSource(url: string, options: UseEventSourceOptions) {
   }, [url, onError, maxRetries, baseDelay]);
 
   useEffect(() => {
+    if (!enabled) return;
     mountedRef.current = true;
     connect();
 
@@ -79,5 +82,5 @@ export function useEventSource(url: string, options: UseEventSourceOptions) {
         eventSourceRef.current.close();
       }
     };
-  }, [connect]);
+  }, [connect, enabled]);
 }
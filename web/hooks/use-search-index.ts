@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import { ARCHIVE_FILES } from "../../api/archive-layout";
+import { IS_ARCHIVE } from "../utils";
 
 export interface SearchIndexEntry {
   id: string;
   source: string;
+  machine?: string;
   display: string;
   project: string;
   content: string;
@@ -12,6 +15,7 @@ export interface SearchIndexEntry {
 export interface ClientSearchResult {
   sessionId: string;
   source: string;
+  machine?: string;
   display: string;
   project: string;
   snippet: string;
@@ -52,10 +56,10 @@ export function useSearchIndex() {
     // Fetch index data on main thread (network), then send to worker for processing
     (async () => {
       try {
-        const res = await fetch("/api/search-index");
+        const res = await fetch(IS_ARCHIVE ? ARCHIVE_FILES.searchIndex : "/api/search-index");
         const data: SearchIndexEntry[] = await res.json();
         if (cancelled) return;
-        worker.postMessage({ type: "init", entries: data });
+        worker.postMessage({ type: "init", entries: data, bundledWasm: IS_ARCHIVE });
       } catch (err) {
         console.error("Search index fetch failed:", err);
       }
@@ -69,7 +73,11 @@ export function useSearchIndex() {
     };
   }, []);
 
-  const search = useCallback(async (query: string, source?: string | null): Promise<ClientSearchResult[]> => {
+  const search = useCallback(async (
+    query: string,
+    source?: string | null,
+    machine?: string | null,
+  ): Promise<ClientSearchResult[]> => {
     const worker = workerRef.current;
     if (!worker || !query.trim()) return [];
 
@@ -85,7 +93,7 @@ export function useSearchIndex() {
       }
 
       pendingSearches.current.set(id, resolve);
-      worker.postMessage({ type: "search", id, query, source });
+      worker.postMessage({ type: "search", id, query, source, machine });
 
       // Safety timeout — don't hang forever
       setTimeout(() => {
@@ -104,10 +112,10 @@ export function useSearchIndex() {
     }
   }, []);
 
-  const removeEntry = useCallback((sessionId: string, source: string) => {
+  const removeEntry = useCallback((sessionId: string, source: string, machine?: string) => {
     const worker = workerRef.current;
     if (worker) {
-      worker.postMessage({ type: "remove", sessionId, source });
+      worker.postMessage({ type: "remove", sessionId, source, machine });
     }
   }, []);
 
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import type { SourceInfo } from "@claude-run-plus/api";
+import { ARCHIVE_FILES } from "../../api/archive-layout";
+import { IS_ARCHIVE } from "../utils";
+
+let sourcesPromise: Promise<SourceInfo[]> | null = null;
+
+async function fetchSources(retries = 3): Promise<SourceInfo[]> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const res = await fetch(IS_ARCHIVE ? ARCHIVE_FILES.sources : "/api/sources");
+      return await res.json();
+    } catch {
+      if (i < retries - 1) await new Promise((r) => setTimeout(r, 1000));
+    }
+  }
+  sourcesPromise = null;
+  return [];
+}
+
+export function useSources(): SourceInfo[] {
+  const [sources, setSources] = useState<SourceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    sourcesPromise ??= fetchSources();
+    sourcesPromise.then((data) => {
+      if (!cancelled) setSources(data);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return sources;
+}
+
+export function getSourceColor(sources: SourceInfo[], source: string): string {
+  return sources.find((s) => s.id === source)?.color || "bg-zinc-400";
+}
+
+export function getResumeCommand(sources: SourceInfo[], source: string, sessionId: string): string {
+  const template = sources.find((s) => s.id === source)?.resumeCommand;
+  return template ? template.replace(/\{sessionId\}/g, sessionId) : sessionId;
+}
@@ -33,21 +33,19 @@ export function formatTime(timestamp: number): string {
   return `${day}/${month}/${date.getFullYear()} ${hours}:${mins}`;
 }
 
-const SANITIZE_PATTERNS = [
-  /<command-name>[^<]*<\/command-name>/g,
-  /<command-message>[^<]*<\/command-message>/g,
-  /<command-args>[^<]*<\/command-args>/g,
-  /<local-command-stdout>[^<]*<\/local-command-stdout>/g,
-  /<local-command-caveat>[\s\S]*?<\/local-command-caveat>/g,
-  /<system-reminder>[\s\S]*?<\/system-reminder>/g,
-  /<system-notification>[\s\S]*?<\/system-notification>/g,
-  /^\s*Caveat:.*?unless the user explicitly asks you to\./s,
-];
-
-export function sanitizeText(text: string): string {
-  let result = text;
-  for (const pattern of SANITIZE_PATTERNS) {
-    result = result.replace(pattern, "");
-  }
-  return result.trim();
+import { ARCHIVE_FLAG } from "../api/archive-layout";
+
+export { sanitizeText } from "../api/sanitize";
+
+/** Running from a static copy written by `claude-run-plus export-site`, with no server behind it. */
+export const IS_ARCHIVE = (globalThis as Record<string, unknown>)[ARCHIVE_FLAG] === true;
+
+/** Machine filter value for sessions from the local (unlabeled) roots. */
+export const LOCAL_MACHINE = "local";
+
+/** Query string identifying a session's source and, for synced roots, its machine. */
+export function sessionQuery(source: string, machine?: string): string {
+  const params = new URLSearchParams({ source });
+  if (machine) params.set("machine", machine);
+  return params.toString();
 }
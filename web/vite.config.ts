@@ -8,7 +8,8 @@ const API_PORT = process.env.API_PORT || "12001";
 export default defineConfig({
   plugins: [react(), tailwindcss()],
   root: resolve(__dirname),
-  base: "/",
+  // Relative, so an export-site archive works from any directory
+  base: "./",
   resolve: {
     alias: {
       "@claude-run-plus/api": resolve(__dirname, "../api/storage.ts"),
@@ -1,11 +1,13 @@
 import { initSQLite, useMemoryStorage } from "@subframe7536/sqlite-wasm";
 import { FTS_TOKENIZER, buildFtsQuery, rerankSearchRows } from "../hooks/search-ranking";
+import { LOCAL_MACHINE } from "../utils";
 
 // --- Types ---
 
 interface SearchIndexEntry {
   id: string;
   source: string;
+  machine?: string;
   display: string;
   project: string;
   content: string;
@@ -15,6 +17,7 @@ interface SearchIndexEntry {
 interface ClientSearchResult {
   sessionId: string;
   source: string;
+  machine?: string;
   display: string;
   project: string;
   snippet: string;
@@ -26,10 +29,10 @@ type RunFn = (sql: string, params?: (string | number | null)[]) => Promise<Recor
 // --- Worker messages ---
 
 type IncomingMessage =
-  | { type: "init"; entries: SearchIndexEntry[] }
-  | { type: "search"; id: number; query: string; source?: string | null }
+  | { type: "init"; entries: SearchIndexEntry[]; bundledWasm?: boolean }
+  | { type: "search"; id: number; query: string; source?: string | null; machine?: string | null }
   | { type: "upsert"; entry: SearchIndexEntry }
-  | { type: "remove"; sessionId: string; source: string };
+  | { type: "remove"; sessionId: string; source: string; machine?: string };
 
 type OutgoingMessage =
   | { type: "ready" }
@@ -42,8 +45,10 @@ const WASM_URL = "https://cdn.jsdelivr.net/gh/subframe7536/sqlite-wasm@v0.5.0/wa
 
 let run: RunFn | null = null;
 
-async function initDb(): Promise<RunFn> {
-  const { run: runFn } = await initSQLite(useMemoryStorage({ url: WASM_URL }));
+async function initDb(bundledWasm: boolean): Promise<RunFn> {
+  // Without a url the library loads the wasm Vite emits next to this worker,
+  // which static archives carry so search works offline
+  const { run: runFn } = await initSQLite(useMemoryStorage(bundledWasm ? {} : { url: WASM_URL }));
 
   await runFn(`
     CREATE VIRTUAL TABLE IF NOT EXISTS sessions_fts USING fts5(
@@ -53,6 +58,7 @@ async function initDb(): Promise<RunFn> {
       project,
       content,
       session_timestamp UNINDEXED,
+      machine UNINDEXED,
       tokenize='${FTS_TOKENIZER}'
     )
   `);
@@ -66,8 +72,8 @@ async function populateIndex(runFn: RunFn, entries: SearchIndexEntry[]): Promise
   try {
     for (const e of entries) {
       await runFn(
-        "INSERT INTO sessions_fts (session_id, source, display, project, content, session_timestamp) VALUES (?, ?, ?, ?, ?, ?)",
-        [e.id, e.source, e.display, e.project, e.content, e.timestamp]
+        "INSERT INTO sessions_fts (session_id, source, display, project, content, session_timestamp, machine) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [e.id, e.source, e.display, e.project, e.content, e.timestamp, e.machine ?? ""]
       );
     }
     await runFn("COMMIT");
@@ -78,18 +84,23 @@ async function populateIndex(runFn: RunFn, entries: SearchIndexEntry[]): Promise
 }
 
 async function upsertEntry(runFn: RunFn, e: SearchIndexEntry): Promise<void> {
-  await runFn("DELETE FROM sessions_fts WHERE session_id = ? AND source = ?", [e.id, e.source]);
+  await runFn("DELETE FROM sessions_fts WHERE session_id = ? AND source = ? AND machine = ?", [e.id, e.source, e.machine ?? ""]);
   await runFn(
-    "INSERT INTO sessions_fts (session_id, source, display, project, content, session_timestamp) VALUES (?, ?, ?, ?, ?, ?)",
-    [e.id, e.source, e.display, e.project, e.content, e.timestamp]
+    "INSERT INTO sessions_fts (session_id, source, display, project, content, session_timestamp, machine) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [e.id, e.source, e.display, e.project, e.content, e.timestamp, e.machine ?? ""]
   );
 }
 
-async function removeEntry(runFn: RunFn, sessionId: string, source: string): Promise<void> {
-  await runFn("DELETE FROM sessions_fts WHERE session_id = ? AND source = ?", [sessionId, source]);
+async function removeEntry(runFn: RunFn, sessionId: string, source: string, machine?: string): Promise<void> {
+  await runFn("DELETE FROM sessions_fts WHERE session_id = ? AND source = ? AND machine = ?", [sessionId, source, machine ?? ""]);
 }
 
-async function searchIndex(runFn: RunFn, query: string, source?: string | null): Promise<ClientSearchResult[]> {
+async function searchIndex(
+  runFn: RunFn,
+  query: string,
+  source?: string | null,
+  machine?: string | null,
+): Promise<ClientSearchResult[]> {
   if (!query.trim()) return [];
 
   const ftsQuery = buildFtsQuery(query);
@@ -98,11 +109,12 @@ async function searchIndex(runFn: RunFn, query: string, source?: string | null):
     SELECT
       session_id as sessionId,
       source,
+      machine,
       display,
       project,
       snippet(sessions_fts, -1, '<mark class="search-highlight">', '</mark>', '...', 24) as snippet,
       CAST(session_timestamp AS TEXT) as timestamp,
-      bm25(sessions_fts, 0, 0, 5.0, 3.0, 10.0, 0) as rank
+      bm25(sessions_fts, 0, 0, 5.0, 3.0, 10.0, 0, 0) as rank
     FROM sessions_fts
     WHERE sessions_fts MATCH ?
   `;
@@ -113,6 +125,11 @@ async function searchIndex(runFn: RunFn, query: string, source?: string | null):
     params.push(source);
   }
 
+  if (machine) {
+    sql += " AND machine = ?";
+    params.push(machine === LOCAL_MACHINE ? "" : machine);
+  }
+
   sql += " ORDER BY rank LIMIT 120";
 
   try {
@@ -120,6 +137,7 @@ async function searchIndex(runFn: RunFn, query: string, source?: string | null):
     const rankedRows = rows.map((r) => ({
       sessionId: String(r.sessionId),
       source: String(r.source),
+      ...(r.machine ? { machine: String(r.machine) } : {}),
       display: String(r.display),
       project: String(r.project),
       snippet: String(r.snippet),
@@ -144,7 +162,7 @@ self.onmessage = async (event: MessageEvent<IncomingMessage>) => {
   try {
     switch (msg.type) {
       case "init": {
-        run = await initDb();
+        run = await initDb(msg.bundledWasm === true);
         await populateIndex(run, msg.entries);
         (self as unknown as Worker).postMessage({ type: "ready" } satisfies OutgoingMessage);
         break;
@@ -155,7 +173,7 @@ self.onmessage = async (event: MessageEvent<IncomingMessage>) => {
           (self as unknown as Worker).postMessage({ type: "results", id: msg.id, results: [] } satisfies OutgoingMessage);
           return;
         }
-        const results = await searchIndex(run, msg.query, msg.source);
+        const results = await searchIndex(run, msg.query, msg.source, msg.machine);
         (self as unknown as Worker).postMessage({ type: "results", id: msg.id, results } satisfies OutgoingMessage);
         break;
       }
@@ -169,7 +187,7 @@ self.onmessage = async (event: MessageEvent<IncomingMessage>) => {
 
       case "remove": {
         if (run) {
-          await removeEntry(run, msg.sessionId, msg.source);
+          await removeEntry(run, msg.sessionId, msg.source, msg.machine);
         }
         break;
       }